@@ -6,7 +6,7 @@
  * to survive service worker restarts.
  */
 
-import type { ExtensionMessage, RecordedStep } from './types';
+import type { ExtensionMessage, RecordedStep, StepChanges, NetworkRequestEntry } from './types';
 import type { SuccessSnapshot, SuccessState } from './lib/steps';
 import {
   getRecordingState,
@@ -16,6 +16,7 @@ import {
   addRecordedStep,
   clearRecordedSteps,
   getRecordedSteps,
+  setRecordedSteps,
   updateStepTxStatus,
 } from './lib/storage';
 import {
@@ -25,6 +26,10 @@ import {
   getActiveTrackingCount,
 } from './lib/tx-tracker';
 import { isChainSupported } from './lib/rpc-config';
+import { processUploadQueue, removeUpload } from './lib/upload-queue';
+import type { UploadResult } from './lib/api-client';
+
+const UPLOAD_QUEUE_ALARM = 'upload-queue';
 
 console.log('Web3 Test Recorder: Service worker initialized');
 
@@ -73,12 +78,30 @@ async function handleMessage(
     case 'GET_RECORDING_STATE':
       return handleGetRecordingState();
 
+    case 'PAUSE_RECORDING':
+      return handleSetPaused(true);
+
+    case 'RESUME_RECORDING':
+      return handleSetPaused(false);
+
+    case 'SET_ASSERT_MODE':
+      return handleSetAssertMode(message.enabled);
+
     case 'GET_RECORDED_STEPS':
       return handleGetRecordedSteps();
 
     case 'DELETE_STEP':
       return handleDeleteStep(message.index);
 
+    case 'UPDATE_STEP':
+      return handleUpdateStep(message.index, message.changes);
+
+    case 'MOVE_STEP':
+      return handleMoveStep(message.from, message.to);
+
+    case 'ADD_STEP':
+      return handleAddStep(message.step, message.index);
+
     case 'CLEAR_RECORDING':
       return handleClearRecording();
 
@@ -101,6 +124,9 @@ async function handleMessage(
     case 'CONSOLE_LOG':
       return handleConsoleLog(message as unknown as { level: string; args: string[]; timestamp: number });
 
+    case 'NETWORK_REQUEST':
+      return handleNetworkRequest(message.entry);
+
     case 'WALLET_STATE_DETECTED':
       return handleWalletStateDetected(
         (message as { sessionId: string; walletConnected: boolean; walletAddress: string | null }).sessionId,
@@ -114,6 +140,13 @@ async function handleMessage(
     case 'GET_SUCCESS_STATE':
       return handleGetSuccessState();
 
+    case 'PROCESS_UPLOAD_QUEUE':
+      return handleProcessUploadQueue(message.uploadId);
+
+    case 'REMOVE_UPLOAD':
+      await removeUpload(message.uploadId);
+      return { success: true };
+
     default:
       console.warn('Unknown message type:', message);
       return { success: false, error: 'Unknown message type' };
@@ -131,8 +164,9 @@ async function handleStartRecording(
     // Generate unique session ID
     const sessionId = crypto.randomUUID();
 
-    // Clear any previous recorded steps
+    // Clear any previous recorded steps and network requests
     await clearRecordedSteps();
+    await chrome.storage.session.set({ networkRequests: [] });
 
     // Set recording state
     await setRecordingState({
@@ -142,6 +176,7 @@ async function handleStartRecording(
       startTime: Date.now(),
       startUrl: url,
       stepCount: 0,
+      isPaused: false,
     });
 
     // Set badge on tab
@@ -162,7 +197,7 @@ async function handleStartRecording(
       // Content script not ready - try to inject it programmatically
       try {
         await chrome.scripting.executeScript({
-          target: { tabId },
+          target: { tabId, allFrames: true },
           files: ['content.js'],
         });
 
@@ -239,6 +274,7 @@ async function handleStopRecording(): Promise<{ success: boolean; error?: string
     // Stop recording but preserve startUrl/startTime so the preview/upload can use them
     await setRecordingState({
       isRecording: false,
+      isPaused: false,
       sessionId: null,
       tabId: null,
       stepCount: state.stepCount,
@@ -283,6 +319,69 @@ async function handleStopRecording(): Promise<{ success: boolean; error?: string
   }
 }
 
+/**
+ * Pause or resume the current recording.
+ * While paused, captured steps are dropped so setup work (funding a wallet,
+ * dismissing an unrelated modal) stays out of the test.
+ */
+async function handleSetPaused(isPaused: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    const state = await getRecordingState();
+    if (!state.isRecording) {
+      return { success: false, error: 'Not recording' };
+    }
+
+    await setRecordingState({ isPaused });
+
+    if (state.tabId) {
+      try {
+        await chrome.action.setBadgeText({ tabId: state.tabId, text: isPaused ? 'II' : 'REC' });
+        await chrome.action.setBadgeBackgroundColor({ tabId: state.tabId, color: isPaused ? '#F59E0B' : '#FF0000' });
+      } catch {
+        // Tab might be closed
+      }
+    }
+
+    console.log(`[Background] Recording ${isPaused ? 'paused' : 'resumed'}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update pause state:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Turn assert mode on or off in every frame of the recording tab.
+ * In assert mode, clicking an element opens the content script's assertion panel
+ * instead of recording a click.
+ */
+async function handleSetAssertMode(enabled: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    const state = await getRecordingState();
+    if (!state.isRecording || !state.tabId) {
+      return { success: false, error: 'Not recording' };
+    }
+
+    await chrome.tabs.sendMessage(state.tabId, {
+      type: 'ASSERT_MODE_TAB',
+      enabled,
+      timestamp: Date.now(),
+    });
+
+    console.log(`[Background] Assert mode ${enabled ? 'on' : 'off'} for tab`, state.tabId);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to set assert mode:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Get current recording state
  */
@@ -354,6 +453,93 @@ async function handleDeleteStep(index: number): Promise<{
   }
 }
 
+/**
+ * Edit a step's value, comment or assertion from the popup step list
+ */
+async function handleUpdateStep(index: number, changes: StepChanges): Promise<{
+  success: boolean;
+  step?: RecordedStep;
+  error?: string;
+}> {
+  try {
+    const steps = await getRecordedSteps();
+    if (index < 0 || index >= steps.length) {
+      return { success: false, error: 'Invalid step index' };
+    }
+
+    const step = { ...steps[index] };
+    if (changes.value !== undefined) step.value = changes.value;
+    if (changes.comment !== undefined) {
+      // An emptied comment field removes the comment
+      if (changes.comment.trim()) step.comment = changes.comment.trim();
+      else delete step.comment;
+    }
+    if (changes.assertion !== undefined) step.assertion = changes.assertion;
+
+    steps[index] = step;
+    await setRecordedSteps(steps);
+    console.log(`[Background] Updated step at index ${index}`);
+    return { success: true, step };
+  } catch (error) {
+    console.error('Failed to update step:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Move a step to a new position in the list
+ */
+async function handleMoveStep(from: number, to: number): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const steps = await getRecordedSteps();
+    if (from < 0 || from >= steps.length || to < 0 || to >= steps.length) {
+      return { success: false, error: 'Invalid step index' };
+    }
+
+    const [step] = steps.splice(from, 1);
+    steps.splice(to, 0, step);
+    await setRecordedSteps(steps);
+    console.log(`[Background] Moved step from index ${from} to ${to}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to move step:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Insert a manually created step (e.g. an assertion) at index, or append it
+ */
+async function handleAddStep(step: RecordedStep, index?: number): Promise<{
+  success: boolean;
+  stepCount?: number;
+  error?: string;
+}> {
+  try {
+    const steps = await getRecordedSteps();
+    const position = index === undefined ? steps.length : Math.max(0, Math.min(index, steps.length));
+    steps.splice(position, 0, step);
+    await setRecordedSteps(steps);
+    console.log(`[Background] Added ${step.type} step at index ${position}`);
+    return { success: true, stepCount: steps.length };
+  } catch (error) {
+    console.error('Failed to add step:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Clear all recording data
  */
@@ -364,6 +550,7 @@ async function handleClearRecording(): Promise<{
   try {
     await clearRecordingState();
     await clearRecordedSteps();
+    await chrome.storage.session.set({ networkRequests: [] });
     await chrome.storage.session.remove('successState');
     console.log('[Background] Recording cleared');
     return { success: true };
@@ -405,6 +592,39 @@ async function getCurrentChainId(): Promise<number | null> {
   return 1;
 }
 
+/**
+ * Toggle redaction blur in every frame of a tab and wait for all of them
+ * A plain tabs.sendMessage resolves on the first frame's reply, so iframes could
+ * still be unblurred when the screenshot is taken.
+ */
+async function setRedactionBlur(tabId: number, enabled: boolean): Promise<void> {
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }).catch(() => null);
+  const frameIds = frames?.map((frame) => frame.frameId) ?? [0];
+
+  await Promise.all(frameIds.map((frameId) =>
+    chrome.tabs.sendMessage(tabId, { type: 'REDACTION_BLUR_TAB', enabled, timestamp: Date.now() }, { frameId })
+      // Content script not reachable in this frame — nothing to blur
+      .catch(() => {})
+  ));
+}
+
+/**
+ * Capture the visible tab (JPEG for smaller size) with sensitive elements blurred
+ * by the page's redaction rules
+ */
+async function captureRedactedScreenshot(tabId: number): Promise<string> {
+  await setRedactionBlur(tabId, true);
+
+  try {
+    return await chrome.tabs.captureVisibleTab(
+      undefined as unknown as number, // current window
+      { format: 'jpeg', quality: 40 }
+    );
+  } finally {
+    await setRedactionBlur(tabId, false);
+  }
+}
+
 /**
  * Handle captured step from content script
  */
@@ -421,14 +641,16 @@ async function handleStepCaptured(
       return { success: false, error: 'Session mismatch' };
     }
 
-    // Capture screenshot after click and web3 steps (JPEG for smaller size)
-    if ((step.type === 'click' || step.type === 'web3') && state.tabId) {
+    // Drop steps while paused — the content script keeps listening so resume is instant.
+    // Assertions are explicit user choices, so they are kept.
+    if (state.isPaused && step.type !== 'assert') {
+      return { success: true, stepCount: state.stepCount };
+    }
+
+    // Capture screenshot after click, drag and web3 steps (JPEG for smaller size)
+    if ((step.type === 'click' || step.type === 'drag' || step.type === 'web3') && state.tabId) {
       try {
-        const dataUrl = await chrome.tabs.captureVisibleTab(
-          undefined as unknown as number, // current window
-          { format: 'jpeg', quality: 40 }
-        );
-        step.screenshot = dataUrl;
+        step.screenshot = await captureRedactedScreenshot(state.tabId);
       } catch (screenshotErr) {
         // Don't fail the step if screenshot fails (e.g., tab not focused)
         console.warn('[Background] Screenshot capture failed:', screenshotErr);
@@ -515,6 +737,33 @@ async function handleConsoleLog(
   }
 }
 
+/**
+ * Handle a page network request from content script
+ * Stores in session storage under 'networkRequests' key (capped at 300 entries)
+ */
+async function handleNetworkRequest(entry: NetworkRequestEntry): Promise<{ success: boolean }> {
+  try {
+    const state = await getRecordingState();
+    if (!state.isRecording || state.isPaused) {
+      return { success: true };
+    }
+
+    const result = await chrome.storage.session.get('networkRequests');
+    const requests: NetworkRequestEntry[] = result.networkRequests || [];
+    requests.push(entry);
+
+    // Cap at 300 entries
+    if (requests.length > 300) {
+      requests.splice(0, requests.length - 300);
+    }
+
+    await chrome.storage.session.set({ networkRequests: requests });
+    return { success: true };
+  } catch {
+    return { success: true }; // Don't fail on network capture errors
+  }
+}
+
 /**
  * Handle wallet state detection from content script
  */
@@ -587,10 +836,7 @@ async function captureSnapshotFromTab(tabId: number): Promise<SuccessSnapshot |
     // Capture screenshot (JPEG for smaller size)
     let screenshot: string | undefined;
     try {
-      screenshot = await chrome.tabs.captureVisibleTab(
-        undefined as unknown as number,
-        { format: 'jpeg', quality: 40 }
-      );
+      screenshot = await captureRedactedScreenshot(tabId);
     } catch (err) {
       console.warn('[Background] Screenshot capture failed:', err);
     }
@@ -649,6 +895,29 @@ async function handleGetSuccessState(): Promise<{ success: boolean; successState
   return { success: true, successState };
 }
 
+/**
+ * Handle PROCESS_UPLOAD_QUEUE from popup
+ * Runs in the service worker so uploads continue after the popup closes
+ */
+async function handleProcessUploadQueue(uploadId?: string): Promise<{
+  success: boolean;
+  result?: UploadResult;
+}> {
+  const result = await processUploadQueue(uploadId);
+  return { success: true, result };
+}
+
+// Retry queued uploads periodically - registered synchronously at top level
+chrome.alarms.create(UPLOAD_QUEUE_ALARM, { periodInMinutes: 1 });
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === UPLOAD_QUEUE_ALARM) {
+    processUploadQueue().catch((error) => {
+      console.error('[Background] Upload queue run failed:', error);
+    });
+  }
+});
+
 // Handle extension installation - registered synchronously at top level
 chrome.runtime.onInstalled.addListener((details) => {
   console.log('Extension installed/updated:', details.reason);
@@ -677,8 +946,8 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
     // Re-apply badge and re-send recording state if this tab is being recorded
     const state = await getRecordingState();
     if (state.isRecording && state.tabId === tabId && state.sessionId) {
-      await chrome.action.setBadgeText({ tabId, text: 'REC' });
-      await chrome.action.setBadgeBackgroundColor({ tabId, color: '#FF0000' });
+      await chrome.action.setBadgeText({ tabId, text: state.isPaused ? 'II' : 'REC' });
+      await chrome.action.setBadgeBackgroundColor({ tabId, color: state.isPaused ? '#F59E0B' : '#FF0000' });
 
       // Re-notify content script (it reloads on navigation)
       try {
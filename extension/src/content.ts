@@ -3,9 +3,11 @@
  * Injected into all pages at document_start
  */
 
-import type { ExtensionMessage, RecordedStep } from './types';
+import type { ExtensionMessage, RecordedStep, NetworkRequestEntry } from './types';
 import { initWeb3Detection, stopWeb3Detection } from './lib/web3-detector';
-import { initEventCapture, stopEventCapture, capturePageState } from './lib/event-capture';
+import { initEventCapture, stopEventCapture, capturePageState, getLastCapturedStep } from './lib/event-capture';
+import { enterAssertMode, stopAssertMode } from './lib/assert-capture';
+import { applyScreenshotBlur, clearScreenshotBlur, redactText } from './lib/redaction';
 
 console.log('Web3 Test Recorder: Content script loaded on', window.location.href);
 
@@ -38,6 +40,36 @@ function handleStepCaptured(step: RecordedStep): void {
   );
 }
 
+// Requests starting this long after a step are not attributed to it
+const NETWORK_LINK_WINDOW_MS = 5000;
+
+/**
+ * Handle a network request from the page - link it to the step that triggered it
+ * and send to background
+ */
+function handleNetworkRequest(entry: NetworkRequestEntry): void {
+  if (!isRecording || !sessionId) {
+    return;
+  }
+
+  const lastStep = getLastCapturedStep();
+  if (lastStep && entry.startTime >= lastStep.timestamp && entry.startTime - lastStep.timestamp <= NETWORK_LINK_WINDOW_MS) {
+    entry.stepId = lastStep.id;
+  }
+
+  // Bodies can carry emails, tokens and form contents
+  if (entry.requestBody) entry.requestBody = redactText(entry.requestBody);
+  if (entry.responseBody) entry.responseBody = redactText(entry.responseBody);
+
+  chrome.runtime.sendMessage({
+    type: 'NETWORK_REQUEST',
+    entry,
+    timestamp: Date.now(),
+  }).catch(() => {
+    // Background may be restarting - network capture is best-effort
+  });
+}
+
 /**
  * Detect if wallet is already connected
  * Looks for 0x addresses in the page and checks ethereum provider
@@ -139,7 +171,7 @@ function startRecording(newSessionId: string): void {
   initConsoleCapture();
 
   // Initialize Web3 detection
-  initWeb3Detection(sessionId, handleStepCaptured);
+  initWeb3Detection(sessionId, handleStepCaptured, handleNetworkRequest);
 
   // Initialize DOM event capture
   initEventCapture(sessionId);
@@ -164,6 +196,9 @@ function stopRecording(): void {
   // Stop DOM event capture
   stopEventCapture();
 
+  // Leave assert mode if it was on
+  stopAssertMode();
+
   isRecording = false;
   sessionId = null;
 }
@@ -189,6 +224,29 @@ function handleMessage(
       sendResponse({ success: true });
       break;
 
+    case 'ASSERT_MODE_TAB':
+      if (message.enabled && isRecording) {
+        // Leaving from the page (Escape, Cancel, assertion recorded) turns it off in every frame
+        enterAssertMode(() => {
+          chrome.runtime.sendMessage({ type: 'SET_ASSERT_MODE', enabled: false, timestamp: Date.now() }).catch(() => {});
+        });
+      } else {
+        stopAssertMode();
+      }
+      sendResponse({ success: true });
+      break;
+
+    case 'REDACTION_BLUR_TAB':
+      if (message.enabled) {
+        const blurred = applyScreenshotBlur();
+        // Let the filter paint before the background captures the tab
+        requestAnimationFrame(() => requestAnimationFrame(() => sendResponse({ success: true, blurred })));
+      } else {
+        clearScreenshotBlur();
+        sendResponse({ success: true });
+      }
+      break;
+
     case 'CAPTURE_PAGE_STATE':
       try {
         const pageState = capturePageState();
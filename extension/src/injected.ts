@@ -5,6 +5,8 @@
  * Communication:
  * - Receives: SET_RECORDING messages from content script
  * - Sends: WEB3_REQUEST/WEB3_RESPONSE messages to content script
+ * - Sends: WEB3_EVENT messages for wallet-side accountsChanged/chainChanged/disconnect
+ * - Sends: NETWORK_REQUEST messages for the page's fetch/XHR/WebSocket traffic
  */
 
 // Recording state - controlled by content script messages
@@ -61,6 +63,54 @@ interface Web3ResponseMessage {
   timestamp: number;
 }
 
+type ProviderEventName = 'accountsChanged' | 'chainChanged' | 'disconnect';
+
+interface Web3EventMessage {
+  type: 'WEB3_EVENT';
+  event: ProviderEventName;
+  before: unknown;
+  after: unknown;
+  timestamp: number;
+  providerInfo?: EIP6963ProviderInfo;
+}
+
+// Last accounts/chain seen per provider — the "before" value of the next event
+interface ProviderSnapshot {
+  accounts?: string[];
+  chainId?: string;
+}
+
+const providerSnapshots = new WeakMap<EthereumProvider, ProviderSnapshot>();
+
+// Providers whose events we already subscribed to
+const subscribedProviders = new WeakSet<EthereumProvider>();
+
+interface NetworkRequestMessage {
+  type: 'NETWORK_REQUEST';
+  entry: {
+    id: string;
+    kind: 'fetch' | 'xhr' | 'websocket';
+    method: string;
+    url: string;
+    status?: number;
+    startTime: number;
+    durationMs?: number;
+    rpcMethod?: string;
+    requestBody?: string;
+    responseBody?: string;
+    error?: string;
+  };
+}
+
+// Request/response bodies are cut to this many characters
+const MAX_BODY_LENGTH = 2000;
+
+// Block/chain polling JSON-RPC calls — recorded every few seconds, never what a step triggered
+const POLLING_RPC_METHODS = new Set(['eth_blockNumber', 'eth_chainId', 'net_version', 'eth_getBlockByNumber']);
+
+// XHR method/url from open(), read again in send()
+const xhrRequests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
 /**
  * Generate unique ID for request/response correlation
  */
@@ -71,10 +121,96 @@ function generateId(): string {
 /**
  * Send message to content script
  */
-function sendToContentScript(message: Web3RequestMessage | Web3ResponseMessage): void {
+function sendToContentScript(
+  message: Web3RequestMessage | Web3ResponseMessage | Web3EventMessage | NetworkRequestMessage
+): void {
   window.postMessage(message, '*');
 }
 
+/**
+ * Get (or seed from the provider's cached properties) the last known accounts/chain
+ */
+function getProviderSnapshot(provider: EthereumProvider): ProviderSnapshot {
+  let snapshot = providerSnapshots.get(provider);
+  if (!snapshot) {
+    snapshot = {};
+    if (typeof provider.selectedAddress === 'string') snapshot.accounts = [provider.selectedAddress];
+    if (typeof provider.chainId === 'string') snapshot.chainId = provider.chainId;
+    providerSnapshots.set(provider, snapshot);
+  }
+  return snapshot;
+}
+
+/**
+ * Keep the snapshot current from request results, so events report accurate "before" values
+ */
+function observeResult(provider: EthereumProvider, method: string, result: unknown): void {
+  const snapshot = getProviderSnapshot(provider);
+  if ((method === 'eth_accounts' || method === 'eth_requestAccounts') && Array.isArray(result)) {
+    snapshot.accounts = result as string[];
+  } else if (method === 'eth_chainId' && typeof result === 'string') {
+    snapshot.chainId = result;
+  }
+}
+
+/**
+ * Subscribe to the provider's accountsChanged/chainChanged/disconnect events.
+ * These fire when the user acts in the wallet itself (switching account or network
+ * in MetaMask), which never goes through request().
+ */
+function subscribeToProviderEvents(provider: EthereumProvider, providerInfo?: EIP6963ProviderInfo): void {
+  if (subscribedProviders.has(provider) || typeof provider.on !== 'function') {
+    return;
+  }
+
+  const emit = (event: ProviderEventName, before: unknown, after: unknown) => {
+    if (!isRecording) return;
+    console.log('[Web3Recorder] Provider event:', event, before, '->', after);
+    sendToContentScript({
+      type: 'WEB3_EVENT',
+      event,
+      before,
+      after,
+      timestamp: Date.now(),
+      providerInfo,
+    });
+  };
+
+  try {
+    provider.on('accountsChanged', (...args: unknown[]) => {
+      const snapshot = getProviderSnapshot(provider);
+      const accounts = Array.isArray(args[0]) ? (args[0] as string[]) : [];
+      emit('accountsChanged', snapshot.accounts ?? null, accounts);
+      snapshot.accounts = accounts;
+    });
+
+    provider.on('chainChanged', (...args: unknown[]) => {
+      const snapshot = getProviderSnapshot(provider);
+      const chainId = typeof args[0] === 'number' ? `0x${args[0].toString(16)}` : String(args[0]);
+      // Some wallets re-emit the current chain; only real changes are steps
+      if (chainId === snapshot.chainId) return;
+      emit('chainChanged', snapshot.chainId ?? null, chainId);
+      snapshot.chainId = chainId;
+    });
+
+    provider.on('disconnect', (...args: unknown[]) => {
+      const snapshot = getProviderSnapshot(provider);
+      const error = args[0] as { message?: string; code?: number } | undefined;
+      emit(
+        'disconnect',
+        { accounts: snapshot.accounts ?? null, chainId: snapshot.chainId ?? null },
+        error ? { message: error.message, code: error.code } : null
+      );
+      snapshot.accounts = [];
+    });
+
+    subscribedProviders.add(provider);
+    console.log('[Web3Recorder] Subscribed to provider events', providerInfo?.name || '(window.ethereum)');
+  } catch (error) {
+    console.error('[Web3Recorder] Failed to subscribe to provider events:', error);
+  }
+}
+
 /**
  * Create a proxy wrapper for an Ethereum provider
  */
@@ -202,6 +338,7 @@ function wrapWindowEthereum(): void {
 
       try {
         const result = await originalRequest(args);
+        observeResult(ethereum, method, result);
 
         console.log('[Web3Recorder] Result:', method, result ? 'OK' : 'empty');
 
@@ -240,6 +377,7 @@ function wrapWindowEthereum(): void {
     ethereum.request = patchedRequest;
     ourPatchedRequest = patchedRequest as unknown as typeof ourPatchedRequest;
     isWrapped = true;
+    subscribeToProviderEvents(ethereum);
     console.log('[Web3Recorder] window.ethereum.request patched successfully');
   } catch (error) {
     console.error('[Web3Recorder] Failed to patch window.ethereum.request:', error);
@@ -308,6 +446,7 @@ function handleEIP6963Announce(event: CustomEvent<EIP6963ProviderDetail>): void
 
       try {
         const result = await originalRequest(args);
+        observeResult(provider, method, result);
 
         if (isRecording) {
           sendToContentScript({
@@ -338,6 +477,7 @@ function handleEIP6963Announce(event: CustomEvent<EIP6963ProviderDetail>): void
     };
 
     patchedEIP6963Providers.add(provider);
+    subscribeToProviderEvents(provider, info);
     console.log('[Web3Recorder] EIP-6963 provider patched:', info.name);
   } catch (error) {
     console.error('[Web3Recorder] Failed to patch EIP-6963 provider:', info.name, error);
@@ -394,6 +534,207 @@ function startIntegrityWatch(): void {
   }, 2000); // Check every 2 seconds
 }
 
+/**
+ * Cut a request/response body down to MAX_BODY_LENGTH (non-text bodies are dropped)
+ */
+function truncateBody(body: unknown): string | undefined {
+  const text = typeof body === 'string' ? body : body instanceof URLSearchParams ? body.toString() : undefined;
+  if (text === undefined) return undefined;
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}...[truncated]` : text;
+}
+
+/**
+ * JSON-RPC method name(s) of a request body ('eth_call' or 'eth_call,eth_getBalance' for batches)
+ */
+function extractRpcMethod(body: string | undefined): string | undefined {
+  if (!body || !body.includes('"jsonrpc"')) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    const calls = Array.isArray(parsed) ? parsed : [parsed];
+    const methods = calls.map((call) => call?.method).filter((m): m is string => typeof m === 'string');
+    return methods.length > 0 ? methods.join(',') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check if a request is worth recording (page traffic, not extension/data URLs or RPC polling)
+ */
+function shouldRecordRequest(url: string, rpcMethod?: string): boolean {
+  if (!/^(https?|wss?):/i.test(url)) return false;
+  if (rpcMethod && rpcMethod.split(',').every((m) => POLLING_RPC_METHODS.has(m))) return false;
+  return true;
+}
+
+function sendNetworkEntry(entry: Omit<NetworkRequestMessage['entry'], 'id'>): void {
+  sendToContentScript({ type: 'NETWORK_REQUEST', entry: { id: generateId(), ...entry } });
+}
+
+/**
+ * Read a text/JSON response body without consuming the page's copy
+ */
+async function readResponseBody(response: Response): Promise<string | undefined> {
+  const contentType = response.headers.get('content-type') || '';
+  if (!/json|text|xml|javascript/i.test(contentType) || /event-stream/i.test(contentType)) {
+    return undefined;
+  }
+  try {
+    return truncateBody(await response.clone().text());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wrap window.fetch to record requests made while recording
+ */
+function wrapFetch(): void {
+  const originalFetch = window.fetch;
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    if (!isRecording) {
+      return originalFetch.call(window, input, init);
+    }
+
+    const startTime = Date.now();
+    const request = input instanceof Request ? input : null;
+    const url = request ? request.url : String(input);
+    const method = (init?.method || request?.method || 'GET').toUpperCase();
+    const body = typeof init?.body === 'string' ? init.body : init?.body instanceof URLSearchParams ? init.body.toString() : undefined;
+    const rpcMethod = extractRpcMethod(body);
+
+    if (!shouldRecordRequest(url, rpcMethod)) {
+      return originalFetch.call(window, input, init);
+    }
+
+    try {
+      const response = await originalFetch.call(window, input, init);
+      const durationMs = Date.now() - startTime;
+      readResponseBody(response).then((responseBody) => {
+        sendNetworkEntry({
+          kind: 'fetch',
+          method,
+          url,
+          status: response.status,
+          startTime,
+          durationMs,
+          rpcMethod,
+          requestBody: truncateBody(body),
+          responseBody,
+        });
+      });
+      return response;
+    } catch (error) {
+      sendNetworkEntry({
+        kind: 'fetch',
+        method,
+        url,
+        startTime,
+        durationMs: Date.now() - startTime,
+        rpcMethod,
+        requestBody: truncateBody(body),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Patch XMLHttpRequest open/send to record requests made while recording
+ */
+function wrapXhr(): void {
+  const originalOpen = XMLHttpRequest.prototype.open;
+  const originalSend = XMLHttpRequest.prototype.send;
+
+  XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+    xhrRequests.set(this, { method: method.toUpperCase(), url: new URL(String(url), window.location.href).href });
+    return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+  } as typeof XMLHttpRequest.prototype.open;
+
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = xhrRequests.get(this);
+    const requestBody = typeof body === 'string' ? body : undefined;
+    const rpcMethod = extractRpcMethod(requestBody);
+
+    if (isRecording && request && shouldRecordRequest(request.url, rpcMethod)) {
+      const startTime = Date.now();
+      this.addEventListener('loadend', () => {
+        let responseBody: string | undefined;
+        if (this.responseType === '' || this.responseType === 'text') {
+          responseBody = truncateBody(this.responseText);
+        } else if (this.responseType === 'json') {
+          responseBody = truncateBody(JSON.stringify(this.response));
+        }
+        sendNetworkEntry({
+          kind: 'xhr',
+          method: request.method,
+          url: request.url,
+          status: this.status || undefined,
+          startTime,
+          durationMs: Date.now() - startTime,
+          rpcMethod,
+          requestBody: truncateBody(requestBody),
+          responseBody,
+          ...(this.status === 0 && { error: 'Network error' }),
+        });
+      });
+    }
+
+    return originalSend.call(this, body);
+  };
+}
+
+/**
+ * Replace window.WebSocket with a subclass that records connections and sent frames.
+ * Received frames aren't recorded — subscriptions and price feeds would flood the log.
+ */
+function wrapWebSocket(): void {
+  const OriginalWebSocket = window.WebSocket;
+
+  class RecordingWebSocket extends OriginalWebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols);
+      if (!isRecording) return;
+
+      const startTime = Date.now();
+      this.addEventListener('open', () => {
+        sendNetworkEntry({ kind: 'websocket', method: 'CONNECT', url: this.url, status: 101, startTime, durationMs: Date.now() - startTime });
+      });
+      this.addEventListener('error', () => {
+        sendNetworkEntry({ kind: 'websocket', method: 'CONNECT', url: this.url, startTime, error: 'WebSocket error' });
+      });
+    }
+
+    send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+      if (isRecording && typeof data === 'string') {
+        const rpcMethod = extractRpcMethod(data);
+        if (shouldRecordRequest(this.url, rpcMethod)) {
+          sendNetworkEntry({ kind: 'websocket', method: 'SEND', url: this.url, startTime: Date.now(), rpcMethod, requestBody: truncateBody(data) });
+        }
+      }
+      super.send(data);
+    }
+  }
+
+  window.WebSocket = RecordingWebSocket;
+}
+
+/**
+ * Install fetch/XHR/WebSocket capture. The wrappers pass straight through while not recording.
+ */
+function setupNetworkCapture(): void {
+  try {
+    wrapFetch();
+    wrapXhr();
+    wrapWebSocket();
+    console.log('[Web3Recorder] Network capture active');
+  } catch (error) {
+    console.error('[Web3Recorder] Failed to set up network capture:', error);
+  }
+}
+
 /**
  * Listen for recording state messages from content script
  */
@@ -456,6 +797,9 @@ function init(): void {
   // Start periodic check for window.ethereum replacement
   startIntegrityWatch();
 
+  // Record the page's own HTTP/WebSocket traffic
+  setupNetworkCapture();
+
   console.log('[Web3Recorder] ====== INJECTED SCRIPT READY ======');
 }
 
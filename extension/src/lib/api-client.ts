@@ -14,6 +14,7 @@ export interface UploadResult {
   success: boolean;
   recordingId?: string;
   error?: string;
+  status?: number; // HTTP status of a failed request (absent when the API was unreachable)
   testSpec?: {
     id: string;
     status: string;
@@ -176,7 +177,8 @@ export async function uploadRecording(
   steps: unknown[],
   metadata?: Record<string, unknown>,
   options?: UploadOptions,
-  successState?: Record<string, unknown>
+  successState?: Record<string, unknown>,
+  networkRequests?: unknown[]
 ): Promise<UploadResult> {
   const settings = await getApiSettings();
 
@@ -210,6 +212,7 @@ export async function uploadRecording(
             uploadedAt: new Date().toISOString(),
           },
           ...(successState ? { successState } : {}),
+          ...(networkRequests?.length ? { networkRequests } : {}),
           exportedAt: new Date().toISOString(),
         },
         autoGenerate: options?.autoGenerate ?? true,
@@ -223,6 +226,7 @@ export async function uploadRecording(
       return {
         success: false,
         error: error.error || error.message || `Server returned ${response.status}`,
+        status: response.status,
       };
     }
 
@@ -239,6 +243,96 @@ export async function uploadRecording(
   }
 }
 
+/**
+ * Attach screenshots to an already uploaded recording
+ * Used to send screenshot-heavy recordings in chunks below the API body limit
+ */
+export async function uploadScreenshots(
+  recordingId: string,
+  screenshots: Array<{ stepId?: string; snapshot?: string; screenshot: string }>
+): Promise<UploadResult> {
+  const settings = await getApiSettings();
+
+  if (!settings.apiUrl) {
+    return { success: false, error: 'API URL not configured. Open extension settings to configure.' };
+  }
+
+  try {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    };
+    if (settings.apiKey) {
+      headers['X-API-Key'] = settings.apiKey;
+    }
+
+    const response = await fetch(`${settings.apiUrl}/api/recordings/${recordingId}/screenshots`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ screenshots }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Screenshot upload failed' }));
+      return {
+        success: false,
+        error: error.error || error.message || `Server returned ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    return { success: true, recordingId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Screenshot upload failed';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Generate the test spec for an uploaded recording
+ * Used once the last screenshot chunk of a chunked upload is in
+ */
+export async function generateSpec(recordingId: string): Promise<UploadResult> {
+  const settings = await getApiSettings();
+
+  if (!settings.apiUrl) {
+    return { success: false, error: 'API URL not configured. Open extension settings to configure.' };
+  }
+
+  try {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+    if (settings.apiKey) {
+      headers['X-API-Key'] = settings.apiKey;
+    }
+
+    const response = await fetch(`${settings.apiUrl}/api/recordings/${recordingId}/regenerate`, {
+      method: 'POST',
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Generation failed' }));
+      return {
+        success: false,
+        error: error.details || error.error || error.message || `Server returned ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    const spec = await response.json();
+    return {
+      success: true,
+      recordingId,
+      testSpec: { id: spec.id, status: spec.status, hasCode: spec.hasCode },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Generation failed';
+    return { success: false, error: message };
+  }
+}
+
 /**
  * Check if API upload is available
  */
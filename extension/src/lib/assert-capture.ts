@@ -0,0 +1,360 @@
+/**
+ * Assert mode — click an element to record an assertion step
+ *
+ * While active, the element under the pointer is outlined and page clicks are
+ * swallowed before the page or event-capture.ts sees them. Clicking an element
+ * opens a small panel to choose what to check:
+ * - text equals / contains (prefilled with the element's text)
+ * - visible, enabled
+ * - attribute value (any attribute on the element)
+ * - a balance-like number within a tolerance
+ *
+ * Picking one records an `assert` step with the element's selector, metadata and
+ * context. Escape or Cancel leaves assert mode without recording anything.
+ */
+
+import { generateSelector, getElementMetadata, getEventTarget } from './selector';
+import { captureElementStep } from './event-capture';
+import type { StepAssertion } from './steps';
+
+type AssertionKind = StepAssertion['kind'];
+
+// First number in a string, allowing thousands separators ("1,234.56 USDC" -> 1234.56)
+const NUMBER_PATTERN = /-?\d[\d,]*(?:\.\d+)?/;
+
+// Default tolerance for numberWithin, relative to the recorded value
+const DEFAULT_TOLERANCE_RATIO = 0.01;
+
+const MAX_TEXT_LENGTH = 200;
+
+// Attributes that are never useful to assert on
+const IGNORED_ATTRIBUTES = ['style', 'class', 'id'];
+
+const SWALLOWED_EVENTS = ['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click', 'dblclick'];
+
+let isActive = false;
+let onExit: (() => void) | null = null;
+let host: HTMLElement | null = null;
+let shadow: ShadowRoot | null = null;
+let highlight: HTMLElement | null = null;
+let panel: HTMLElement | null = null;
+
+const PANEL_STYLES = `
+  .highlight { position: fixed; pointer-events: none; border: 2px solid #22c55e; background: rgba(34, 197, 94, 0.12); border-radius: 3px; z-index: 2147483646; }
+  .panel { position: fixed; width: 280px; padding: 12px; background: #18181b; color: #e4e4e7; border: 1px solid #27272a; border-radius: 8px; font: 12px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4); z-index: 2147483647; }
+  .title { font-weight: 600; margin-bottom: 8px; }
+  .target { color: #a1a1aa; margin-bottom: 8px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  label { display: block; color: #a1a1aa; margin: 6px 0 2px; }
+  select, input { width: 100%; box-sizing: border-box; padding: 5px 6px; background: #000; color: #e4e4e7; border: 1px solid #27272a; border-radius: 6px; font: inherit; }
+  .row { display: flex; gap: 6px; margin-top: 10px; }
+  button { flex: 1; height: 28px; border: none; border-radius: 6px; font: inherit; font-weight: 500; cursor: pointer; }
+  .save { background: #fff; color: #000; }
+  .cancel { background: #27272a; color: #e4e4e7; }
+  .hidden { display: none; }
+`;
+
+/**
+ * Collapse whitespace and cap length
+ */
+function getElementText(element: Element): string {
+  const text = ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return text.slice(0, MAX_TEXT_LENGTH);
+}
+
+/**
+ * Parse the first number in a string, or null if there is none
+ */
+export function parseDisplayedNumber(text: string): number | null {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return null;
+  const value = parseFloat(match[0].replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Check if an event happened inside the assert panel (its own clicks must go through)
+ */
+function isPanelEvent(event: Event): boolean {
+  return !!host && event.composedPath().includes(host);
+}
+
+/**
+ * Swallow page pointer/click events so neither the dApp nor event capture reacts
+ */
+function handleSwallowedEvent(event: Event): void {
+  if (!isActive || isPanelEvent(event)) return;
+
+  event.preventDefault();
+  event.stopImmediatePropagation();
+
+  if (event.type === 'click' && !panel) {
+    const target = getEventTarget(event);
+    if (target) openPanel(target);
+  }
+}
+
+/**
+ * Outline the element under the pointer until one is picked
+ */
+function handleMouseMove(event: MouseEvent): void {
+  if (!isActive || panel || !highlight || isPanelEvent(event)) return;
+
+  const target = getEventTarget(event);
+  if (!target) return;
+
+  const rect = target.getBoundingClientRect();
+  highlight.classList.remove('hidden');
+  Object.assign(highlight.style, {
+    top: `${rect.top}px`,
+    left: `${rect.left}px`,
+    width: `${rect.width}px`,
+    height: `${rect.height}px`,
+  });
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!isActive || event.key !== 'Escape') return;
+  event.preventDefault();
+  event.stopImmediatePropagation();
+  exitAssertMode();
+}
+
+/**
+ * Build the assertion options that make sense for an element
+ */
+function getAvailableKinds(element: Element, text: string): Array<{ kind: AssertionKind; label: string }> {
+  const kinds: Array<{ kind: AssertionKind; label: string }> = [];
+
+  if (text) {
+    kinds.push({ kind: 'textEquals', label: 'Text equals' }, { kind: 'textContains', label: 'Text contains' });
+  }
+  if (parseDisplayedNumber(text) !== null) {
+    kinds.push({ kind: 'numberWithin', label: 'Number within tolerance' });
+  }
+  kinds.push({ kind: 'visible', label: 'Is visible' });
+  if (element.matches('button, input, select, textarea, [role="button"], [aria-disabled]')) {
+    kinds.push({ kind: 'enabled', label: 'Is enabled' });
+  }
+  if (getAssertableAttributes(element).length > 0) {
+    kinds.push({ kind: 'attribute', label: 'Attribute value' });
+  }
+
+  return kinds;
+}
+
+function getAssertableAttributes(element: Element): string[] {
+  return element.getAttributeNames().filter((name) => !IGNORED_ATTRIBUTES.includes(name));
+}
+
+/**
+ * Create an element inside the panel's shadow root
+ */
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: Partial<HTMLElementTagNameMap[K]> = {}
+): HTMLElementTagNameMap[K] {
+  return Object.assign(document.createElement(tag), props);
+}
+
+/**
+ * Open the assertion panel next to the picked element
+ */
+function openPanel(element: Element): void {
+  if (!shadow) return;
+
+  const text = getElementText(element);
+  const kinds = getAvailableKinds(element, text);
+  const attributes = getAssertableAttributes(element);
+  const number = parseDisplayedNumber(text);
+
+  panel = createElement('div', { className: 'panel' });
+  panel.append(
+    createElement('div', { className: 'title', textContent: 'Add assertion' }),
+    createElement('div', { className: 'target', textContent: text || `<${element.tagName.toLowerCase()}>` }),
+  );
+
+  const kindSelect = createElement('select');
+  for (const { kind, label } of kinds) {
+    kindSelect.append(createElement('option', { value: kind, textContent: label }));
+  }
+
+  const attributeSelect = createElement('select');
+  for (const name of attributes) {
+    attributeSelect.append(createElement('option', { value: name, textContent: name }));
+  }
+
+  const expectedInput = createElement('input', { type: 'text' });
+  const toleranceInput = createElement('input', { type: 'number', step: 'any', min: '0' });
+
+  const attributeLabel = createElement('label', { textContent: 'Attribute' });
+  const expectedLabel = createElement('label', { textContent: 'Expected' });
+  const toleranceLabel = createElement('label', { textContent: 'Tolerance (±)' });
+
+  // Show the fields the selected kind needs and prefill them from the element
+  const updateFields = () => {
+    const kind = kindSelect.value as AssertionKind;
+    const showExpected = kind !== 'visible' && kind !== 'enabled';
+    attributeLabel.classList.toggle('hidden', kind !== 'attribute');
+    attributeSelect.classList.toggle('hidden', kind !== 'attribute');
+    expectedLabel.classList.toggle('hidden', !showExpected);
+    expectedInput.classList.toggle('hidden', !showExpected);
+    toleranceLabel.classList.toggle('hidden', kind !== 'numberWithin');
+    toleranceInput.classList.toggle('hidden', kind !== 'numberWithin');
+
+    if (kind === 'attribute') {
+      expectedInput.value = element.getAttribute(attributeSelect.value) ?? '';
+    } else if (kind === 'numberWithin' && number !== null) {
+      expectedInput.value = String(number);
+      toleranceInput.value = String(Math.abs(number) * DEFAULT_TOLERANCE_RATIO);
+    } else {
+      expectedInput.value = text;
+    }
+  };
+  kindSelect.addEventListener('change', updateFields);
+  attributeSelect.addEventListener('change', updateFields);
+
+  const saveButton = createElement('button', { className: 'save', textContent: 'Add' });
+  const cancelButton = createElement('button', { className: 'cancel', textContent: 'Cancel' });
+  saveButton.addEventListener('click', () => {
+    const assertion = buildAssertion(
+      kindSelect.value as AssertionKind,
+      expectedInput.value,
+      attributeSelect.value,
+      toleranceInput.value
+    );
+    if (assertion) {
+      recordAssertion(element, assertion);
+      exitAssertMode();
+    }
+  });
+  cancelButton.addEventListener('click', () => exitAssertMode());
+
+  const row = createElement('div', { className: 'row' });
+  row.append(cancelButton, saveButton);
+
+  panel.append(
+    createElement('label', { textContent: 'Check' }), kindSelect,
+    attributeLabel, attributeSelect,
+    expectedLabel, expectedInput,
+    toleranceLabel, toleranceInput,
+    row,
+  );
+  shadow.append(panel);
+  updateFields();
+
+  // Place below the element, or above it when there is no room
+  const rect = element.getBoundingClientRect();
+  const panelHeight = panel.offsetHeight;
+  const top = rect.bottom + 8 + panelHeight > window.innerHeight ? Math.max(8, rect.top - panelHeight - 8) : rect.bottom + 8;
+  const left = Math.min(Math.max(8, rect.left), window.innerWidth - 288);
+  Object.assign(panel.style, { top: `${top}px`, left: `${left}px` });
+}
+
+/**
+ * Turn the panel's fields into an assertion, or null if a required value is missing
+ */
+function buildAssertion(kind: AssertionKind, expected: string, attribute: string, tolerance: string): StepAssertion | null {
+  switch (kind) {
+    case 'visible':
+    case 'enabled':
+      return { kind };
+    case 'attribute':
+      return attribute ? { kind, attribute, expected } : null;
+    case 'numberWithin': {
+      const value = parseDisplayedNumber(expected);
+      const delta = parseFloat(tolerance);
+      if (value === null) return null;
+      return { kind, expected: String(value), tolerance: Number.isFinite(delta) && delta >= 0 ? delta : 0 };
+    }
+    default:
+      return expected.trim() ? { kind, expected: expected.trim() } : null;
+  }
+}
+
+/**
+ * Record the assert step for the picked element
+ */
+function recordAssertion(element: Element, assertion: StepAssertion): void {
+  const metadata = getElementMetadata(element);
+
+  captureElementStep({
+    type: 'assert',
+    selector: generateSelector(element),
+    assertion,
+    metadata: {
+      tagName: metadata.tagName,
+      text: metadata.text,
+      ariaLabel: metadata.ariaLabel,
+      role: metadata.role,
+      dataTestId: metadata.dataTestId,
+      inputType: metadata.type,
+      pageTitle: document.title,
+    },
+  }, element);
+}
+
+/**
+ * Enter assert mode. `exitCallback` runs when the user leaves it from the page
+ * (Escape, Cancel or after recording an assertion).
+ */
+export function enterAssertMode(exitCallback?: () => void): void {
+  if (isActive) return;
+
+  isActive = true;
+  onExit = exitCallback || null;
+
+  host = document.createElement('div');
+  host.setAttribute('data-web3-test-recorder', 'assert');
+  shadow = host.attachShadow({ mode: 'closed' });
+  shadow.append(
+    createElement('style', { textContent: PANEL_STYLES }),
+    (highlight = createElement('div', { className: 'highlight hidden' })),
+  );
+  document.documentElement.append(host);
+
+  for (const type of SWALLOWED_EVENTS) {
+    window.addEventListener(type, handleSwallowedEvent, true);
+  }
+  window.addEventListener('mousemove', handleMouseMove, true);
+  window.addEventListener('keydown', handleKeyDown, true);
+  document.documentElement.style.cursor = 'crosshair';
+}
+
+/**
+ * Leave assert mode without notifying the caller (used when the mode is turned off remotely)
+ */
+export function stopAssertMode(): void {
+  if (!isActive) return;
+
+  isActive = false;
+  onExit = null;
+
+  for (const type of SWALLOWED_EVENTS) {
+    window.removeEventListener(type, handleSwallowedEvent, true);
+  }
+  window.removeEventListener('mousemove', handleMouseMove, true);
+  window.removeEventListener('keydown', handleKeyDown, true);
+  document.documentElement.style.cursor = '';
+
+  host?.remove();
+  host = null;
+  shadow = null;
+  highlight = null;
+  panel = null;
+}
+
+/**
+ * Leave assert mode from the page and notify the caller
+ */
+function exitAssertMode(): void {
+  const callback = onExit;
+  stopAssertMode();
+  callback?.();
+}
+
+/**
+ * Check if assert mode is active in this frame
+ */
+export function isAssertModeActive(): boolean {
+  return isActive;
+}
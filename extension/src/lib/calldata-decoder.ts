@@ -0,0 +1,593 @@
+/**
+ * Calldata and EIP-712 decoding for Web3 steps
+ * Decodes eth_sendTransaction calldata and eth_signTypedData payloads against a bundled
+ * ABI/4byte table (ERC-20/721/1155, WETH, Permit2, Uniswap routers, ERC-4626, Aave)
+ * so the recording carries function names, tokens and amounts instead of raw hex
+ */
+
+import type { DecodedTokenAmount, DecodedWeb3Payload } from './steps';
+
+type DecodedAction = DecodedWeb3Payload['action'];
+
+// ============================================================================
+// ABI table
+// ============================================================================
+
+type AbiType =
+  | { kind: 'uint' | 'address' | 'bool' | 'bytes32' | 'bytes' }
+  | { kind: 'array'; item: AbiType }
+  | { kind: 'tuple'; components: AbiParam[] };
+
+interface AbiParam {
+  name: string;
+  type: AbiType;
+}
+
+interface AbiEntry {
+  protocol: string;
+  name: string;
+  // Human-readable params, e.g. 'address spender, uint256 amount'; tuples as '(...) name'
+  params: string;
+  action: DecodedAction;
+}
+
+const UNISWAP_V3_SINGLE = 'address tokenIn, address tokenOut, uint24 fee, address recipient';
+const UNISWAP_V2_SWAP = 'uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline';
+
+// Selectors are keccak256(signature)[0:4]. ERC-20 and ERC-721 share approve/transferFrom.
+const ABI_TABLE: Record<string, AbiEntry> = {
+  // ERC-20 / ERC-721
+  '0xa9059cbb': { protocol: 'ERC-20', name: 'transfer', params: 'address to, uint256 amount', action: 'transfer' },
+  '0x095ea7b3': { protocol: 'ERC-20/721', name: 'approve', params: 'address spender, uint256 amount', action: 'approve' },
+  '0x23b872dd': { protocol: 'ERC-20/721', name: 'transferFrom', params: 'address from, address to, uint256 amount', action: 'transfer' },
+  '0x39509351': { protocol: 'ERC-20', name: 'increaseAllowance', params: 'address spender, uint256 addedValue', action: 'approve' },
+  '0x42842e0e': { protocol: 'ERC-721', name: 'safeTransferFrom', params: 'address from, address to, uint256 tokenId', action: 'transfer' },
+  '0xb88d4fde': { protocol: 'ERC-721', name: 'safeTransferFrom', params: 'address from, address to, uint256 tokenId, bytes data', action: 'transfer' },
+  '0xa22cb465': { protocol: 'ERC-721/1155', name: 'setApprovalForAll', params: 'address operator, bool approved', action: 'approve' },
+  // ERC-1155
+  '0xf242432a': { protocol: 'ERC-1155', name: 'safeTransferFrom', params: 'address from, address to, uint256 id, uint256 amount, bytes data', action: 'transfer' },
+  '0x2eb2c2d6': { protocol: 'ERC-1155', name: 'safeBatchTransferFrom', params: 'address from, address to, uint256[] ids, uint256[] amounts, bytes data', action: 'transfer' },
+  // WETH
+  '0xd0e30db0': { protocol: 'WETH', name: 'deposit', params: '', action: 'wrap' },
+  '0x2e1a7d4d': { protocol: 'WETH', name: 'withdraw', params: 'uint256 amount', action: 'unwrap' },
+  // Permit2 (AllowanceTransfer)
+  '0x87517c45': { protocol: 'Permit2', name: 'approve', params: 'address token, address spender, uint160 amount, uint48 expiration', action: 'approve' },
+  // Uniswap V2 router
+  '0x38ed1739': { protocol: 'Uniswap V2', name: 'swapExactTokensForTokens', params: UNISWAP_V2_SWAP, action: 'swap' },
+  '0x8803dbee': { protocol: 'Uniswap V2', name: 'swapTokensForExactTokens', params: 'uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline', action: 'swap' },
+  '0x7ff36ab5': { protocol: 'Uniswap V2', name: 'swapExactETHForTokens', params: 'uint256 amountOutMin, address[] path, address to, uint256 deadline', action: 'swap' },
+  '0x18cbafe5': { protocol: 'Uniswap V2', name: 'swapExactTokensForETH', params: UNISWAP_V2_SWAP, action: 'swap' },
+  '0xfb3bdb41': { protocol: 'Uniswap V2', name: 'swapETHForExactTokens', params: 'uint256 amountOut, address[] path, address to, uint256 deadline', action: 'swap' },
+  '0x4a25d94a': { protocol: 'Uniswap V2', name: 'swapTokensForExactETH', params: 'uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline', action: 'swap' },
+  '0x472b43f3': { protocol: 'Uniswap V2', name: 'swapExactTokensForTokens', params: 'uint256 amountIn, uint256 amountOutMin, address[] path, address to', action: 'swap' },
+  '0xe8e33700': { protocol: 'Uniswap V2', name: 'addLiquidity', params: 'address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline', action: 'deposit' },
+  '0xf305d719': { protocol: 'Uniswap V2', name: 'addLiquidityETH', params: 'address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline', action: 'deposit' },
+  // Uniswap V3 SwapRouter (with deadline) and SwapRouter02 (without)
+  '0x414bf389': { protocol: 'Uniswap V3', name: 'exactInputSingle', params: `(${UNISWAP_V3_SINGLE}, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params`, action: 'swap' },
+  '0x04e45aaf': { protocol: 'Uniswap V3', name: 'exactInputSingle', params: `(${UNISWAP_V3_SINGLE}, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params`, action: 'swap' },
+  '0xdb3e2198': { protocol: 'Uniswap V3', name: 'exactOutputSingle', params: `(${UNISWAP_V3_SINGLE}, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params`, action: 'swap' },
+  '0x5023b4df': { protocol: 'Uniswap V3', name: 'exactOutputSingle', params: `(${UNISWAP_V3_SINGLE}, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params`, action: 'swap' },
+  '0xc04b8d59': { protocol: 'Uniswap V3', name: 'exactInput', params: '(bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params', action: 'swap' },
+  '0xb858183f': { protocol: 'Uniswap V3', name: 'exactInput', params: '(bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params', action: 'swap' },
+  '0xf28c0498': { protocol: 'Uniswap V3', name: 'exactOutput', params: '(bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params', action: 'swap' },
+  '0x09b81346': { protocol: 'Uniswap V3', name: 'exactOutput', params: '(bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params', action: 'swap' },
+  '0xac9650d8': { protocol: 'Multicall', name: 'multicall', params: 'bytes[] data', action: 'other' },
+  '0x5ae401dc': { protocol: 'Multicall', name: 'multicall', params: 'uint256 deadline, bytes[] data', action: 'other' },
+  // Uniswap Universal Router
+  '0x3593564c': { protocol: 'Universal Router', name: 'execute', params: 'bytes commands, bytes[] inputs, uint256 deadline', action: 'other' },
+  '0x24856bc3': { protocol: 'Universal Router', name: 'execute', params: 'bytes commands, bytes[] inputs', action: 'other' },
+  // ERC-4626 vaults
+  '0x6e553f65': { protocol: 'ERC-4626', name: 'deposit', params: 'uint256 assets, address receiver', action: 'deposit' },
+  '0xb460af94': { protocol: 'ERC-4626', name: 'withdraw', params: 'uint256 assets, address receiver, address owner', action: 'withdraw' },
+  '0xba087652': { protocol: 'ERC-4626', name: 'redeem', params: 'uint256 shares, address receiver, address owner', action: 'withdraw' },
+  // Aave V2/V3 pool
+  '0x617ba037': { protocol: 'Aave', name: 'supply', params: 'address asset, uint256 amount, address onBehalfOf, uint16 referralCode', action: 'deposit' },
+  '0xe8eda9df': { protocol: 'Aave', name: 'deposit', params: 'address asset, uint256 amount, address onBehalfOf, uint16 referralCode', action: 'deposit' },
+  '0x69328dec': { protocol: 'Aave', name: 'withdraw', params: 'address asset, uint256 amount, address to', action: 'withdraw' },
+};
+
+// Universal Router commands we decode (command byte & 0x3f) and their input layouts
+const ROUTER_COMMANDS: Record<number, { name: string; params: string }> = {
+  0x00: { name: 'V3_SWAP_EXACT_IN', params: 'address recipient, uint256 amountIn, uint256 amountOutMin, bytes path, bool payerIsUser' },
+  0x01: { name: 'V3_SWAP_EXACT_OUT', params: 'address recipient, uint256 amountOut, uint256 amountInMax, bytes path, bool payerIsUser' },
+  0x08: { name: 'V2_SWAP_EXACT_IN', params: 'address recipient, uint256 amountIn, uint256 amountOutMin, address[] path, bool payerIsUser' },
+  0x09: { name: 'V2_SWAP_EXACT_OUT', params: 'address recipient, uint256 amountOut, uint256 amountInMax, address[] path, bool payerIsUser' },
+  0x0a: { name: 'PERMIT2_PERMIT', params: '((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature' },
+  0x0b: { name: 'WRAP_ETH', params: 'address recipient, uint256 amountMin' },
+  0x0c: { name: 'UNWRAP_WETH', params: 'address recipient, uint256 amountMin' },
+};
+
+// Token placeholder for the chain's native currency (tx value)
+export const NATIVE_TOKEN = 'native';
+
+// ============================================================================
+// ABI decoding
+// ============================================================================
+
+/**
+ * Split a param list on top-level commas (ignoring commas inside tuples)
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseParams(list: string): AbiParam[] {
+  return splitTopLevel(list).map((part) => {
+    let typeText: string;
+    let rest: string;
+
+    if (part.startsWith('(')) {
+      const close = part.lastIndexOf(')');
+      typeText = part.slice(0, close + 1);
+      rest = part.slice(close + 1).trim();
+    } else {
+      [typeText, rest] = part.split(/\s+(.*)/s);
+    }
+
+    let isArray = false;
+    if (rest?.startsWith('[]')) {
+      isArray = true;
+      rest = rest.slice(2).trim();
+    }
+    if (typeText.endsWith('[]')) {
+      isArray = true;
+      typeText = typeText.slice(0, -2);
+    }
+
+    let type: AbiType;
+    if (typeText.startsWith('(')) {
+      type = { kind: 'tuple', components: parseParams(typeText.slice(1, -1)) };
+    } else if (typeText.startsWith('uint')) {
+      type = { kind: 'uint' };
+    } else if (typeText === 'address' || typeText === 'bool' || typeText === 'bytes32' || typeText === 'bytes') {
+      type = { kind: typeText };
+    } else {
+      throw new Error(`Unsupported ABI type: ${typeText}`);
+    }
+
+    return { name: rest || '', type: isArray ? { kind: 'array', item: type } : type };
+  });
+}
+
+function isDynamic(type: AbiType): boolean {
+  if (type.kind === 'bytes' || type.kind === 'array') return true;
+  if (type.kind === 'tuple') return type.components.some((c) => isDynamic(c.type));
+  return false;
+}
+
+// Head size in hex characters
+function headSize(type: AbiType): number {
+  if (type.kind === 'tuple' && !isDynamic(type)) {
+    return type.components.reduce((sum, c) => sum + headSize(c.type), 0);
+  }
+  return 64;
+}
+
+function readWord(data: string, pos: number): string {
+  const word = data.slice(pos, pos + 64);
+  if (word.length !== 64) throw new Error('Calldata too short');
+  return word;
+}
+
+// Offsets and lengths are byte counts — returned in hex characters
+function readSize(data: string, pos: number): number {
+  const size = Number(BigInt('0x' + readWord(data, pos))) * 2;
+  if (size > data.length) throw new Error('Offset out of range');
+  return size;
+}
+
+function decodeValue(type: AbiType, data: string, pos: number): unknown {
+  switch (type.kind) {
+    case 'uint':
+      return BigInt('0x' + readWord(data, pos)).toString();
+    case 'address':
+      return '0x' + readWord(data, pos).slice(24);
+    case 'bool':
+      return BigInt('0x' + readWord(data, pos)) !== 0n;
+    case 'bytes32':
+      return '0x' + readWord(data, pos);
+    case 'bytes': {
+      const length = readSize(data, pos);
+      const bytes = data.slice(pos + 64, pos + 64 + length);
+      if (bytes.length !== length) throw new Error('Calldata too short');
+      return '0x' + bytes;
+    }
+    case 'array': {
+      const length = readSize(data, pos) / 2;
+      const items = Array.from({ length }, (_, i) => ({ name: String(i), type: type.item }));
+      return Object.values(decodeParams(items, data, pos + 64));
+    }
+    case 'tuple':
+      return decodeParams(type.components, data, pos);
+  }
+}
+
+/**
+ * Decode an ABI-encoded parameter list starting at `start` (hex characters, no 0x)
+ */
+function decodeParams(params: AbiParam[], data: string, start = 0): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  let head = start;
+
+  params.forEach((param, i) => {
+    const key = param.name || String(i);
+    if (isDynamic(param.type)) {
+      result[key] = decodeValue(param.type, data, start + readSize(data, head));
+      head += 64;
+    } else {
+      result[key] = decodeValue(param.type, data, head);
+      head += headSize(param.type);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Token addresses in a Uniswap V3 packed path (token, fee, token, fee, token...)
+ */
+function parseV3Path(path: unknown): string[] {
+  if (typeof path !== 'string') return [];
+  const hex = path.slice(2);
+  const tokens: string[] = [];
+  for (let pos = 0; pos + 40 <= hex.length; pos += 46) {
+    tokens.push('0x' + hex.slice(pos, pos + 40));
+  }
+  return tokens;
+}
+
+function parseHexAmount(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !/^0x[0-9a-f]+$/i.test(value)) return undefined;
+  const amount = BigInt(value);
+  return amount > 0n ? amount.toString() : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'bigint') return value.toString();
+  return undefined;
+}
+
+// ============================================================================
+// Call interpretation
+// ============================================================================
+
+interface DecodedCall {
+  entry: AbiEntry;
+  signature: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Canonical type list for a human-readable param list ('address to, uint256 amount' → 'address,uint256')
+ */
+function canonicalTypes(list: string): string {
+  return splitTopLevel(list)
+    .map((part) => {
+      if (!part.startsWith('(')) return part.split(/\s+/)[0];
+      const close = part.lastIndexOf(')');
+      const suffix = part.slice(close + 1).trim().startsWith('[]') ? '[]' : '';
+      return `(${canonicalTypes(part.slice(1, close))})${suffix}`;
+    })
+    .join(',');
+}
+
+function decodeCall(data: string): DecodedCall | null {
+  const selector = data.slice(0, 10).toLowerCase();
+  const entry = ABI_TABLE[selector];
+  if (!entry) return null;
+
+  return {
+    entry,
+    signature: `${entry.name}(${canonicalTypes(entry.params)})`,
+    args: decodeParams(parseParams(entry.params), data.slice(10)),
+  };
+}
+
+/**
+ * Tokens moved by a decoded call. `to` is the called contract, `value` the native amount sent.
+ */
+function extractTokens(call: DecodedCall, to: string, value?: string): { tokens: DecodedTokenAmount[]; spender?: string } {
+  const { entry, args } = call;
+  const a = args as Record<string, any>;
+  const inner = (a.params ?? {}) as Record<string, any>;
+  const tokens: DecodedTokenAmount[] = [];
+
+  switch (entry.action) {
+    case 'approve':
+      if (entry.protocol === 'Permit2') {
+        tokens.push({ token: a.token, amount: a.amount, direction: 'approve' });
+        return { tokens, spender: a.spender };
+      }
+      if (entry.name === 'setApprovalForAll') {
+        tokens.push({ token: to, direction: 'approve' });
+        return { tokens, spender: a.operator };
+      }
+      tokens.push({ token: to, amount: a.amount ?? a.addedValue, direction: 'approve' });
+      return { tokens, spender: a.spender };
+
+    case 'transfer':
+      // Batch transfers move several ids — amounts stay in args
+      tokens.push({ token: to, amount: Array.isArray(a.ids) ? undefined : a.amount ?? a.tokenId, direction: 'out' });
+      return { tokens };
+
+    case 'wrap':
+      if (value) tokens.push({ token: NATIVE_TOKEN, amount: value, direction: 'in' });
+      tokens.push({ token: to, amount: value, direction: 'out' });
+      return { tokens };
+
+    case 'unwrap':
+      tokens.push({ token: to, amount: a.amount, direction: 'in' });
+      tokens.push({ token: NATIVE_TOKEN, amount: a.amount, direction: 'out' });
+      return { tokens };
+
+    case 'deposit':
+    case 'withdraw': {
+      const direction = entry.action === 'deposit' ? 'in' : 'out';
+      if (entry.name === 'addLiquidity') {
+        tokens.push({ token: a.tokenA, amount: a.amountADesired, direction });
+        tokens.push({ token: a.tokenB, amount: a.amountBDesired, direction });
+      } else if (entry.name === 'addLiquidityETH') {
+        tokens.push({ token: a.token, amount: a.amountTokenDesired, direction });
+        if (value) tokens.push({ token: NATIVE_TOKEN, amount: value, direction });
+      } else if (entry.protocol === 'Aave') {
+        tokens.push({ token: a.asset, amount: a.amount, direction });
+      } else {
+        // ERC-4626: the vault itself; the underlying asset isn't in the calldata
+        tokens.push({ token: to, amount: a.assets ?? a.shares, direction });
+      }
+      return { tokens };
+    }
+
+    case 'swap': {
+      if (Array.isArray(a.path)) {
+        const path = a.path as string[];
+        const ethIn = entry.name.startsWith('swapExactETH') || entry.name.startsWith('swapETH');
+        tokens.push({ token: ethIn ? NATIVE_TOKEN : path[0], amount: a.amountIn ?? a.amountInMax ?? value, direction: 'in' });
+        tokens.push({
+          token: entry.name.endsWith('ForETH') || entry.name.endsWith('ExactETH') ? NATIVE_TOKEN : path[path.length - 1],
+          amount: a.amountOut ?? a.amountOutMin,
+          direction: 'out',
+        });
+      } else if (inner.tokenIn) {
+        tokens.push({ token: inner.tokenIn, amount: inner.amountIn ?? inner.amountInMaximum, direction: 'in' });
+        tokens.push({ token: inner.tokenOut, amount: inner.amountOut ?? inner.amountOutMinimum, direction: 'out' });
+      } else {
+        // exactOutput paths are encoded tokenOut first
+        const path = parseV3Path(inner.path);
+        if (entry.name === 'exactOutput') path.reverse();
+        tokens.push({ token: path[0], amount: inner.amountIn ?? inner.amountInMaximum, direction: 'in' });
+        tokens.push({ token: path[path.length - 1], amount: inner.amountOut ?? inner.amountOutMinimum, direction: 'out' });
+      }
+      return { tokens: tokens.filter((t) => !!t.token) };
+    }
+
+    default:
+      return { tokens };
+  }
+}
+
+/**
+ * Decode Universal Router `execute` commands. The first swap's input token and the last
+ * swap's output token describe the whole trade; WRAP_ETH / UNWRAP_WETH mean native in / out.
+ */
+function decodeRouterCommands(args: Record<string, unknown>, value?: string): Pick<DecodedWeb3Payload, 'action' | 'args' | 'tokens'> {
+  const commandBytes = String(args.commands ?? '0x').slice(2).match(/../g) || [];
+  const inputs = Array.isArray(args.inputs) ? (args.inputs as string[]) : [];
+  const commands: Array<{ command: string; input?: Record<string, unknown>; raw?: string }> = [];
+  const swaps: Array<{ tokens: string[]; amountIn?: string; amountOut?: string }> = [];
+  let wrapsEth = false;
+  let unwrapsEth = false;
+
+  commandBytes.forEach((byte, i) => {
+    const code = parseInt(byte, 16) & 0x3f;
+    const known = ROUTER_COMMANDS[code];
+    if (!known) {
+      commands.push({ command: `0x${code.toString(16).padStart(2, '0')}`, raw: inputs[i] });
+      return;
+    }
+
+    let input: Record<string, any> | undefined;
+    try {
+      input = inputs[i] ? decodeParams(parseParams(known.params), inputs[i].slice(2)) : undefined;
+    } catch {
+      input = undefined;
+    }
+    commands.push(input ? { command: known.name, input } : { command: known.name, raw: inputs[i] });
+
+    if (known.name === 'WRAP_ETH') wrapsEth = true;
+    if (known.name === 'UNWRAP_WETH') unwrapsEth = true;
+    if (!input) return;
+
+    if (known.name.startsWith('V3_SWAP')) {
+      const path = parseV3Path(input.path);
+      if (known.name === 'V3_SWAP_EXACT_OUT') path.reverse();
+      swaps.push({ tokens: path, amountIn: input.amountIn ?? input.amountInMax, amountOut: input.amountOut ?? input.amountOutMin });
+    } else if (known.name.startsWith('V2_SWAP')) {
+      swaps.push({ tokens: input.path, amountIn: input.amountIn ?? input.amountInMax, amountOut: input.amountOut ?? input.amountOutMin });
+    }
+  });
+
+  const tokens: DecodedTokenAmount[] = [];
+  if (swaps.length > 0) {
+    const first = swaps[0];
+    const last = swaps[swaps.length - 1];
+    tokens.push({ token: wrapsEth ? NATIVE_TOKEN : first.tokens[0], amount: wrapsEth ? value ?? first.amountIn : first.amountIn, direction: 'in' });
+    tokens.push({ token: unwrapsEth ? NATIVE_TOKEN : last.tokens[last.tokens.length - 1], amount: last.amountOut, direction: 'out' });
+  }
+
+  return {
+    action: swaps.length > 0 ? 'swap' : 'other',
+    // Raw inputs are kept only for commands that weren't decoded
+    args: { commands, ...(args.deadline !== undefined && { deadline: args.deadline }) },
+    tokens: tokens.filter((t) => !!t.token),
+  };
+}
+
+/**
+ * Decode eth_sendTransaction params ([{ to, data, value }])
+ */
+function decodeTransaction(params: unknown): DecodedWeb3Payload | null {
+  const tx = (Array.isArray(params) ? params[0] : params) as { to?: string; data?: string; input?: string; value?: string } | undefined;
+  const data = tx?.data ?? tx?.input;
+  if (!tx?.to || typeof data !== 'string' || !/^0x[0-9a-f]{8}/i.test(data)) return null;
+
+  const to = tx.to.toLowerCase();
+  const value = parseHexAmount(tx.value);
+  const call = decodeCall(data);
+  if (!call) return null;
+
+  const base = {
+    source: 'calldata' as const,
+    protocol: call.entry.protocol,
+    functionName: call.entry.name,
+    signature: call.signature,
+    contract: to,
+  };
+
+  if (call.entry.protocol === 'Universal Router') {
+    return { ...base, ...decodeRouterCommands(call.args, value) };
+  }
+
+  if (call.entry.protocol === 'Multicall') {
+    // Router multicalls wrap the real swap/deposit calls — classify by the first known one
+    const calls = ((call.args.data as string[]) || []).map((inner) => {
+      try {
+        return decodeCall(inner);
+      } catch {
+        return null;
+      }
+    });
+    const primary = calls.find((c) => c && c.entry.action !== 'other') ?? null;
+    const extracted = primary ? extractTokens(primary, to, value) : { tokens: [] };
+    return {
+      ...base,
+      action: primary?.entry.action ?? 'other',
+      args: {
+        ...call.args,
+        data: calls.map((c, i) => (c ? { functionName: c.entry.name, args: c.args } : (call.args.data as string[])[i])),
+      },
+      ...extracted,
+    };
+  }
+
+  return { ...base, action: call.entry.action, args: call.args, ...extractTokens(call, to, value) };
+}
+
+// ============================================================================
+// EIP-712
+// ============================================================================
+
+interface TypedData {
+  domain?: { name?: string; version?: string; chainId?: unknown; verifyingContract?: string };
+  primaryType?: string;
+  message?: Record<string, any>;
+}
+
+/**
+ * Decode eth_signTypedData params ([address, typedData JSON])
+ */
+function decodeTypedData(params: unknown): DecodedWeb3Payload | null {
+  if (!Array.isArray(params)) return null;
+  const raw = params.find((p) => typeof p === 'object' || (typeof p === 'string' && p.trim().startsWith('{')));
+
+  let typed: TypedData;
+  try {
+    typed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch {
+    return null;
+  }
+  if (!typed?.primaryType || !typed.message) return null;
+
+  const { domain = {}, primaryType, message } = typed;
+  const verifyingContract = domain.verifyingContract?.toLowerCase();
+  const tokens: DecodedTokenAmount[] = [];
+  let spender: string | undefined;
+  let action: DecodedAction = 'other';
+
+  switch (primaryType) {
+    // EIP-2612 (and DAI-style `allowed` permits) — the domain is the token itself
+    case 'Permit':
+      if (verifyingContract) tokens.push({ token: verifyingContract, amount: asString(message.value), direction: 'approve' });
+      spender = message.spender;
+      action = 'permit';
+      break;
+    // Permit2 AllowanceTransfer
+    case 'PermitSingle':
+    case 'PermitBatch': {
+      const details = Array.isArray(message.details) ? message.details : [message.details];
+      for (const d of details) {
+        if (d?.token) tokens.push({ token: d.token, amount: asString(d.amount), direction: 'approve' });
+      }
+      spender = message.spender;
+      action = 'permit';
+      break;
+    }
+    // Permit2 SignatureTransfer (also UniswapX orders via the witness variants)
+    case 'PermitTransferFrom':
+    case 'PermitWitnessTransferFrom':
+    case 'PermitBatchTransferFrom':
+    case 'PermitBatchWitnessTransferFrom': {
+      const permitted = Array.isArray(message.permitted) ? message.permitted : [message.permitted];
+      for (const p of permitted) {
+        if (p?.token) tokens.push({ token: p.token, amount: asString(p.amount), direction: 'approve' });
+      }
+      spender = message.spender;
+      action = 'permit';
+      break;
+    }
+  }
+
+  return {
+    source: 'typedData',
+    protocol: domain.name || 'EIP-712',
+    functionName: primaryType,
+    contract: verifyingContract,
+    action,
+    args: message,
+    tokens,
+    ...(spender && { spender }),
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: asString(domain.chainId),
+      verifyingContract,
+    },
+  };
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Decode a Web3 request's params for recording.
+ * Returns null for other methods, unknown selectors, or payloads that fail to decode.
+ */
+export function decodeWeb3Payload(method: string, params: unknown): DecodedWeb3Payload | null {
+  try {
+    if (method === 'eth_sendTransaction') {
+      return decodeTransaction(params);
+    }
+    if (method === 'eth_signTypedData_v4' || method === 'eth_signTypedData_v3') {
+      return decodeTypedData(params);
+    }
+  } catch (error) {
+    console.warn('[CalldataDecoder] Failed to decode', method, error);
+  }
+  return null;
+}
@@ -5,20 +5,47 @@
  * - Clicks on actionable elements (buttons, links, inputs, [role="button"])
  * - Input value changes (debounced 300ms, immediate on blur)
  * - Navigation events (URL changes via History API and popstate)
+ * - Scrolls of the window or inner containers (recorded once the scroll settles)
+ * - Hovers over menu/tooltip triggers, recorded only when the hover revealed
+ *   something the user then interacted with
+ * - Non-text key presses (Enter, Escape, Tab, arrows) and modifier shortcuts
+ * - Drags on sliders, range inputs and draggable elements
+ * - Assertions picked in assert mode (see assert-capture.ts)
+ *
+ * Runs in every frame. Steps carry their iframe chain and shadow-host path
+ * (see getElementContext) so elements inside widgets and web components can be located,
+ * plus a ranked bundle of alternative selectors (see generateSelectorCandidates).
+ *
+ * Values, DOM context and page text are masked by the redaction rules before a step
+ * leaves the page (see redaction.ts); password inputs are recorded masked.
  *
  * Skips:
- * - Password fields (security)
- * - Hover/scroll events (too noisy)
+ * - Password fields when password masking is turned off (security)
+ * - Plain mouse movement and hovers that lead nowhere (too noisy)
  * - Non-interactive elements
  */
 
-import { generateSelector, getElementMetadata, getParentOuterHTML, getNearbyVisibleText, getCurrentHeadingContext } from './selector';
+import {
+  generateSelector,
+  getElementMetadata,
+  getParentOuterHTML,
+  getNearbyVisibleText,
+  getCurrentHeadingContext,
+  getElementContext,
+  getEventTarget,
+  getComposedParent,
+} from './selector';
+import { generateSelectorCandidates } from './selector-candidates';
+import { initRedaction, redactStep, redactText, shouldRecordPasswordInput } from './redaction';
 import type { RecordedStep, SuccessSnapshot } from './steps';
 
 // Capture state
 let isCapturing = false;
 let currentSessionId: string | null = null;
 
+// Last step captured in this frame (network requests are linked to it)
+let lastCapturedStep: { id: string; timestamp: number } | null = null;
+
 // Debounce timers for input fields
 const inputTimers = new Map<Element, number>();
 const INPUT_DEBOUNCE_MS = 300;
@@ -34,6 +61,38 @@ let lastCapturedUrl = '';
 let pendingPointerdown: { element: Element; timer: number } | null = null;
 const POINTERDOWN_CLICK_WINDOW_MS = 400;
 
+// Last captured value per input — blur after a debounced capture must not duplicate the step
+const lastInputValues = new WeakMap<Element, string>();
+
+// Scroll: record the final position once scrolling stops
+const SCROLL_SETTLE_MS = 400;
+const MIN_SCROLL_DELTA_PX = 50;
+const scrollTimers = new Map<EventTarget, number>();
+const lastScrollPositions = new WeakMap<object, { x: number; y: number }>();
+
+// Hover: a trigger is "armed" after the pointer rests on it; it is only recorded
+// when the user then presses on a different element (e.g. an item in the revealed menu)
+const HOVER_DWELL_MS = 500;
+const HOVER_EXPIRY_MS = 10000;
+let pendingHover: { element: Element; timer: number; startedAt: number } | null = null;
+let armedHover: { element: Element; armedAt: number; dwellMs: number } | null = null;
+
+// Keyboard: keys that have no text input equivalent and must be replayed explicitly
+const RECORDED_KEYS = [
+  'Enter', 'Escape', 'Tab',
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
+  'PageUp', 'PageDown', 'Home', 'End',
+];
+const MODIFIER_KEYS = ['Alt', 'Control', 'Meta', 'Shift'];
+// Editing shortcuts are already reflected in the captured input value
+const EDITING_SHORTCUT_KEYS = ['a', 'c', 'v', 'x', 'z', 'y'];
+
+// Drag: pointer must travel this far with the button held before it counts as a drag
+const DRAG_THRESHOLD_PX = 8;
+const DRAG_TARGET_SELECTOR = '[role="slider"], input[type="range"], [draggable="true"], [class*="slider" i]';
+let pendingDrag: { element: Element; startX: number; startY: number; isDragging: boolean } | null = null;
+let suppressClickAfterDrag = false;
+
 /**
  * Actionable element types that should capture clicks
  */
@@ -76,7 +135,7 @@ function findActionableAncestor(element: Element | null, maxDepth = 10): Element
       return current;
     }
 
-    current = current.parentElement;
+    current = getComposedParent(current);
     depth++;
   }
 
@@ -84,18 +143,22 @@ function findActionableAncestor(element: Element | null, maxDepth = 10): Element
 }
 
 /**
- * Check if input type should be captured (skip password)
+ * Check if input type should be captured (skip password unless it will be masked)
  */
 function shouldCaptureInput(element: HTMLInputElement | HTMLTextAreaElement): boolean {
   if (element instanceof HTMLInputElement) {
-    // Skip password fields for security
+    // Password values are only recorded masked
     if (element.type === 'password') {
-      return false;
+      return shouldRecordPasswordInput();
     }
     // Skip hidden fields
     if (element.type === 'hidden') {
       return false;
     }
+    // Range inputs are recorded as drag steps
+    if (element.type === 'range') {
+      return false;
+    }
   }
   return true;
 }
@@ -103,17 +166,23 @@ function shouldCaptureInput(element: HTMLInputElement | HTMLTextAreaElement): bo
 /**
  * Create a recorded step and send to background
  */
-function captureStep(step: Omit<RecordedStep, 'id' | 'timestamp'>): void {
+function captureStep(step: Omit<RecordedStep, 'id' | 'timestamp'>, element?: Element): void {
   if (!isCapturing || !currentSessionId) {
     return;
   }
 
   const recordedStep: RecordedStep = {
-    ...step,
+    ...redactStep({
+      ...step,
+      ...(element && step.selector ? { selectorCandidates: generateSelectorCandidates(element, step.selector) } : {}),
+    }, element),
+    ...getElementContext(element),
     id: crypto.randomUUID(),
     timestamp: Date.now(),
   };
 
+  lastCapturedStep = { id: recordedStep.id, timestamp: recordedStep.timestamp };
+
   // Send to background worker
   chrome.runtime.sendMessage({
     type: 'STEP_CAPTURED',
@@ -127,13 +196,34 @@ function captureStep(step: Omit<RecordedStep, 'id' | 'timestamp'>): void {
   console.log('Step captured:', recordedStep.type, recordedStep.selector || recordedStep.url);
 }
 
+/**
+ * The most recent step captured in this frame — network requests are linked to it
+ */
+export function getLastCapturedStep(): { id: string; timestamp: number } | null {
+  return lastCapturedStep;
+}
+
+/**
+ * Record a step for an element picked outside the DOM listeners (assert mode)
+ */
+export function captureElementStep(step: Omit<RecordedStep, 'id' | 'timestamp'>, element: Element): void {
+  captureStep(step, element);
+}
+
 /**
  * Handle click events
  */
 function handleClick(event: MouseEvent): void {
   if (!isCapturing) return;
 
-  const target = event.target as Element;
+  // The click that ends a drag is part of the drag step
+  if (suppressClickAfterDrag) {
+    suppressClickAfterDrag = false;
+    return;
+  }
+
+  const target = getEventTarget(event);
+  if (!target) return;
   const actionable = findActionableAncestor(target);
 
   if (!actionable) {
@@ -212,7 +302,7 @@ function captureClickOnElement(actionable: Element): void {
       ariaChecked: metadata.ariaChecked,
       nearbyLabel: metadata.nearbyLabel,
     },
-  });
+  }, resolvedElement);
 }
 
 /**
@@ -222,9 +312,20 @@ function captureClickOnElement(actionable: Element): void {
 function handlePointerDown(event: PointerEvent): void {
   if (!isCapturing) return;
 
-  const target = event.target as Element;
+  const target = getEventTarget(event);
+  if (!target) return;
+
+  // Remember where the press started — pointermove decides whether it becomes a drag
+  const dragElement = target.closest?.(DRAG_TARGET_SELECTOR);
+  pendingDrag = dragElement
+    ? { element: dragElement, startX: event.clientX, startY: event.clientY, isDragging: false }
+    : null;
+
   const actionable = findActionableAncestor(target);
 
+  // A press on something other than the hovered trigger means the hover revealed it
+  flushArmedHover(actionable || target);
+
   if (!actionable) return;
 
   // For text inputs, skip — handled by input event
@@ -257,7 +358,7 @@ function handlePointerDown(event: PointerEvent): void {
 function handleInput(event: Event): void {
   if (!isCapturing) return;
 
-  const target = event.target as HTMLInputElement | HTMLTextAreaElement;
+  const target = getEventTarget(event) as HTMLInputElement | HTMLTextAreaElement;
 
   if (!(target instanceof HTMLInputElement) && !(target instanceof HTMLTextAreaElement)) {
     return;
@@ -288,7 +389,7 @@ function handleInput(event: Event): void {
 function handleBlur(event: FocusEvent): void {
   if (!isCapturing) return;
 
-  const target = event.target as HTMLInputElement | HTMLTextAreaElement;
+  const target = getEventTarget(event) as HTMLInputElement | HTMLTextAreaElement;
 
   if (!(target instanceof HTMLInputElement) && !(target instanceof HTMLTextAreaElement)) {
     return;
@@ -320,6 +421,12 @@ function captureInputValue(target: HTMLInputElement | HTMLTextAreaElement): void
     return;
   }
 
+  // Skip if this exact value was already captured (debounce fired, then blur)
+  if (lastInputValues.get(target) === value) {
+    return;
+  }
+  lastInputValues.set(target, value);
+
   const selector = generateSelector(target);
   const metadata = getElementMetadata(target);
 
@@ -333,7 +440,370 @@ function captureInputValue(target: HTMLInputElement | HTMLTextAreaElement): void
       inputName: metadata.name,
       placeholder: metadata.placeholder,
     },
-  });
+  }, target);
+}
+
+/**
+ * Flush a pending debounced input so it is recorded before the key that submits it
+ */
+function flushPendingInput(target: EventTarget | null): void {
+  if (!(target instanceof HTMLInputElement) && !(target instanceof HTMLTextAreaElement)) {
+    return;
+  }
+  const existingTimer = inputTimers.get(target);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+    inputTimers.delete(target);
+    if (shouldCaptureInput(target)) {
+      captureInputValue(target);
+    }
+  }
+}
+
+/**
+ * Handle scroll events (capture phase — scroll does not bubble from inner containers)
+ */
+function handleScroll(event: Event): void {
+  if (!isCapturing) return;
+
+  const target = event.target;
+  if (!target) return;
+
+  const existingTimer = scrollTimers.get(target);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
+
+  const timer = window.setTimeout(() => {
+    scrollTimers.delete(target);
+    captureScroll(target);
+  }, SCROLL_SETTLE_MS);
+
+  scrollTimers.set(target, timer);
+}
+
+/**
+ * Capture the settled scroll position of the window or a scrollable element
+ */
+function captureScroll(target: EventTarget): void {
+  const isWindow =
+    target === document ||
+    target === document.documentElement ||
+    target === document.body;
+
+  const key: object = isWindow ? document : target;
+  const x = isWindow ? window.scrollX : (target as Element).scrollLeft;
+  const y = isWindow ? window.scrollY : (target as Element).scrollTop;
+
+  const last = lastScrollPositions.get(key) || { x: 0, y: 0 };
+  if (Math.abs(x - last.x) < MIN_SCROLL_DELTA_PX && Math.abs(y - last.y) < MIN_SCROLL_DELTA_PX) {
+    return;
+  }
+  lastScrollPositions.set(key, { x, y });
+
+  if (isWindow) {
+    captureStep({
+      type: 'scroll',
+      scrollX: Math.round(x),
+      scrollY: Math.round(y),
+      metadata: { tagName: 'html', scrollTarget: 'window', pageTitle: document.title },
+    });
+    return;
+  }
+
+  const element = target as Element;
+  const metadata = getElementMetadata(element);
+  captureStep({
+    type: 'scroll',
+    selector: generateSelector(element),
+    scrollX: Math.round(x),
+    scrollY: Math.round(y),
+    metadata: {
+      tagName: metadata.tagName,
+      ariaLabel: metadata.ariaLabel,
+      role: metadata.role,
+      dataTestId: metadata.dataTestId,
+      scrollTarget: 'element',
+      pageTitle: document.title,
+    },
+  }, element);
+}
+
+/**
+ * Find the nearest ancestor that reveals content on hover (menus, popovers, tooltips)
+ */
+function findHoverTrigger(element: Element | null, maxDepth = 5): Element | null {
+  let current = element;
+  let depth = 0;
+
+  while (current && current !== document.body && depth < maxDepth) {
+    if (
+      current.hasAttribute('aria-haspopup') ||
+      current.hasAttribute('aria-expanded') ||
+      current.hasAttribute('aria-describedby') ||
+      current.hasAttribute('data-tooltip')
+    ) {
+      return current;
+    }
+    current = getComposedParent(current);
+    depth++;
+  }
+
+  return null;
+}
+
+/**
+ * Handle mouseover — start the dwell timer on hover triggers
+ */
+function handleMouseOver(event: MouseEvent): void {
+  if (!isCapturing) return;
+
+  const trigger = findHoverTrigger(getEventTarget(event));
+  if (!trigger) return;
+
+  if (pendingHover?.element === trigger || armedHover?.element === trigger) {
+    return;
+  }
+
+  if (pendingHover) {
+    clearTimeout(pendingHover.timer);
+  }
+
+  const startedAt = Date.now();
+  const timer = window.setTimeout(() => {
+    if (pendingHover?.element === trigger) {
+      armedHover = { element: trigger, armedAt: Date.now(), dwellMs: Date.now() - startedAt };
+      pendingHover = null;
+    }
+  }, HOVER_DWELL_MS);
+
+  pendingHover = { element: trigger, timer, startedAt };
+}
+
+/**
+ * Handle mouseout — cancel the dwell timer if the pointer left the trigger early
+ */
+function handleMouseOut(event: MouseEvent): void {
+  if (!isCapturing || !pendingHover) return;
+
+  const related = event.relatedTarget as Node | null;
+  if (related && pendingHover.element.contains(related)) {
+    return;
+  }
+
+  const target = getEventTarget(event);
+  if (target === pendingHover.element || (target && pendingHover.element.contains(target))) {
+    clearTimeout(pendingHover.timer);
+    pendingHover = null;
+  }
+}
+
+/**
+ * Record the armed hover if the user is now pressing on a different element.
+ * Pressing on the trigger itself is a plain click, so the hover is dropped.
+ */
+function flushArmedHover(pressed: Element): void {
+  if (pendingHover) {
+    clearTimeout(pendingHover.timer);
+    pendingHover = null;
+  }
+
+  if (!armedHover) return;
+
+  const hover = armedHover;
+  armedHover = null;
+
+  if (Date.now() - hover.armedAt > HOVER_EXPIRY_MS) return;
+  if (hover.element === pressed || (hover.element.contains(pressed) && findHoverTrigger(pressed) === hover.element)) {
+    return;
+  }
+
+  const metadata = getElementMetadata(hover.element);
+  captureStep({
+    type: 'hover',
+    selector: generateSelector(hover.element),
+    metadata: {
+      tagName: metadata.tagName,
+      text: metadata.text,
+      ariaLabel: metadata.ariaLabel,
+      role: metadata.role,
+      dataTestId: metadata.dataTestId,
+      pageTitle: document.title,
+      hoverDurationMs: hover.dwellMs,
+    },
+  }, hover.element);
+}
+
+/**
+ * Handle keydown — record keys that have no text equivalent and modifier shortcuts
+ */
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!isCapturing) return;
+  if (event.repeat || event.isComposing) return;
+  if (MODIFIER_KEYS.includes(event.key)) return;
+
+  const modifiers: Array<'Alt' | 'Control' | 'Meta' | 'Shift'> = [];
+  if (event.altKey) modifiers.push('Alt');
+  if (event.ctrlKey) modifiers.push('Control');
+  if (event.metaKey) modifiers.push('Meta');
+  if (event.shiftKey) modifiers.push('Shift');
+
+  const isShortcut =
+    (event.altKey || event.ctrlKey || event.metaKey) &&
+    !EDITING_SHORTCUT_KEYS.includes(event.key.toLowerCase());
+
+  if (!RECORDED_KEYS.includes(event.key) && !isShortcut) {
+    return;
+  }
+
+  // Never record keys typed into password fields
+  const target = getEventTarget(event);
+  if (target instanceof HTMLInputElement && target.type === 'password') {
+    return;
+  }
+
+  // Make sure the value being submitted is recorded before the key that submits it
+  flushPendingInput(target);
+
+  const hasTarget = target instanceof Element && target !== document.body && target !== document.documentElement;
+  const metadata = hasTarget ? getElementMetadata(target) : null;
+
+  captureStep({
+    type: 'keypress',
+    key: event.key,
+    ...(modifiers.length > 0 ? { modifiers } : {}),
+    ...(hasTarget ? { selector: generateSelector(target) } : {}),
+    ...(metadata
+      ? {
+          metadata: {
+            tagName: metadata.tagName,
+            text: metadata.text,
+            ariaLabel: metadata.ariaLabel,
+            role: metadata.role,
+            dataTestId: metadata.dataTestId,
+            inputType: metadata.type,
+            inputName: metadata.name,
+            placeholder: metadata.placeholder,
+            pageTitle: document.title,
+          },
+        }
+      : {}),
+  }, hasTarget ? target : undefined);
+}
+
+/**
+ * Handle pointermove — promote a press on a drag target to a drag once it moves far enough
+ */
+function handlePointerMove(event: PointerEvent): void {
+  if (!isCapturing || !pendingDrag || pendingDrag.isDragging) return;
+  if ((event.buttons & 1) === 0) {
+    pendingDrag = null;
+    return;
+  }
+
+  const dx = event.clientX - pendingDrag.startX;
+  const dy = event.clientY - pendingDrag.startY;
+  if (Math.hypot(dx, dy) >= DRAG_THRESHOLD_PX) {
+    pendingDrag.isDragging = true;
+
+    // This press is a drag, not a click — cancel the pointerdown click fallback
+    if (pendingPointerdown) {
+      clearTimeout(pendingPointerdown.timer);
+      pendingPointerdown = null;
+    }
+  }
+}
+
+/**
+ * Walk up from a slider thumb to the track it moves along
+ */
+function getTrackElement(element: Element): Element {
+  const width = element.getBoundingClientRect().width;
+  let current = element.parentElement;
+  let depth = 0;
+
+  while (current && current !== document.body && depth < 3) {
+    if (current.getBoundingClientRect().width > width * 4) {
+      return current;
+    }
+    current = current.parentElement;
+    depth++;
+  }
+
+  return element;
+}
+
+/**
+ * Read a slider's current value (ARIA slider or native range input)
+ */
+function getSliderState(element: Element): { value?: string; min?: string; max?: string } {
+  if (element instanceof HTMLInputElement && element.type === 'range') {
+    return { value: element.value, min: element.min || undefined, max: element.max || undefined };
+  }
+
+  const slider = element.matches('[role="slider"]') ? element : element.querySelector('[role="slider"]');
+  if (!slider) return {};
+
+  return {
+    value: slider.getAttribute('aria-valuenow') ?? undefined,
+    min: slider.getAttribute('aria-valuemin') ?? undefined,
+    max: slider.getAttribute('aria-valuemax') ?? undefined,
+  };
+}
+
+/**
+ * Handle pointerup — record the drag if the press turned into one
+ */
+function handlePointerUp(event: PointerEvent): void {
+  if (!isCapturing || !pendingDrag) return;
+
+  const drag = pendingDrag;
+  pendingDrag = null;
+
+  if (!drag.isDragging) return;
+
+  // The browser fires a click right after this pointerup — it belongs to the drag
+  suppressClickAfterDrag = true;
+  window.setTimeout(() => {
+    suppressClickAfterDrag = false;
+  }, 0);
+
+  // Ratios are taken along the track; replay needs the track's box, not the thumb's
+  const trackElement = getTrackElement(drag.element);
+  const track = trackElement.getBoundingClientRect();
+  const toRatio = (x: number) =>
+    track.width > 0 ? Math.min(1, Math.max(0, (x - track.left) / track.width)) : undefined;
+
+  const slider = getSliderState(drag.element);
+  const metadata = getElementMetadata(drag.element);
+
+  captureStep({
+    type: 'drag',
+    selector: generateSelector(drag.element),
+    drag: {
+      startX: Math.round(drag.startX),
+      startY: Math.round(drag.startY),
+      endX: Math.round(event.clientX),
+      endY: Math.round(event.clientY),
+      startRatioX: toRatio(drag.startX),
+      endRatioX: toRatio(event.clientX),
+      trackSelector: trackElement !== drag.element ? generateSelector(trackElement) : undefined,
+      valueAfter: slider.value,
+    },
+    metadata: {
+      tagName: metadata.tagName,
+      text: metadata.text,
+      ariaLabel: metadata.ariaLabel,
+      role: metadata.role,
+      dataTestId: metadata.dataTestId,
+      inputType: metadata.type,
+      inputName: metadata.name,
+      nearbyLabel: metadata.nearbyLabel,
+      pageTitle: document.title,
+      valueMin: slider.min,
+      valueMax: slider.max,
+    },
+  }, drag.element);
 }
 
 /**
@@ -342,6 +812,9 @@ function captureInputValue(target: HTMLInputElement | HTMLTextAreaElement): void
 function handleNavigation(url: string): void {
   if (!isCapturing) return;
 
+  // Route changes inside an embedded widget are not page navigations
+  if (window !== window.top) return;
+
   // Avoid duplicate captures
   if (url === lastCapturedUrl) {
     return;
@@ -398,11 +871,23 @@ export function initEventCapture(sessionId: string): void {
   currentSessionId = sessionId;
   lastCapturedUrl = window.location.href;
 
+  // Defaults (mask passwords and secrets) apply until the stored rules load
+  initRedaction().catch((error) => console.warn('Failed to load redaction settings:', error));
+
   // Add event listeners (capture phase for clicks to catch all)
   document.addEventListener('click', handleClick, true);
   document.addEventListener('pointerdown', handlePointerDown, true);
   document.addEventListener('input', handleInput, true);
   document.addEventListener('blur', handleBlur, true);
+  document.addEventListener('scroll', handleScroll, true);
+  document.addEventListener('mouseover', handleMouseOver, true);
+  document.addEventListener('mouseout', handleMouseOut, true);
+  document.addEventListener('keydown', handleKeyDown, true);
+  document.addEventListener('pointermove', handlePointerMove, true);
+  document.addEventListener('pointerup', handlePointerUp, true);
+
+  // Baseline for scroll deltas
+  lastScrollPositions.set(document, { x: window.scrollX, y: window.scrollY });
 
   // Override History API methods
   originalPushState = history.pushState.bind(history);
@@ -454,7 +939,7 @@ export function capturePageState(): Omit<SuccessSnapshot, 'screenshot'> {
         if (seen.has(text)) continue;
 
         seen.add(text);
-        visibleText.push(text);
+        visibleText.push(redactText(text));
 
         if (visibleText.length >= 50) break;
       }
@@ -484,12 +969,19 @@ export function stopEventCapture(): void {
 
   isCapturing = false;
   currentSessionId = null;
+  lastCapturedStep = null;
 
   // Remove event listeners
   document.removeEventListener('click', handleClick, true);
   document.removeEventListener('pointerdown', handlePointerDown, true);
   document.removeEventListener('input', handleInput, true);
   document.removeEventListener('blur', handleBlur, true);
+  document.removeEventListener('scroll', handleScroll, true);
+  document.removeEventListener('mouseover', handleMouseOver, true);
+  document.removeEventListener('mouseout', handleMouseOut, true);
+  document.removeEventListener('keydown', handleKeyDown, true);
+  document.removeEventListener('pointermove', handlePointerMove, true);
+  document.removeEventListener('pointerup', handlePointerUp, true);
 
   // Clear pending pointerdown
   if (pendingPointerdown) {
@@ -513,6 +1005,17 @@ export function stopEventCapture(): void {
   // Clear any pending timers
   inputTimers.forEach((timer) => clearTimeout(timer));
   inputTimers.clear();
+  scrollTimers.forEach((timer) => clearTimeout(timer));
+  scrollTimers.clear();
+
+  // Reset hover and drag tracking
+  if (pendingHover) {
+    clearTimeout(pendingHover.timer);
+    pendingHover = null;
+  }
+  armedHover = null;
+  pendingDrag = null;
+  suppressClickAfterDrag = false;
 
   console.log('Event capture stopped');
 }
@@ -0,0 +1,338 @@
+/**
+ * Sensitive-data redaction for recordings
+ * Rules are configured on the settings page and stored in chrome.storage.sync. The content
+ * script masks values before a step leaves the page, and blurs matching elements while
+ * the background takes a screenshot.
+ */
+
+import type { RecordedStep, StepRedaction } from './steps';
+
+export interface RedactionRule {
+  // field: case-insensitive substring of the input's name, id, placeholder, aria-label,
+  // autocomplete or label text. regex: matched against values and captured page text
+  kind: 'field' | 'regex';
+  pattern: string;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  maskPasswords: boolean;
+  // Seed phrases and private keys
+  maskSecrets: boolean;
+  blurScreenshots: boolean;
+  rules: RedactionRule[];
+}
+
+// Replaces redacted text everywhere; the translator turns redacted values into parameters
+export const REDACTED_VALUE = '[REDACTED]';
+
+const STORAGE_KEY = 'redactionSettings';
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  maskPasswords: true,
+  maskSecrets: true,
+  blurScreenshots: true,
+  rules: [],
+};
+
+const PRIVATE_KEY_PATTERN = /^(?:0x)?[0-9a-fA-F]{64}$/;
+// In page text only un-prefixed keys — 0x-prefixed 64-hex strings on a dApp are tx hashes
+const PRIVATE_KEY_IN_TEXT_PATTERN = /\b[0-9a-fA-F]{64}\b/g;
+// BIP-39 mnemonics: 12-24 words (multiple of 3), every word 3-8 lowercase letters
+const SEED_WORD_PATTERN = /^[a-z]{3,8}$/;
+const SEED_PHRASE_LENGTHS = [12, 15, 18, 21, 24];
+
+const BLUR_ATTR = 'data-w3t-redaction-blur';
+const BLUR_FILTER = 'blur(8px)';
+
+// Settings cached in the content script — the DOM listeners need them synchronously
+let cachedSettings: RedactionSettings = { ...DEFAULT_REDACTION_SETTINGS };
+let isWatching = false;
+
+/**
+ * Get redaction settings from chrome.storage.sync
+ */
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  try {
+    const result = await chrome.storage.sync.get(STORAGE_KEY);
+    return { ...DEFAULT_REDACTION_SETTINGS, ...result[STORAGE_KEY] };
+  } catch (error) {
+    console.error('Failed to get redaction settings:', error);
+    return { ...DEFAULT_REDACTION_SETTINGS };
+  }
+}
+
+/**
+ * Save redaction settings to chrome.storage.sync
+ */
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<void> {
+  await chrome.storage.sync.set({ [STORAGE_KEY]: settings });
+}
+
+/**
+ * Load settings into the content script cache and keep it in sync with the settings page
+ */
+export async function initRedaction(): Promise<void> {
+  if (!isWatching) {
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes[STORAGE_KEY]) {
+        cachedSettings = { ...DEFAULT_REDACTION_SETTINGS, ...changes[STORAGE_KEY].newValue };
+      }
+    });
+    isWatching = true;
+  }
+  cachedSettings = await getRedactionSettings();
+}
+
+/**
+ * Current settings in the content script (defaults until initRedaction resolves)
+ */
+export function getCachedRedactionSettings(): RedactionSettings {
+  return cachedSettings;
+}
+
+/**
+ * Return an error message for an invalid regex rule, or null when it compiles
+ */
+export function validateRegexRule(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+function compileRegexRules(rules: RedactionRule[]): RegExp[] {
+  return rules
+    .filter((rule) => rule.kind === 'regex' && rule.pattern && validateRegexRule(rule.pattern) === null)
+    .map((rule) => new RegExp(rule.pattern, 'gi'));
+}
+
+/**
+ * Whether a value looks like a seed phrase or a private key
+ */
+export function looksLikeSecret(value: string): boolean {
+  const trimmed = value.trim();
+  if (PRIVATE_KEY_PATTERN.test(trimmed)) {
+    return true;
+  }
+  const words = trimmed.split(/\s+/);
+  return SEED_PHRASE_LENGTHS.includes(words.length) && words.every((word) => SEED_WORD_PATTERN.test(word));
+}
+
+/**
+ * Attributes a field rule is matched against
+ */
+function getFieldNames(element: Element): string[] {
+  const names = [
+    element.getAttribute('name'),
+    element.id,
+    element.getAttribute('placeholder'),
+    element.getAttribute('aria-label'),
+    element.getAttribute('autocomplete'),
+  ];
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    for (const label of Array.from(element.labels || [])) {
+      names.push(label.textContent);
+    }
+  }
+  return names.filter((name): name is string => !!name).map((name) => name.toLowerCase());
+}
+
+function matchesFieldRule(element: Element, rules: RedactionRule[]): boolean {
+  const patterns = rules
+    .filter((rule) => rule.kind === 'field' && rule.pattern.trim())
+    .map((rule) => rule.pattern.trim().toLowerCase());
+  if (patterns.length === 0) return false;
+
+  const names = getFieldNames(element);
+  return patterns.some((pattern) => names.some((name) => name.includes(pattern)));
+}
+
+function matchesRegex(value: string, regexes: RegExp[]): boolean {
+  return regexes.some((regex) => {
+    regex.lastIndex = 0;
+    return regex.test(value);
+  });
+}
+
+/**
+ * Decide whether a value typed into (or asserted on) an element must be masked
+ */
+function getRedactionReason(
+  value: string,
+  element: Element | undefined,
+  settings: RedactionSettings,
+  regexes: RegExp[]
+): StepRedaction['reason'] | null {
+  if (element instanceof HTMLInputElement && element.type === 'password' && settings.maskPasswords) {
+    return 'password';
+  }
+  if (element && matchesFieldRule(element, settings.rules)) {
+    return 'rule';
+  }
+  if (settings.maskSecrets && looksLikeSecret(value)) {
+    return 'secret';
+  }
+  if (matchesRegex(value, regexes)) {
+    return 'rule';
+  }
+  return null;
+}
+
+/**
+ * Parameter name for a redacted value, derived from the field (e.g. "user-email" → USER_EMAIL)
+ */
+function toParamName(element: Element | undefined, reason: StepRedaction['reason']): string {
+  if (reason === 'password') return 'PASSWORD';
+
+  const source = element
+    ? element.getAttribute('name') || element.id || element.getAttribute('autocomplete') || element.getAttribute('placeholder') || ''
+    : '';
+  const name = source
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase()
+    .slice(0, 40);
+
+  if (!name) return reason === 'secret' ? 'SECRET_VALUE' : 'REDACTED_VALUE';
+  return /^[A-Z]/.test(name) ? name : `VALUE_${name}`;
+}
+
+function maskText(text: string, regexes: RegExp[], maskSecrets: boolean): string {
+  let result = text;
+  for (const regex of regexes) {
+    result = result.replace(regex, REDACTED_VALUE);
+  }
+  if (maskSecrets) {
+    result = result.replace(PRIVATE_KEY_IN_TEXT_PATTERN, REDACTED_VALUE);
+  }
+  return result;
+}
+
+/**
+ * Mask regex-rule matches and private keys in free text (nearby text, outerHTML, bodies)
+ */
+export function redactText(text: string, settings: RedactionSettings = cachedSettings): string {
+  if (!settings.enabled || !text) return text;
+  return maskText(text, compileRegexRules(settings.rules), settings.maskSecrets);
+}
+
+/**
+ * Mask sensitive values in a step before it is sent to the background.
+ * Redacted input values and assertion texts become REDACTED_VALUE plus a `redaction`
+ * parameter name; the raw value is also scrubbed from the captured DOM context.
+ */
+export function redactStep<T extends Omit<RecordedStep, 'id' | 'timestamp'>>(
+  step: T,
+  element?: Element,
+  settings: RedactionSettings = cachedSettings
+): T {
+  if (!settings.enabled) return step;
+
+  const regexes = compileRegexRules(settings.rules);
+  const redacted: T = { ...step };
+  const rawValues: string[] = [];
+
+  if (step.value) {
+    const reason = getRedactionReason(step.value, element, settings, regexes);
+    if (reason) {
+      rawValues.push(step.value);
+      redacted.value = REDACTED_VALUE;
+      redacted.redaction = { param: toParamName(element, reason), reason };
+    }
+  }
+
+  if (step.assertion?.expected) {
+    const reason = getRedactionReason(step.assertion.expected, element, settings, regexes);
+    if (reason) {
+      rawValues.push(step.assertion.expected);
+      redacted.assertion = { ...step.assertion, expected: REDACTED_VALUE };
+      redacted.redaction = { param: toParamName(element, reason), reason };
+    }
+  }
+
+  const scrub = (text: string | undefined): string | undefined => {
+    if (!text) return text;
+    let result = text;
+    for (const raw of rawValues) {
+      result = result.split(raw).join(REDACTED_VALUE);
+    }
+    return maskText(result, regexes, settings.maskSecrets);
+  };
+
+  if (step.metadata) {
+    redacted.metadata = {
+      ...step.metadata,
+      text: scrub(step.metadata.text),
+      parentOuterHTML: scrub(step.metadata.parentOuterHTML),
+      nearbyText: scrub(step.metadata.nearbyText),
+      headingContext: scrub(step.metadata.headingContext),
+      nearbyLabel: scrub(step.metadata.nearbyLabel),
+    };
+  }
+
+  if (step.selectorCandidates) {
+    redacted.selectorCandidates = step.selectorCandidates.map((candidate) =>
+      candidate.name ? { ...candidate, name: scrub(candidate.name) } : candidate
+    );
+  }
+
+  return redacted;
+}
+
+/**
+ * Whether a password input should be recorded at all (only when its value gets masked)
+ */
+export function shouldRecordPasswordInput(settings: RedactionSettings = cachedSettings): boolean {
+  return settings.enabled && settings.maskPasswords;
+}
+
+/**
+ * Blur sensitive fields and text in this document for a screenshot.
+ * Returns the number of blurred elements; undo with clearScreenshotBlur().
+ */
+export function applyScreenshotBlur(settings: RedactionSettings = cachedSettings): number {
+  if (!settings.enabled || !settings.blurScreenshots || !document.body) return 0;
+
+  const regexes = compileRegexRules(settings.rules);
+  const targets = new Set<HTMLElement>();
+
+  document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('input, textarea').forEach((field) => {
+    if (field.value && getRedactionReason(field.value, field, settings, regexes)) {
+      targets.add(field);
+    }
+  });
+
+  if (regexes.length > 0 || settings.maskSecrets) {
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    let node = walker.nextNode();
+    while (node) {
+      const text = node.textContent || '';
+      if (text.trim() && node.parentElement && maskText(text, regexes, settings.maskSecrets) !== text) {
+        targets.add(node.parentElement);
+      }
+      node = walker.nextNode();
+    }
+  }
+
+  for (const element of targets) {
+    element.setAttribute(BLUR_ATTR, element.style.filter);
+    element.style.filter = BLUR_FILTER;
+  }
+
+  return targets.size;
+}
+
+/**
+ * Restore elements blurred by applyScreenshotBlur()
+ */
+export function clearScreenshotBlur(): void {
+  document.querySelectorAll<HTMLElement>(`[${BLUR_ATTR}]`).forEach((element) => {
+    element.style.filter = element.getAttribute(BLUR_ATTR) || '';
+    element.removeAttribute(BLUR_ATTR);
+  });
+}
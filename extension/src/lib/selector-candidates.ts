@@ -0,0 +1,307 @@
+/**
+ * Multi-candidate selector bundles for recorded elements
+ *
+ * Alongside the single `selector`, each element step stores several ways of
+ * finding the element again, each with the number of elements it matched at
+ * capture time:
+ * 1. data-testid
+ * 2. ARIA role + accessible name
+ * 3. Exact visible text
+ * 4. CSS path (the step's primary selector)
+ * 5. XPath
+ * 6. Position relative to a labelled anchor ("the input after 'Amount'")
+ *
+ * Replay tries them by score, so a renamed class or moved wrapper falls back
+ * to the next candidate instead of invoking the agent.
+ */
+
+import type { SelectorCandidate } from './steps';
+
+type Strategy = SelectorCandidate['strategy'];
+
+// How well each strategy survives UI changes, before uniqueness is applied
+const STRATEGY_WEIGHT: Record<Strategy, number> = {
+  testid: 1.0,
+  role: 0.9,
+  anchor: 0.8,
+  text: 0.7,
+  css: 0.6,
+  xpath: 0.4,
+};
+
+// Elements that can carry each implicit role (explicit [role] is always included)
+const ROLE_QUERY: Record<string, string> = {
+  button: 'button, input[type="button"], input[type="submit"], input[type="reset"]',
+  link: 'a[href]',
+  textbox: 'input:not([type]), input[type="text"], input[type="email"], input[type="number"], input[type="tel"], input[type="url"], textarea',
+  searchbox: 'input[type="search"]',
+  checkbox: 'input[type="checkbox"]',
+  radio: 'input[type="radio"]',
+  slider: 'input[type="range"]',
+  combobox: 'select',
+  heading: 'h1, h2, h3, h4, h5, h6',
+};
+
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * Collapse whitespace the way accessible-name and text matching do
+ */
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get an element's explicit or implicit ARIA role
+ */
+function getRole(element: Element): string | null {
+  const explicit = element.getAttribute('role');
+  if (explicit) return explicit.split(' ')[0];
+
+  switch (element.tagName) {
+    case 'BUTTON':
+      return 'button';
+    case 'A':
+      return element.hasAttribute('href') ? 'link' : null;
+    case 'SELECT':
+      return 'combobox';
+    case 'TEXTAREA':
+      return 'textbox';
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+      return 'heading';
+    case 'INPUT': {
+      const type = (element as HTMLInputElement).type;
+      if (['button', 'submit', 'reset'].includes(type)) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'range') return 'slider';
+      if (type === 'search') return 'searchbox';
+      if (['text', 'email', 'number', 'tel', 'url'].includes(type)) return 'textbox';
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Approximate an element's accessible name (aria-label > labelledby > label > text)
+ */
+function getAccessibleName(element: Element): string {
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel) return normalizeText(ariaLabel);
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const text = labelledBy
+      .split(' ')
+      .map((id) => root.getElementById?.(id)?.textContent)
+      .join(' ');
+    if (normalizeText(text)) return normalizeText(text);
+  }
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+    const label = element.labels?.[0];
+    if (label) return normalizeText(label.textContent);
+    if (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type)) {
+      return normalizeText(element.value);
+    }
+    return normalizeText(element.getAttribute('placeholder'));
+  }
+
+  return normalizeText(element.textContent) || normalizeText(element.getAttribute('title'));
+}
+
+/**
+ * Quote a string as an XPath literal (XPath 1.0 has no escape sequences)
+ */
+function xpathLiteral(value: string): string {
+  if (!value.includes('"')) return `"${value}"`;
+  if (!value.includes("'")) return `'${value}'`;
+  return `concat("${value.split('"').join('", \'"\', "')}")`;
+}
+
+/**
+ * Count the nodes an XPath expression matches in the document
+ */
+function countXPath(expression: string): number {
+  try {
+    return document.evaluate(`count(${expression})`, document, null, XPathResult.NUMBER_TYPE, null).numberValue;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Resolve the first node an XPath expression matches in the document
+ */
+function firstXPathMatch(expression: string): Node | null {
+  try {
+    return document.evaluate(expression, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count elements with the same role whose accessible name contains `name`
+ * (Playwright's getByRole default is a case-insensitive substring match)
+ */
+function countRoleMatches(root: Document | ShadowRoot, role: string, name: string): number {
+  const query = ROLE_QUERY[role] ? `${ROLE_QUERY[role]}, [role="${role}"]` : `[role="${role}"]`;
+  const needle = name.toLowerCase();
+  let count = 0;
+
+  for (const candidate of Array.from(root.querySelectorAll(query))) {
+    if (getRole(candidate) !== role) continue;
+    if (getAccessibleName(candidate).toLowerCase().includes(needle)) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Count the tightest elements whose whole text is exactly `text`
+ * (mirrors getByText(text, { exact: true }), which skips ancestors of a match)
+ */
+function countTextMatches(root: Document | ShadowRoot, text: string): number {
+  let count = 0;
+
+  for (const candidate of Array.from(root.querySelectorAll('*'))) {
+    if (normalizeText(candidate.textContent) !== text) continue;
+    const childMatches = Array.from(candidate.children).some((child) => normalizeText(child.textContent) === text);
+    if (!childMatches) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Build an indexed XPath from the document root (e.g. /html/body/div[2]/button[1])
+ */
+function buildXPath(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.nodeType === Node.ELEMENT_NODE) {
+    const tag = current.tagName.toLowerCase();
+    let index = 1;
+    let sibling = current.previousElementSibling;
+    while (sibling) {
+      if (sibling.tagName === current.tagName) index++;
+      sibling = sibling.previousElementSibling;
+    }
+    parts.unshift(`${tag}[${index}]`);
+    current = current.parentElement;
+  }
+
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * Find nearby label text that precedes the element in its container
+ */
+function findAnchorText(element: Element): string | null {
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+    const label = normalizeText(element.labels?.[0]?.textContent);
+    if (label && label.length <= MAX_NAME_LENGTH) return label;
+  }
+
+  let current: Element | null = element;
+  for (let depth = 0; current && depth < 3; depth++) {
+    let sibling = current.previousElementSibling;
+    for (let i = 0; sibling && i < 3; i++) {
+      const text = normalizeText(sibling.textContent);
+      if (text && text.length <= MAX_NAME_LENGTH) return text;
+      sibling = sibling.previousElementSibling;
+    }
+    current = current.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Build a candidate entry, scoring it by strategy weight and uniqueness
+ */
+function candidate(
+  strategy: Strategy,
+  matchCount: number,
+  fields: { selector?: string; role?: string; name?: string }
+): SelectorCandidate | null {
+  if (matchCount < 1) return null;
+
+  return {
+    strategy,
+    selector: fields.selector || '',
+    ...(fields.role ? { role: fields.role } : {}),
+    ...(fields.name ? { name: fields.name } : {}),
+    matchCount,
+    score: Math.round((STRATEGY_WEIGHT[strategy] / matchCount) * 100) / 100,
+  };
+}
+
+/**
+ * Generate the ranked selector bundle for an element.
+ * `primarySelector` is the step's CSS selector from generateSelector().
+ */
+export function generateSelectorCandidates(element: Element, primarySelector: string): SelectorCandidate[] {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const inDocument = root === document;
+  const candidates: Array<SelectorCandidate | null> = [];
+
+  try {
+    // 1. data-testid
+    const testId = element.getAttribute('data-testid');
+    if (testId) {
+      const selector = `[data-testid="${CSS.escape(testId)}"]`;
+      candidates.push(candidate('testid', root.querySelectorAll(selector).length, { selector }));
+    }
+
+    // 2. role + accessible name
+    const role = getRole(element);
+    const name = getAccessibleName(element);
+    if (role && name && name.length <= MAX_NAME_LENGTH) {
+      candidates.push(candidate('role', countRoleMatches(root, role, name), { role, name }));
+    }
+
+    // 3. exact text
+    const text = normalizeText(element.textContent);
+    if (text && text.length <= MAX_NAME_LENGTH) {
+      candidates.push(candidate('text', countTextMatches(root, text), { name: text }));
+    }
+
+    // 4. CSS path (fallback selectors can be invalid CSS — skip rather than lose the bundle)
+    try {
+      candidates.push(candidate('css', root.querySelectorAll(primarySelector).length, { selector: primarySelector }));
+    } catch {
+      // Not a valid CSS selector
+    }
+
+    // XPath cannot reach into shadow roots
+    if (inDocument) {
+      // 5. indexed XPath
+      const xpath = buildXPath(element);
+      candidates.push(candidate('xpath', countXPath(xpath), { selector: `xpath=${xpath}` }));
+
+      // 6. relative to a labelled anchor
+      const anchorText = findAnchorText(element);
+      if (anchorText && anchorText !== text) {
+        const literal = xpathLiteral(anchorText);
+        const anchor = `//*[normalize-space(.)=${literal} and not(*[normalize-space(.)=${literal}])]`;
+        const expression = `${anchor}/following::${element.tagName.toLowerCase()}[1]`;
+        // Only keep it if the anchor is unique and actually leads back to this element
+        if (firstXPathMatch(expression) === element) {
+          candidates.push(candidate('anchor', countXPath(anchor), { selector: `xpath=${expression}` }));
+        }
+      }
+    }
+  } catch (error) {
+    // Candidate generation is best-effort — the primary selector is always recorded
+    console.warn('Failed to generate selector candidates:', error);
+  }
+
+  return candidates
+    .filter((c): c is SelectorCandidate => c !== null)
+    .sort((a, b) => b.score - a.score);
+}
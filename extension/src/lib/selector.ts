@@ -9,6 +9,9 @@
  * 4. CSS selector with nth-child fallback
  *
  * Blacklists CSS-in-JS hashed class names (css-, emotion-, styled-components)
+ *
+ * Selectors are scoped to the element's own root (document or shadow root).
+ * getElementContext() records the iframe chain and shadow hosts needed to reach that root.
  */
 
 import getCssSelector from 'css-selector-generator';
@@ -152,6 +155,9 @@ export function getElementMetadata(element: Element): ElementMetadata {
  * Prioritizes data-testid > id > aria-label > CSS
  */
 export function generateSelector(element: Element): string {
+  // Uniqueness checks run against the document or shadow root that contains the element
+  const root = getSelectorRoot(element);
+
   // 1. Highest priority: data-testid
   const testId = element.getAttribute('data-testid');
   if (testId) {
@@ -163,7 +169,7 @@ export function generateSelector(element: Element): string {
   if (id && !isCssInJsClass(id)) {
     // Verify id is unique in document
     try {
-      const matches = document.querySelectorAll(`#${CSS.escape(id)}`);
+      const matches = root.querySelectorAll(`#${CSS.escape(id)}`);
       if (matches.length === 1) {
         return `#${CSS.escape(id)}`;
       }
@@ -179,7 +185,7 @@ export function generateSelector(element: Element): string {
     if (role) {
       const selector = `[role="${role}"][aria-label="${CSS.escape(ariaLabel)}"]`;
       try {
-        const matches = document.querySelectorAll(selector);
+        const matches = root.querySelectorAll(selector);
         if (matches.length === 1) {
           return selector;
         }
@@ -190,7 +196,7 @@ export function generateSelector(element: Element): string {
 
     const tagSelector = `${element.tagName.toLowerCase()}[aria-label="${CSS.escape(ariaLabel)}"]`;
     try {
-      const matches = document.querySelectorAll(tagSelector);
+      const matches = root.querySelectorAll(tagSelector);
       if (matches.length === 1) {
         return tagSelector;
       }
@@ -201,7 +207,7 @@ export function generateSelector(element: Element): string {
 
   // 4. Use css-selector-generator with blacklisted patterns
   const options: SelectorOptions = {
-    root: document,
+    root,
     blacklist: [
       // Blacklist CSS-in-JS patterns
       (input: string) => {
@@ -228,6 +234,121 @@ export function generateSelector(element: Element): string {
   }
 }
 
+/**
+ * Frame and shadow-root location of a recorded element.
+ * Both paths run outermost to innermost; empty paths are omitted.
+ */
+export interface ElementContext {
+  framePath?: string[];
+  shadowPath?: string[];
+}
+
+/**
+ * Get the document or shadow root an element's selector is relative to
+ */
+function getSelectorRoot(element: Element): Document | ShadowRoot {
+  return element.getRootNode() as Document | ShadowRoot;
+}
+
+/**
+ * Get an element's parent, stepping out of a shadow root to its host
+ */
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement;
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+/**
+ * Resolve the real event target, looking through open shadow roots
+ * (document-level listeners otherwise only see the retargeted shadow host)
+ */
+export function getEventTarget(event: Event): Element | null {
+  const origin = event.composedPath()[0];
+  if (origin instanceof Element) return origin;
+  return event.target instanceof Element ? event.target : null;
+}
+
+/**
+ * Build the shadow-host chain for an element inside (possibly nested) open shadow roots
+ */
+function getShadowPath(element: Element): string[] {
+  const hosts: string[] = [];
+  let root = element.getRootNode();
+
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(generateSelector(root.host));
+    root = root.host.getRootNode();
+  }
+
+  return hosts;
+}
+
+/**
+ * Build a selector for one level of the frame chain.
+ * Same-origin parents expose the iframe element; cross-origin ones only expose origins.
+ */
+function getFrameSelector(win: Window, depth: number): string {
+  try {
+    const frameElement = win.frameElement;
+    if (frameElement) {
+      return generateSelector(frameElement);
+    }
+  } catch {
+    // Cross-origin ancestor — frameElement is not accessible
+  }
+
+  if (depth === 0 && window.name) {
+    return `iframe[name="${CSS.escape(window.name)}"]`;
+  }
+
+  // ancestorOrigins[0] is our parent's origin, so the frame at depth d has origin ancestorOrigins[d - 1]
+  const origin = depth === 0 ? window.location.origin : window.location.ancestorOrigins?.[depth - 1];
+  if (origin && origin !== 'null') {
+    return `iframe[src^="${origin}"]`;
+  }
+
+  return 'iframe';
+}
+
+/**
+ * Build the iframe chain from the top document down to this frame
+ */
+function getFramePath(): string[] {
+  const path: string[] = [];
+  let win: Window = window;
+  let depth = 0;
+
+  while (win !== win.parent && depth < 10) {
+    path.unshift(getFrameSelector(win, depth));
+    win = win.parent;
+    depth++;
+  }
+
+  return path;
+}
+
+/**
+ * Get the frame chain and shadow-host path for a recorded step.
+ * Called for every step so page-level steps recorded inside an iframe keep their frame.
+ */
+export function getElementContext(element?: Element | null): ElementContext {
+  const context: ElementContext = {};
+
+  if (window !== window.top) {
+    context.framePath = getFramePath();
+  }
+
+  if (element) {
+    const shadowPath = getShadowPath(element);
+    if (shadowPath.length > 0) {
+      context.shadowPath = shadowPath;
+    }
+  }
+
+  return context;
+}
+
 /**
  * Get truncated parent outerHTML for DOM context
  */
@@ -3,11 +3,119 @@
  * Used by event capture and web3 detection modules
  */
 
+/**
+ * One way of locating a recorded element, measured when the step was captured.
+ * Candidates are stored ranked by score (highest first).
+ */
+export interface SelectorCandidate {
+  strategy: 'testid' | 'role' | 'text' | 'css' | 'xpath' | 'anchor';
+  // Playwright selector: CSS, or 'xpath=' prefixed for xpath/anchor. Empty for role/text
+  selector: string;
+  // Role and accessible name (role), or exact text (text)
+  role?: string;
+  name?: string;
+  // Elements the candidate matched in the element's document/shadow root at capture time
+  matchCount: number;
+  // 0-1: strategy stability weighted by uniqueness (1 / matchCount)
+  score: number;
+}
+
+/**
+ * Expected outcome checked by an assert step
+ *
+ * - textVisible: `expected` appears somewhere on the page (no element)
+ * - textEquals / textContains: the element's text equals / contains `expected`
+ * - visible / enabled: the element is visible / enabled
+ * - attribute: the element's `attribute` equals `expected`
+ * - numberWithin: the first number in the element's text is within `tolerance` of `expected`
+ */
+export interface StepAssertion {
+  kind: 'textVisible' | 'textEquals' | 'textContains' | 'visible' | 'enabled' | 'attribute' | 'numberWithin';
+  expected?: string;
+  attribute?: string;
+  tolerance?: number;
+}
+
+/**
+ * A value masked by the recorder's redaction rules. The step's value (or assertion
+ * text) is '[REDACTED]'; generated tests read it from the `param` environment variable.
+ */
+export interface StepRedaction {
+  param: string;
+  reason: 'password' | 'secret' | 'rule';
+}
+
+/**
+ * Token movement in a decoded payload. `token` is a contract address or 'native';
+ * amounts are base-unit decimal strings
+ */
+export interface DecodedTokenAmount {
+  token: string;
+  amount?: string;
+  direction: 'in' | 'out' | 'approve';
+}
+
+/**
+ * eth_sendTransaction calldata or eth_signTypedData payload decoded at record time
+ * against the bundled ABI table (see calldata-decoder.ts)
+ */
+export interface DecodedWeb3Payload {
+  source: 'calldata' | 'typedData';
+  // 'ERC-20', 'Permit2', 'Uniswap V3', ... or the EIP-712 domain name
+  protocol: string;
+  // Contract function, or the EIP-712 primaryType
+  functionName: string;
+  signature?: string;
+  action: 'approve' | 'permit' | 'transfer' | 'swap' | 'deposit' | 'withdraw' | 'wrap' | 'unwrap' | 'other';
+  args: Record<string, unknown>;
+  tokens: DecodedTokenAmount[];
+  spender?: string;
+  // Called contract, or the EIP-712 verifyingContract
+  contract?: string;
+  domain?: {
+    name?: string;
+    version?: string;
+    chainId?: string;
+    verifyingContract?: string;
+  };
+}
+
+/**
+ * A fetch/XHR/WebSocket call the page made while recording. stepId links it to the
+ * step captured shortly before it in the same frame (the click that triggered it).
+ * Bodies are truncated; WebSocket entries are connections (CONNECT) and sent frames (SEND).
+ */
+export interface NetworkRequestEntry {
+  id: string;
+  kind: 'fetch' | 'xhr' | 'websocket';
+  method: string;
+  url: string;
+  status?: number;
+  startTime: number;
+  durationMs?: number;
+  // JSON-RPC method(s) when the body is a JSON-RPC request
+  rpcMethod?: string;
+  requestBody?: string;
+  responseBody?: string;
+  error?: string;
+  stepId?: string;
+}
+
 export interface RecordedStep {
   id: string;
-  type: 'click' | 'input' | 'navigation' | 'web3';
+  type: 'click' | 'input' | 'navigation' | 'web3' | 'scroll' | 'hover' | 'keypress' | 'drag' | 'assert';
   timestamp: number;
 
+  // Note added while reviewing the recording, passed to test generation as intent
+  comment?: string;
+
+  // Assert steps — picked on the page in assert mode, or added manually from the popup.
+  // Element assertions carry the usual selector, metadata and element context.
+  assertion?: StepAssertion;
+
+  // Set when the value or assertion text was masked before leaving the page
+  redaction?: StepRedaction;
+
   // Screenshot captured after this step (base64 data URL)
   screenshot?: string;
 
@@ -16,6 +124,38 @@ export interface RecordedStep {
   value?: string;
   url?: string;
 
+  // Where the element lives — both paths run outermost to innermost.
+  // framePath: iframe selectors from the top document down to the frame that recorded the step
+  // shadowPath: shadow-host selectors, each scoped to the root that contains it
+  framePath?: string[];
+  shadowPath?: string[];
+
+  // Ranked alternatives to `selector`, tried in order on replay before agent fallback
+  selectorCandidates?: SelectorCandidate[];
+
+  // Scroll position after the scroll settled (window or scrollable container)
+  scrollX?: number;
+  scrollY?: number;
+
+  // Keyboard interactions (non-text keys: Enter, Escape, Tab, arrows, shortcuts)
+  key?: string;
+  modifiers?: Array<'Alt' | 'Control' | 'Meta' | 'Shift'>;
+
+  // Drag interactions (sliders, drag handles) — coordinates are viewport pixels
+  drag?: {
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+    // Offsets along the track's bounding box (0-1), stable across viewports
+    startRatioX?: number;
+    endRatioX?: number;
+    // Track the ratios are measured on, when it is not the dragged element (slider thumbs)
+    trackSelector?: string;
+    // Slider value after the drag (aria-valuenow or input value)
+    valueAfter?: string;
+  };
+
   // Element metadata for step description
   metadata?: {
     tagName: string;
@@ -35,6 +175,13 @@ export interface RecordedStep {
     dataState?: string;
     ariaChecked?: string;
     nearbyLabel?: string;
+    // Hover: how long the pointer rested on the element before the step was recorded
+    hoverDurationMs?: number;
+    // Scroll: whether the window or an inner container was scrolled
+    scrollTarget?: 'window' | 'element';
+    // Slider metadata (role="slider" / input[type=range])
+    valueMin?: string;
+    valueMax?: string;
   };
 
   // Web3 interactions
@@ -46,6 +193,18 @@ export interface RecordedStep {
   txHash?: string;
   txStatus?: 'pending' | 'confirmed' | 'failed' | 'timeout';
 
+  // Function name, args, tokens and amounts decoded from web3Params
+  web3Decoded?: DecodedWeb3Payload;
+
+  // Wallet-side provider event (web3Method is the event name). before/after are
+  // accounts arrays (accountsChanged), hex chain IDs (chainChanged), or the last
+  // { accounts, chainId } and the disconnect error (disconnect)
+  web3Event?: {
+    name: 'accountsChanged' | 'chainChanged' | 'disconnect';
+    before: unknown;
+    after: unknown;
+  };
+
   // Transaction receipt metadata (populated after confirmation)
   txReceipt?: {
     blockNumber: number;
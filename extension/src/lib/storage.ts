@@ -14,6 +14,8 @@ export interface RecordingState {
   // Wallet connection state detected at recording start
   walletConnected: boolean;
   walletAddress: string | null;
+  // Paused sessions keep their tab and session but drop captured steps
+  isPaused: boolean;
 }
 
 const STORAGE_KEY = 'recordingState';
@@ -27,6 +29,7 @@ const DEFAULT_STATE: RecordingState = {
   stepCount: 0,
   walletConnected: false,
   walletAddress: null,
+  isPaused: false,
 };
 
 /**
@@ -121,6 +124,18 @@ export async function getRecordedSteps(): Promise<RecordedStep[]> {
   }
 }
 
+/**
+ * Replace all recorded steps (after an edit, reorder or manual insert)
+ */
+export async function setRecordedSteps(steps: RecordedStep[]): Promise<void> {
+  try {
+    await chrome.storage.session.set({ [STEPS_STORAGE_KEY]: steps });
+  } catch (error) {
+    console.error('Failed to set recorded steps:', error);
+    throw error;
+  }
+}
+
 /**
  * Clear all recorded steps from storage
  */
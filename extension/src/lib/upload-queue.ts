@@ -0,0 +1,307 @@
+/**
+ * Persistent upload queue for recordings
+ * Uploads live in chrome.storage.local until the API accepts them, so a down API or a
+ * wrong API key no longer loses the recording. Failed uploads are retried with backoff.
+ * Recordings larger than the API body limit are sent without screenshots first, then
+ * the screenshots follow in chunks and the spec is generated once they are all in.
+ */
+
+import { generateSpec, uploadRecording, uploadScreenshots } from './api-client';
+import type { UploadOptions, UploadResult } from './api-client';
+import type { RecordedStep } from './steps';
+
+export interface UploadPayload {
+  name: string;
+  startUrl: string;
+  steps: RecordedStep[];
+  metadata?: Record<string, unknown>;
+  options?: UploadOptions;
+  successState?: Record<string, unknown>;
+  networkRequests?: unknown[];
+}
+
+// Success-state snapshots that carry a screenshot
+const SUCCESS_SNAPSHOTS = ['markedSnapshot', 'stopSnapshot'] as const;
+export type SuccessSnapshotName = typeof SUCCESS_SNAPSHOTS[number];
+
+export interface ScreenshotChunkItem {
+  // The step or the success-state snapshot the screenshot belongs to
+  stepId?: string;
+  snapshot?: SuccessSnapshotName;
+  screenshot: string;
+}
+
+export interface QueuedUpload {
+  id: string;
+  name: string;
+  createdAt: number;
+  status: 'pending' | 'uploading' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Set once the recording exists on the API; retries then only send the remaining chunks
+  recordingId?: string;
+  result?: UploadResult;
+  uploadedChunks: number;
+  totalChunks: number;
+  payload: UploadPayload;
+}
+
+const STORAGE_KEY = 'uploadQueue';
+
+// Stay well under the API's 10 MiB bodyLimit to leave room for the JSON envelope
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+
+// Only one run at a time — the alarm and the popup can both trigger processing
+let activeRun: Promise<void> | null = null;
+
+/**
+ * Get all queued uploads from chrome.storage.local
+ */
+export async function getUploadQueue(): Promise<QueuedUpload[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return (result[STORAGE_KEY] as QueuedUpload[] | undefined) ?? [];
+  } catch (error) {
+    console.error('Failed to get upload queue:', error);
+    return [];
+  }
+}
+
+async function saveUploadQueue(queue: QueuedUpload[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: queue });
+}
+
+async function updateUpload(id: string, changes: Partial<QueuedUpload>): Promise<void> {
+  const queue = await getUploadQueue();
+  await saveUploadQueue(queue.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+}
+
+/**
+ * Add a recording to the upload queue
+ * It is picked up by the next processUploadQueue run
+ */
+export async function enqueueUpload(payload: UploadPayload): Promise<QueuedUpload> {
+  const item: QueuedUpload = {
+    id: crypto.randomUUID(),
+    name: payload.name,
+    createdAt: Date.now(),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    uploadedChunks: 0,
+    totalChunks: 0,
+    payload,
+  };
+
+  const queue = await getUploadQueue();
+  await saveUploadQueue([...queue, item]);
+  return item;
+}
+
+/**
+ * Remove an upload from the queue
+ */
+export async function removeUpload(id: string): Promise<void> {
+  const queue = await getUploadQueue();
+  await saveUploadQueue(queue.filter((item) => item.id !== id));
+}
+
+/**
+ * Strip screenshots from steps and the success state and pack them into chunks that
+ * each fit the upload limit
+ * Screenshots that cannot fit a request on their own are dropped
+ */
+export function splitScreenshots(steps: RecordedStep[], successState?: Record<string, unknown>): {
+  steps: RecordedStep[];
+  successState?: Record<string, unknown>;
+  chunks: ScreenshotChunkItem[][];
+} {
+  const chunks: ScreenshotChunkItem[][] = [];
+  let current: ScreenshotChunkItem[] = [];
+  let currentSize = 0;
+
+  const pack = (item: ScreenshotChunkItem) => {
+    const target = item.stepId ?? item.snapshot ?? '';
+    const size = item.screenshot.length + target.length + 32;
+    if (size > MAX_UPLOAD_BYTES) {
+      console.warn('[UploadQueue] Dropping oversized screenshot for', target);
+      return;
+    }
+
+    if (currentSize + size > MAX_UPLOAD_BYTES) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(item);
+    currentSize += size;
+  };
+
+  const stripped = steps.map((step) => {
+    if (!step.screenshot) {
+      return step;
+    }
+
+    const { screenshot, ...rest } = step;
+    pack({ stepId: step.id, screenshot });
+    return rest;
+  });
+
+  let strippedState = successState;
+  for (const name of SUCCESS_SNAPSHOTS) {
+    const snapshot = successState?.[name] as { screenshot?: string } | undefined;
+    if (!snapshot?.screenshot) {
+      continue;
+    }
+
+    const { screenshot, ...rest } = snapshot;
+    strippedState = { ...strippedState, [name]: rest };
+    pack({ snapshot: name, screenshot });
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return { steps: stripped, successState: strippedState, chunks };
+}
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Client errors (bad payload, wrong API key) won't fix themselves — the user has to
+ * change something and retry from the popup. Network errors and 5xx are retried.
+ */
+function isRetryable(result: UploadResult): boolean {
+  if (result.status === undefined) {
+    return true;
+  }
+  return result.status >= 500 || result.status === 408 || result.status === 429;
+}
+
+async function failUpload(item: QueuedUpload, result: UploadResult): Promise<UploadResult> {
+  const attempts = item.attempts + 1;
+  const retry = isRetryable(result) && attempts < MAX_ATTEMPTS;
+
+  await updateUpload(item.id, {
+    attempts,
+    status: retry ? 'pending' : 'failed',
+    nextAttemptAt: retry ? Date.now() + getRetryDelay(attempts) : 0,
+    lastError: result.error,
+  });
+
+  console.warn('[UploadQueue] Upload failed:', item.name, result.error, retry ? '(will retry)' : '');
+  return result;
+}
+
+/**
+ * Upload a single queued recording, resuming from the last uploaded chunk
+ */
+async function processUpload(item: QueuedUpload): Promise<UploadResult> {
+  await updateUpload(item.id, { status: 'uploading' });
+
+  const { payload } = item;
+  const oversized = JSON.stringify(payload).length > MAX_UPLOAD_BYTES;
+  const { steps, successState, chunks } = oversized
+    ? splitScreenshots(payload.steps, payload.successState)
+    : { steps: payload.steps, successState: payload.successState, chunks: [] };
+
+  // Generating on create would analyse the recording before its screenshots arrive
+  const deferGeneration = chunks.length > 0 && (payload.options?.autoGenerate ?? true);
+
+  let { recordingId, result } = item;
+
+  if (!recordingId) {
+    result = await uploadRecording(
+      payload.name,
+      payload.startUrl,
+      steps,
+      payload.metadata,
+      deferGeneration ? { ...payload.options, autoGenerate: false } : payload.options,
+      successState,
+      payload.networkRequests
+    );
+    if (!result.success || !result.recordingId) {
+      return failUpload(item, result);
+    }
+
+    recordingId = result.recordingId;
+    await updateUpload(item.id, { recordingId, result, totalChunks: chunks.length });
+  }
+
+  for (let i = item.uploadedChunks; i < chunks.length; i++) {
+    const chunkResult = await uploadScreenshots(recordingId, chunks[i]);
+    if (!chunkResult.success) {
+      return failUpload({ ...item, recordingId }, chunkResult);
+    }
+    await updateUpload(item.id, { uploadedChunks: i + 1 });
+  }
+
+  if (deferGeneration) {
+    // A failed generation leaves the recording usable: only retry when the API was down
+    const generation = await generateSpec(recordingId);
+    if (!generation.success && isRetryable(generation)) {
+      return failUpload({ ...item, recordingId }, generation);
+    }
+    result = {
+      ...result,
+      success: true,
+      recordingId,
+      testSpec: generation.testSpec,
+      generationError: generation.success ? undefined : generation.error,
+    };
+  }
+
+  await removeUpload(item.id);
+  console.log('[UploadQueue] Uploaded:', item.name, recordingId);
+  return result ?? { success: true, recordingId };
+}
+
+/**
+ * Process every pending upload whose retry time has come
+ * A forced upload (popup upload or Retry button) runs regardless of its status and
+ * backoff; its result is returned.
+ */
+export async function processUploadQueue(forceId?: string): Promise<UploadResult | undefined> {
+  while (activeRun) {
+    await activeRun;
+  }
+
+  let forcedResult: UploadResult | undefined;
+
+  activeRun = (async () => {
+    const now = Date.now();
+    const queue = await getUploadQueue();
+
+    for (const item of queue) {
+      // 'uploading' here means the service worker died mid-upload — pick it up again
+      const due = item.id === forceId || (item.status !== 'failed' && item.nextAttemptAt <= now);
+      if (!due) {
+        continue;
+      }
+
+      const result = await processUpload(item);
+      if (item.id === forceId) {
+        forcedResult = result;
+      }
+    }
+  })();
+
+  try {
+    await activeRun;
+  } finally {
+    activeRun = null;
+  }
+
+  return forcedResult;
+}
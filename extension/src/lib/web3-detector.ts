@@ -3,7 +3,8 @@
  * Injects main world script and handles Web3 event messages
  */
 
-import type { RecordedStep } from './steps';
+import type { RecordedStep, NetworkRequestEntry } from './steps';
+import { decodeWeb3Payload } from './calldata-decoder';
 
 // Track initialization state
 let isInitialized = false;
@@ -28,6 +29,9 @@ const pendingRequests = new Map<
 // Callback for captured steps
 let onStepCaptured: ((step: RecordedStep) => void) | null = null;
 
+// Callback for the page's fetch/XHR/WebSocket requests
+let onNetworkRequest: ((entry: NetworkRequestEntry) => void) | null = null;
+
 interface Web3RequestMessage {
   type: 'WEB3_REQUEST';
   id: string;
@@ -51,6 +55,24 @@ interface Web3ResponseMessage {
   timestamp: number;
 }
 
+interface Web3EventMessage {
+  type: 'WEB3_EVENT';
+  event: 'accountsChanged' | 'chainChanged' | 'disconnect';
+  before: unknown;
+  after: unknown;
+  timestamp: number;
+  providerInfo?: {
+    uuid: string;
+    name: string;
+    icon: string;
+    rdns: string;
+  };
+}
+
+// The same wallet action can reach us through window.ethereum and an EIP-6963 provider
+const EVENT_DEDUPE_MS = 500;
+let lastEvent: { key: string; timestamp: number } | null = null;
+
 /**
  * Inject the main world script via script element
  */
@@ -148,6 +170,12 @@ function createWeb3Step(
     step.txStatus = 'pending'; // Will be updated by transaction tracker
   }
 
+  // Decode known calldata / EIP-712 payloads
+  const decoded = decodeWeb3Payload(method, params);
+  if (decoded) {
+    step.web3Decoded = decoded;
+  }
+
   // Add provider info if available (EIP-6963)
   if (providerInfo) {
     step.web3ProviderInfo = providerInfo;
@@ -211,6 +239,40 @@ function handleWeb3Response(message: Web3ResponseMessage): void {
   }
 }
 
+/**
+ * Handle a wallet-side provider event (accountsChanged, chainChanged, disconnect)
+ */
+function handleWeb3Event(message: Web3EventMessage): void {
+  const { event, before, after, timestamp, providerInfo } = message;
+
+  const key = `${event}|${JSON.stringify(after)}`;
+  if (lastEvent && lastEvent.key === key && timestamp - lastEvent.timestamp < EVENT_DEDUPE_MS) {
+    return;
+  }
+  lastEvent = { key, timestamp };
+
+  const step: RecordedStep = {
+    id: crypto.randomUUID(),
+    type: 'web3',
+    timestamp,
+    web3Method: event,
+    web3Event: { name: event, before, after },
+  };
+
+  if (event === 'chainChanged') {
+    step.chainId = extractChainId(after);
+  }
+  if (providerInfo) {
+    step.web3ProviderInfo = providerInfo;
+  }
+
+  console.log('[Web3Detector] Provider event:', event, before, '->', after);
+
+  if (onStepCaptured) {
+    onStepCaptured(step);
+  }
+}
+
 /**
  * Message listener for Web3 events from injected script
  */
@@ -226,6 +288,10 @@ function messageHandler(event: MessageEvent): void {
     handleWeb3Request(message as Web3RequestMessage);
   } else if (message?.type === 'WEB3_RESPONSE') {
     handleWeb3Response(message as Web3ResponseMessage);
+  } else if (message?.type === 'WEB3_EVENT') {
+    handleWeb3Event(message as Web3EventMessage);
+  } else if (message?.type === 'NETWORK_REQUEST') {
+    onNetworkRequest?.(message.entry as NetworkRequestEntry);
   }
 }
 
@@ -235,18 +301,21 @@ function messageHandler(event: MessageEvent): void {
  */
 export function initWeb3Detection(
   sessionId: string,
-  stepCallback: (step: RecordedStep) => void
+  stepCallback: (step: RecordedStep) => void,
+  networkCallback?: (entry: NetworkRequestEntry) => void
 ): void {
   if (isInitialized) {
     console.log('[Web3Detector] Already initialized, updating session');
     currentSessionId = sessionId;
     onStepCaptured = stepCallback;
+    onNetworkRequest = networkCallback ?? null;
     setRecordingState(true);
     return;
   }
 
   currentSessionId = sessionId;
   onStepCaptured = stepCallback;
+  onNetworkRequest = networkCallback ?? null;
 
   // Inject main world script
   injectMainWorldScript();
@@ -280,6 +349,7 @@ export function stopWeb3Detection(): void {
   // Clear state
   currentSessionId = null;
   onStepCaptured = null;
+  onNetworkRequest = null;
   pendingRequests.clear();
 
   console.log('[Web3Detector] Stopped');
@@ -300,6 +370,7 @@ export function cleanupWeb3Detection(): void {
   // Clear state
   currentSessionId = null;
   onStepCaptured = null;
+  onNetworkRequest = null;
   pendingRequests.clear();
   isInitialized = false;
 
@@ -1,13 +1,19 @@
 /**
  * Popup script for Web3 Test Recorder
- * Handles recording toggle, step preview, and test export
+ * Handles recording toggle, pause/resume, step preview and editing, and test export
  */
 
-import type { RecordedStep } from '../types';
-import { uploadRecording, canUploadToApi, getApiSettings, getProjects, getGroups } from '../lib/api-client';
+import type { RecordedStep, StepChanges, NetworkRequestEntry } from '../types';
+import { canUploadToApi, getApiSettings, getProjects, getGroups } from '../lib/api-client';
+import type { UploadResult } from '../lib/api-client';
+import { enqueueUpload, getUploadQueue } from '../lib/upload-queue';
+import type { QueuedUpload } from '../lib/upload-queue';
 
 // State
 let isRecording = false;
+let isPaused = false;
+// Step whose inline editor is open in the preview list
+let editingIndex: number | null = null;
 let recordedSteps: RecordedStep[] = [];
 let startUrl: string = '';
 let startTime: number = 0;
@@ -16,6 +22,8 @@ let walletAddress: string | null = null;
 
 // Elements
 let toggleBtn: HTMLButtonElement;
+let pauseBtn: HTMLButtonElement;
+let assertModeBtn: HTMLButtonElement;
 let statusIndicator: HTMLElement;
 let statusText: HTMLElement;
 let recordingInfo: HTMLElement;
@@ -37,6 +45,11 @@ let folderSelectWrapper: HTMLElement;
 let markSuccessBtn: HTMLButtonElement;
 let successMarkedIndicator: HTMLElement;
 let successGoalTextarea: HTMLTextAreaElement;
+let addAssertionForm: HTMLFormElement;
+let assertionTextInput: HTMLInputElement;
+let addAssertionBtn: HTMLButtonElement;
+let uploadQueueSection: HTMLElement;
+let uploadQueueList: HTMLElement;
 let apiAvailable = false;
 
 // Step type icons
@@ -45,12 +58,19 @@ const STEP_ICONS: Record<string, string> = {
   input: '\u{2328}',       // keyboard emoji
   navigation: '\u{1F517}', // link emoji
   web3: '\u{1F510}',       // lock emoji
+  scroll: '\u{2195}',      // up-down arrow
+  hover: '\u{1F441}',      // eye emoji
+  keypress: '\u{21B5}',    // return symbol
+  drag: '\u{2194}',        // left-right arrow
+  assert: '\u{2714}',      // check mark
 };
 
 // Initialize
 document.addEventListener('DOMContentLoaded', async () => {
   // Get elements
   toggleBtn = document.getElementById('toggle-btn') as HTMLButtonElement;
+  pauseBtn = document.getElementById('pause-btn') as HTMLButtonElement;
+  assertModeBtn = document.getElementById('assert-mode-btn') as HTMLButtonElement;
   statusIndicator = document.getElementById('status-indicator')!;
   statusText = document.getElementById('status-text')!;
   recordingInfo = document.getElementById('recording-info')!;
@@ -71,6 +91,11 @@ document.addEventListener('DOMContentLoaded', async () => {
   markSuccessBtn = document.getElementById('mark-success-btn') as HTMLButtonElement;
   successMarkedIndicator = document.getElementById('success-marked-indicator')!;
   successGoalTextarea = document.getElementById('success-goal') as HTMLTextAreaElement;
+  addAssertionForm = document.getElementById('add-assertion-form') as HTMLFormElement;
+  assertionTextInput = document.getElementById('assertion-text') as HTMLInputElement;
+  addAssertionBtn = document.getElementById('add-assertion-btn') as HTMLButtonElement;
+  uploadQueueSection = document.getElementById('upload-queue-section')!;
+  uploadQueueList = document.getElementById('upload-queue-list')!;
 
   // Create upload button if not exists
   uploadBtn = document.getElementById('upload-btn') as HTMLButtonElement;
@@ -85,6 +110,8 @@ document.addEventListener('DOMContentLoaded', async () => {
 
   // Event listeners
   toggleBtn.addEventListener('click', handleToggle);
+  pauseBtn?.addEventListener('click', handlePauseToggle);
+  assertModeBtn?.addEventListener('click', handleAssertMode);
   saveBtn.addEventListener('click', handleSave);
   uploadBtn.addEventListener('click', handleUpload);
   discardBtn.addEventListener('click', handleDiscard);
@@ -92,6 +119,10 @@ document.addEventListener('DOMContentLoaded', async () => {
   settingsLink?.addEventListener('click', openSettings);
   markSuccessBtn?.addEventListener('click', handleMarkSuccess);
   projectSelect?.addEventListener('change', handleProjectChange);
+  addAssertionForm?.addEventListener('submit', handleAddAssertion);
+  assertionTextInput?.addEventListener('input', () => {
+    addAssertionBtn.disabled = assertionTextInput.value.trim().length === 0;
+  });
 
   // Check if API is available
   checkApiAvailability();
@@ -196,6 +227,7 @@ async function loadState() {
     if (state?.isRecording) {
       // Currently recording - show recording UI
       isRecording = true;
+      isPaused = state.isPaused || false;
       startUrl = state.startUrl || '';
       startTime = state.startTime || Date.now();
       walletConnected = state.walletConnected || false;
@@ -237,6 +269,7 @@ async function handleToggle() {
       // Stop recording
       await chrome.runtime.sendMessage({ type: 'STOP_RECORDING', timestamp: Date.now() });
       isRecording = false;
+      isPaused = false;
 
       // Load recorded steps
       const response = await chrome.runtime.sendMessage({ type: 'GET_RECORDED_STEPS' });
@@ -273,6 +306,7 @@ async function handleToggle() {
       }
 
       isRecording = true;
+      isPaused = false;
       updateRecordingUI();
     }
   } catch (error) {
@@ -283,6 +317,67 @@ async function handleToggle() {
   }
 }
 
+/**
+ * Handle pause/resume button click
+ */
+async function handlePauseToggle() {
+  pauseBtn.disabled = true;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: isPaused ? 'RESUME_RECORDING' : 'PAUSE_RECORDING',
+      timestamp: Date.now(),
+    });
+
+    if (!response?.success) {
+      showError(response?.error || 'Failed to update recording');
+      return;
+    }
+
+    isPaused = !isPaused;
+    updatePauseUI();
+  } catch (error) {
+    console.error('Pause toggle failed:', error);
+    showError(error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    pauseBtn.disabled = false;
+  }
+}
+
+/**
+ * Handle "Add Assertion" during recording — turns on assert mode in the page,
+ * then closes the popup so the user can click the element to check
+ */
+async function handleAssertMode() {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'SET_ASSERT_MODE',
+      enabled: true,
+      timestamp: Date.now(),
+    });
+
+    if (!response?.success) {
+      showError(response?.error || 'Could not start assert mode');
+      return;
+    }
+
+    window.close();
+  } catch (error) {
+    console.error('Failed to start assert mode:', error);
+    showError('Could not start assert mode');
+  }
+}
+
+/**
+ * Reflect paused/recording state in the status line and pause button
+ */
+function updatePauseUI() {
+  statusIndicator.classList.toggle('paused', isPaused);
+  statusIndicator.classList.toggle('recording', !isPaused);
+  statusText.textContent = isPaused ? 'Paused \u2014 actions are not recorded' : 'Recording...';
+  if (pauseBtn) pauseBtn.textContent = isPaused ? 'Resume' : 'Pause';
+}
+
 /**
  * Update UI to show recording state
  */
@@ -294,8 +389,7 @@ function updateRecordingUI() {
   toggleBtn.classList.remove('btn-primary');
   toggleBtn.classList.add('btn-danger');
   statusIndicator.classList.remove('idle');
-  statusIndicator.classList.add('recording');
-  statusText.textContent = 'Recording...';
+  updatePauseUI();
 
   recordingInfo.classList.remove('hidden');
   currentUrlEl.textContent = truncateUrl(startUrl);
@@ -323,7 +417,7 @@ function updateIdleUI() {
   toggleBtn.classList.remove('btn-danger');
   toggleBtn.classList.add('btn-primary');
   statusIndicator.classList.add('idle');
-  statusIndicator.classList.remove('recording');
+  statusIndicator.classList.remove('recording', 'paused');
   statusText.textContent = 'Ready to record';
   recordingInfo.classList.add('hidden');
 
@@ -333,6 +427,8 @@ function updateIdleUI() {
 
   // Stop polling
   stopStepCountPolling();
+
+  renderUploadQueue();
 }
 
 /**
@@ -345,6 +441,7 @@ function showPreview() {
 
   // Clear previous input
   testNameInput.value = '';
+  editingIndex = null;
 
   renderStepList();
   validateSaveButton();
@@ -360,25 +457,70 @@ function renderStepList() {
   }
 
   stepList.innerHTML = recordedSteps.map((step, index) => `
-    <div class="step-item" data-index="${index}">
+    <div class="step-item${editingIndex === index ? ' editing' : ''}" data-index="${index}">
       <span class="step-icon ${step.type}">${STEP_ICONS[step.type] || '?'}</span>
       <div class="step-details">
         <div class="step-type">${formatStepType(step)}</div>
         <div class="step-info">${formatStepInfo(step)}</div>
+        ${step.comment ? `<div class="step-comment">${escapeHtml(step.comment)}</div>` : ''}
+      </div>
+      <div class="step-actions">
+        <button class="step-action step-up" data-index="${index}" title="Move up" ${index === 0 ? 'disabled' : ''}>&#9650;</button>
+        <button class="step-action step-down" data-index="${index}" title="Move down" ${index === recordedSteps.length - 1 ? 'disabled' : ''}>&#9660;</button>
+        <button class="step-action step-edit" data-index="${index}" title="Edit step">&#9998;</button>
+        <button class="step-delete" data-index="${index}" title="Delete step">&times;</button>
       </div>
-      <button class="step-delete" data-index="${index}" title="Delete step">&times;</button>
+      ${editingIndex === index ? renderStepEditor(step, index) : ''}
     </div>
   `).join('');
 
-  // Add delete listeners
-  stepList.querySelectorAll('.step-delete').forEach(btn => {
-    btn.addEventListener('click', (e) => {
-      const index = parseInt((e.target as HTMLElement).dataset.index || '0');
-      deleteStep(index);
+  // Add action listeners
+  const bindAction = (selector: string, handler: (index: number) => void) => {
+    stepList.querySelectorAll(selector).forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const index = parseInt((e.currentTarget as HTMLElement).dataset.index || '0');
+        handler(index);
+      });
     });
+  };
+
+  bindAction('.step-delete', deleteStep);
+  bindAction('.step-up', (index) => moveStep(index, index - 1));
+  bindAction('.step-down', (index) => moveStep(index, index + 1));
+  bindAction('.step-edit', (index) => {
+    editingIndex = editingIndex === index ? null : index;
+    renderStepList();
+  });
+  bindAction('.step-editor-save', saveStepEdit);
+  bindAction('.step-editor-cancel', () => {
+    editingIndex = null;
+    renderStepList();
   });
 }
 
+/**
+ * Render the inline editor for a step: value (inputs and assertions) and comment
+ */
+function renderStepEditor(step: RecordedStep, index: number): string {
+  let valueField = '';
+  if (step.type === 'input') {
+    valueField = `<input type="text" class="step-editor-value" value="${escapeHtml(step.value || '')}" placeholder="Value" />`;
+  } else if (step.type === 'assert' && step.assertion?.expected !== undefined) {
+    valueField = `<input type="text" class="step-editor-value" value="${escapeHtml(step.assertion.expected)}" placeholder="Expected" />`;
+  }
+
+  return `
+    <div class="step-editor">
+      ${valueField}
+      <input type="text" class="step-editor-comment" value="${escapeHtml(step.comment || '')}" placeholder="Comment (intent, why this step matters)" />
+      <div class="step-editor-buttons">
+        <button class="btn btn-secondary step-editor-cancel" data-index="${index}">Cancel</button>
+        <button class="btn btn-primary step-editor-save" data-index="${index}">Save</button>
+      </div>
+    </div>
+  `;
+}
+
 /**
  * Format step type for display
  */
@@ -388,6 +530,11 @@ function formatStepType(step: RecordedStep): string {
     case 'input': return 'Input';
     case 'navigation': return 'Navigate';
     case 'web3': return step.web3Method || 'Web3';
+    case 'scroll': return 'Scroll';
+    case 'hover': return 'Hover';
+    case 'keypress': return 'Key';
+    case 'drag': return 'Drag';
+    case 'assert': return 'Assert';
     default: return step.type;
   }
 }
@@ -405,18 +552,71 @@ function formatStepInfo(step: RecordedStep): string {
     case 'navigation':
       return truncateUrl(step.url || '');
     case 'web3':
+      if (step.web3Decoded) return escapeHtml(`${step.web3Decoded.protocol}: ${step.web3Decoded.functionName}`);
       if (step.txHash) return `TX: ${step.txHash.slice(0, 10)}...`;
+      if (step.web3Event?.name === 'disconnect') return 'Wallet disconnected';
+      if (step.web3Event) return `Wallet: ${formatEventValue(step.web3Event.before)} \u2192 ${formatEventValue(step.web3Event.after)}`;
       return step.web3Method || 'Web3 call';
+    case 'scroll':
+      return `${step.selector ? step.selector + ' ' : ''}(${step.scrollX ?? 0}, ${step.scrollY ?? 0})`;
+    case 'hover':
+      return step.metadata?.text || step.selector || 'Element';
+    case 'keypress':
+      return [...(step.modifiers || []), step.key].join('+');
+    case 'drag':
+      if (step.drag?.valueAfter !== undefined) return `${step.metadata?.ariaLabel || step.selector || 'Slider'} \u2192 ${step.drag.valueAfter}`;
+      return step.selector || 'Element';
+    case 'assert':
+      return step.assertion ? escapeHtml(formatAssertion(step)) : 'Assertion';
     default:
       return '';
   }
 }
 
+/**
+ * Short form of a provider event's before/after value (chain ID, first account)
+ */
+function formatEventValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    const account = String(value[0] ?? 'none');
+    return account.length > 12 ? `${account.slice(0, 6)}...${account.slice(-4)}` : account;
+  }
+  return typeof value === 'string' ? value : 'none';
+}
+
+/**
+ * Describe an assert step's check (e.g. 'Balance text contains "1.5 ETH"')
+ */
+function formatAssertion(step: RecordedStep): string {
+  const assertion = step.assertion!;
+  const target = step.metadata?.ariaLabel || step.metadata?.text || step.selector || 'Element';
+
+  switch (assertion.kind) {
+    case 'textVisible':
+      return `Text visible: "${assertion.expected}"`;
+    case 'textEquals':
+      return `${target} text = "${assertion.expected}"`;
+    case 'textContains':
+      return `${target} contains "${assertion.expected}"`;
+    case 'visible':
+      return `${target} is visible`;
+    case 'enabled':
+      return `${target} is enabled`;
+    case 'attribute':
+      return `${target} [${assertion.attribute}] = "${assertion.expected}"`;
+    case 'numberWithin':
+      return `${target} \u2248 ${assertion.expected} \u00B1 ${assertion.tolerance ?? 0}`;
+    default:
+      return 'Assertion';
+  }
+}
+
 /**
  * Delete a step from the list
  */
 function deleteStep(index: number) {
   recordedSteps.splice(index, 1);
+  editingIndex = null;
   renderStepList();
   validateSaveButton();
 
@@ -427,6 +627,113 @@ function deleteStep(index: number) {
   });
 }
 
+/**
+ * Move a step up or down in the list
+ */
+function moveStep(from: number, to: number) {
+  if (to < 0 || to >= recordedSteps.length) return;
+
+  const [step] = recordedSteps.splice(from, 1);
+  recordedSteps.splice(to, 0, step);
+  editingIndex = null;
+  renderStepList();
+
+  chrome.runtime.sendMessage({
+    type: 'MOVE_STEP',
+    from,
+    to,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Save the inline editor's value and comment for a step
+ */
+async function saveStepEdit(index: number) {
+  const item = stepList.querySelector(`.step-item[data-index="${index}"]`);
+  const step = recordedSteps[index];
+  if (!item || !step) return;
+
+  const valueInput = item.querySelector<HTMLInputElement>('.step-editor-value');
+  const commentInput = item.querySelector<HTMLInputElement>('.step-editor-comment');
+
+  const changes: StepChanges = { comment: commentInput?.value ?? '' };
+  if (valueInput && step.type === 'input') {
+    changes.value = valueInput.value;
+  } else if (valueInput && step.type === 'assert' && step.assertion) {
+    const expected = valueInput.value.trim();
+    if (!expected && step.assertion.kind !== 'attribute') {
+      showError('Expected value cannot be empty');
+      return;
+    }
+    if (step.assertion.kind === 'numberWithin' && !Number.isFinite(parseFloat(expected))) {
+      showError('Expected value must be a number');
+      return;
+    }
+    changes.assertion = { ...step.assertion, expected };
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'UPDATE_STEP',
+      index,
+      changes,
+      timestamp: Date.now(),
+    });
+
+    if (!response?.success || !response.step) {
+      showError(response?.error || 'Failed to update step');
+      return;
+    }
+
+    recordedSteps[index] = response.step;
+    editingIndex = null;
+    renderStepList();
+  } catch (error) {
+    console.error('Failed to update step:', error);
+    showError('Failed to update step');
+  }
+}
+
+/**
+ * Handle "Add" in the manual assertion form — appends a text-visible assert step
+ */
+async function handleAddAssertion(event: Event) {
+  event.preventDefault();
+
+  const expected = assertionTextInput.value.trim();
+  if (!expected) return;
+
+  const step: RecordedStep = {
+    id: crypto.randomUUID(),
+    type: 'assert',
+    timestamp: Date.now(),
+    assertion: { kind: 'textVisible', expected },
+  };
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'ADD_STEP',
+      step,
+      timestamp: Date.now(),
+    });
+
+    if (!response?.success) {
+      showError(response?.error || 'Failed to add assertion');
+      return;
+    }
+
+    recordedSteps.push(step);
+    assertionTextInput.value = '';
+    addAssertionBtn.disabled = true;
+    renderStepList();
+    validateSaveButton();
+  } catch (error) {
+    console.error('Failed to add assertion:', error);
+    showError('Failed to add assertion');
+  }
+}
+
 /**
  * Validate if save button should be enabled
  */
@@ -436,6 +743,18 @@ function validateSaveButton() {
   saveBtn.disabled = !hasName || !hasSteps;
 }
 
+/**
+ * Fetch the page network requests captured during recording from background storage
+ */
+async function getNetworkRequests(): Promise<NetworkRequestEntry[]> {
+  try {
+    const result = await chrome.storage.session.get('networkRequests');
+    return result.networkRequests || [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Handle save button click - exports test as JSON file
  */
@@ -457,6 +776,8 @@ async function handleSave() {
       // No console logs available
     }
 
+    const networkRequests = await getNetworkRequests();
+
     // Fetch success state for export
     let exportSuccessState: Record<string, unknown> | undefined;
     try {
@@ -484,6 +805,7 @@ async function handleSave() {
       walletConnected,
       walletAddress,
       consoleLogs,
+      networkRequests,
       ...(exportSuccessState ? { successState: exportSuccessState } : {}),
       exportedAt: new Date().toISOString(),
     };
@@ -556,19 +878,28 @@ async function handleUpload() {
       successState.semanticGoal = semanticGoal;
     }
 
-    const result = await uploadRecording(
+    // Queue first so the recording survives a down API or a wrong key, then upload right away
+    const queued = await enqueueUpload({
       name,
       startUrl,
-      recordedSteps,
-      {
+      steps: recordedSteps,
+      metadata: {
         durationMs: startTime > 0 ? Date.now() - startTime : 0,
         stepCount: recordedSteps.length,
         walletConnected,
         walletAddress,
       },
-      { autoGenerate: true, projectId: selectedProjectId, groupId: folderSelect?.value || undefined },
-      successState
-    );
+      options: { autoGenerate: true, projectId: selectedProjectId, groupId: folderSelect?.value || undefined },
+      successState,
+      networkRequests: await getNetworkRequests(),
+    });
+
+    const response = await chrome.runtime.sendMessage({
+      type: 'PROCESS_UPLOAD_QUEUE',
+      uploadId: queued.id,
+      timestamp: Date.now(),
+    });
+    const result: UploadResult = response?.result ?? { success: false, error: response?.error || 'Upload failed' };
 
     if (result.success) {
       let statusMessage = `Uploaded! ID: ${result.recordingId?.slice(0, 8)}...`;
@@ -591,7 +922,15 @@ async function handleUpload() {
         updateIdleUI();
       }, 3000);
     } else {
-      showSaveStatus(result.error || 'Upload failed', 'error');
+      // The recording stays in the upload queue, so the preview can be cleared
+      showSaveStatus(`Upload failed: ${result.error || 'unknown error'}. Saved to the upload queue.`, 'error');
+
+      await chrome.runtime.sendMessage({ type: 'CLEAR_RECORDING' });
+      recordedSteps = [];
+
+      setTimeout(() => {
+        updateIdleUI();
+      }, 3000);
     }
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Failed to upload';
@@ -603,6 +942,74 @@ async function handleUpload() {
   }
 }
 
+/**
+ * Render queued uploads (pending retry or failed) in the idle view
+ */
+async function renderUploadQueue() {
+  if (!uploadQueueSection || !uploadQueueList) return;
+
+  const queue = await getUploadQueue();
+  if (queue.length === 0) {
+    uploadQueueSection.classList.add('hidden');
+    return;
+  }
+
+  uploadQueueSection.classList.remove('hidden');
+  uploadQueueList.innerHTML = queue.map(item => `
+    <div class="step-item" data-id="${item.id}">
+      <div class="step-details">
+        <div class="step-type">${escapeHtml(item.name)}</div>
+        <div class="upload-status ${item.status}">${escapeHtml(formatUploadStatus(item))}</div>
+      </div>
+      <div class="step-actions">
+        <button class="step-action upload-retry" data-id="${item.id}" title="Retry now" ${item.status === 'uploading' ? 'disabled' : ''}>&#8635;</button>
+        <button class="step-delete upload-remove" data-id="${item.id}" title="Remove from queue">&times;</button>
+      </div>
+    </div>
+  `).join('');
+
+  uploadQueueList.querySelectorAll('.upload-retry').forEach(btn => {
+    btn.addEventListener('click', async (e) => {
+      const uploadId = (e.currentTarget as HTMLElement).dataset.id;
+      (e.currentTarget as HTMLButtonElement).disabled = true;
+      const response = await chrome.runtime.sendMessage({ type: 'PROCESS_UPLOAD_QUEUE', uploadId, timestamp: Date.now() });
+      if (response?.result && !response.result.success) {
+        showError(response.result.error || 'Upload failed');
+      }
+      renderUploadQueue();
+    });
+  });
+
+  uploadQueueList.querySelectorAll('.upload-remove').forEach(btn => {
+    btn.addEventListener('click', async (e) => {
+      const uploadId = (e.currentTarget as HTMLElement).dataset.id;
+      if (!confirm('Remove this recording from the upload queue? It will be lost.')) return;
+      await chrome.runtime.sendMessage({ type: 'REMOVE_UPLOAD', uploadId, timestamp: Date.now() });
+      renderUploadQueue();
+    });
+  });
+}
+
+/**
+ * Describe a queued upload's state for the upload list
+ */
+function formatUploadStatus(item: QueuedUpload): string {
+  if (item.status === 'uploading') {
+    return item.totalChunks > 0
+      ? `Uploading screenshots ${item.uploadedChunks}/${item.totalChunks}`
+      : 'Uploading...';
+  }
+  if (item.status === 'failed') {
+    return `Failed: ${item.lastError || 'unknown error'}`;
+  }
+  if (item.attempts === 0) {
+    return 'Waiting to upload';
+  }
+  const seconds = Math.max(0, Math.round((item.nextAttemptAt - Date.now()) / 1000));
+  const retryIn = seconds >= 60 ? `${Math.round(seconds / 60)}m` : `${seconds}s`;
+  return `Retrying in ${retryIn} (attempt ${item.attempts + 1}) — ${item.lastError || 'upload failed'}`;
+}
+
 /**
  * Handle discard button click
  */
@@ -663,6 +1070,17 @@ function showError(message: string) {
   setTimeout(() => errorMessage.classList.add('hidden'), 3000);
 }
 
+/**
+ * Escape user-entered text for innerHTML and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Truncate URL for display
  */
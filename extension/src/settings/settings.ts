@@ -3,6 +3,8 @@
  */
 
 import { getApiSettings, saveApiSettings, testApiConnection } from '../lib/api-client';
+import { getRedactionSettings, saveRedactionSettings, validateRegexRule } from '../lib/redaction';
+import type { RedactionRule } from '../lib/redaction';
 
 // Elements
 let apiUrlInput: HTMLInputElement;
@@ -12,6 +14,14 @@ let testBtn: HTMLButtonElement;
 let statusMessage: HTMLElement;
 let connectionDot: HTMLElement;
 let connectionText: HTMLElement;
+let redactionEnabledInput: HTMLInputElement;
+let maskPasswordsInput: HTMLInputElement;
+let maskSecretsInput: HTMLInputElement;
+let blurScreenshotsInput: HTMLInputElement;
+let fieldRulesInput: HTMLTextAreaElement;
+let regexRulesInput: HTMLTextAreaElement;
+let saveRedactionBtn: HTMLButtonElement;
+let redactionStatus: HTMLElement;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', async () => {
@@ -23,13 +33,24 @@ document.addEventListener('DOMContentLoaded', async () => {
   statusMessage = document.getElementById('status-message')!;
   connectionDot = document.getElementById('connection-dot')!;
   connectionText = document.getElementById('connection-text')!;
+  redactionEnabledInput = document.getElementById('redaction-enabled') as HTMLInputElement;
+  maskPasswordsInput = document.getElementById('mask-passwords') as HTMLInputElement;
+  maskSecretsInput = document.getElementById('mask-secrets') as HTMLInputElement;
+  blurScreenshotsInput = document.getElementById('blur-screenshots') as HTMLInputElement;
+  fieldRulesInput = document.getElementById('field-rules') as HTMLTextAreaElement;
+  regexRulesInput = document.getElementById('regex-rules') as HTMLTextAreaElement;
+  saveRedactionBtn = document.getElementById('save-redaction-btn') as HTMLButtonElement;
+  redactionStatus = document.getElementById('redaction-status')!;
 
   // Load current settings
   await loadSettings();
+  await loadRedactionSettings();
 
   // Event listeners
   saveBtn.addEventListener('click', handleSave);
   testBtn.addEventListener('click', handleTest);
+  saveRedactionBtn.addEventListener('click', handleSaveRedaction);
+  redactionEnabledInput.addEventListener('change', updateRedactionInputs);
 });
 
 /**
@@ -41,6 +62,74 @@ async function loadSettings() {
   apiKeyInput.value = settings.apiKey || '';
 }
 
+/**
+ * Load redaction settings into the form
+ */
+async function loadRedactionSettings() {
+  const settings = await getRedactionSettings();
+  redactionEnabledInput.checked = settings.enabled;
+  maskPasswordsInput.checked = settings.maskPasswords;
+  maskSecretsInput.checked = settings.maskSecrets;
+  blurScreenshotsInput.checked = settings.blurScreenshots;
+  fieldRulesInput.value = settings.rules.filter((r) => r.kind === 'field').map((r) => r.pattern).join('\n');
+  regexRulesInput.value = settings.rules.filter((r) => r.kind === 'regex').map((r) => r.pattern).join('\n');
+  updateRedactionInputs();
+}
+
+/**
+ * Disable the individual options while redaction is turned off
+ */
+function updateRedactionInputs() {
+  const disabled = !redactionEnabledInput.checked;
+  for (const input of [maskPasswordsInput, maskSecretsInput, blurScreenshotsInput, fieldRulesInput, regexRulesInput]) {
+    input.disabled = disabled;
+  }
+}
+
+/**
+ * Split a textarea into one rule per non-empty line
+ */
+function parseRules(text: string, kind: RedactionRule['kind']): RedactionRule[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((pattern) => ({ kind, pattern }));
+}
+
+/**
+ * Handle save redaction rules button click
+ */
+async function handleSaveRedaction() {
+  const fieldRules = parseRules(fieldRulesInput.value, 'field');
+  const regexRules = parseRules(regexRulesInput.value, 'regex');
+
+  for (const rule of regexRules) {
+    const error = validateRegexRule(rule.pattern);
+    if (error) {
+      showStatus(`Invalid regex "${rule.pattern}": ${error}`, 'error', redactionStatus);
+      return;
+    }
+  }
+
+  saveRedactionBtn.disabled = true;
+  try {
+    await saveRedactionSettings({
+      enabled: redactionEnabledInput.checked,
+      maskPasswords: maskPasswordsInput.checked,
+      maskSecrets: maskSecretsInput.checked,
+      blurScreenshots: blurScreenshotsInput.checked,
+      rules: [...fieldRules, ...regexRules],
+    });
+    showStatus('Redaction rules saved. They apply to steps recorded from now on.', 'success', redactionStatus);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save redaction rules';
+    showStatus(message, 'error', redactionStatus);
+  } finally {
+    saveRedactionBtn.disabled = false;
+  }
+}
+
 /**
  * Handle save button click
  */
@@ -121,14 +210,14 @@ function updateConnectionStatus(status: 'testing' | 'connected' | 'error' | 'unk
 /**
  * Show status message
  */
-function showStatus(message: string, type: 'success' | 'error') {
-  statusMessage.textContent = message;
-  statusMessage.className = `status show ${type}`;
+function showStatus(message: string, type: 'success' | 'error', element: HTMLElement = statusMessage) {
+  element.textContent = message;
+  element.className = `status show ${type}`;
 
   // Auto-hide success messages
   if (type === 'success') {
     setTimeout(() => {
-      statusMessage.classList.remove('show');
+      element.classList.remove('show');
     }, 3000);
   }
 }
@@ -25,6 +25,20 @@ export interface GetRecordingStateMessage extends BaseMessage {
   type: 'GET_RECORDING_STATE';
 }
 
+export interface PauseRecordingMessage extends BaseMessage {
+  type: 'PAUSE_RECORDING';
+}
+
+export interface ResumeRecordingMessage extends BaseMessage {
+  type: 'RESUME_RECORDING';
+}
+
+// Popup/content -> background: turn assert mode on or off for the recording tab
+export interface SetAssertModeMessage extends BaseMessage {
+  type: 'SET_ASSERT_MODE';
+  enabled: boolean;
+}
+
 // Background -> Content messages
 export interface StartRecordingTabMessage extends BaseMessage {
   type: 'START_RECORDING_TAB';
@@ -35,6 +49,16 @@ export interface StopRecordingTabMessage extends BaseMessage {
   type: 'STOP_RECORDING_TAB';
 }
 
+export interface AssertModeTabMessage extends BaseMessage {
+  type: 'ASSERT_MODE_TAB';
+  enabled: boolean;
+}
+
+export interface RedactionBlurTabMessage extends BaseMessage {
+  type: 'REDACTION_BLUR_TAB';
+  enabled: boolean; // true: blur sensitive elements for a screenshot, false: restore
+}
+
 // Content -> Background messages
 export interface StepCapturedMessage extends BaseMessage {
   type: 'STEP_CAPTURED';
@@ -43,8 +67,8 @@ export interface StepCapturedMessage extends BaseMessage {
 }
 
 // Re-export RecordedStep from steps module
-export type { RecordedStep } from './lib/steps';
-import type { RecordedStep } from './lib/steps';
+export type { RecordedStep, NetworkRequestEntry } from './lib/steps';
+import type { RecordedStep, StepAssertion, NetworkRequestEntry } from './lib/steps';
 
 // Legacy messages (kept for backward compatibility)
 export interface RecordingStartedMessage extends BaseMessage {
@@ -94,6 +118,32 @@ export interface DeleteStepMessage extends BaseMessage {
   index: number;
 }
 
+// Editable step fields from the popup step list (undefined = leave unchanged, '' = clear)
+export interface StepChanges {
+  value?: string;
+  comment?: string;
+  assertion?: StepAssertion;
+}
+
+export interface UpdateStepMessage extends BaseMessage {
+  type: 'UPDATE_STEP';
+  index: number;
+  changes: StepChanges;
+}
+
+export interface MoveStepMessage extends BaseMessage {
+  type: 'MOVE_STEP';
+  from: number;
+  to: number;
+}
+
+// Manually added step (e.g. an assertion), inserted at index or appended
+export interface AddStepMessage extends BaseMessage {
+  type: 'ADD_STEP';
+  step: RecordedStep;
+  index?: number;
+}
+
 export interface ClearRecordingMessage extends BaseMessage {
   type: 'CLEAR_RECORDING';
 }
@@ -108,6 +158,11 @@ export interface ConsoleLogMessage extends BaseMessage {
   args: string[];
 }
 
+export interface NetworkRequestMessage extends BaseMessage {
+  type: 'NETWORK_REQUEST';
+  entry: NetworkRequestEntry;
+}
+
 export interface WalletStateDetectedMessage extends BaseMessage {
   type: 'WALLET_STATE_DETECTED';
   sessionId: string;
@@ -127,24 +182,45 @@ export interface GetSuccessStateMessage extends BaseMessage {
   type: 'GET_SUCCESS_STATE';
 }
 
+export interface ProcessUploadQueueMessage extends BaseMessage {
+  type: 'PROCESS_UPLOAD_QUEUE';
+  uploadId?: string; // Upload now regardless of backoff (popup upload / Retry)
+}
+
+export interface RemoveUploadMessage extends BaseMessage {
+  type: 'REMOVE_UPLOAD';
+  uploadId: string;
+}
+
 export type ExtensionMessage =
   | StartRecordingMessage
   | StopRecordingMessage
   | GetRecordingStateMessage
+  | PauseRecordingMessage
+  | ResumeRecordingMessage
+  | SetAssertModeMessage
   | StartRecordingTabMessage
   | StopRecordingTabMessage
+  | AssertModeTabMessage
+  | RedactionBlurTabMessage
   | StepCapturedMessage
   | RecordingStartedMessage
   | RecordingStoppedMessage
   | EventCapturedMessage
   | DeleteStepMessage
+  | UpdateStepMessage
+  | MoveStepMessage
+  | AddStepMessage
   | ClearRecordingMessage
   | GetRecordedStepsMessage
   | ConsoleLogMessage
+  | NetworkRequestMessage
   | WalletStateDetectedMessage
   | CapturePageStateMessage
   | CaptureSuccessStateMessage
-  | GetSuccessStateMessage;
+  | GetSuccessStateMessage
+  | ProcessUploadQueueMessage
+  | RemoveUploadMessage;
 
 export type ExtensionResponse =
   | StartRecordingResponse
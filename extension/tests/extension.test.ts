@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { RecordedStep } from '../src/lib/steps';
+import type { UploadPayload } from '../src/lib/upload-queue';
+
+vi.mock('../src/lib/api-client', () => ({
+  generateSpec: vi.fn(),
+  uploadRecording: vi.fn(),
+  uploadScreenshots: vi.fn(),
+}));
+
+import { generateSpec, uploadRecording, uploadScreenshots } from '../src/lib/api-client';
+
+// chrome.storage.local backed by a plain object that outlives module reloads,
+// the way storage outlives a service worker
+let storage: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async (key: string) => (key in storage ? { [key]: structuredClone(storage[key]) } : {}),
+      set: async (items: Record<string, unknown>) => {
+        Object.assign(storage, structuredClone(items));
+      },
+    },
+  },
+});
+
+const uploadRecordingMock = vi.mocked(uploadRecording);
+const uploadScreenshotsMock = vi.mocked(uploadScreenshots);
+const generateSpecMock = vi.mocked(generateSpec);
+
+function payload(steps: RecordedStep[] = []): UploadPayload {
+  return { name: 'Swap', startUrl: 'https://app.example.com', steps };
+}
+
+async function loadQueue() {
+  return import('../src/lib/upload-queue');
+}
+
+describe('Upload queue', () => {
+  beforeEach(() => {
+    storage = {};
+    vi.resetModules();
+    uploadRecordingMock.mockReset();
+    uploadScreenshotsMock.mockReset();
+    generateSpecMock.mockReset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should retry a transient failure after its backoff', async () => {
+    const { enqueueUpload, processUploadQueue, getUploadQueue } = await loadQueue();
+    uploadRecordingMock
+      .mockResolvedValueOnce({ success: false, error: 'API unavailable', status: 503 })
+      .mockResolvedValueOnce({ success: true, recordingId: 'rec-1' });
+
+    await enqueueUpload(payload());
+    await processUploadQueue();
+
+    const [queued] = await getUploadQueue();
+    expect(queued).toMatchObject({ status: 'pending', attempts: 1, lastError: 'API unavailable' });
+    expect(queued.nextAttemptAt).toBe(Date.now() + 30_000);
+
+    // Not due yet
+    await processUploadQueue();
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(queued.nextAttemptAt);
+    await processUploadQueue();
+
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(2);
+    expect(await getUploadQueue()).toEqual([]);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const { enqueueUpload, processUploadQueue, getUploadQueue } = await loadQueue();
+    uploadRecordingMock.mockResolvedValue({ success: false, error: 'fetch failed' });
+
+    await enqueueUpload(payload());
+    for (let i = 0; i < 10; i++) {
+      await processUploadQueue();
+      vi.setSystemTime(Date.now() + 60 * 60_000);
+    }
+
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(8);
+    expect((await getUploadQueue())[0]).toMatchObject({ status: 'failed', attempts: 8, lastError: 'fetch failed' });
+  });
+
+  it('should not retry client errors until the user does', async () => {
+    const { enqueueUpload, processUploadQueue, getUploadQueue } = await loadQueue();
+    uploadRecordingMock.mockResolvedValueOnce({ success: false, error: 'Invalid API key', status: 401 });
+
+    const item = await enqueueUpload(payload());
+    await processUploadQueue();
+    expect((await getUploadQueue())[0]).toMatchObject({ status: 'failed', attempts: 1 });
+
+    uploadRecordingMock.mockResolvedValueOnce({ success: true, recordingId: 'rec-1' });
+    const result = await processUploadQueue(item.id);
+    expect(result).toEqual({ success: true, recordingId: 'rec-1' });
+    expect(await getUploadQueue()).toEqual([]);
+  });
+
+  it('should keep the queue across a service worker restart', async () => {
+    const first = await loadQueue();
+    // The worker dies mid-upload: the request never returns
+    uploadRecordingMock.mockReturnValueOnce(new Promise(() => {}));
+
+    await first.enqueueUpload(payload());
+    void first.processUploadQueue();
+    await vi.waitFor(async () => expect((await first.getUploadQueue())[0].status).toBe('uploading'));
+
+    vi.resetModules();
+    const restarted = await loadQueue();
+    uploadRecordingMock.mockResolvedValueOnce({ success: true, recordingId: 'rec-1' });
+
+    expect(await restarted.getUploadQueue()).toHaveLength(1);
+    await restarted.processUploadQueue();
+
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(2);
+    expect(await restarted.getUploadQueue()).toEqual([]);
+  });
+
+  it('should not upload the same recording twice', async () => {
+    const { enqueueUpload, processUploadQueue, getUploadQueue, MAX_UPLOAD_BYTES } = await loadQueue();
+    uploadRecordingMock.mockResolvedValue({ success: true, recordingId: 'rec-1' });
+
+    // The alarm and the popup trigger processing at the same time
+    await enqueueUpload(payload());
+    await Promise.all([processUploadQueue(), processUploadQueue()]);
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(1);
+
+    // A screenshot chunk fails: the retry sends the remaining chunks, not the recording
+    uploadRecordingMock.mockClear();
+    uploadScreenshotsMock
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: 'Bad gateway', status: 502 })
+      .mockResolvedValueOnce({ success: true });
+    generateSpecMock.mockResolvedValue({ success: true, recordingId: 'rec-1' });
+
+    const screenshot = 'x'.repeat(MAX_UPLOAD_BYTES - 1000);
+    await enqueueUpload(payload([
+      { id: 'step-1', type: 'click', timestamp: 1, selector: '#a', screenshot },
+      { id: 'step-2', type: 'click', timestamp: 2, selector: '#b', screenshot },
+    ] as RecordedStep[]));
+
+    await processUploadQueue();
+    expect((await getUploadQueue())[0]).toMatchObject({ recordingId: 'rec-1', uploadedChunks: 1, totalChunks: 2 });
+
+    vi.setSystemTime(Date.now() + 60_000);
+    await processUploadQueue();
+
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(1);
+    expect(uploadRecordingMock.mock.calls[0][2]).toEqual([
+      { id: 'step-1', type: 'click', timestamp: 1, selector: '#a' },
+      { id: 'step-2', type: 'click', timestamp: 2, selector: '#b' },
+    ]);
+    expect(uploadScreenshotsMock.mock.calls.map((call) => call[1][0].stepId)).toEqual(['step-1', 'step-2', 'step-2']);
+    expect(generateSpecMock).toHaveBeenCalledTimes(1);
+    expect(await getUploadQueue()).toEqual([]);
+  });
+
+  it('should generate a chunked recording only once all its screenshots are in', async () => {
+    const { enqueueUpload, processUploadQueue, getUploadQueue, MAX_UPLOAD_BYTES } = await loadQueue();
+    uploadRecordingMock.mockResolvedValue({ success: true, recordingId: 'rec-1' });
+    uploadScreenshotsMock.mockResolvedValue({ success: true });
+    generateSpecMock
+      .mockResolvedValueOnce({ success: false, error: 'fetch failed' })
+      .mockResolvedValueOnce({ success: true, recordingId: 'rec-1', testSpec: { id: 'spec-1', status: 'READY', hasCode: true } });
+
+    const screenshot = 'x'.repeat(MAX_UPLOAD_BYTES - 1000);
+    await enqueueUpload({
+      ...payload([{ id: 'step-1', type: 'click', timestamp: 1, selector: '#a', screenshot }] as RecordedStep[]),
+      successState: { semanticGoal: 'Swapped', markedSnapshot: { url: 'https://app.example.com/done', screenshot } },
+    });
+
+    await processUploadQueue();
+    expect(uploadRecordingMock.mock.calls[0][4]).toEqual({ autoGenerate: false });
+    expect(uploadRecordingMock.mock.calls[0][5]).toEqual({ semanticGoal: 'Swapped', markedSnapshot: { url: 'https://app.example.com/done' } });
+    expect(uploadScreenshotsMock.mock.calls.map((call) => call[1][0].stepId ?? call[1][0].snapshot)).toEqual(['step-1', 'markedSnapshot']);
+    expect((await getUploadQueue())[0]).toMatchObject({ status: 'pending', uploadedChunks: 2, totalChunks: 2 });
+
+    // The retry only asks for the spec again
+    vi.setSystemTime(Date.now() + 60_000);
+    const result = await processUploadQueue((await getUploadQueue())[0].id);
+    expect(uploadRecordingMock).toHaveBeenCalledTimes(1);
+    expect(uploadScreenshotsMock).toHaveBeenCalledTimes(2);
+    expect(generateSpecMock).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ success: true, recordingId: 'rec-1', testSpec: { id: 'spec-1' } });
+    expect(await getUploadQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { apiKeyService } from '../services/apikeys.js';
+import {
+  authService,
+  defaultPermission,
+  hasPermission,
+  parseCookies,
+  SESSION_COOKIE,
+  type AuthContext,
+  type Permission,
+} from '../services/auth.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Set for every /api request except public routes */
+    auth: AuthContext | null;
+  }
+
+  interface FastifyContextConfig {
+    /** Reachable without credentials (health check, login) */
+    public?: boolean;
+    /** Overrides the default: `read` for GET, `write` otherwise */
+    permission?: Permission;
+  }
+}
+
+/**
+ * Session token from the dashboard cookie or an `Authorization: Bearer` header
+ */
+export function getSessionToken(request: FastifyRequest): string | null {
+  const bearer = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (bearer && !bearer.startsWith('w3t_')) return bearer;
+  return parseCookies(request.headers.cookie)[SESSION_COOKIE] || null;
+}
+
+function getApiKey(request: FastifyRequest): string | null {
+  const header = request.headers['x-api-key'];
+  const key = Array.isArray(header) ? header[0] : header;
+  if (key) return key;
+
+  const bearer = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+  return bearer?.startsWith('w3t_') ? bearer : null;
+}
+
+async function authenticate(request: FastifyRequest): Promise<AuthContext | { error: string } | null> {
+  const apiKey = getApiKey(request);
+  if (apiKey) {
+    const result = await apiKeyService.validateKey(apiKey);
+    if (!result.valid) {
+      return { error: result.error || 'Invalid API key' };
+    }
+    return {
+      type: 'api_key',
+      organizationId: result.organizationId!,
+      permissions: result.permissions || [],
+      apiKeyId: result.keyId,
+    };
+  }
+
+  const token = getSessionToken(request);
+  if (!token) return null;
+
+  return (await authService.resolveSession(token)) || { error: 'Session expired' };
+}
+
+/**
+ * Authenticates every /api route with a session or API key and checks the permission
+ * the route needs
+ */
+async function authPlugin(fastify: FastifyInstance) {
+  fastify.decorateRequest('auth', null);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const config = request.routeOptions.config;
+    if (request.method === 'OPTIONS' || !request.url.startsWith('/api/') || config?.public) {
+      return;
+    }
+
+    const auth = await authenticate(request);
+    if (!auth) {
+      return reply.status(401).send({ error: 'Authentication required' });
+    }
+    if ('error' in auth) {
+      return reply.status(401).send({ error: auth.error });
+    }
+
+    const permission = config?.permission ?? defaultPermission(request.method);
+    if (!hasPermission(auth, permission)) {
+      return reply.status(403).send({ error: `This action needs the ${permission} permission` });
+    }
+
+    request.auth = auth;
+  });
+}
+
+export default fp(authPlugin, { name: 'auth' });
@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../db.js';
-import { createClaudeClient } from '@web3-test/translator';
+import { createClaudeClient, isProviderConfigured } from '@web3-test/translator';
+import { getProjectLLMOptions, PROJECT_LLM_SELECT } from '../services/translation.js';
+import { requestScope } from '../services/tenancy.js';
 
 interface AnalyzeFailureParams {
   specId: string;
@@ -31,7 +33,7 @@ export async function analysisRoutes(fastify: FastifyInstance) {
 
     // Fetch the spec with its latest failed run
     const spec = await prisma.testSpec.findUnique({
-      where: { id: specId },
+      where: { id: specId, ...requestScope(request).testSpec },
       include: {
         testRuns: {
           where: { status: 'FAILED' },
@@ -39,7 +41,7 @@ export async function analysisRoutes(fastify: FastifyInstance) {
           take: 1,
         },
         recording: {
-          select: { name: true, dappUrl: true, stepCount: true },
+          select: { name: true, dappUrl: true, stepCount: true, project: { select: PROJECT_LLM_SELECT } },
         },
       },
     });
@@ -53,11 +55,12 @@ export async function analysisRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'No failed runs found for this spec' });
     }
 
-    if (!process.env.ANTHROPIC_API_KEY) {
+    const llm = getProjectLLMOptions(spec.recording?.project);
+    if (!isProviderConfigured(llm)) {
       return reply.status(500).send({ error: 'AI analysis not configured (missing API key)' });
     }
 
-    const claudeClient = createClaudeClient({ maxTokens: 2048 });
+    const claudeClient = createClaudeClient({ maxTokens: 2048, ...llm });
 
     const systemPrompt = `You are a test failure analyst for dappwright-based Playwright tests that test Web3 dApps with MetaMask wallet integration.
 
@@ -1,8 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { apiKeyService } from '../services/apikeys.js';
+import { PERMISSIONS, hasPermission, type Permission } from '../services/auth.js';
 
 interface CreateKeyBody {
   name: string;
+  permissions?: Permission[];
   expiresInDays?: number;
 }
 
@@ -13,14 +15,20 @@ interface DeleteKeyParams {
 export async function apiKeysRoutes(fastify: FastifyInstance) {
   // Create a new API key
   fastify.post<{ Body: CreateKeyBody }>('/', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['api-keys'],
-      summary: 'Create a new API key for extension authentication',
+      summary: 'Create a new API key for the extension or CI',
       body: {
         type: 'object',
         required: ['name'],
         properties: {
           name: { type: 'string', description: 'Name/description for the key' },
+          permissions: {
+            type: 'array',
+            items: { type: 'string', enum: PERMISSIONS },
+            description: 'What the key may do (default: read and write, enough for the extension)',
+          },
           expiresInDays: { type: 'number', description: 'Days until expiration (optional)' },
         },
       },
@@ -32,22 +40,37 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
             name: { type: 'string' },
             key: { type: 'string', description: 'The API key (only shown once)' },
             keyPrefix: { type: 'string' },
+            permissions: { type: 'array', items: { type: 'string' } },
             expiresAt: { type: 'string', nullable: true },
             createdAt: { type: 'string' },
           },
         },
+        403: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
       },
     },
   }, async (request: FastifyRequest<{ Body: CreateKeyBody }>, reply: FastifyReply) => {
-    const { name, expiresInDays } = request.body;
+    const { name, permissions = ['read', 'write'], expiresInDays } = request.body;
+    const auth = request.auth!;
+
+    // A key can't do more than whoever creates it
+    const exceeding = permissions.filter((p) => !hasPermission(auth, p));
+    if (exceeding.length > 0) {
+      return reply.status(403).send({ error: `Cannot grant permissions you don't have: ${exceeding.join(', ')}` });
+    }
 
-    const result = await apiKeyService.createApiKey(name, expiresInDays);
+    const result = await apiKeyService.createApiKey(name, auth.organizationId, [...new Set(permissions)], expiresInDays);
 
     return reply.status(201).send({
       id: result.id,
       name: result.name,
       key: result.key,
       keyPrefix: result.keyPrefix,
+      permissions: result.permissions,
       expiresAt: result.expiresAt?.toISOString() || null,
       createdAt: result.createdAt.toISOString(),
     });
@@ -55,9 +78,10 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
 
   // List all API keys
   fastify.get('/', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['api-keys'],
-      summary: 'List all API keys',
+      summary: 'List the organisation\'s API keys',
       response: {
         200: {
           type: 'object',
@@ -70,6 +94,7 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
                   id: { type: 'string' },
                   name: { type: 'string' },
                   keyPrefix: { type: 'string' },
+                  permissions: { type: 'array', items: { type: 'string' } },
                   lastUsedAt: { type: 'string', nullable: true },
                   createdAt: { type: 'string' },
                   expiresAt: { type: 'string', nullable: true },
@@ -81,14 +106,15 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async () => {
-    const keys = await apiKeyService.listApiKeys();
+  }, async (request: FastifyRequest) => {
+    const keys = await apiKeyService.listApiKeys(request.auth!.organizationId);
 
     return {
       keys: keys.map((k) => ({
         id: k.id,
         name: k.name,
         keyPrefix: k.keyPrefix,
+        permissions: k.permissions,
         lastUsedAt: k.lastUsedAt?.toISOString() || null,
         createdAt: k.createdAt.toISOString(),
         expiresAt: k.expiresAt?.toISOString() || null,
@@ -99,6 +125,7 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
 
   // Delete an API key
   fastify.delete<{ Params: DeleteKeyParams }>('/:id', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['api-keys'],
       summary: 'Revoke/delete an API key',
@@ -125,7 +152,7 @@ export async function apiKeysRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Params: DeleteKeyParams }>, reply: FastifyReply) => {
     const { id } = request.params;
 
-    const deleted = await apiKeyService.deleteApiKey(id);
+    const deleted = await apiKeyService.deleteApiKey(id, request.auth!.organizationId);
 
     if (!deleted) {
       return reply.status(404).send({ error: 'API key not found' });
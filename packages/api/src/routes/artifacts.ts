@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { S3Client, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { Readable } from 'stream';
+import { prisma } from '../db.js';
+import { requestScope, type OrgScope } from '../services/tenancy.js';
 
 // Initialize S3 client (MinIO is S3-compatible)
 const s3Client = new S3Client({
@@ -38,6 +40,29 @@ interface ArtifactParams {
   '*': string;
 }
 
+/**
+ * Whether a storage key belongs to the scope. Keys are `runs/<runId>/...`, with
+ * `suite-<suiteRunId>` in place of the run id for suite-level artifacts.
+ */
+async function ownsStoragePath(scope: OrgScope, storagePath: string): Promise<boolean> {
+  const [root, owner] = storagePath.split('/');
+  if (root !== 'runs' || !owner) return false;
+
+  if (owner.startsWith('suite-')) {
+    const suiteRun = await prisma.suiteRun.findUnique({
+      where: { id: owner.slice('suite-'.length), ...scope.projectChild },
+      select: { id: true },
+    });
+    return suiteRun !== null;
+  }
+
+  const run = await prisma.testRun.findUnique({
+    where: { id: owner, ...scope.testRun },
+    select: { id: true },
+  });
+  return run !== null;
+}
+
 export async function artifactsRoutes(fastify: FastifyInstance) {
   // Serve artifact files from MinIO/S3
   fastify.get<{ Params: ArtifactParams }>('/*', {
@@ -63,6 +88,11 @@ export async function artifactsRoutes(fastify: FastifyInstance) {
       storagePath = storagePath.substring(BUCKET_NAME.length + 1);
     }
 
+    // Same response as a missing object, so other organisations' keys can't be probed
+    if (!(await ownsStoragePath(requestScope(request), storagePath))) {
+      return reply.status(404).send({ error: 'Artifact not found' });
+    }
+
     try {
       // Check if object exists and get metadata
       await s3Client.send(new HeadObjectCommand({
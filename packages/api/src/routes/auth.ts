@@ -0,0 +1,522 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { getSessionToken } from '../plugins/auth.js';
+import {
+  authService,
+  hashPassword,
+  sessionCookie,
+  MIN_PASSWORD_LENGTH,
+  ROLES,
+  type AuthContext,
+  type Role,
+} from '../services/auth.js';
+
+interface SetupBody {
+  email: string;
+  password: string;
+  name?: string;
+  organizationName: string;
+}
+
+interface LoginBody {
+  email: string;
+  password: string;
+  organizationId?: string;
+}
+
+interface SwitchOrganizationBody {
+  organizationId: string;
+}
+
+interface CreateOrganizationBody {
+  name: string;
+}
+
+interface AddMemberBody {
+  email: string;
+  name?: string;
+  password: string;
+  role: Role;
+}
+
+interface UpdateMemberBody {
+  role: Role;
+}
+
+interface MemberParams {
+  userId: string;
+}
+
+const meSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['session', 'api_key'] },
+    user: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        email: { type: 'string' },
+        name: { type: 'string', nullable: true },
+      },
+    },
+    organization: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+      },
+    },
+    role: { type: 'string', nullable: true },
+    permissions: { type: 'array', items: { type: 'string' } },
+    organizations: {
+      type: 'array',
+      description: 'Organisations the user belongs to',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          role: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const memberSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    email: { type: 'string' },
+    name: { type: 'string', nullable: true },
+    role: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+  },
+};
+
+function formatOrganization(membership: { role: string; organization: { id: string; name: string } }) {
+  return { id: membership.organization.id, name: membership.organization.name, role: membership.role };
+}
+
+function formatMember(membership: {
+  role: string;
+  createdAt: Date;
+  user: { id: string; email: string; name: string | null };
+}) {
+  return {
+    userId: membership.user.id,
+    email: membership.user.email,
+    name: membership.user.name,
+    role: membership.role,
+    createdAt: membership.createdAt.toISOString(),
+  };
+}
+
+async function getMe(auth: AuthContext) {
+  const organization = await prisma.organization.findUnique({
+    where: { id: auth.organizationId },
+    select: { id: true, name: true },
+  });
+
+  if (auth.type === 'api_key' || !auth.userId) {
+    return { type: auth.type, user: null, organization, role: null, permissions: auth.permissions, organizations: [] };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: auth.userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      memberships: {
+        orderBy: { createdAt: 'asc' },
+        select: { role: true, organization: { select: { id: true, name: true } } },
+      },
+    },
+  });
+
+  return {
+    type: auth.type,
+    user: user && { id: user.id, email: user.email, name: user.name },
+    organization,
+    role: auth.role,
+    permissions: auth.permissions,
+    organizations: user ? user.memberships.map(formatOrganization) : [],
+  };
+}
+
+/**
+ * Start a session, set its cookie and return the caller
+ */
+async function signIn(reply: FastifyReply, userId: string, organizationId: string) {
+  const { token, expiresAt } = await authService.createSession(userId, organizationId);
+  reply.header('Set-Cookie', sessionCookie(token, expiresAt));
+
+  const auth = await authService.resolveSession(token);
+  return getMe(auth!);
+}
+
+async function countAdmins(organizationId: string): Promise<number> {
+  return prisma.membership.count({ where: { organizationId, role: 'ADMIN' } });
+}
+
+export async function authRoutes(fastify: FastifyInstance) {
+  // Whether the first admin still has to be created
+  fastify.get('/setup', {
+    config: { public: true },
+    schema: {
+      tags: ['auth'],
+      summary: 'Check whether the instance needs its first admin',
+      response: {
+        200: {
+          type: 'object',
+          properties: { setupRequired: { type: 'boolean' } },
+        },
+      },
+    },
+  }, async () => {
+    return { setupRequired: await authService.setupRequired() };
+  });
+
+  // Create the first organisation and admin
+  fastify.post<{ Body: SetupBody }>('/setup', {
+    config: { public: true },
+    schema: {
+      tags: ['auth'],
+      summary: 'Create the first organisation and its admin (only before any user exists)',
+      body: {
+        type: 'object',
+        required: ['email', 'password', 'organizationName'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+          password: { type: 'string', minLength: MIN_PASSWORD_LENGTH },
+          name: { type: 'string' },
+          organizationName: { type: 'string', minLength: 1 },
+        },
+      },
+      response: {
+        201: meSchema,
+        409: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: SetupBody }>, reply: FastifyReply) => {
+    if (!(await authService.setupRequired())) {
+      return reply.status(409).send({ error: 'Setup is already complete; sign in instead' });
+    }
+
+    const { userId, organizationId } = await authService.setup(request.body);
+    return reply.status(201).send(await signIn(reply, userId, organizationId));
+  });
+
+  // Sign in
+  fastify.post<{ Body: LoginBody }>('/login', {
+    config: { public: true },
+    schema: {
+      tags: ['auth'],
+      summary: 'Sign in with email and password (sets the session cookie)',
+      body: {
+        type: 'object',
+        required: ['email', 'password'],
+        properties: {
+          email: { type: 'string' },
+          password: { type: 'string' },
+          organizationId: { type: 'string', description: 'Organisation to act in (default: the first one)' },
+        },
+      },
+      response: {
+        200: meSchema,
+        401: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: LoginBody }>, reply: FastifyReply) => {
+    const { email, password, organizationId } = request.body;
+
+    const result = await authService.login(email, password, organizationId);
+    if (!result) {
+      return reply.status(401).send({ error: 'Invalid email or password' });
+    }
+
+    return signIn(reply, result.userId, result.organizationId);
+  });
+
+  // Sign out
+  fastify.post('/logout', {
+    config: { permission: 'read' },
+    schema: {
+      tags: ['auth'],
+      summary: 'End the current session',
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const token = getSessionToken(request);
+    if (token) {
+      await authService.deleteSession(token);
+    }
+
+    reply.header('Set-Cookie', sessionCookie(''));
+    return { success: true };
+  });
+
+  // Current user or API key
+  fastify.get('/me', {
+    schema: {
+      tags: ['auth'],
+      summary: 'Get the caller, its organisation and permissions',
+      response: {
+        200: meSchema,
+      },
+    },
+  }, async (request: FastifyRequest) => {
+    return getMe(request.auth!);
+  });
+
+  // Act in another organisation
+  fastify.post<{ Body: SwitchOrganizationBody }>('/organization', {
+    config: { permission: 'read' },
+    schema: {
+      tags: ['auth'],
+      summary: 'Switch the session to another of the user\'s organisations',
+      body: {
+        type: 'object',
+        required: ['organizationId'],
+        properties: {
+          organizationId: { type: 'string' },
+        },
+      },
+      response: {
+        200: meSchema,
+        400: errorSchema,
+        404: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: SwitchOrganizationBody }>, reply: FastifyReply) => {
+    const token = getSessionToken(request);
+    if (request.auth!.type !== 'session' || !token) {
+      return reply.status(400).send({ error: 'Only sessions can switch organisation' });
+    }
+
+    const switched = await authService.switchOrganization(token, request.body.organizationId);
+    if (!switched) {
+      return reply.status(404).send({ error: 'Not a member of this organisation' });
+    }
+
+    const auth = await authService.resolveSession(token);
+    return getMe(auth!);
+  });
+}
+
+export async function organizationRoutes(fastify: FastifyInstance) {
+  // Create an organisation
+  fastify.post<{ Body: CreateOrganizationBody }>('/', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['auth'],
+      summary: 'Create an organisation with the caller as its admin',
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+        },
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            role: { type: 'string' },
+          },
+        },
+        400: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: CreateOrganizationBody }>, reply: FastifyReply) => {
+    const { userId } = request.auth!;
+    if (!userId) {
+      return reply.status(400).send({ error: 'API keys cannot create organisations' });
+    }
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: request.body.name,
+        members: { create: { userId, role: 'ADMIN' } },
+      },
+    });
+
+    return reply.status(201).send({ id: organization.id, name: organization.name, role: 'ADMIN' });
+  });
+
+  // List members of the current organisation
+  fastify.get('/current/members', {
+    schema: {
+      tags: ['auth'],
+      summary: 'List the members of the caller\'s organisation',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            members: { type: 'array', items: memberSchema },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest) => {
+    const memberships = await prisma.membership.findMany({
+      where: { organizationId: request.auth!.organizationId },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    return { members: memberships.map(formatMember) };
+  });
+
+  // Add a member with a new account
+  // Existing accounts are never added: that would put someone in an organisation they didn't agree to join
+  fastify.post<{ Body: AddMemberBody }>('/current/members', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['auth'],
+      summary: 'Create an account and add it to the organisation',
+      body: {
+        type: 'object',
+        required: ['email', 'password', 'role'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string' },
+          password: { type: 'string', minLength: MIN_PASSWORD_LENGTH },
+          role: { type: 'string', enum: ROLES },
+        },
+      },
+      response: {
+        201: memberSchema,
+        400: errorSchema,
+        409: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: AddMemberBody }>, reply: FastifyReply) => {
+    const { organizationId } = request.auth!;
+    const { name, password, role } = request.body;
+    const email = request.body.email.toLowerCase();
+
+    if (await prisma.user.findUnique({ where: { email } })) {
+      return reply.status(409).send({ error: 'An account with this email already exists' });
+    }
+
+    const user = await prisma.user.create({
+      data: { email, name, passwordHash: await hashPassword(password) },
+    });
+
+    const membership = await prisma.membership.create({
+      data: { userId: user.id, organizationId, role },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    return reply.status(201).send(formatMember(membership));
+  });
+
+  // Change a member's role
+  fastify.put<{ Params: MemberParams; Body: UpdateMemberBody }>('/current/members/:userId', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['auth'],
+      summary: 'Change a member\'s role',
+      params: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+        },
+        required: ['userId'],
+      },
+      body: {
+        type: 'object',
+        required: ['role'],
+        properties: {
+          role: { type: 'string', enum: ROLES },
+        },
+      },
+      response: {
+        200: memberSchema,
+        404: errorSchema,
+        409: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: MemberParams; Body: UpdateMemberBody }>, reply: FastifyReply) => {
+    const { organizationId } = request.auth!;
+    const { userId } = request.params;
+    const { role } = request.body;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+    });
+    if (!membership) {
+      return reply.status(404).send({ error: 'Member not found' });
+    }
+    if (membership.role === 'ADMIN' && role !== 'ADMIN' && (await countAdmins(organizationId)) === 1) {
+      return reply.status(409).send({ error: 'The organisation needs at least one admin' });
+    }
+
+    const updated = await prisma.membership.update({
+      where: { id: membership.id },
+      data: { role },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+
+    return formatMember(updated);
+  });
+
+  // Remove a member
+  fastify.delete<{ Params: MemberParams }>('/current/members/:userId', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['auth'],
+      summary: 'Remove a member from the organisation (their sessions there end)',
+      params: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+        },
+        required: ['userId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: { success: { type: 'boolean' } },
+        },
+        404: errorSchema,
+        409: errorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: MemberParams }>, reply: FastifyReply) => {
+    const { organizationId } = request.auth!;
+    const { userId } = request.params;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+    });
+    if (!membership) {
+      return reply.status(404).send({ error: 'Member not found' });
+    }
+    if (membership.role === 'ADMIN' && (await countAdmins(organizationId)) === 1) {
+      return reply.status(409).send({ error: 'The organisation needs at least one admin' });
+    }
+
+    await prisma.session.deleteMany({ where: { userId, organizationId } });
+    await prisma.membership.delete({ where: { id: membership.id } });
+
+    return { success: true };
+  });
+}
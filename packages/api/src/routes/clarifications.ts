@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../db.js';
+import { requestScope } from '../services/tenancy.js';
 
 // Request/Response types
 interface GetClarificationParams {
@@ -59,7 +60,7 @@ export async function clarificationsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const clarification = await prisma.clarification.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).clarification },
     });
 
     if (!clarification) {
@@ -129,7 +130,7 @@ export async function clarificationsRoutes(fastify: FastifyInstance) {
     const { answer } = request.body;
 
     const clarification = await prisma.clarification.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).clarification },
     });
 
     if (!clarification) {
@@ -214,7 +215,7 @@ export async function clarificationsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const clarification = await prisma.clarification.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).clarification },
     });
 
     if (!clarification) {
@@ -297,7 +298,7 @@ export async function clarificationsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Querystring: ListClarificationsQuery }>) => {
     const { testSpecId, status, limit = 20, offset = 0 } = request.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...requestScope(request).clarification };
     if (testSpecId) where.testSpecId = testSpecId;
     if (status) where.status = status;
 
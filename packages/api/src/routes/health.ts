@@ -1,10 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { prisma } from '../db.js';
 import { executionService } from '../services/execution.js';
+import { requestScope } from '../services/tenancy.js';
 
 export async function healthRoutes(fastify: FastifyInstance) {
   // Basic health check
   fastify.get('/health', {
+    config: { public: true },
     schema: {
       tags: ['health'],
       summary: 'Health check',
@@ -86,9 +88,10 @@ export async function healthRoutes(fastify: FastifyInstance) {
   fastify.get('/stats', {
     schema: {
       tags: ['health'],
-      summary: 'Platform-wide statistics for dashboard',
+      summary: 'Organisation statistics for dashboard',
     },
-  }, async () => {
+  }, async (request) => {
+    const scope = requestScope(request);
     const [
       recordingCount,
       specCount,
@@ -100,15 +103,16 @@ export async function healthRoutes(fastify: FastifyInstance) {
       projectCount,
       recentRuns,
     ] = await Promise.all([
-      prisma.recording.count(),
-      prisma.testSpec.count(),
-      prisma.testRun.count(),
-      prisma.testRun.count({ where: { status: 'PASSED' } }),
-      prisma.testRun.count({ where: { status: 'FAILED' } }),
-      prisma.testRun.count({ where: { status: 'RUNNING' } }),
-      prisma.testRun.count({ where: { status: 'PENDING' } }),
-      prisma.project.count(),
+      prisma.recording.count({ where: scope.recording }),
+      prisma.testSpec.count({ where: scope.testSpec }),
+      prisma.testRun.count({ where: scope.testRun }),
+      prisma.testRun.count({ where: { status: 'PASSED', ...scope.testRun } }),
+      prisma.testRun.count({ where: { status: 'FAILED', ...scope.testRun } }),
+      prisma.testRun.count({ where: { status: 'RUNNING', ...scope.testRun } }),
+      prisma.testRun.count({ where: { status: 'PENDING', ...scope.testRun } }),
+      prisma.project.count({ where: scope.project }),
       prisma.testRun.findMany({
+        where: scope.testRun,
         orderBy: { createdAt: 'desc' },
         take: 10,
         include: {
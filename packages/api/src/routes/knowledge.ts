@@ -0,0 +1,119 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { requestScope } from '../services/tenancy.js';
+
+interface KnowledgeParams {
+  id: string;
+}
+
+interface ListKnowledgeQuery {
+  projectId: string;
+  kind?: string;
+  domain?: string;
+}
+
+const knowledgeEntrySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    projectId: { type: 'string' },
+    domain: { type: 'string' },
+    kind: { type: 'string' },
+    summary: { type: 'string' },
+    before: { type: 'string', nullable: true },
+    after: { type: 'string' },
+    source: { type: 'string' },
+    sourceSpecId: { type: 'string', nullable: true },
+    hits: { type: 'number' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+function formatEntry(entry: {
+  id: string;
+  projectId: string;
+  domain: string;
+  kind: string;
+  summary: string;
+  before: string | null;
+  after: string;
+  source: string;
+  sourceSpecId: string | null;
+  hits: number;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    ...entry,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+export async function knowledgeRoutes(fastify: FastifyInstance) {
+  // List a project's learned knowledge
+  fastify.get<{ Querystring: ListKnowledgeQuery }>('/', {
+    schema: {
+      tags: ['knowledge'],
+      summary: 'List fixes learned from a project\'s passing runs',
+      querystring: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'string' },
+          kind: { type: 'string', enum: ['selector_fix', 'obstacle', 'connection_flow'] },
+          domain: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            entries: { type: 'array', items: knowledgeEntrySchema },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: ListKnowledgeQuery }>) => {
+    const { projectId, kind, domain } = request.query;
+
+    const entries = await prisma.knowledgeEntry.findMany({
+      where: {
+        projectId,
+        ...requestScope(request).projectChild,
+        ...(kind && { kind }),
+        ...(domain && { domain }),
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return { entries: entries.map(formatEntry) };
+  });
+
+  // Prune an entry so generation stops using it
+  fastify.delete<{ Params: KnowledgeParams }>('/:id', {
+    schema: {
+      tags: ['knowledge'],
+      summary: 'Delete a learned knowledge entry',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: KnowledgeParams }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    const existing = await prisma.knowledgeEntry.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Knowledge entry not found' });
+    }
+
+    await prisma.knowledgeEntry.delete({ where: { id } });
+
+    return { success: true };
+  });
+}
@@ -1,7 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { Project } from '@prisma/client';
+import { isAllowedBaseUrl } from '@web3-test/translator';
 import { prisma } from '../db.js';
 import { generateWallet } from '../utils/wallet.js';
 import { executionService } from '../services/execution.js';
+import { encryptSecret, maskSeedPhrase } from '../services/vault.js';
+import { requestScope } from '../services/tenancy.js';
+import { hasPermission } from '../services/auth.js';
 
 interface CreateProjectBody {
   name: string;
@@ -32,6 +37,9 @@ interface UpdateProjectBody {
   chainId?: number;
   connectionSpecId?: string;
   dappContext?: string;
+  llmProvider?: 'anthropic' | 'openai-compatible' | null;
+  llmModel?: string | null;
+  llmBaseUrl?: string | null;
 }
 
 interface ProjectParams {
@@ -45,6 +53,7 @@ interface SuiteRunParams {
 interface RunSuiteBody {
   headless?: boolean;
   streamingMode?: 'NONE' | 'VNC' | 'VIDEO';
+  dappUrl?: string;
 }
 
 interface ListSuiteRunsQuery {
@@ -52,6 +61,42 @@ interface ListSuiteRunsQuery {
   offset?: number;
 }
 
+interface ListSecretAccessQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Per-project LLM settings as returned by the API (null = use the server's env defaults)
+ */
+function getLLMSettings(project: Pick<Project, 'llmProvider' | 'llmModel' | 'llmBaseUrl'>) {
+  return {
+    llmProvider: project.llmProvider || null,
+    llmModel: project.llmModel || null,
+    llmBaseUrl: project.llmBaseUrl || null,
+  };
+}
+
+function formatSecretAccess(access: {
+  id: string;
+  secret: string;
+  keyId: string;
+  purpose: string;
+  runId: string | null;
+  worker: string;
+  createdAt: Date;
+}) {
+  return {
+    id: access.id,
+    secret: access.secret,
+    keyId: access.keyId,
+    purpose: access.purpose,
+    runId: access.runId,
+    worker: access.worker,
+    createdAt: access.createdAt.toISOString(),
+  };
+}
+
 export async function projectsRoutes(fastify: FastifyInstance) {
   // Create a new project
   fastify.post<{ Body: CreateProjectBody }>('/', {
@@ -74,25 +119,33 @@ export async function projectsRoutes(fastify: FastifyInstance) {
 
     const { seedPhrase, walletAddress } = generateWallet();
 
-    const project = await prisma.project.create({
-      data: {
-        name,
-        homeUrl,
-        description: description || null,
-        chainId: chainId || null,
-        seedPhrase,
-        walletAddress,
-      },
+    // The envelope is bound to the project id, which only exists once the row does
+    const project = await prisma.$transaction(async (tx) => {
+      const created = await tx.project.create({
+        data: {
+          organizationId: requestScope(request).organizationId,
+          name,
+          homeUrl,
+          description: description || null,
+          chainId: chainId || null,
+          encryptedSeedPhrase: '',
+          walletAddress,
+        },
+      });
+      return tx.project.update({
+        where: { id: created.id },
+        data: { encryptedSeedPhrase: encryptSecret(seedPhrase, created.id) },
+      });
     });
 
-    // Return seedPhrase only on creation (shown once)
+    // The seed phrase is never returned; only the executor decrypts it
     return reply.status(201).send({
       id: project.id,
       name: project.name,
       homeUrl: project.homeUrl,
       description: project.description,
       walletAddress: project.walletAddress,
-      seedPhrase: project.seedPhrase,
+      seedPhraseHint: maskSeedPhrase(seedPhrase),
       chainId: project.chainId,
       createdAt: project.createdAt.toISOString(),
     });
@@ -104,8 +157,9 @@ export async function projectsRoutes(fastify: FastifyInstance) {
       tags: ['projects'],
       summary: 'List all projects',
     },
-  }, async () => {
+  }, async (request: FastifyRequest) => {
     const projects = await prisma.project.findMany({
+      where: requestScope(request).project,
       orderBy: { createdAt: 'desc' },
       include: {
         _count: {
@@ -145,7 +199,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const project = await prisma.project.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).project },
       include: {
         groups: {
           orderBy: { createdAt: 'asc' },
@@ -196,6 +250,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
       chainId: project.chainId,
       connectionSpecId: (project as { connectionSpecId?: string }).connectionSpecId || null,
       dappContext: (project as { dappContext?: string | null }).dappContext || null,
+      ...getLLMSettings(project),
       createdAt: project.createdAt.toISOString(),
       updatedAt: project.updatedAt.toISOString(),
       groups: project.groups.map((g) => ({
@@ -248,6 +303,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         passedTests: sr.passedTests,
         failedTests: sr.failedTests,
         durationMs: sr.durationMs,
+        scheduleId: sr.scheduleId,
         createdAt: sr.createdAt.toISOString(),
         completedAt: sr.completedAt?.toISOString() || null,
       })),
@@ -273,18 +329,32 @@ export async function projectsRoutes(fastify: FastifyInstance) {
           chainId: { type: 'number' },
           connectionSpecId: { type: 'string' },
           dappContext: { type: 'string' },
+          llmProvider: { type: ['string', 'null'], enum: ['anthropic', 'openai-compatible', null] },
+          llmModel: { type: ['string', 'null'] },
+          llmBaseUrl: { type: ['string', 'null'] },
         },
       },
     },
   }, async (request: FastifyRequest<{ Params: ProjectParams; Body: UpdateProjectBody }>, reply: FastifyReply) => {
     const { id } = request.params;
-    const { name, homeUrl, description, chainId, connectionSpecId, dappContext } = request.body;
+    const { name, homeUrl, description, chainId, connectionSpecId, dappContext, llmProvider, llmModel, llmBaseUrl } = request.body;
 
-    const existing = await prisma.project.findUnique({ where: { id } });
+    const existing = await prisma.project.findUnique({ where: { id, ...requestScope(request).project } });
     if (!existing) {
       return reply.status(404).send({ error: 'Project not found' });
     }
 
+    // The base URL decides where prompts (and the project's key) are sent, so only
+    // admins may point it at one of the URLs the server allows
+    if (llmBaseUrl && llmBaseUrl !== existing.llmBaseUrl) {
+      if (!hasPermission(request.auth!, 'admin')) {
+        return reply.status(403).send({ error: 'This action needs the admin permission' });
+      }
+      if (!isAllowedBaseUrl(llmBaseUrl)) {
+        return reply.status(400).send({ error: 'LLM base URL is not in LLM_ALLOWED_BASE_URLS' });
+      }
+    }
+
     const updated = await prisma.project.update({
       where: { id },
       data: {
@@ -294,6 +364,9 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         ...(chainId !== undefined && { chainId }),
         ...(connectionSpecId !== undefined && { connectionSpecId }),
         ...(dappContext !== undefined && { dappContext }),
+        ...(llmProvider !== undefined && { llmProvider }),
+        ...(llmModel !== undefined && { llmModel: llmModel || null }),
+        ...(llmBaseUrl !== undefined && { llmBaseUrl: llmBaseUrl || null }),
       },
     });
 
@@ -306,6 +379,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
       chainId: updated.chainId,
       connectionSpecId: (updated as { connectionSpecId?: string }).connectionSpecId || null,
       dappContext: (updated as { dappContext?: string | null }).dappContext || null,
+      ...getLLMSettings(updated),
       updatedAt: updated.updatedAt.toISOString(),
     };
   });
@@ -324,7 +398,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
     const { id } = request.params;
 
-    const existing = await prisma.project.findUnique({ where: { id } });
+    const existing = await prisma.project.findUnique({ where: { id, ...requestScope(request).project } });
     if (!existing) {
       return reply.status(404).send({ error: 'Project not found' });
     }
@@ -342,6 +416,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
 
   // Run all tests in a project as a suite
   fastify.post<{ Params: ProjectParams; Body: RunSuiteBody }>('/:id/run-suite', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['projects'],
       summary: 'Run all tests in a project sequentially',
@@ -355,15 +430,16 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         properties: {
           headless: { type: 'boolean', default: false },
           streamingMode: { type: 'string', enum: ['NONE', 'VNC', 'VIDEO'], default: 'NONE' },
+          dappUrl: { type: 'string', pattern: '^https?://', description: 'Run against this dApp URL instead of the recorded one' },
         },
       },
     },
   }, async (request: FastifyRequest<{ Params: ProjectParams; Body: RunSuiteBody }>, reply: FastifyReply) => {
     const { id } = request.params;
-    const { headless = false, streamingMode = 'NONE' } = request.body || {};
+    const { headless = false, streamingMode = 'NONE', dappUrl } = request.body || {};
 
     const project = await prisma.project.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).project },
       include: {
         recordings: {
           include: {
@@ -417,6 +493,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         totalTests: specs.length,
         headless,
         streamingMode: streamingMode as 'NONE' | 'VNC' | 'VIDEO',
+        dappUrl: dappUrl || null,
       },
     });
 
@@ -429,6 +506,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
           headless,
           streamingMode: streamingMode as 'NONE' | 'VNC' | 'VIDEO',
           suiteRunId: suiteRun.id,
+          dappUrl: dappUrl || null,
         },
       });
     }
@@ -442,6 +520,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
       status: suiteRun.status,
       totalTests: suiteRun.totalTests,
       specIds,
+      dappUrl: suiteRun.dappUrl,
       queued: queueResult.queued,
       message: queueResult.message,
       createdAt: suiteRun.createdAt.toISOString(),
@@ -470,14 +549,16 @@ export async function projectsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
     const { limit = 20, offset = 0 } = request.query;
 
+    const where = { projectId: id, ...requestScope(request).projectChild };
+
     const [suiteRuns, total] = await Promise.all([
       prisma.suiteRun.findMany({
-        where: { projectId: id },
+        where,
         take: limit,
         skip: offset,
         orderBy: { createdAt: 'desc' },
       }),
-      prisma.suiteRun.count({ where: { projectId: id } }),
+      prisma.suiteRun.count({ where }),
     ]);
 
     return {
@@ -489,6 +570,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         failedTests: sr.failedTests,
         durationMs: sr.durationMs,
         error: sr.error,
+        scheduleId: sr.scheduleId,
         createdAt: sr.createdAt.toISOString(),
         startedAt: sr.startedAt?.toISOString() || null,
         completedAt: sr.completedAt?.toISOString() || null,
@@ -499,6 +581,49 @@ export async function projectsRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // Audit trail of seed phrase decrypts by the executor
+  fastify.get<{ Params: ProjectParams; Querystring: ListSecretAccessQuery }>('/:id/secret-access', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['projects'],
+      summary: 'List decrypts of the project\'s seed phrase',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', default: 20 },
+          offset: { type: 'number', default: 0 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: ProjectParams; Querystring: ListSecretAccessQuery }>) => {
+    const { id } = request.params;
+    const { limit = 20, offset = 0 } = request.query;
+
+    const where = { projectId: id, ...requestScope(request).projectChild };
+
+    const [accesses, total] = await Promise.all([
+      prisma.secretAccess.findMany({
+        where,
+        take: limit,
+        skip: offset,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.secretAccess.count({ where }),
+    ]);
+
+    return {
+      accesses: accesses.map(formatSecretAccess),
+      total,
+      limit,
+      offset,
+    };
+  });
+
   // ============================================================================
   // Test Group Routes
   // ============================================================================
@@ -526,7 +651,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
     const { name, description } = request.body;
 
-    const project = await prisma.project.findUnique({ where: { id } });
+    const project = await prisma.project.findUnique({ where: { id, ...requestScope(request).project } });
     if (!project) {
       return reply.status(404).send({ error: 'Project not found' });
     }
@@ -564,7 +689,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const groups = await prisma.testGroup.findMany({
-      where: { projectId: id },
+      where: { projectId: id, ...requestScope(request).projectChild },
       orderBy: { createdAt: 'asc' },
       include: {
         _count: { select: { recordings: true } },
@@ -585,6 +710,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
 
   // Run suite for a specific group
   fastify.post<{ Params: GroupParams; Body: RunSuiteBody }>('/:id/groups/:groupId/run-suite', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['groups'],
       summary: 'Run tests in a specific group',
@@ -601,15 +727,16 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         properties: {
           headless: { type: 'boolean', default: false },
           streamingMode: { type: 'string', enum: ['NONE', 'VNC', 'VIDEO'], default: 'NONE' },
+          dappUrl: { type: 'string', pattern: '^https?://', description: 'Run against this dApp URL instead of the recorded one' },
         },
       },
     },
   }, async (request: FastifyRequest<{ Params: GroupParams; Body: RunSuiteBody }>, reply: FastifyReply) => {
     const { id, groupId } = request.params;
-    const { headless = false, streamingMode = 'NONE' } = request.body || {};
+    const { headless = false, streamingMode = 'NONE', dappUrl } = request.body || {};
 
     const group = await prisma.testGroup.findUnique({
-      where: { id: groupId },
+      where: { id: groupId, ...requestScope(request).projectChild },
     });
     if (!group || group.projectId !== id) {
       return reply.status(404).send({ error: 'Group not found' });
@@ -660,6 +787,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
         totalTests: specs.length,
         headless,
         streamingMode: streamingMode as 'NONE' | 'VNC' | 'VIDEO',
+        dappUrl: dappUrl || null,
       },
     });
 
@@ -672,6 +800,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
           headless,
           streamingMode: streamingMode as 'NONE' | 'VNC' | 'VIDEO',
           suiteRunId: suiteRun.id,
+          dappUrl: dappUrl || null,
         },
       });
     }
@@ -686,6 +815,7 @@ export async function projectsRoutes(fastify: FastifyInstance) {
       status: suiteRun.status,
       totalTests: suiteRun.totalTests,
       specIds,
+      dappUrl: suiteRun.dappUrl,
       queued: queueResult.queued,
       message: queueResult.message,
       createdAt: suiteRun.createdAt.toISOString(),
@@ -720,7 +850,7 @@ export async function groupsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
     const { name, description } = request.body;
 
-    const existing = await prisma.testGroup.findUnique({ where: { id } });
+    const existing = await prisma.testGroup.findUnique({ where: { id, ...requestScope(request).projectChild } });
     if (!existing) {
       return reply.status(404).send({ error: 'Group not found' });
     }
@@ -760,7 +890,7 @@ export async function groupsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
     const { id } = request.params;
 
-    const existing = await prisma.testGroup.findUnique({ where: { id } });
+    const existing = await prisma.testGroup.findUnique({ where: { id, ...requestScope(request).projectChild } });
     if (!existing) {
       return reply.status(404).send({ error: 'Group not found' });
     }
@@ -794,7 +924,7 @@ export async function suiteRunsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const suiteRun = await prisma.suiteRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).projectChild },
       include: {
         project: {
           select: { id: true, name: true, walletAddress: true },
@@ -833,6 +963,8 @@ export async function suiteRunsRoutes(fastify: FastifyInstance) {
       durationMs: suiteRun.durationMs,
       error: suiteRun.error,
       logs: suiteRun.logs,
+      dappUrl: suiteRun.dappUrl,
+      scheduleId: suiteRun.scheduleId,
       createdAt: suiteRun.createdAt.toISOString(),
       startedAt: suiteRun.startedAt?.toISOString() || null,
       completedAt: suiteRun.completedAt?.toISOString() || null,
@@ -1,10 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Prisma } from '@prisma/client';
 import { prisma } from '../db.js';
-import { RecordingSchema, analyzeRecording } from '@web3-test/translator';
-import { apiKeyService } from '../services/apikeys.js';
+import { RecordingSchema, analyzeRecording, segmentRecording, lintRecording, applyRecordingFixes } from '@web3-test/translator';
+import { getProjectSnippets, connectSnippets } from '../services/snippets.js';
+import { getProjectKnowledge } from '../services/knowledge.js';
+import { requestScope, ownsProjectAndGroup } from '../services/tenancy.js';
 
-import { translationService } from '../services/translation.js';
+import { translationService, getProjectLLMOptions, PROJECT_LLM_SELECT, type ProjectLLMOptions } from '../services/translation.js';
 
 // Request/Response types
 interface UploadRecordingBody {
@@ -26,6 +28,15 @@ interface ListRecordingsQuery {
   projectId?: string;
 }
 
+interface UploadScreenshotsBody {
+  // Each screenshot belongs to a step or to one of the success-state snapshots
+  screenshots: Array<{ stepId?: string; snapshot?: 'markedSnapshot' | 'stopSnapshot'; screenshot: string }>;
+}
+
+interface FixRecordingBody {
+  ids?: string[]; // Findings to fix (default: every finding with a fix)
+}
+
 interface UpdateRecordingBody {
   name?: string;
   steps?: unknown[];
@@ -34,32 +45,37 @@ interface UpdateRecordingBody {
   groupId?: string | null;
 }
 
+const lintReportSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          rule: { type: 'string' },
+          severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+          stepIndex: { type: 'number' },
+          message: { type: 'string' },
+          fix: {
+            type: 'object',
+            properties: {
+              type: { type: 'string' },
+              description: { type: 'string' },
+              stepId: { type: 'string' },
+              stepIds: { type: 'array', items: { type: 'string' } },
+              selector: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
 
 export async function recordingsRoutes(fastify: FastifyInstance) {
-  // Helper to validate API key from header
-  async function validateApiKeyHeader(request: FastifyRequest): Promise<{
-    valid: boolean;
-    keyId?: string;
-    error?: string;
-  }> {
-    const authHeader = request.headers['x-api-key'] || request.headers['authorization'];
-
-    if (!authHeader) {
-      return { valid: true }; // No auth required for now (allow anonymous uploads)
-    }
-
-    // Support both "Bearer token" and raw token formats
-    const key = typeof authHeader === 'string'
-      ? authHeader.replace(/^Bearer\s+/i, '')
-      : authHeader[0]?.replace(/^Bearer\s+/i, '');
-
-    if (!key) {
-      return { valid: true };
-    }
-
-    return apiKeyService.validateKey(key);
-  }
-
   // Upload a new recording
   fastify.post<{ Body: UploadRecordingBody }>('/', {
     schema: {
@@ -109,12 +125,6 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
       },
     },
   }, async (request: FastifyRequest<{ Body: UploadRecordingBody }>, reply: FastifyReply) => {
-    // Optionally validate API key
-    const auth = await validateApiKeyHeader(request);
-    if (!auth.valid) {
-      return reply.status(401).send({ error: auth.error || 'Invalid API key' });
-    }
-
     const { name, jsonData, autoGenerate = false, projectId, groupId } = request.body;
 
     // Validate recording format
@@ -127,6 +137,11 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     }
 
     const recording = parseResult.data;
+    const scope = requestScope(request);
+
+    if (!(await ownsProjectAndGroup(scope, { projectId, groupId }))) {
+      return reply.status(404).send({ error: 'Project or group not found' });
+    }
 
     // Analyze the recording to extract metadata
     const analysis = analyzeRecording(recording);
@@ -141,6 +156,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
         chainId: analysis.detectedChainId || null,
         walletName: analysis.detectedWallet || null,
         stepCount: recording.steps.length,
+        organizationId: scope.organizationId,
         projectId: projectId || null,
         groupId: groupId || null,
       },
@@ -152,17 +168,21 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
 
     if (autoGenerate) {
       try {
-        // Fetch project's dappContext if available
+        // Fetch project's dappContext and LLM settings if available
         let dappContext: string | undefined;
+        let llm: ProjectLLMOptions | undefined;
         if (projectId) {
           const project = await prisma.project.findUnique({
-            where: { id: projectId },
-            select: { dappContext: true },
+            where: { id: projectId, ...scope.project },
+            select: { dappContext: true, ...PROJECT_LLM_SELECT },
           });
           dappContext = (project as { dappContext?: string | null })?.dappContext || undefined;
+          llm = getProjectLLMOptions(project);
         }
 
-        const result = await translationService.generateSpec(created, { dappContext });
+        const snippets = await getProjectSnippets(projectId);
+        const learnedKnowledge = await getProjectKnowledge(projectId);
+        const result = await translationService.generateSpec(created, { dappContext, llm, snippets, learnedKnowledge });
 
         if (result.success && result.code) {
           // Update recording testType from analysis
@@ -180,6 +200,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
               status: result.clarifications && result.clarifications.length > 0 ? 'NEEDS_REVIEW' : 'READY',
               patterns: result.patterns || [],
               warnings: result.warnings || [],
+              snippets: connectSnippets(result.code, snippets),
             },
           });
           testSpec = { id: spec.id, status: spec.status, hasCode: true };
@@ -246,7 +267,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const recording = await prisma.recording.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).recording },
     });
 
     if (!recording) {
@@ -312,7 +333,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Querystring: ListRecordingsQuery }>) => {
     const { limit = 20, offset = 0, dappUrl, projectId } = request.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...requestScope(request).recording };
     if (dappUrl) where.dappUrl = { contains: dappUrl };
     if (projectId) where.projectId = projectId;
 
@@ -376,7 +397,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
 
     try {
       await prisma.recording.delete({
-        where: { id },
+        where: { id, ...requestScope(request).recording },
       });
       return { success: true };
     } catch (error) {
@@ -387,6 +408,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
 
   // Delete ALL recordings
   fastify.delete('/all/recordings', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['recordings'],
       summary: 'Delete all recordings and associated data',
@@ -400,10 +422,10 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      // Delete all recordings (cascades to TestSpecs, TestRuns, Artifacts)
-      const result = await prisma.recording.deleteMany({});
+      // Delete the organisation's recordings (cascades to TestSpecs, TestRuns, Artifacts)
+      const result = await prisma.recording.deleteMany({ where: requestScope(request).recording });
       return reply.send({
         deleted: result.count,
         message: `Deleted ${result.count} recordings and all associated data`,
@@ -472,14 +494,22 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     const { name, steps, autoRegenerate = false, projectId, groupId } = request.body;
 
     // Check recording exists
+    const scope = requestScope(request);
     const existing = await prisma.recording.findUnique({
-      where: { id },
+      where: { id, ...scope.recording },
     });
 
     if (!existing) {
       return reply.status(404).send({ error: 'Recording not found' });
     }
 
+    if (!(await ownsProjectAndGroup(scope, {
+      projectId: projectId ?? existing.projectId,
+      groupId: groupId ?? undefined,
+    }))) {
+      return reply.status(404).send({ error: 'Project or group not found' });
+    }
+
     // Build update data
     const existingJsonData = existing.jsonData as { steps?: unknown[]; [key: string]: unknown };
     let updatedJsonData = existingJsonData;
@@ -520,6 +550,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
         chainId,
         walletName,
       },
+      include: { project: { select: PROJECT_LLM_SELECT } },
     });
 
     // Auto-regenerate test spec if requested and steps were changed
@@ -528,7 +559,13 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
 
     if (autoRegenerate && steps !== undefined) {
       try {
-        const result = await translationService.generateSpec(updated);
+        const snippets = await getProjectSnippets(updated.projectId);
+        const learnedKnowledge = await getProjectKnowledge(updated.projectId);
+        const result = await translationService.generateSpec(updated, {
+          llm: getProjectLLMOptions(updated.project),
+          snippets,
+          learnedKnowledge,
+        });
 
         if (result.success && result.code) {
           // Delete existing specs and create new one
@@ -543,6 +580,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
               status: result.clarifications && result.clarifications.length > 0 ? 'NEEDS_REVIEW' : 'READY',
               patterns: result.patterns || [],
               warnings: result.warnings || [],
+              snippets: connectSnippets(result.code, snippets),
             },
           });
           testSpec = { id: spec.id, status: spec.status, hasCode: true };
@@ -567,6 +605,94 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // Attach screenshots to an uploaded recording
+  // The extension sends screenshot-heavy recordings in chunks to stay under the body limit
+  fastify.post<{ Params: GetRecordingParams; Body: UploadScreenshotsBody }>('/:id/screenshots', {
+    schema: {
+      tags: ['recordings'],
+      summary: 'Attach a chunk of step and success-state screenshots to a recording',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        required: ['screenshots'],
+        properties: {
+          screenshots: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['screenshot'],
+              properties: {
+                stepId: { type: 'string' },
+                snapshot: { type: 'string', enum: ['markedSnapshot', 'stopSnapshot'] },
+                screenshot: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            updated: { type: 'number' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: GetRecordingParams; Body: UploadScreenshotsBody }>, reply: FastifyReply) => {
+    const { id } = request.params;
+    const existing = await prisma.recording.findUnique({
+      where: { id, ...requestScope(request).recording },
+    });
+
+    if (!existing) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    const screenshotsByStep = new Map(request.body.screenshots.filter((s) => s.stepId).map((s) => [s.stepId, s.screenshot]));
+    const jsonData = existing.jsonData as {
+      steps?: Array<{ id?: string; screenshot?: string }>;
+      successState?: Record<string, Record<string, unknown> | undefined>;
+    };
+    let updated = 0;
+
+    const steps = (jsonData.steps || []).map((step) => {
+      const screenshot = step.id ? screenshotsByStep.get(step.id) : undefined;
+      if (!screenshot) return step;
+      updated++;
+      return { ...step, screenshot };
+    });
+
+    let successState = jsonData.successState;
+    for (const { snapshot, screenshot } of request.body.screenshots) {
+      if (!snapshot || !successState?.[snapshot]) continue;
+      successState = { ...successState, [snapshot]: { ...successState[snapshot], screenshot } };
+      updated++;
+    }
+
+    await prisma.recording.update({
+      where: { id },
+      data: {
+        jsonData: { ...jsonData, steps, ...(successState && { successState }) } as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return { id, updated };
+  });
+
   // Regenerate test spec for a recording
   fastify.post<{ Params: GetRecordingParams }>('/:id/regenerate', {
     schema: {
@@ -608,7 +734,8 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const recording = await prisma.recording.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).recording },
+      include: { project: { select: PROJECT_LLM_SELECT } },
     });
 
     if (!recording) {
@@ -616,7 +743,13 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     }
 
     try {
-      const result = await translationService.generateSpec(recording);
+      const snippets = await getProjectSnippets(recording.projectId);
+      const learnedKnowledge = await getProjectKnowledge(recording.projectId);
+      const result = await translationService.generateSpec(recording, {
+        llm: getProjectLLMOptions(recording.project),
+        snippets,
+        learnedKnowledge,
+      });
 
       if (!result.success || !result.code) {
         return reply.status(400).send({
@@ -652,6 +785,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
           status: result.clarifications && result.clarifications.length > 0 ? 'NEEDS_REVIEW' : 'READY',
           patterns: result.patterns || [],
           warnings: result.warnings || [],
+          snippets: connectSnippets(result.code, snippets),
         },
       });
 
@@ -709,6 +843,22 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
             chainId: { type: 'number', nullable: true },
             wallet: { type: 'string', nullable: true },
             warnings: { type: 'array', items: { type: 'string' } },
+            segments: {
+              type: 'array',
+              description: 'Proposed split into independent sub-tests (see POST /api/tests/generate-segments)',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  startIndex: { type: 'number' },
+                  endIndex: { type: 'number' },
+                  patterns: { type: 'array', items: { type: 'string' } },
+                  preconditions: { type: 'array' },
+                  startUrl: { type: 'string' },
+                },
+              },
+            },
           },
         },
         404: {
@@ -723,7 +873,7 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const recording = await prisma.recording.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).recording },
     });
 
     if (!recording) {
@@ -752,6 +902,125 @@ export async function recordingsRoutes(fastify: FastifyInstance) {
       chainId: analysis.detectedChainId,
       wallet: analysis.detectedWallet,
       warnings: analysis.warnings,
+      segments: segmentRecording(analysis),
+    };
+  });
+
+  // Score a recording before translation (no model call)
+  fastify.get<{ Params: GetRecordingParams }>('/:id/lint', {
+    schema: {
+      tags: ['recordings'],
+      summary: 'Score a recording and list quality findings with suggested fixes',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: lintReportSchema,
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: GetRecordingParams }>, reply: FastifyReply) => {
+    const recording = await prisma.recording.findUnique({
+      where: { id: request.params.id, ...requestScope(request).recording },
+    });
+    if (!recording) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    const parseResult = RecordingSchema.safeParse(recording.jsonData);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Recording data is corrupted',
+        details: parseResult.error.message,
+      });
+    }
+
+    return lintRecording(parseResult.data);
+  });
+
+  // Apply lint fixes to the stored recording (specs are not regenerated)
+  fastify.post<{ Params: GetRecordingParams; Body: FixRecordingBody }>('/:id/lint/fix', {
+    schema: {
+      tags: ['recordings'],
+      summary: 'Apply suggested lint fixes to a recording',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          ids: { type: 'array', items: { type: 'string' }, description: 'Finding IDs to fix (default: all fixable)' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            applied: { type: 'array', items: { type: 'string' } },
+            stepCount: { type: 'number' },
+            report: lintReportSchema,
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: GetRecordingParams; Body: FixRecordingBody }>, reply: FastifyReply) => {
+    const { id } = request.params;
+    const ids = request.body?.ids;
+
+    const recording = await prisma.recording.findUnique({
+      where: { id, ...requestScope(request).recording },
+    });
+    if (!recording) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    const parseResult = RecordingSchema.safeParse(recording.jsonData);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Recording data is corrupted',
+        details: parseResult.error.message,
+      });
+    }
+
+    const { findings } = lintRecording(parseResult.data);
+    const selected = ids ? findings.filter((f) => ids.includes(f.id)) : findings;
+    const { recording: fixed, applied } = applyRecordingFixes(parseResult.data, selected);
+
+    if (applied.length > 0) {
+      // Keep fields the schema doesn't know about
+      const jsonData = { ...(recording.jsonData as Record<string, unknown>), ...fixed };
+      await prisma.recording.update({
+        where: { id },
+        data: {
+          jsonData: jsonData as unknown as Prisma.InputJsonValue,
+          stepCount: fixed.steps.length,
+        },
+      });
+    }
+
+    return {
+      applied: applied.map((f) => f.id),
+      stepCount: fixed.steps.length,
+      report: lintRecording(fixed),
     };
   });
 }
@@ -2,7 +2,10 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../db.js';
 import { executionService } from '../services/execution.js';
 import { selfHealService } from '../services/self-heal.js';
+import { requestScope } from '../services/tenancy.js';
 import { getReplayManifest, getFrameFromZip, getScreencastManifest, getScreencastFrame } from '../services/trace-parser.js';
+import { randomBytes } from 'crypto';
+import { RecordingSchema, type RecordingDataset } from '@web3-test/translator';
 
 /** Convert agent tool + input to a human-readable label */
 function agentActionLabel(tool: string, input: Record<string, unknown>, elementDesc?: string): string {
@@ -34,6 +37,14 @@ interface CreateRunBody {
   executionMode?: 'SPEC' | 'AGENT';
 }
 
+interface CreateMatrixRunBody {
+  testSpecId: string;
+  /** Dataset names to run (default: all of the recording's datasets) */
+  datasets?: string[];
+  headless?: boolean;
+  streamingMode?: 'NONE' | 'VNC' | 'VIDEO';
+}
+
 interface GetRunParams {
   id: string;
 }
@@ -48,6 +59,7 @@ interface ListRunsQuery {
 export async function runsRoutes(fastify: FastifyInstance) {
   // Start a new test run
   fastify.post<{ Body: CreateRunBody }>('/', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['runs'],
       summary: 'Start a new test execution',
@@ -105,6 +117,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
     // Derive headless from streamingMode if not explicitly set
     const isHeadless = streamingMode === 'NONE' ? headless : false;
+    const scope = requestScope(request);
 
     if (executionMode === 'AGENT') {
       // Agent mode: requires recordingId (or testSpecId to look up the recording)
@@ -113,7 +126,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
       if (!resolvedRecordingId && testSpecId) {
         // Look up recording from spec
         const spec = await prisma.testSpec.findUnique({
-          where: { id: testSpecId },
+          where: { id: testSpecId, ...scope.testSpec },
           select: { recordingId: true },
         });
         if (spec) resolvedRecordingId = spec.recordingId;
@@ -125,7 +138,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
       // Verify recording exists
       const recording = await prisma.recording.findUnique({
-        where: { id: resolvedRecordingId },
+        where: { id: resolvedRecordingId, ...scope.recording },
       });
       if (!recording) {
         return reply.status(404).send({ error: 'Recording not found' });
@@ -133,6 +146,15 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
       // For agent mode, create a placeholder spec (or use existing)
       let specId = testSpecId;
+      if (specId) {
+        const spec = await prisma.testSpec.findUnique({
+          where: { id: specId, ...scope.testSpec },
+          select: { id: true },
+        });
+        if (!spec) {
+          return reply.status(404).send({ error: 'Test spec not found' });
+        }
+      }
       if (!specId) {
         // Find or create a placeholder spec for agent runs
         const existingSpec = await prisma.testSpec.findFirst({
@@ -188,7 +210,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
     // Check test spec exists
     const testSpec = await prisma.testSpec.findUnique({
-      where: { id: testSpecId },
+      where: { id: testSpecId, ...scope.testSpec },
     });
 
     if (!testSpec) {
@@ -229,6 +251,134 @@ export async function runsRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // Start one run per dataset row of the spec's recording
+  fastify.post<{ Body: CreateMatrixRunBody }>('/matrix', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['runs'],
+      summary: 'Run a test spec once per recording dataset',
+      body: {
+        type: 'object',
+        required: ['testSpecId'],
+        properties: {
+          testSpecId: { type: 'string', description: 'ID of the test spec to run' },
+          datasets: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Dataset names to run (default: all datasets of the recording)',
+          },
+          headless: { type: 'boolean', default: false, description: 'Run in headless mode' },
+          streamingMode: {
+            type: 'string',
+            enum: ['NONE', 'VNC', 'VIDEO'],
+            default: 'NONE',
+            description: 'Streaming mode: NONE (headless), VNC (live view), VIDEO (post-run recording)',
+          },
+        },
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            matrixId: { type: 'string' },
+            testSpecId: { type: 'string' },
+            runs: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  datasetName: { type: 'string' },
+                  status: { type: 'string' },
+                  queued: { type: 'boolean' },
+                },
+              },
+            },
+            message: { type: 'string' },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: CreateMatrixRunBody }>, reply: FastifyReply) => {
+    const { testSpecId, datasets: selected, headless = false, streamingMode = 'NONE' } = request.body;
+    const isHeadless = streamingMode === 'NONE' ? headless : false;
+
+    const testSpec = await prisma.testSpec.findUnique({
+      where: { id: testSpecId, ...requestScope(request).testSpec },
+      include: { recording: { select: { jsonData: true } } },
+    });
+
+    if (!testSpec) {
+      return reply.status(404).send({ error: 'Test spec not found' });
+    }
+
+    if (testSpec.status === 'DRAFT') {
+      return reply.status(400).send({
+        error: `Test spec has no code (status: ${testSpec.status})`,
+      });
+    }
+
+    const parsed = RecordingSchema.shape.datasets.safeParse(
+      (testSpec.recording.jsonData as { datasets?: unknown } | null)?.datasets
+    );
+    if (!parsed.success) {
+      return reply.status(400).send({ error: `Invalid recording datasets: ${parsed.error.message}` });
+    }
+
+    let datasets: RecordingDataset[] = parsed.data || [];
+    if (selected) {
+      const missing = selected.filter((name) => !datasets.some((d) => d.name === name));
+      if (missing.length > 0) {
+        return reply.status(400).send({ error: `Unknown dataset(s): ${missing.join(', ')}` });
+      }
+      datasets = datasets.filter((d) => selected.includes(d.name));
+    }
+
+    if (datasets.length === 0) {
+      return reply.status(400).send({ error: 'The recording has no datasets to run' });
+    }
+
+    const matrixId = randomBytes(12).toString('hex');
+    const runs = [];
+
+    for (const dataset of datasets) {
+      const run = await prisma.testRun.create({
+        data: {
+          testSpecId,
+          status: 'PENDING',
+          headless: isHeadless,
+          streamingMode,
+          executionMode: 'SPEC',
+          datasetName: dataset.name,
+          params: dataset.values,
+          matrixId,
+        },
+      });
+
+      const queueResult = await executionService.queueRun(run.id, { streamingMode });
+      runs.push({ id: run.id, datasetName: dataset.name, status: run.status, queued: queueResult.queued });
+    }
+
+    return reply.status(201).send({
+      matrixId,
+      testSpecId,
+      runs,
+      message: `Started ${runs.length} run(s), one per dataset`,
+    });
+  });
+
   // Get a run by ID
   fastify.get<{ Params: GetRunParams }>('/:id', {
     schema: {
@@ -255,6 +405,9 @@ export async function runsRoutes(fastify: FastifyInstance) {
             error: { type: 'string', nullable: true },
             headless: { type: 'boolean' },
             executionMode: { type: 'string' },
+            datasetName: { type: 'string', nullable: true },
+            params: { type: 'object', nullable: true, additionalProperties: true },
+            matrixId: { type: 'string', nullable: true },
             agentData: { type: 'object', nullable: true, additionalProperties: true },
             createdAt: { type: 'string' },
           },
@@ -271,7 +424,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
       include: {
         testSpec: {
           select: {
@@ -299,6 +452,9 @@ export async function runsRoutes(fastify: FastifyInstance) {
       error: run.error,
       headless: run.headless,
       executionMode: run.executionMode,
+      datasetName: run.datasetName,
+      params: run.params,
+      matrixId: run.matrixId,
       agentData: (run as any).agentData || null,
       createdAt: run.createdAt.toISOString(),
     };
@@ -332,6 +488,8 @@ export async function runsRoutes(fastify: FastifyInstance) {
                   status: { type: 'string' },
                   passed: { type: 'boolean', nullable: true },
                   durationMs: { type: 'number', nullable: true },
+                  datasetName: { type: 'string', nullable: true },
+                  matrixId: { type: 'string', nullable: true },
                   createdAt: { type: 'string' },
                 },
               },
@@ -346,7 +504,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Querystring: ListRunsQuery }>) => {
     const { limit = 20, offset = 0, testSpecId, status } = request.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...requestScope(request).testRun };
     if (testSpecId) where.testSpecId = testSpecId;
     if (status) where.status = status;
 
@@ -364,6 +522,8 @@ export async function runsRoutes(fastify: FastifyInstance) {
           durationMs: true,
           headless: true,
           error: true,
+          datasetName: true,
+          matrixId: true,
           createdAt: true,
           testSpec: {
             select: {
@@ -437,7 +597,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
     // Check run exists
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
     });
 
     if (!run) {
@@ -465,6 +625,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
   // Self-heal a failed run (manual trigger)
   fastify.post<{ Params: GetRunParams }>('/:id/self-heal', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['runs'],
       summary: 'Trigger self-healing regeneration for a failed test run',
@@ -477,7 +638,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Params: GetRunParams }>, reply: FastifyReply) => {
     const { id } = request.params;
 
-    const run = await prisma.testRun.findUnique({ where: { id } });
+    const run = await prisma.testRun.findUnique({ where: { id, ...requestScope(request).testRun } });
     if (!run) {
       return reply.status(404).send({ error: 'Test run not found' });
     }
@@ -498,6 +659,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
   // Cancel a run
   fastify.post<{ Params: GetRunParams }>('/:id/cancel', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['runs'],
       summary: 'Cancel a pending or running test',
@@ -534,7 +696,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
     });
 
     if (!run) {
@@ -588,7 +750,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
     // Check run exists
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
     });
 
     if (!run) {
@@ -635,6 +797,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
   // Delete ALL test runs
   fastify.delete('/all/runs', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['runs'],
       summary: 'Delete all test runs and associated artifacts',
@@ -648,9 +811,9 @@ export async function runsRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const result = await prisma.testRun.deleteMany({});
+      const result = await prisma.testRun.deleteMany({ where: requestScope(request).testRun });
       return reply.send({
         deleted: result.count,
         message: `Deleted ${result.count} test runs and all associated artifacts`,
@@ -706,7 +869,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Params: GetRunParams }>, reply: FastifyReply) => {
     const { id } = request.params;
 
-    const run = await prisma.testRun.findUnique({ where: { id } });
+    const run = await prisma.testRun.findUnique({ where: { id, ...requestScope(request).testRun } });
     if (!run) {
       return reply.status(404).send({ error: 'Test run not found' });
     }
@@ -934,7 +1097,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
 
     // Find the TRACE artifact for this run
     const traceArtifact = await prisma.artifact.findFirst({
-      where: { testRunId: id, type: 'TRACE' },
+      where: { testRunId: id, type: 'TRACE', ...requestScope(request).artifact },
     });
 
     if (!traceArtifact) {
@@ -973,7 +1136,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
     const { id, sha1 } = request.params;
 
     const traceArtifact = await prisma.artifact.findFirst({
-      where: { testRunId: id, type: 'TRACE' },
+      where: { testRunId: id, type: 'TRACE', ...requestScope(request).artifact },
     });
 
     if (!traceArtifact) {
@@ -1015,7 +1178,7 @@ export async function runsRoutes(fastify: FastifyInstance) {
     const { id, filename } = request.params;
 
     const screencastArtifact = await prisma.artifact.findFirst({
-      where: { testRunId: id, type: 'TRACE', name: 'screencast.zip' },
+      where: { testRunId: id, type: 'TRACE', name: 'screencast.zip', ...requestScope(request).artifact },
     });
 
     if (!screencastArtifact) {
@@ -0,0 +1,394 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { scheduleService, validateSchedule, nextRunTimes } from '../services/schedules.js';
+import { requestScope, type OrgScope } from '../services/tenancy.js';
+
+type ExecutionMode = 'SPEC' | 'AGENT' | 'HYBRID';
+type StreamingMode = 'NONE' | 'VNC' | 'VIDEO';
+
+// Request/Response types
+interface CreateScheduleBody {
+  projectId: string;
+  groupId?: string;
+  name: string;
+  cron: string;
+  timezone?: string;
+  executionMode?: ExecutionMode;
+  streamingMode?: StreamingMode;
+  headless?: boolean;
+}
+
+interface UpdateScheduleBody {
+  groupId?: string | null;
+  name?: string;
+  cron?: string;
+  timezone?: string;
+  executionMode?: ExecutionMode;
+  streamingMode?: StreamingMode;
+  headless?: boolean;
+}
+
+interface ScheduleParams {
+  id: string;
+}
+
+interface ListSchedulesQuery {
+  projectId: string;
+}
+
+interface PreviewQuery {
+  cron: string;
+  timezone?: string;
+}
+
+const scheduleSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    projectId: { type: 'string' },
+    groupId: { type: 'string', nullable: true },
+    groupName: { type: 'string', nullable: true },
+    name: { type: 'string' },
+    cron: { type: 'string' },
+    timezone: { type: 'string' },
+    executionMode: { type: 'string' },
+    streamingMode: { type: 'string' },
+    headless: { type: 'boolean' },
+    enabled: { type: 'boolean' },
+    nextRunAt: { type: 'string', nullable: true },
+    lastRunAt: { type: 'string', nullable: true },
+    lastSuiteRun: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string' },
+        createdAt: { type: 'string' },
+      },
+    },
+    registered: { type: 'boolean' },
+    createdAt: { type: 'string' },
+  },
+};
+
+const scheduleSettingsProperties = {
+  name: { type: 'string', minLength: 1 },
+  cron: { type: 'string' },
+  timezone: { type: 'string' },
+  executionMode: { type: 'string', enum: ['SPEC', 'AGENT', 'HYBRID'] },
+  streamingMode: { type: 'string', enum: ['NONE', 'VNC', 'VIDEO'] },
+  headless: { type: 'boolean' },
+};
+
+const scheduleInclude = {
+  group: { select: { name: true } },
+  suiteRuns: {
+    select: { id: true, status: true, createdAt: true },
+    orderBy: { createdAt: 'desc' as const },
+    take: 1,
+  },
+};
+
+function formatSchedule(schedule: {
+  id: string;
+  projectId: string;
+  groupId: string | null;
+  group?: { name: string } | null;
+  name: string;
+  cron: string;
+  timezone: string;
+  executionMode: string;
+  streamingMode: string;
+  headless: boolean;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  suiteRuns?: Array<{ id: string; status: string; createdAt: Date }>;
+  createdAt: Date;
+}) {
+  const lastSuiteRun = schedule.suiteRuns?.[0];
+  return {
+    id: schedule.id,
+    projectId: schedule.projectId,
+    groupId: schedule.groupId,
+    groupName: schedule.group?.name || null,
+    name: schedule.name,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    executionMode: schedule.executionMode,
+    streamingMode: schedule.streamingMode,
+    headless: schedule.headless,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.enabled ? nextRunTimes(schedule.cron, schedule.timezone, 1)[0].toISOString() : null,
+    lastRunAt: schedule.lastRunAt?.toISOString() || null,
+    lastSuiteRun: lastSuiteRun
+      ? { id: lastSuiteRun.id, status: lastSuiteRun.status, createdAt: lastSuiteRun.createdAt.toISOString() }
+      : null,
+    createdAt: schedule.createdAt.toISOString(),
+  };
+}
+
+export async function schedulesRoutes(fastify: FastifyInstance) {
+  // List a project's schedules
+  fastify.get<{ Querystring: ListSchedulesQuery }>('/', {
+    schema: {
+      tags: ['schedules'],
+      summary: 'List a project\'s suite schedules',
+      querystring: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            schedules: { type: 'array', items: scheduleSchema },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: ListSchedulesQuery }>) => {
+    const schedules = await prisma.suiteSchedule.findMany({
+      where: { projectId: request.query.projectId, ...requestScope(request).projectChild },
+      include: scheduleInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { schedules: schedules.map(formatSchedule) };
+  });
+
+  // Next run times of an expression, for the schedule form
+  fastify.get<{ Querystring: PreviewQuery }>('/preview', {
+    schema: {
+      tags: ['schedules'],
+      summary: 'Validate a cron expression and list its next run times',
+      querystring: {
+        type: 'object',
+        required: ['cron'],
+        properties: {
+          cron: { type: 'string' },
+          timezone: { type: 'string', default: 'UTC' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: PreviewQuery }>) => {
+    const { cron, timezone = 'UTC' } = request.query;
+
+    const error = validateSchedule(cron, timezone);
+    if (error) {
+      return { valid: false, error, nextRuns: [] };
+    }
+
+    return {
+      valid: true,
+      nextRuns: nextRunTimes(cron, timezone).map((date) => date.toISOString()),
+    };
+  });
+
+  // Create a schedule and register its job scheduler
+  fastify.post<{ Body: CreateScheduleBody }>('/', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['schedules'],
+      summary: 'Schedule suite runs for a project or group',
+      body: {
+        type: 'object',
+        required: ['projectId', 'name', 'cron'],
+        properties: {
+          projectId: { type: 'string' },
+          groupId: { type: 'string' },
+          ...scheduleSettingsProperties,
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: CreateScheduleBody }>, reply: FastifyReply) => {
+    const {
+      projectId,
+      groupId,
+      name,
+      cron,
+      timezone = 'UTC',
+      executionMode = 'SPEC',
+      streamingMode = 'NONE',
+      headless = true,
+    } = request.body;
+
+    const error = validateSchedule(cron, timezone);
+    if (error) {
+      return reply.status(400).send({ error });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId, ...requestScope(request).project },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply.status(404).send({ error: 'Project not found' });
+    }
+
+    if (groupId) {
+      const group = await prisma.testGroup.findUnique({ where: { id: groupId } });
+      if (!group || group.projectId !== projectId) {
+        return reply.status(404).send({ error: 'Group not found' });
+      }
+    }
+
+    const schedule = await prisma.suiteSchedule.create({
+      data: {
+        projectId,
+        groupId: groupId || null,
+        name,
+        cron: cron.trim(),
+        timezone,
+        executionMode,
+        streamingMode,
+        headless,
+      },
+      include: scheduleInclude,
+    });
+
+    const registered = await scheduleService.sync(schedule);
+
+    return reply.status(201).send({ ...formatSchedule(schedule), registered });
+  });
+
+  // Change a schedule's scope, timing or run settings
+  fastify.put<{ Params: ScheduleParams; Body: UpdateScheduleBody }>('/:id', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['schedules'],
+      summary: 'Update a suite schedule',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          groupId: { type: ['string', 'null'] },
+          ...scheduleSettingsProperties,
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: ScheduleParams; Body: UpdateScheduleBody }>, reply: FastifyReply) => {
+    const { id } = request.params;
+    const { groupId, name, cron, timezone, executionMode, streamingMode, headless } = request.body;
+
+    const existing = await prisma.suiteSchedule.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Schedule not found' });
+    }
+
+    const error = validateSchedule(cron ?? existing.cron, timezone ?? existing.timezone);
+    if (error) {
+      return reply.status(400).send({ error });
+    }
+
+    if (groupId) {
+      const group = await prisma.testGroup.findUnique({ where: { id: groupId } });
+      if (!group || group.projectId !== existing.projectId) {
+        return reply.status(404).send({ error: 'Group not found' });
+      }
+    }
+
+    const schedule = await prisma.suiteSchedule.update({
+      where: { id },
+      data: {
+        ...(groupId !== undefined && { groupId: groupId || null }),
+        ...(name !== undefined && { name }),
+        ...(cron !== undefined && { cron: cron.trim() }),
+        ...(timezone !== undefined && { timezone }),
+        ...(executionMode !== undefined && { executionMode }),
+        ...(streamingMode !== undefined && { streamingMode }),
+        ...(headless !== undefined && { headless }),
+      },
+      include: scheduleInclude,
+    });
+
+    const registered = await scheduleService.sync(schedule);
+
+    return { ...formatSchedule(schedule), registered };
+  });
+
+  // Pause: keep the schedule but stop firing it
+  fastify.post<{ Params: ScheduleParams }>('/:id/pause', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['schedules'],
+      summary: 'Pause a suite schedule',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: ScheduleParams }>, reply: FastifyReply) => {
+    return setEnabled(request.params.id, false, requestScope(request), reply);
+  });
+
+  // Resume a paused schedule from its next cron tick
+  fastify.post<{ Params: ScheduleParams }>('/:id/resume', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['schedules'],
+      summary: 'Resume a paused suite schedule',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: ScheduleParams }>, reply: FastifyReply) => {
+    return setEnabled(request.params.id, true, requestScope(request), reply);
+  });
+
+  // Delete a schedule; its suite runs are kept
+  fastify.delete<{ Params: ScheduleParams }>('/:id', {
+    config: { permission: 'execute' },
+    schema: {
+      tags: ['schedules'],
+      summary: 'Delete a suite schedule',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: ScheduleParams }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    const existing = await prisma.suiteSchedule.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Schedule not found' });
+    }
+
+    await prisma.suiteSchedule.delete({ where: { id } });
+    await scheduleService.remove(id);
+
+    return { success: true };
+  });
+}
+
+async function setEnabled(id: string, enabled: boolean, scope: OrgScope, reply: FastifyReply) {
+  const existing = await prisma.suiteSchedule.findUnique({ where: { id, ...scope.projectChild } });
+  if (!existing) {
+    return reply.status(404).send({ error: 'Schedule not found' });
+  }
+
+  const schedule = await prisma.suiteSchedule.update({
+    where: { id },
+    data: { enabled },
+    include: scheduleInclude,
+  });
+
+  const registered = await scheduleService.sync(schedule);
+
+  return { ...formatSchedule(schedule), registered };
+}
@@ -0,0 +1,275 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { requestScope } from '../services/tenancy.js';
+import { RecordingSchema, buildSnippetSignature } from '@web3-test/translator';
+import { rolloutSnippet } from '../services/snippets.js';
+
+// Request/Response types
+interface CreateSnippetBody {
+  projectId: string;
+  name: string;
+  description?: string;
+  code: string;
+  // Either explicit step signatures or a step range of a recording to derive them from
+  steps?: string[];
+  recordingId?: string;
+  startIndex?: number;
+  endIndex?: number;
+}
+
+interface UpdateSnippetBody {
+  description?: string;
+  code?: string;
+  steps?: string[];
+}
+
+interface SnippetParams {
+  id: string;
+}
+
+interface ListSnippetsQuery {
+  projectId: string;
+}
+
+const snippetSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    projectId: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    version: { type: 'number' },
+    steps: { type: 'array', items: { type: 'string' } },
+    code: { type: 'string' },
+    specCount: { type: 'number' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+function formatSnippet(snippet: {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  version: number;
+  steps: string[];
+  code: string;
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: { specs: number };
+}) {
+  return {
+    ...snippet,
+    _count: undefined,
+    specCount: snippet._count?.specs ?? 0,
+    createdAt: snippet.createdAt.toISOString(),
+    updatedAt: snippet.updatedAt.toISOString(),
+  };
+}
+
+export async function snippetsRoutes(fastify: FastifyInstance) {
+  // Create a snippet
+  fastify.post<{ Body: CreateSnippetBody }>('/', {
+    schema: {
+      tags: ['snippets'],
+      summary: 'Create a named step snippet shared by a project\'s specs',
+      body: {
+        type: 'object',
+        required: ['projectId', 'name', 'code'],
+        properties: {
+          projectId: { type: 'string' },
+          name: { type: 'string', minLength: 1, pattern: '^[^"]+$' },
+          description: { type: 'string' },
+          code: { type: 'string', minLength: 1, description: 'Test body statements, unindented' },
+          steps: { type: 'array', items: { type: 'string' }, description: 'Step signatures to match (e.g. click:trade-button)' },
+          recordingId: { type: 'string', description: 'Recording to take the step signatures from' },
+          startIndex: { type: 'number', minimum: 0 },
+          endIndex: { type: 'number', minimum: 0 },
+        },
+      },
+      response: {
+        201: snippetSchema,
+        400: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            details: { type: 'string' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+        409: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: CreateSnippetBody }>, reply: FastifyReply) => {
+    const { projectId, name, description, code, recordingId, startIndex, endIndex } = request.body;
+
+    const scope = requestScope(request);
+    const project = await prisma.project.findUnique({ where: { id: projectId, ...scope.project } });
+    if (!project) {
+      return reply.status(404).send({ error: 'Project not found' });
+    }
+
+    let steps = request.body.steps;
+    if (!steps) {
+      if (!recordingId || startIndex === undefined || endIndex === undefined) {
+        return reply.status(400).send({ error: 'Provide steps, or recordingId with startIndex and endIndex' });
+      }
+      const recording = await prisma.recording.findUnique({ where: { id: recordingId, ...scope.recording } });
+      if (!recording) {
+        return reply.status(404).send({ error: 'Recording not found' });
+      }
+      const parseResult = RecordingSchema.safeParse(recording.jsonData);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Recording data is corrupted',
+          details: parseResult.error.message,
+        });
+      }
+      steps = buildSnippetSignature(parseResult.data.steps.slice(startIndex, endIndex + 1));
+    }
+
+    if (steps.length === 0) {
+      return reply.status(400).send({ error: 'Snippet matches no steps (read-only RPC calls and scrolls are not matched)' });
+    }
+
+    const existing = await prisma.stepSnippet.findUnique({ where: { projectId_name: { projectId, name } } });
+    if (existing) {
+      return reply.status(409).send({ error: `Snippet "${name}" already exists in this project` });
+    }
+
+    const snippet = await prisma.stepSnippet.create({
+      data: { projectId, name, description: description || null, code: code.trim(), steps },
+    });
+
+    return reply.status(201).send(formatSnippet(snippet));
+  });
+
+  // List a project's snippets
+  fastify.get<{ Querystring: ListSnippetsQuery }>('/', {
+    schema: {
+      tags: ['snippets'],
+      summary: 'List a project\'s step snippets',
+      querystring: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            snippets: { type: 'array', items: snippetSchema },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: ListSnippetsQuery }>) => {
+    const snippets = await prisma.stepSnippet.findMany({
+      where: { projectId: request.query.projectId, ...requestScope(request).projectChild },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { specs: true } } },
+    });
+
+    return { snippets: snippets.map(formatSnippet) };
+  });
+
+  // Update a snippet and roll the new version out to every spec that uses it
+  fastify.put<{ Params: SnippetParams; Body: UpdateSnippetBody }>('/:id', {
+    schema: {
+      tags: ['snippets'],
+      summary: 'Update a snippet; code changes bump its version and rewrite dependent specs',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          code: { type: 'string', minLength: 1 },
+          steps: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            snippet: snippetSchema,
+            updatedSpecIds: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: SnippetParams; Body: UpdateSnippetBody }>, reply: FastifyReply) => {
+    const { id } = request.params;
+    const { description, code, steps } = request.body;
+
+    const existing = await prisma.stepSnippet.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Snippet not found' });
+    }
+
+    const codeChanged = code !== undefined && code.trim() !== existing.code;
+    const snippet = await prisma.stepSnippet.update({
+      where: { id },
+      data: {
+        ...(description !== undefined && { description }),
+        ...(steps !== undefined && { steps }),
+        ...(codeChanged && { code: code!.trim(), version: existing.version + 1 }),
+      },
+      include: { _count: { select: { specs: true } } },
+    });
+
+    const updatedSpecIds = codeChanged ? await rolloutSnippet(id) : [];
+
+    return { snippet: formatSnippet(snippet), updatedSpecIds };
+  });
+
+  // Delete a snippet (specs keep its code, no longer linked)
+  fastify.delete<{ Params: SnippetParams }>('/:id', {
+    schema: {
+      tags: ['snippets'],
+      summary: 'Delete a snippet (specs that use it keep the code)',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: SnippetParams }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    const existing = await prisma.stepSnippet.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Snippet not found' });
+    }
+
+    await prisma.stepSnippet.delete({ where: { id } });
+
+    return { success: true };
+  });
+}
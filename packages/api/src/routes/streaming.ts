@@ -3,6 +3,7 @@ import { WebSocket as WS } from 'ws';
 import { prisma } from '../db.js';
 import { containerService } from '../services/container.js';
 import { executionService } from '../services/execution.js';
+import { requestScope } from '../services/tenancy.js';
 
 interface StartStreamParams {
   id: string;
@@ -15,6 +16,7 @@ interface StartStreamBody {
 export async function streamingRoutes(fastify: FastifyInstance) {
   // Start a test run with live VNC streaming
   fastify.post<{ Body: StartStreamBody }>('/stream/start', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['streaming'],
       summary: 'Start a test run with live VNC streaming',
@@ -55,7 +57,7 @@ export async function streamingRoutes(fastify: FastifyInstance) {
 
     // Check test spec exists
     const testSpec = await prisma.testSpec.findUnique({
-      where: { id: testSpecId },
+      where: { id: testSpecId, ...requestScope(request).testSpec },
     });
 
     if (!testSpec) {
@@ -137,7 +139,7 @@ export async function streamingRoutes(fastify: FastifyInstance) {
 
     // Get run info
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
     });
 
     if (!run) {
@@ -217,6 +219,7 @@ export async function streamingRoutes(fastify: FastifyInstance) {
 
   // Stop a streaming run
   fastify.post<{ Params: StartStreamParams }>('/runs/:id/stop', {
+    config: { permission: 'execute' },
     schema: {
       tags: ['streaming'],
       summary: 'Stop a streaming test run and its container',
@@ -247,7 +250,7 @@ export async function streamingRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const run = await prisma.testRun.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testRun },
     });
 
     if (!run) {
@@ -1,16 +1,31 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../db.js';
-import { translationService } from '../services/translation.js';
+import { translationService, getProjectLLMOptions, PROJECT_LLM_SELECT } from '../services/translation.js';
+import { getProjectSnippets, connectSnippets } from '../services/snippets.js';
+import { getProjectKnowledge } from '../services/knowledge.js';
+import { requestScope } from '../services/tenancy.js';
+import { buildSpecExport, zipSpecExport, type ExportFormat } from '@web3-test/translator';
 
 // Request/Response types
 interface GenerateTestBody {
   recordingId: string;
+  offline?: boolean;
+}
+
+interface GenerateSegmentsBody {
+  recordingId: string;
+  offline?: boolean;
+  minSteps?: number;
 }
 
 interface GetTestParams {
   id: string;
 }
 
+interface ExportTestQuery {
+  format?: ExportFormat;
+}
+
 interface UpdateTestBody {
   code?: string;
   status?: 'DRAFT' | 'NEEDS_REVIEW' | 'READY' | 'TESTED';
@@ -23,6 +38,44 @@ interface ListTestsQuery {
   status?: string;
 }
 
+interface SpecMatrix {
+  matrixId: string;
+  createdAt: string;
+  runs: Array<{ id: string; datasetName: string | null; status: string; passed: boolean | null; durationMs: number | null }>;
+}
+
+/**
+ * Most recent dataset matrix per spec, with its runs in dataset order
+ */
+async function getLatestMatrices(testSpecIds: string[]): Promise<Map<string, SpecMatrix>> {
+  const matrices = new Map<string, SpecMatrix>();
+  if (testSpecIds.length === 0) {
+    return matrices;
+  }
+
+  const latest = await prisma.testRun.findMany({
+    where: { testSpecId: { in: testSpecIds }, matrixId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['testSpecId'],
+    select: { testSpecId: true, matrixId: true, createdAt: true },
+  });
+
+  const runs = await prisma.testRun.findMany({
+    where: { matrixId: { in: latest.map((r) => r.matrixId!) } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, matrixId: true, datasetName: true, status: true, passed: true, durationMs: true },
+  });
+
+  for (const r of latest) {
+    matrices.set(r.testSpecId, {
+      matrixId: r.matrixId!,
+      createdAt: r.createdAt.toISOString(),
+      runs: runs.filter((run) => run.matrixId === r.matrixId).map(({ matrixId: _, ...run }) => run),
+    });
+  }
+  return matrices;
+}
+
 export async function testsRoutes(fastify: FastifyInstance) {
   // Generate a test spec from a recording
   fastify.post<{ Body: GenerateTestBody }>('/generate', {
@@ -34,6 +87,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
         required: ['recordingId'],
         properties: {
           recordingId: { type: 'string', description: 'ID of the recording to generate from' },
+          offline: { type: 'boolean', description: 'Generate deterministically from templates without calling Claude' },
         },
       },
       response: {
@@ -76,11 +130,12 @@ export async function testsRoutes(fastify: FastifyInstance) {
       },
     },
   }, async (request: FastifyRequest<{ Body: GenerateTestBody }>, reply: FastifyReply) => {
-    const { recordingId } = request.body;
+    const { recordingId, offline } = request.body;
 
     // Check recording exists
     const recording = await prisma.recording.findUnique({
-      where: { id: recordingId },
+      where: { id: recordingId, ...requestScope(request).recording },
+      include: { project: { select: PROJECT_LLM_SELECT } },
     });
 
     if (!recording) {
@@ -88,7 +143,14 @@ export async function testsRoutes(fastify: FastifyInstance) {
     }
 
     // Generate test spec
-    const result = await translationService.generateSpec(recording);
+    const snippets = await getProjectSnippets(recording.projectId);
+    const learnedKnowledge = await getProjectKnowledge(recording.projectId);
+    const result = await translationService.generateSpec(recording, {
+      offline,
+      llm: getProjectLLMOptions(recording.project),
+      snippets,
+      learnedKnowledge,
+    });
 
     if (!result.success) {
       return reply.status(400).send({
@@ -105,6 +167,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
         status: result.clarifications && result.clarifications.length > 0 ? 'NEEDS_REVIEW' : 'READY',
         patterns: result.patterns || [],
         warnings: result.warnings || [],
+        snippets: connectSnippets(result.code!, snippets),
       },
     });
 
@@ -142,6 +205,136 @@ export async function testsRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // Split a recording into segments and generate a linked spec for each
+  fastify.post<{ Body: GenerateSegmentsBody }>('/generate-segments', {
+    schema: {
+      tags: ['tests'],
+      summary: 'Split a long recording into independent segment specs (connect, approve, deposit, ...)',
+      body: {
+        type: 'object',
+        required: ['recordingId'],
+        properties: {
+          recordingId: { type: 'string', description: 'ID of the recording to split' },
+          offline: { type: 'boolean', description: 'Generate deterministically from templates without calling Claude' },
+          minSteps: { type: 'number', minimum: 1, description: 'Fold shorter segments without a wallet action into a neighbour (default: 3)' },
+        },
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            recordingId: { type: 'string' },
+            segments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  segmentKey: { type: 'string' },
+                  segmentIndex: { type: 'number' },
+                  startIndex: { type: 'number' },
+                  endIndex: { type: 'number' },
+                  preconditions: { type: 'array' },
+                  testSpecId: { type: 'string', nullable: true },
+                  dependsOnId: { type: 'string', nullable: true },
+                  status: { type: 'string', nullable: true },
+                  warnings: { type: 'array', items: { type: 'string' } },
+                  errors: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            details: { type: 'string' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: GenerateSegmentsBody }>, reply: FastifyReply) => {
+    const { recordingId, offline, minSteps } = request.body;
+
+    const recording = await prisma.recording.findUnique({
+      where: { id: recordingId, ...requestScope(request).recording },
+      include: { project: { select: PROJECT_LLM_SELECT } },
+    });
+
+    if (!recording) {
+      return reply.status(404).send({ error: 'Recording not found' });
+    }
+
+    const snippets = await getProjectSnippets(recording.projectId);
+    const learnedKnowledge = await getProjectKnowledge(recording.projectId);
+    const result = await translationService.generateSegmentSpecs(recording, {
+      offline,
+      minSteps,
+      llm: getProjectLLMOptions(recording.project),
+      snippets,
+      learnedKnowledge,
+    });
+
+    if (!result.success) {
+      return reply.status(400).send({
+        error: 'Failed to split recording',
+        details: result.errors?.join('; ') || 'Unknown error',
+      });
+    }
+
+    // Save in order so dependencies point at specs created before them. A segment that
+    // failed to generate is reported and leaves its dependents unlinked.
+    const specIds = new Map<string, string>();
+    const segments = [];
+    for (const [index, { segment, success, code, warnings, errors }] of result.segments!.entries()) {
+      const dependency = segment.preconditions.find((p) => p.type === 'segment');
+      const dependsOnId = dependency?.type === 'segment' ? specIds.get(dependency.segmentId) ?? null : null;
+
+      let testSpec: { id: string; status: string } | null = null;
+      if (success && code) {
+        const created = await prisma.testSpec.create({
+          data: {
+            recordingId,
+            code,
+            status: 'READY',
+            patterns: segment.patterns,
+            warnings: warnings || [],
+            segmentKey: segment.id,
+            segmentIndex: index,
+            segmentStart: segment.startIndex,
+            segmentEnd: segment.endIndex,
+            preconditions: segment.preconditions,
+            dependsOnId,
+            snippets: connectSnippets(code, snippets),
+          },
+        });
+        testSpec = { id: created.id, status: created.status };
+        specIds.set(segment.id, created.id);
+      }
+
+      segments.push({
+        segmentKey: segment.id,
+        segmentIndex: index,
+        startIndex: segment.startIndex,
+        endIndex: segment.endIndex,
+        preconditions: segment.preconditions,
+        testSpecId: testSpec?.id ?? null,
+        dependsOnId,
+        status: testSpec?.status ?? null,
+        warnings: warnings || [],
+        errors: errors || [],
+      });
+    }
+
+    return reply.status(201).send({ recordingId, segments });
+  });
+
   // Get a test spec by ID
   fastify.get<{ Params: GetTestParams }>('/:id', {
     schema: {
@@ -165,6 +358,12 @@ export async function testsRoutes(fastify: FastifyInstance) {
             status: { type: 'string' },
             patterns: { type: 'array' },
             warnings: { type: 'array', items: { type: 'string' } },
+            datasets: { type: 'array', items: { type: 'string' }, description: 'Names of the recording\'s datasets' },
+            segmentKey: { type: 'string', nullable: true },
+            segmentStart: { type: 'number', nullable: true },
+            segmentEnd: { type: 'number', nullable: true },
+            preconditions: { type: 'array', nullable: true },
+            dependsOnId: { type: 'string', nullable: true },
             createdAt: { type: 'string' },
             updatedAt: { type: 'string' },
           },
@@ -181,10 +380,10 @@ export async function testsRoutes(fastify: FastifyInstance) {
     const { id } = request.params;
 
     const testSpec = await prisma.testSpec.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testSpec },
       include: {
         recording: {
-          select: { name: true },
+          select: { name: true, jsonData: true },
         },
       },
     });
@@ -193,6 +392,8 @@ export async function testsRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'Test spec not found' });
     }
 
+    const datasets = (testSpec.recording?.jsonData as { datasets?: Array<{ name: string }> } | null)?.datasets || [];
+
     return {
       id: testSpec.id,
       recordingId: testSpec.recordingId,
@@ -202,11 +403,62 @@ export async function testsRoutes(fastify: FastifyInstance) {
       status: testSpec.status,
       patterns: testSpec.patterns,
       warnings: testSpec.warnings,
+      datasets: datasets.map((d) => d.name),
+      segmentKey: testSpec.segmentKey,
+      segmentStart: testSpec.segmentStart,
+      segmentEnd: testSpec.segmentEnd,
+      preconditions: testSpec.preconditions,
+      dependsOnId: testSpec.dependsOnId,
       createdAt: testSpec.createdAt.toISOString(),
       updatedAt: testSpec.updatedAt.toISOString(),
     };
   });
 
+  // Download a test spec as a standalone Playwright project
+  fastify.get<{ Params: GetTestParams; Querystring: ExportTestQuery }>('/:id/export', {
+    schema: {
+      tags: ['tests'],
+      summary: 'Export a test spec as a zipped Playwright project (dappwright or Synpress)',
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: ['dappwright', 'synpress'], default: 'dappwright' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: GetTestParams; Querystring: ExportTestQuery }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    const testSpec = await prisma.testSpec.findUnique({
+      where: { id, ...requestScope(request).testSpec },
+      select: { code: true },
+    });
+
+    if (!testSpec) {
+      return reply.status(404).send({ error: 'Test spec not found' });
+    }
+
+    try {
+      const exported = buildSpecExport(testSpec.code, { format: request.query.format });
+      const zip = zipSpecExport(exported);
+
+      reply.header('Content-Type', 'application/zip');
+      reply.header('Content-Disposition', `attachment; filename="${exported.name}-${exported.format}.zip"`);
+      reply.header('Content-Length', zip.length);
+      return reply.send(zip);
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Spec export failed');
+      return reply.status(500).send({ error: error instanceof Error ? error.message : 'Export failed' });
+    }
+  });
+
   // Update a test spec (manual edits)
   fastify.put<{ Params: GetTestParams; Body: UpdateTestBody }>('/:id', {
     schema: {
@@ -254,7 +506,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
 
     // Check exists
     const existing = await prisma.testSpec.findUnique({
-      where: { id },
+      where: { id, ...requestScope(request).testSpec },
     });
 
     if (!existing) {
@@ -309,6 +561,31 @@ export async function testsRoutes(fastify: FastifyInstance) {
                   status: { type: 'string' },
                   createdAt: { type: 'string' },
                   updatedAt: { type: 'string' },
+                  segmentKey: { type: 'string', nullable: true },
+                  segmentIndex: { type: 'number', nullable: true },
+                  dependsOnId: { type: 'string', nullable: true },
+                  latestMatrix: {
+                    type: 'object',
+                    nullable: true,
+                    description: 'Runs of the most recent dataset matrix',
+                    properties: {
+                      matrixId: { type: 'string' },
+                      createdAt: { type: 'string' },
+                      runs: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            datasetName: { type: 'string' },
+                            status: { type: 'string' },
+                            passed: { type: 'boolean', nullable: true },
+                            durationMs: { type: 'number', nullable: true },
+                          },
+                        },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -322,7 +599,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Querystring: ListTestsQuery }>) => {
     const { limit = 20, offset = 0, recordingId, status } = request.query;
 
-    const where: Record<string, unknown> = {};
+    const where: Record<string, unknown> = { ...requestScope(request).testSpec };
     if (recordingId) where.recordingId = recordingId;
     if (status) where.status = status;
 
@@ -340,6 +617,9 @@ export async function testsRoutes(fastify: FastifyInstance) {
           status: true,
           createdAt: true,
           updatedAt: true,
+          segmentKey: true,
+          segmentIndex: true,
+          dependsOnId: true,
           recording: {
             select: { name: true },
           },
@@ -348,11 +628,14 @@ export async function testsRoutes(fastify: FastifyInstance) {
       prisma.testSpec.count({ where }),
     ]);
 
+    const latestMatrices = await getLatestMatrices(tests.map((t) => t.id));
+
     return {
       tests: tests.map((t) => ({
         ...t,
         recordingName: t.recording?.name || null,
         recording: undefined,
+        latestMatrix: latestMatrices.get(t.id) || null,
         createdAt: t.createdAt.toISOString(),
         updatedAt: t.updatedAt.toISOString(),
       })),
@@ -392,7 +675,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
 
     try {
       await prisma.testSpec.delete({
-        where: { id },
+        where: { id, ...requestScope(request).testSpec },
       });
       return { success: true };
     } catch {
@@ -402,6 +685,7 @@ export async function testsRoutes(fastify: FastifyInstance) {
 
   // Delete ALL test specs
   fastify.delete('/all/specs', {
+    config: { permission: 'admin' },
     schema: {
       tags: ['tests'],
       summary: 'Delete all test specs and associated runs',
@@ -415,9 +699,9 @@ export async function testsRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const result = await prisma.testSpec.deleteMany({});
+      const result = await prisma.testSpec.deleteMany({ where: requestScope(request).testSpec });
       return reply.send({
         deleted: result.count,
         message: `Deleted ${result.count} test specs and all associated runs`,
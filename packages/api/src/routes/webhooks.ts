@@ -0,0 +1,321 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { checkWebhookUrl } from '@web3-test/translator';
+import { prisma } from '../db.js';
+import { WEBHOOK_EVENTS, webhookService, type WebhookEvent } from '../services/webhooks.js';
+import { requestScope } from '../services/tenancy.js';
+
+// Request/Response types
+interface CreateWebhookBody {
+  projectId: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}
+
+interface UpdateWebhookBody {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEvent[];
+  enabled?: boolean;
+}
+
+interface WebhookParams {
+  id: string;
+}
+
+interface ListWebhooksQuery {
+  projectId: string;
+}
+
+interface ListDeliveriesQuery {
+  limit?: number;
+  offset?: number;
+}
+
+const webhookSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    projectId: { type: 'string' },
+    url: { type: 'string' },
+    description: { type: 'string', nullable: true },
+    events: { type: 'array', items: { type: 'string' } },
+    enabled: { type: 'boolean' },
+    secretPrefix: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const eventsSchema = {
+  type: 'array',
+  items: { type: 'string', enum: WEBHOOK_EVENTS },
+  minItems: 1,
+  uniqueItems: true,
+};
+
+// "whsec_" and four hex characters: enough to tell secrets apart, too short to help guess one
+const SECRET_PREFIX_LENGTH = 10;
+
+function formatWebhook(webhook: {
+  id: string;
+  projectId: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  secret: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: webhook.id,
+    projectId: webhook.projectId,
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events,
+    enabled: webhook.enabled,
+    secretPrefix: webhook.secret.slice(0, SECRET_PREFIX_LENGTH),
+    createdAt: webhook.createdAt.toISOString(),
+    updatedAt: webhook.updatedAt.toISOString(),
+  };
+}
+
+function formatDelivery(delivery: {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    ...delivery,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() || null,
+    deliveredAt: delivery.deliveredAt?.toISOString() || null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+export async function webhooksRoutes(fastify: FastifyInstance) {
+  // List a project's webhooks
+  fastify.get<{ Querystring: ListWebhooksQuery }>('/', {
+    schema: {
+      tags: ['webhooks'],
+      summary: 'List a project\'s webhook subscriptions',
+      querystring: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            webhooks: { type: 'array', items: webhookSchema },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: ListWebhooksQuery }>) => {
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId: request.query.projectId, ...requestScope(request).projectChild },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { webhooks: webhooks.map(formatWebhook) };
+  });
+
+  // Subscribe a URL to project events
+  fastify.post<{ Body: CreateWebhookBody }>('/', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['webhooks'],
+      summary: 'Create a webhook (the signing secret is only returned here)',
+      body: {
+        type: 'object',
+        required: ['projectId', 'url', 'events'],
+        properties: {
+          projectId: { type: 'string' },
+          url: { type: 'string' },
+          description: { type: 'string' },
+          events: eventsSchema,
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: CreateWebhookBody }>, reply: FastifyReply) => {
+    const { projectId, url, description, events } = request.body;
+
+    const urlError = await checkWebhookUrl(url);
+    if (urlError) {
+      return reply.status(400).send({ error: urlError });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId, ...requestScope(request).project },
+      select: { id: true },
+    });
+    if (!project) {
+      return reply.status(404).send({ error: 'Project not found' });
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        projectId,
+        url,
+        description: description || null,
+        events,
+        secret: webhookService.generateSecret(),
+      },
+    });
+
+    return reply.status(201).send({ ...formatWebhook(webhook), secret: webhook.secret });
+  });
+
+  // Change a webhook's URL, events or enabled state
+  fastify.put<{ Params: WebhookParams; Body: UpdateWebhookBody }>('/:id', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['webhooks'],
+      summary: 'Update a webhook',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          description: { type: ['string', 'null'] },
+          events: eventsSchema,
+          enabled: { type: 'boolean' },
+        },
+      },
+      response: { 200: webhookSchema },
+    },
+  }, async (request: FastifyRequest<{ Params: WebhookParams; Body: UpdateWebhookBody }>, reply: FastifyReply) => {
+    const { id } = request.params;
+    const { url, description, events, enabled } = request.body;
+
+    const urlError = url !== undefined ? await checkWebhookUrl(url) : null;
+    if (urlError) {
+      return reply.status(400).send({ error: urlError });
+    }
+
+    const existing = await prisma.webhook.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(description !== undefined && { description: description || null }),
+        ...(events !== undefined && { events }),
+        ...(enabled !== undefined && { enabled }),
+      },
+    });
+
+    return formatWebhook(webhook);
+  });
+
+  // Delete a webhook and its delivery log
+  fastify.delete<{ Params: WebhookParams }>('/:id', {
+    config: { permission: 'admin' },
+    schema: {
+      tags: ['webhooks'],
+      summary: 'Delete a webhook',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    const existing = await prisma.webhook.findUnique({
+      where: { id, ...requestScope(request).projectChild },
+    });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhook.delete({ where: { id } });
+
+    return { success: true };
+  });
+
+  // Send a webhook.test event
+  fastify.post<{ Params: WebhookParams }>('/:id/test', {
+    schema: {
+      tags: ['webhooks'],
+      summary: 'Queue a signed webhook.test delivery',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: request.params.id, ...requestScope(request).projectChild },
+    });
+    if (!webhook) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    return webhookService.sendTestEvent(webhook);
+  });
+
+  // Delivery log, newest first
+  fastify.get<{ Params: WebhookParams; Querystring: ListDeliveriesQuery }>('/:id/deliveries', {
+    schema: {
+      tags: ['webhooks'],
+      summary: 'List a webhook\'s deliveries',
+      params: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', default: 20 },
+          offset: { type: 'number', default: 0 },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: WebhookParams; Querystring: ListDeliveriesQuery }>) => {
+    const { id } = request.params;
+    const { limit = 20, offset = 0 } = request.query;
+    const where = { webhookId: id, webhook: requestScope(request).projectChild };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        take: limit,
+        skip: offset,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map(formatDelivery),
+      total,
+      limit,
+      offset,
+    };
+  });
+}
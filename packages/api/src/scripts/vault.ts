@@ -0,0 +1,64 @@
+import { prisma } from '../db.js';
+import { generateMasterKey, masterKeyId, prependKeyFile, vaultService } from '../services/vault.js';
+
+const USAGE = `Usage: vault <command>
+
+Commands:
+  generate-key [--file <path>]  Print a new master key, or add it to a key file as the active key
+  status                        Count seed phrases per master key and any still in plaintext
+  migrate                       Encrypt seed phrases stored in plaintext
+  rotate                        Re-wrap every data key under the active master key`;
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'generate-key': {
+      const key = generateMasterKey();
+      const fileIndex = args.indexOf('--file');
+      if (fileIndex === -1) {
+        console.log(key);
+        return;
+      }
+      const path = args[fileIndex + 1];
+      if (!path) throw new Error('--file needs a path');
+      prependKeyFile(path, key);
+      console.log(`Added key ${masterKeyId(Buffer.from(key, 'base64'))} to ${path} as the active key`);
+      console.log('Run `vault rotate` to move existing seed phrases under it');
+      return;
+    }
+
+    case 'status': {
+      const { activeKeyId, byKeyId, plaintext } = await vaultService.status();
+      console.log(`Active key: ${activeKeyId}`);
+      for (const [keyId, count] of Object.entries(byKeyId)) {
+        console.log(`  ${keyId}: ${count}${keyId === activeKeyId ? ' (active)' : ''}`);
+      }
+      console.log(`Plaintext: ${plaintext}${plaintext > 0 ? ' (run `vault migrate`)' : ''}`);
+      return;
+    }
+
+    case 'migrate': {
+      const count = await vaultService.migratePlaintext();
+      console.log(`Encrypted ${count} plaintext seed phrase(s)`);
+      return;
+    }
+
+    case 'rotate': {
+      const count = await vaultService.rotate();
+      console.log(`Re-wrapped ${count} seed phrase(s) under the active key; older keys can now be removed`);
+      return;
+    }
+
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -6,6 +6,8 @@ import swaggerUi from '@fastify/swagger-ui';
 import multipart from '@fastify/multipart';
 import websocket from '@fastify/websocket';
 
+import authPlugin from './plugins/auth.js';
+
 import { recordingsRoutes } from './routes/recordings.js';
 import { testsRoutes } from './routes/tests.js';
 import { runsRoutes } from './routes/runs.js';
@@ -13,9 +15,14 @@ import { clarificationsRoutes } from './routes/clarifications.js';
 import { healthRoutes } from './routes/health.js';
 import { streamingRoutes } from './routes/streaming.js';
 import { apiKeysRoutes } from './routes/apikeys.js';
+import { authRoutes, organizationRoutes } from './routes/auth.js';
 import { artifactsRoutes } from './routes/artifacts.js';
 import { projectsRoutes, suiteRunsRoutes, groupsRoutes } from './routes/projects.js';
+import { snippetsRoutes } from './routes/snippets.js';
+import { knowledgeRoutes } from './routes/knowledge.js';
 import { analysisRoutes } from './routes/analysis.js';
+import { webhooksRoutes } from './routes/webhooks.js';
+import { schedulesRoutes } from './routes/schedules.js';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const HOST = process.env.HOST || '0.0.0.0';
@@ -76,6 +83,11 @@ async function buildServer() {
         { name: 'runs', description: 'Test execution and results' },
         { name: 'clarifications', description: 'Clarification Q&A' },
         { name: 'health', description: 'Health checks' },
+        { name: 'auth', description: 'Sign-in, sessions and organisation members' },
+        { name: 'snippets', description: 'Step snippets shared by a project\'s specs' },
+        { name: 'knowledge', description: 'Fixes learned from a project\'s passing runs' },
+        { name: 'webhooks', description: 'Signed run, suite and self-heal events for project subscribers' },
+        { name: 'schedules', description: 'Cron-triggered suite runs for a project or group' },
       ],
     },
   });
@@ -88,8 +100,13 @@ async function buildServer() {
     },
   });
 
+  // Sessions and API keys, checked on every /api route
+  await fastify.register(authPlugin);
+
   // Register routes
   await fastify.register(healthRoutes, { prefix: '/api' });
+  await fastify.register(authRoutes, { prefix: '/api/auth' });
+  await fastify.register(organizationRoutes, { prefix: '/api/organizations' });
   await fastify.register(recordingsRoutes, { prefix: '/api/recordings' });
   await fastify.register(testsRoutes, { prefix: '/api/tests' });
   await fastify.register(runsRoutes, { prefix: '/api/runs' });
@@ -100,7 +117,11 @@ async function buildServer() {
   await fastify.register(projectsRoutes, { prefix: '/api/projects' });
   await fastify.register(suiteRunsRoutes, { prefix: '/api/suite-runs' });
   await fastify.register(groupsRoutes, { prefix: '/api/groups' });
+  await fastify.register(snippetsRoutes, { prefix: '/api/snippets' });
+  await fastify.register(knowledgeRoutes, { prefix: '/api/knowledge' });
   await fastify.register(analysisRoutes, { prefix: '/api/analysis' });
+  await fastify.register(webhooksRoutes, { prefix: '/api/webhooks' });
+  await fastify.register(schedulesRoutes, { prefix: '/api/schedules' });
 
   return fastify;
 }
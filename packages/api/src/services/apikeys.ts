@@ -1,21 +1,24 @@
 import { createHash, randomBytes } from 'crypto';
 import { prisma } from '../db.js';
+import { PERMISSIONS, type Permission } from './auth.js';
 
 // Prefix for API keys
 const API_KEY_PREFIX = 'w3t_';
 
 /**
- * API Key service for managing extension authentication
+ * API Key service for the extension and CI. Keys belong to an organisation and carry
+ * their own permission set instead of a role.
  */
 class ApiKeyService {
   /**
    * Generate a new API key
    */
-  async createApiKey(name: string, expiresInDays?: number): Promise<{
+  async createApiKey(name: string, organizationId: string, permissions: Permission[], expiresInDays?: number): Promise<{
     id: string;
     name: string;
     key: string; // Full key (only returned once)
     keyPrefix: string;
+    permissions: Permission[];
     expiresAt: Date | null;
     createdAt: Date;
   }> {
@@ -38,6 +41,8 @@ class ApiKeyService {
         name,
         keyHash,
         keyPrefix,
+        organizationId,
+        permissions,
         expiresAt,
       },
     });
@@ -47,6 +52,7 @@ class ApiKeyService {
       name: apiKey.name,
       key: fullKey, // Only returned on creation
       keyPrefix: apiKey.keyPrefix,
+      permissions,
       expiresAt: apiKey.expiresAt,
       createdAt: apiKey.createdAt,
     };
@@ -59,6 +65,8 @@ class ApiKeyService {
     valid: boolean;
     keyId?: string;
     name?: string;
+    organizationId?: string;
+    permissions?: Permission[];
     error?: string;
   }> {
     // Check key format
@@ -83,6 +91,10 @@ class ApiKeyService {
       return { valid: false, error: 'API key has expired' };
     }
 
+    if (!apiKey.organizationId) {
+      return { valid: false, error: 'API key has no organisation; create a new key' };
+    }
+
     // Update last used timestamp
     await prisma.apiKey.update({
       where: { id: apiKey.id },
@@ -93,22 +105,26 @@ class ApiKeyService {
       valid: true,
       keyId: apiKey.id,
       name: apiKey.name,
+      organizationId: apiKey.organizationId,
+      permissions: (apiKey.permissions as string[]).filter((p): p is Permission => PERMISSIONS.includes(p as Permission)),
     };
   }
 
   /**
-   * List all API keys (without exposing the actual keys)
+   * List an organisation's API keys (without exposing the actual keys)
    */
-  async listApiKeys(): Promise<Array<{
+  async listApiKeys(organizationId: string): Promise<Array<{
     id: string;
     name: string;
     keyPrefix: string;
+    permissions: string[];
     lastUsedAt: Date | null;
     createdAt: Date;
     expiresAt: Date | null;
     isExpired: boolean;
   }>> {
     const keys = await prisma.apiKey.findMany({
+      where: { organizationId },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -116,6 +132,7 @@ class ApiKeyService {
       id: k.id,
       name: k.name,
       keyPrefix: k.keyPrefix,
+      permissions: k.permissions,
       lastUsedAt: k.lastUsedAt,
       createdAt: k.createdAt,
       expiresAt: k.expiresAt,
@@ -124,17 +141,13 @@ class ApiKeyService {
   }
 
   /**
-   * Delete an API key
+   * Delete one of an organisation's API keys
    */
-  async deleteApiKey(id: string): Promise<boolean> {
-    try {
-      await prisma.apiKey.delete({
-        where: { id },
-      });
-      return true;
-    } catch {
-      return false;
-    }
+  async deleteApiKey(id: string, organizationId: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.deleteMany({
+      where: { id, organizationId },
+    });
+    return count > 0;
   }
 
   /**
@@ -0,0 +1,231 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { prisma } from '../db.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Prefix for session tokens (API keys use w3t_)
+const SESSION_TOKEN_PREFIX = 'w3s_';
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '168', 10);
+
+export const SESSION_COOKIE = 'w3t_session';
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type Role = 'VIEWER' | 'EDITOR' | 'ADMIN';
+export const ROLES: Role[] = ['VIEWER', 'EDITOR', 'ADMIN'];
+
+/**
+ * What a request may do. Routes need `read` for GET and `write` for other methods
+ * unless they set `config.permission`: starting runs needs `execute`, key and member
+ * management and bulk deletes need `admin`.
+ */
+export type Permission = 'read' | 'write' | 'execute' | 'admin';
+export const PERMISSIONS: Permission[] = ['read', 'write', 'execute', 'admin'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  VIEWER: ['read'],
+  EDITOR: ['read', 'write', 'execute'],
+  ADMIN: ['read', 'write', 'execute', 'admin'],
+};
+
+export interface AuthContext {
+  type: 'session' | 'api_key';
+  organizationId: string;
+  permissions: Permission[];
+  /** Session requests only */
+  userId?: string;
+  role?: Role;
+  /** API key requests only */
+  apiKeyId?: string;
+}
+
+export function defaultPermission(method: string): Permission {
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+export function hasPermission(auth: Pick<AuthContext, 'permissions'>, permission: Permission): boolean {
+  return auth.permissions.includes(permission);
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+/**
+ * Set-Cookie value for a session token; an empty token clears the cookie
+ */
+export function sessionCookie(token: string, expiresAt?: Date): string {
+  const attributes = [`${SESSION_COOKIE}=${encodeURIComponent(token)}`, 'Path=/', 'HttpOnly', 'SameSite=Lax'];
+  attributes.push(token && expiresAt ? `Expires=${expiresAt.toUTCString()}` : 'Max-Age=0');
+  // Opt-in: the default compose setup serves the dashboard over plain HTTP
+  if (process.env.SESSION_COOKIE_SECURE === 'true') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Users, organisations and dashboard sessions
+ */
+class AuthService {
+  /**
+   * True until the first user has been created
+   */
+  async setupRequired(): Promise<boolean> {
+    return (await prisma.user.count()) === 0;
+  }
+
+  /**
+   * Create the first organisation and its admin, and hand it any existing data
+   */
+  async setup(params: { email: string; password: string; name?: string; organizationName: string }): Promise<{
+    userId: string;
+    organizationId: string;
+  }> {
+    const passwordHash = await hashPassword(params.password);
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: params.organizationName,
+        members: {
+          create: {
+            role: 'ADMIN',
+            user: {
+              create: { email: params.email.toLowerCase(), name: params.name, passwordHash },
+            },
+          },
+        },
+      },
+      include: { members: true },
+    });
+
+    // Projects and recordings from before organisations existed belong to the first one
+    await prisma.project.updateMany({ where: { organizationId: null }, data: { organizationId: organization.id } });
+    await prisma.recording.updateMany({ where: { organizationId: null }, data: { organizationId: organization.id } });
+
+    return { userId: organization.members[0].userId, organizationId: organization.id };
+  }
+
+  /**
+   * Check credentials. The session acts in `organizationId` when given, else in the
+   * user's oldest membership.
+   */
+  async login(email: string, password: string, organizationId?: string): Promise<{
+    userId: string;
+    organizationId: string;
+  } | null> {
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      include: { memberships: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    const membership = organizationId
+      ? user.memberships.find((m: { organizationId: string }) => m.organizationId === organizationId)
+      : user.memberships[0];
+    if (!membership) {
+      return null;
+    }
+
+    return { userId: user.id, organizationId: membership.organizationId };
+  }
+
+  async createSession(userId: string, organizationId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = `${SESSION_TOKEN_PREFIX}${randomBytes(32).toString('hex')}`;
+    const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+    await prisma.session.create({
+      data: { tokenHash: this.hashToken(token), userId, organizationId, expiresAt },
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Auth context for a session token. The role is read from the membership on every
+   * request, so role changes and removals apply immediately.
+   */
+  async resolveSession(token: string): Promise<AuthContext | null> {
+    if (!token.startsWith(SESSION_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!session || session.expiresAt < new Date()) {
+      return null;
+    }
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_organizationId: { userId: session.userId, organizationId: session.organizationId } },
+    });
+
+    if (!membership) {
+      return null;
+    }
+
+    const role = membership.role as Role;
+    return {
+      type: 'session',
+      organizationId: session.organizationId,
+      permissions: ROLE_PERMISSIONS[role],
+      userId: session.userId,
+      role,
+    };
+  }
+
+  async switchOrganization(token: string, organizationId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (!session) return false;
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_organizationId: { userId: session.userId, organizationId } },
+    });
+    if (!membership) return false;
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { organizationId },
+    });
+    return true;
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    await prisma.session.deleteMany({
+      where: { tokenHash: this.hashToken(token) },
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,19 @@
+import { prisma } from '../db.js';
+import type { LearnedKnowledge, LearnedKnowledgeKind } from '@web3-test/translator';
+
+/**
+ * Fixes learned from a project's passing runs, most recently confirmed first.
+ * The translator picks the entries for the recording's dApp (empty for recordings without a project).
+ */
+export async function getProjectKnowledge(projectId?: string | null): Promise<LearnedKnowledge[]> {
+  if (!projectId) return [];
+  const entries = await prisma.knowledgeEntry.findMany({
+    where: { projectId },
+    select: { kind: true, domain: true, summary: true, before: true, after: true, hits: true },
+    orderBy: { updatedAt: 'desc' },
+  });
+  return entries.map((entry: Omit<LearnedKnowledge, 'kind'> & { kind: string }) => ({
+    ...entry,
+    kind: entry.kind as LearnedKnowledgeKind,
+  }));
+}
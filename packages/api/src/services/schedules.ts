@@ -0,0 +1,134 @@
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import cronParser from 'cron-parser';
+
+// Redis connection options
+const REDIS_HOST = process.env.REDIS_HOST || 'localhost';
+const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
+// After a failed connection check, Redis is tried again once this has passed
+const REDIS_RETRY_MS = 30_000;
+
+// Schedulers live on the test-runs queue; the executor worker handles their
+// scheduled-suite jobs and re-syncs schedulers on startup (see its schedules.ts)
+const QUEUE_NAME = 'test-runs';
+const SCHEDULE_JOB_NAME = 'scheduled-suite';
+
+interface ScheduledSuiteJobData {
+  scheduleId: string;
+}
+
+/**
+ * Why a cron expression or timezone can't be scheduled, or null if it can.
+ * Only 5-field expressions are accepted, so nothing runs more than once a minute.
+ */
+export function validateSchedule(cron: string, timezone: string): string | null {
+  if (cron.trim().split(/\s+/).length !== 5) {
+    return 'Cron expression must have 5 fields: minute hour day-of-month month day-of-week';
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    return `Unknown timezone: ${timezone}`;
+  }
+
+  try {
+    cronParser.parseExpression(cron, { tz: timezone });
+  } catch (error) {
+    return `Invalid cron expression: ${error instanceof Error ? error.message : error}`;
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` times a valid expression fires after `from`
+ */
+export function nextRunTimes(cron: string, timezone: string, count = 5, from = new Date()): Date[] {
+  const interval = cronParser.parseExpression(cron, { tz: timezone, currentDate: from });
+  const times: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    times.push(interval.next().toDate());
+  }
+  return times;
+}
+
+/**
+ * Keeps each SuiteSchedule's BullMQ job scheduler in step with the database row
+ */
+class ScheduleService {
+  private queue: Queue<ScheduledSuiteJobData> | null = null;
+  private connecting: Promise<Queue<ScheduledSuiteJobData> | null> | null = null;
+  private connectionFailedAt = 0;
+
+  /**
+   * Register an enabled schedule's job scheduler (replacing its previous cron and
+   * timezone), or remove a paused one's. Returns false when Redis is unavailable; the
+   * executor registers it when it next starts.
+   */
+  async sync(schedule: { id: string; cron: string; timezone: string; enabled: boolean }): Promise<boolean> {
+    const queue = await this.getQueue();
+    if (!queue) {
+      return false;
+    }
+
+    if (schedule.enabled) {
+      await queue.upsertJobScheduler(
+        `schedule-${schedule.id}`,
+        { pattern: schedule.cron, tz: schedule.timezone },
+        { name: SCHEDULE_JOB_NAME, data: { scheduleId: schedule.id }, opts: { attempts: 1 } },
+      );
+    } else {
+      await queue.removeJobScheduler(`schedule-${schedule.id}`);
+    }
+    return true;
+  }
+
+  async remove(scheduleId: string): Promise<boolean> {
+    const queue = await this.getQueue();
+    if (!queue) {
+      return false;
+    }
+
+    await queue.removeJobScheduler(`schedule-${scheduleId}`);
+    return true;
+  }
+
+  private async getQueue(): Promise<Queue<ScheduledSuiteJobData> | null> {
+    if (this.queue) {
+      return this.queue;
+    }
+    if (Date.now() - this.connectionFailedAt < REDIS_RETRY_MS) {
+      return null;
+    }
+    this.connecting ??= this.connect().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Queue<ScheduledSuiteJobData> | null> {
+    const redis = new Redis({
+      host: REDIS_HOST,
+      port: REDIS_PORT,
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times) => (times > 3 ? null : Math.min(times * 100, 3000)),
+    });
+
+    try {
+      await redis.ping();
+      this.queue = new Queue<ScheduledSuiteJobData>(QUEUE_NAME, {
+        connection: { host: REDIS_HOST, port: REDIS_PORT },
+      });
+    } catch (error) {
+      this.connectionFailedAt = Date.now();
+      console.warn('[ScheduleService] Redis not available, schedules not registered:', error instanceof Error ? error.message : error);
+    } finally {
+      redis.disconnect();
+    }
+
+    return this.queue;
+  }
+}
+
+export const scheduleService = new ScheduleService();
@@ -1,5 +1,7 @@
 import { prisma } from '../db.js';
 import { executionService } from './execution.js';
+import { getProjectSnippets, connectSnippets } from './snippets.js';
+import { getProjectKnowledge } from './knowledge.js';
 import {
   RecordingSchema,
   analyzeRecording,
@@ -260,6 +262,7 @@ class SelfHealService {
     const generator = new CodeGenerator({
       model: regenerationModel,
       validateOutput: true,
+      learnedKnowledge: await getProjectKnowledge(recording.projectId),
     });
 
     console.log(`[SelfHeal] Regenerating spec for run ${runId}, attempt ${currentAttempt + 1}/${maxAttempts}, category: ${category}`);
@@ -286,6 +289,7 @@ class SelfHealService {
         maxAttempts,
         parentSpecId: spec.id,
         failureContext: failureContext as unknown as object,
+        snippets: connectSnippets(result.code, await getProjectSnippets(recording.projectId)),
       } as Parameters<typeof prisma.testSpec.create>[0]['data'],
     });
 
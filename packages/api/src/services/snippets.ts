@@ -0,0 +1,51 @@
+import { prisma } from '../db.js';
+import { applySnippets, extractSnippetBlocks, type StepSnippet } from '@web3-test/translator';
+
+export type ProjectSnippet = StepSnippet & { id: string };
+
+/**
+ * A project's step snippets, passed to the translator so matching step runs reuse them
+ * (empty for recordings without a project)
+ */
+export async function getProjectSnippets(projectId?: string | null): Promise<ProjectSnippet[]> {
+  if (!projectId) return [];
+  return prisma.stepSnippet.findMany({
+    where: { projectId },
+    select: { id: true, name: true, version: true, steps: true, code: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Relation data linking a new spec to the snippets its code contains
+ */
+export function connectSnippets(code: string, snippets: ProjectSnippet[]): { connect: Array<{ id: string }> } {
+  const used = new Set(extractSnippetBlocks(code).map((block) => block.name));
+  return { connect: snippets.filter((s) => used.has(s.name)).map((s) => ({ id: s.id })) };
+}
+
+/**
+ * Rewrite every spec that uses the snippet with the snippet's current version.
+ * Returns the IDs of the specs that changed.
+ */
+export async function rolloutSnippet(snippetId: string): Promise<string[]> {
+  const snippet = await prisma.stepSnippet.findUnique({
+    where: { id: snippetId },
+    include: { specs: { select: { id: true, code: true, version: true } } },
+  });
+  if (!snippet) return [];
+
+  const updatedIds: string[] = [];
+  for (const spec of snippet.specs) {
+    const { code, updated } = applySnippets(spec.code, [snippet]);
+    if (updated.length === 0) continue;
+
+    await prisma.testSpec.update({
+      where: { id: spec.id },
+      data: { code, version: spec.version + 1 },
+    });
+    updatedIds.push(spec.id);
+  }
+
+  return updatedIds;
+}
@@ -0,0 +1,68 @@
+import type { FastifyRequest } from 'fastify';
+import { prisma } from '../db.js';
+
+/**
+ * Prisma filters that keep a request inside its organisation. Projects and recordings
+ * carry the organisation; everything else belongs through them, so each filter is the
+ * relation path from that model up to its owner. Spread them into every `where`.
+ */
+export interface OrgScope {
+  organizationId: string;
+  project: { organizationId: string };
+  recording: { organizationId: string };
+  testSpec: { recording: { organizationId: string } };
+  testRun: { testSpec: { recording: { organizationId: string } } };
+  /** Artifacts and clarifications hang off runs and specs respectively */
+  artifact: { testRun: { testSpec: { recording: { organizationId: string } } } };
+  clarification: { testSpec: { recording: { organizationId: string } } };
+  /** Groups, suite runs, schedules, webhooks, snippets and knowledge */
+  projectChild: { project: { organizationId: string } };
+}
+
+export function orgScope(organizationId: string): OrgScope {
+  const recording = { organizationId };
+  const testSpec = { recording };
+  const testRun = { testSpec };
+  return {
+    organizationId,
+    project: { organizationId },
+    recording,
+    testSpec,
+    testRun,
+    artifact: { testRun },
+    clarification: { testSpec },
+    projectChild: { project: { organizationId } },
+  };
+}
+
+/**
+ * Scope of an authenticated request (every non-public /api route)
+ */
+export function requestScope(request: FastifyRequest): OrgScope {
+  if (!request.auth) {
+    throw new Error('Organisation scope needs an authenticated request');
+  }
+  return orgScope(request.auth.organizationId);
+}
+
+/**
+ * Whether the project and group a recording is filed under both belong to the scope.
+ * Either may be absent; a group must belong to the given project when both are set.
+ */
+export async function ownsProjectAndGroup(
+  scope: OrgScope,
+  { projectId, groupId }: { projectId?: string | null; groupId?: string | null },
+): Promise<boolean> {
+  if (projectId) {
+    const project = await prisma.project.findUnique({ where: { id: projectId, ...scope.project }, select: { id: true } });
+    if (!project) return false;
+  }
+  if (groupId) {
+    const group = await prisma.testGroup.findUnique({
+      where: { id: groupId, ...scope.projectChild, ...(projectId && { projectId }) },
+      select: { id: true },
+    });
+    if (!group) return false;
+  }
+  return true;
+}
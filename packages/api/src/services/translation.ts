@@ -2,9 +2,41 @@ import {
   RecordingSchema,
   analyzeRecording,
   generateCode,
+  generateSegmentCode,
+  segmentRecording,
   detectClarifications,
+  isProviderConfigured,
+  isAllowedBaseUrl,
   type ClarificationQuestion,
+  type LLMProviderConfig,
+  type RecordingSegment,
+  type StepSnippet,
+  type LearnedKnowledge,
 } from '@web3-test/translator';
+import type { Project } from '@prisma/client';
+
+// Project columns holding the per-project LLM settings
+export const PROJECT_LLM_SELECT = { llmProvider: true, llmModel: true, llmBaseUrl: true } as const;
+
+export type ProjectLLMOptions = Partial<Pick<LLMProviderConfig, 'provider' | 'model' | 'baseUrl'>>;
+
+export type ProjectLLMSettings = Pick<Project, 'llmProvider' | 'llmModel' | 'llmBaseUrl'>;
+
+/**
+ * LLM provider settings stored on a project (unset fields fall back to env). A base
+ * URL that is no longer allowed is ignored rather than called.
+ */
+export function getProjectLLMOptions(project: ProjectLLMSettings | null | undefined): ProjectLLMOptions {
+  const baseUrl = project?.llmBaseUrl;
+  if (baseUrl && !isAllowedBaseUrl(baseUrl)) {
+    console.warn(`[TranslationService] Ignoring project LLM base URL ${baseUrl}: not in LLM_ALLOWED_BASE_URLS`);
+  }
+  return {
+    ...(project?.llmProvider && { provider: project.llmProvider as LLMProviderConfig['provider'] }),
+    ...(project?.llmModel && { model: project.llmModel }),
+    ...(baseUrl && isAllowedBaseUrl(baseUrl) && { baseUrl }),
+  };
+}
 
 export interface TranslationServiceResult {
   success: boolean;
@@ -21,6 +53,14 @@ export interface TranslationServiceResult {
   testType?: 'connection' | 'flow';
 }
 
+export interface SegmentSpecResult {
+  segment: RecordingSegment;
+  success: boolean;
+  code?: string;
+  warnings?: string[];
+  errors?: string[];
+}
+
 class TranslationService {
   /**
    * Generate a test spec from a recording stored in the database
@@ -29,7 +69,7 @@ class TranslationService {
     jsonData: unknown;
     name: string;
     dappUrl: string;
-  }, options?: { dappContext?: string }): Promise<TranslationServiceResult> {
+  }, options?: { dappContext?: string; offline?: boolean; llm?: ProjectLLMOptions; snippets?: StepSnippet[]; learnedKnowledge?: LearnedKnowledge[] }): Promise<TranslationServiceResult> {
     // Parse the recording
     const parseResult = RecordingSchema.safeParse(recording.jsonData);
     if (!parseResult.success) {
@@ -47,11 +87,11 @@ class TranslationService {
     // Detect clarifications
     const clarifications = detectClarifications(analysis);
 
-    // Check if Anthropic API key is available
-    if (!process.env.ANTHROPIC_API_KEY) {
+    // Check the LLM provider is configured (offline generation doesn't call it)
+    if (!options?.offline && !isProviderConfigured(options?.llm)) {
       return {
         success: false,
-        errors: ['ANTHROPIC_API_KEY environment variable is not set'],
+        errors: ['LLM provider is not configured (set ANTHROPIC_API_KEY, or LLM_BASE_URL for openai-compatible)'],
         patterns: analysis.patterns.map((p) => ({
           type: p.type,
           startIndex: p.startIndex,
@@ -67,6 +107,10 @@ class TranslationService {
       const result = await generateCode(analysis, {
         validateOutput: true,
         dappContext: options?.dappContext,
+        offline: options?.offline,
+        snippets: options?.snippets,
+        learnedKnowledge: options?.learnedKnowledge,
+        ...options?.llm,
       });
 
       if (!result.success) {
@@ -111,6 +155,55 @@ class TranslationService {
     }
   }
 
+  /**
+   * Split a recording into segments and generate a standalone spec for each.
+   * A segment that fails to generate is reported without stopping the others.
+   */
+  async generateSegmentSpecs(recording: {
+    jsonData: unknown;
+  }, options?: { dappContext?: string; offline?: boolean; llm?: ProjectLLMOptions; snippets?: StepSnippet[]; learnedKnowledge?: LearnedKnowledge[]; minSteps?: number }): Promise<{
+    success: boolean;
+    segments?: SegmentSpecResult[];
+    errors?: string[];
+  }> {
+    const parseResult = RecordingSchema.safeParse(recording.jsonData);
+    if (!parseResult.success) {
+      return {
+        success: false,
+        errors: [`Invalid recording format: ${parseResult.error.message}`],
+      };
+    }
+
+    if (!options?.offline && !isProviderConfigured(options?.llm)) {
+      return {
+        success: false,
+        errors: ['LLM provider is not configured (set ANTHROPIC_API_KEY, or LLM_BASE_URL for openai-compatible)'],
+      };
+    }
+
+    const analysis = analyzeRecording(parseResult.data);
+    const segments: SegmentSpecResult[] = [];
+
+    for (const segment of segmentRecording(analysis, { minSteps: options?.minSteps })) {
+      try {
+        const result = await generateSegmentCode(analysis, segment, {
+          validateOutput: true,
+          dappContext: options?.dappContext,
+          offline: options?.offline,
+          snippets: options?.snippets,
+          learnedKnowledge: options?.learnedKnowledge,
+          ...options?.llm,
+        });
+        segments.push({ segment, success: result.success, code: result.code, warnings: result.warnings, errors: result.errors });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        segments.push({ segment, success: false, errors: [`Generation failed: ${errorMessage}`] });
+      }
+    }
+
+    return { success: true, segments };
+  }
+
   /**
    * Analyze a recording without generating code
    */
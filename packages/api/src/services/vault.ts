@@ -0,0 +1,290 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { prisma } from '../db.js';
+
+/**
+ * Envelope encryption for project secrets. Each secret is encrypted with its own random
+ * data key (AES-256-GCM), and the data key is wrapped with a master key:
+ *
+ *   vault:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ *
+ * The secret's project id is bound to the ciphertext as associated data, so an envelope
+ * copied into another project's row fails to decrypt there.
+ *
+ * The API only encrypts and re-wraps data keys; the secret itself is decrypted by the
+ * executor worker alone (see the executor's vault.ts), which records every decrypt.
+ *
+ * Master keys are 32 random bytes, base64. They come from VAULT_MASTER_KEY (plus
+ * VAULT_PREVIOUS_MASTER_KEYS, comma-separated, while rotating) or from VAULT_KEY_FILE,
+ * one key per line with the active key first.
+ */
+
+export const ENVELOPE_PREFIX = 'vault:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface Keyring {
+  /** New secrets and re-wrapped data keys use this key */
+  active: MasterKey;
+  keys: Map<string, MasterKey>;
+}
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+export function generateMasterKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Stable id of a master key, stored in envelopes so the right key unwraps them
+ */
+export function masterKeyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function parseMasterKey(encoded: string, source: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new VaultError(`Master key in ${source} must be ${KEY_BYTES} bytes, base64-encoded`);
+  }
+  return { id: masterKeyId(key), key };
+}
+
+export function readKeyFile(path: string): string[] {
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Add a new active key to the top of a key file, creating it if needed. Older keys stay
+ * until `vault rotate` has re-wrapped everything under the new one.
+ */
+export function prependKeyFile(path: string, encoded: string): void {
+  const existing = existsSync(path) ? readFileSync(path, 'utf-8') : '';
+  writeFileSync(path, `${encoded}\n${existing}`, { mode: 0o600 });
+}
+
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): Keyring {
+  let encoded: Array<{ value: string; source: string }>;
+
+  if (env.VAULT_MASTER_KEY) {
+    encoded = [
+      { value: env.VAULT_MASTER_KEY, source: 'VAULT_MASTER_KEY' },
+      ...(env.VAULT_PREVIOUS_MASTER_KEYS || '')
+        .split(',')
+        .filter((value) => value.trim())
+        .map((value) => ({ value, source: 'VAULT_PREVIOUS_MASTER_KEYS' })),
+    ];
+  } else if (env.VAULT_KEY_FILE && existsSync(env.VAULT_KEY_FILE)) {
+    encoded = readKeyFile(env.VAULT_KEY_FILE).map((value) => ({ value, source: env.VAULT_KEY_FILE! }));
+  } else {
+    encoded = [];
+  }
+
+  if (encoded.length === 0) {
+    throw new VaultError('No vault master key configured: set VAULT_MASTER_KEY or VAULT_KEY_FILE');
+  }
+
+  const masterKeys = encoded.map((e) => parseMasterKey(e.value, e.source));
+  return {
+    active: masterKeys[0],
+    keys: new Map(masterKeys.map((k) => [k.id, k])),
+  };
+}
+
+let keyring: Keyring | null = null;
+
+function getKeyring(): Keyring {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+export function isVaultEnvelope(value: string): boolean {
+  return value.startsWith(ENVELOPE_PREFIX);
+}
+
+function parseEnvelope(value: string): Envelope {
+  const parts = isVaultEnvelope(value) ? value.slice(ENVELOPE_PREFIX.length).split(':') : [];
+  if (parts.length !== 5) {
+    throw new VaultError('Not a vault envelope');
+  }
+  const [keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64url'),
+    iv: Buffer.from(iv, 'base64url'),
+    tag: Buffer.from(tag, 'base64url'),
+    ciphertext: Buffer.from(ciphertext, 'base64url'),
+  };
+}
+
+function formatEnvelope(envelope: Envelope): string {
+  return ENVELOPE_PREFIX + [
+    envelope.keyId,
+    envelope.wrappedKey.toString('base64url'),
+    envelope.iv.toString('base64url'),
+    envelope.tag.toString('base64url'),
+    envelope.ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+/**
+ * Data key encrypted under a master key, as iv | tag | ciphertext. The key id is bound
+ * as associated data so a wrapped key can't be relabelled.
+ */
+function wrapDataKey(dataKey: Buffer, masterKey: MasterKey): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, masterKey.key, iv);
+  cipher.setAAD(Buffer.from(masterKey.id));
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), wrapped]);
+}
+
+function unwrapDataKey(wrappedKey: Buffer, masterKey: MasterKey): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, masterKey.key, wrappedKey.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(masterKey.id));
+  decipher.setAuthTag(wrappedKey.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(wrappedKey.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function encryptSecret(plaintext: string, projectId: string, ring: Keyring = getKeyring()): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, dataKey, iv);
+  cipher.setAAD(Buffer.from(projectId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return formatEnvelope({
+    keyId: ring.active.id,
+    wrappedKey: wrapDataKey(dataKey, ring.active),
+    iv,
+    tag: cipher.getAuthTag(),
+    ciphertext,
+  });
+}
+
+/**
+ * Move an envelope's data key under the active master key. The secret's ciphertext is
+ * copied as-is; it is never decrypted here.
+ */
+export function rewrapSecret(value: string, ring: Keyring = getKeyring()): string {
+  const envelope = parseEnvelope(value);
+  if (envelope.keyId === ring.active.id) {
+    return value;
+  }
+
+  const masterKey = ring.keys.get(envelope.keyId);
+  if (!masterKey) {
+    throw new VaultError(`Master key ${envelope.keyId} is not configured`);
+  }
+
+  const dataKey = unwrapDataKey(envelope.wrappedKey, masterKey);
+  return formatEnvelope({ ...envelope, keyId: ring.active.id, wrappedKey: wrapDataKey(dataKey, ring.active) });
+}
+
+export function envelopeKeyId(value: string): string {
+  return parseEnvelope(value).keyId;
+}
+
+/**
+ * First and last word of a mnemonic, enough to tell wallets apart
+ */
+export function maskSeedPhrase(seedPhrase: string): string {
+  const words = seedPhrase.trim().split(/\s+/);
+  return `${words[0]} … ${words[words.length - 1]} (${words.length} words)`;
+}
+
+/**
+ * Project seed phrases in the vault: migration of plaintext rows and key rotation
+ */
+class VaultService {
+  /**
+   * Envelope counts per master key, plus rows still holding a plaintext seed phrase
+   */
+  async status(): Promise<{ activeKeyId: string; byKeyId: Record<string, number>; plaintext: number }> {
+    const projects = await prisma.project.findMany({ select: { encryptedSeedPhrase: true } });
+
+    const byKeyId: Record<string, number> = {};
+    let plaintext = 0;
+    for (const { encryptedSeedPhrase } of projects) {
+      if (isVaultEnvelope(encryptedSeedPhrase)) {
+        const keyId = envelopeKeyId(encryptedSeedPhrase);
+        byKeyId[keyId] = (byKeyId[keyId] || 0) + 1;
+      } else {
+        plaintext++;
+      }
+    }
+
+    return { activeKeyId: getKeyring().active.id, byKeyId, plaintext };
+  }
+
+  /**
+   * Encrypt seed phrases stored before the vault existed
+   */
+  async migratePlaintext(): Promise<number> {
+    const projects = await prisma.project.findMany({
+      where: { NOT: { encryptedSeedPhrase: { startsWith: ENVELOPE_PREFIX } } },
+      select: { id: true, encryptedSeedPhrase: true },
+    });
+
+    for (const project of projects) {
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { encryptedSeedPhrase: encryptSecret(project.encryptedSeedPhrase, project.id) },
+      });
+    }
+
+    return projects.length;
+  }
+
+  /**
+   * Re-wrap every data key that isn't under the active master key. Once this returns,
+   * older keys can be removed from the configuration.
+   */
+  async rotate(): Promise<number> {
+    const ring = getKeyring();
+    const projects = await prisma.project.findMany({
+      where: { encryptedSeedPhrase: { startsWith: ENVELOPE_PREFIX } },
+      select: { id: true, encryptedSeedPhrase: true },
+    });
+
+    let rewrapped = 0;
+    for (const project of projects) {
+      if (envelopeKeyId(project.encryptedSeedPhrase) === ring.active.id) continue;
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { encryptedSeedPhrase: rewrapSecret(project.encryptedSeedPhrase, ring) },
+      });
+      rewrapped++;
+    }
+
+    return rewrapped;
+  }
+}
+
+export const vaultService = new VaultService();
@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto';
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { prisma } from '../db.js';
+
+// Redis connection options
+const REDIS_HOST = process.env.REDIS_HOST || 'localhost';
+const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
+// After a failed connection check, Redis is tried again once this has passed
+const REDIS_RETRY_MS = 30_000;
+
+// Queue consumed by the executor worker, which signs and sends deliveries (see its webhooks.ts)
+const QUEUE_NAME = 'webhook-deliveries';
+const MAX_ATTEMPTS = 6;
+const RETRY_DELAY_MS = 30_000;
+
+export const WEBHOOK_EVENTS = ['run.started', 'run.passed', 'run.failed', 'suite.completed', 'spec.healed'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+/**
+ * Webhook secrets and test deliveries. Lifecycle events are emitted by the executor.
+ */
+class WebhookService {
+  private queue: Queue<WebhookDeliveryJobData> | null = null;
+  private connecting: Promise<Queue<WebhookDeliveryJobData> | null> | null = null;
+  private connectionFailedAt = 0;
+
+  generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Queue a webhook.test delivery so subscribers can check their endpoint and signature
+   * verification. Without Redis the delivery is kept with an error.
+   */
+  async sendTestEvent(webhook: { id: string; projectId: string }): Promise<{ deliveryId: string; queued: boolean }> {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        event: 'webhook.test',
+        payload: {
+          event: 'webhook.test',
+          createdAt: new Date().toISOString(),
+          projectId: webhook.projectId,
+          data: { webhookId: webhook.id, message: 'Test event' },
+        },
+      },
+    });
+
+    const queue = await this.getQueue();
+    if (!queue) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', error: 'Queue not available. Start Redis and the executor worker to send webhooks.' },
+      });
+      return { deliveryId: delivery.id, queued: false };
+    }
+
+    await queue.add('deliver', { deliveryId: delivery.id }, { jobId: `webhook-${delivery.id}` });
+    return { deliveryId: delivery.id, queued: true };
+  }
+
+  private async getQueue(): Promise<Queue<WebhookDeliveryJobData> | null> {
+    if (this.queue) {
+      return this.queue;
+    }
+    if (Date.now() - this.connectionFailedAt < REDIS_RETRY_MS) {
+      return null;
+    }
+    this.connecting ??= this.connect().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Queue<WebhookDeliveryJobData> | null> {
+    const redis = new Redis({
+      host: REDIS_HOST,
+      port: REDIS_PORT,
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times) => (times > 3 ? null : Math.min(times * 100, 3000)),
+    });
+
+    try {
+      await redis.ping();
+      this.queue = new Queue<WebhookDeliveryJobData>(QUEUE_NAME, {
+        connection: { host: REDIS_HOST, port: REDIS_PORT },
+        defaultJobOptions: {
+          attempts: MAX_ATTEMPTS,
+          backoff: { type: 'exponential', delay: RETRY_DELAY_MS },
+          removeOnComplete: { count: 100 },
+          removeOnFail: { count: 100 },
+        },
+      });
+    } catch (error) {
+      this.connectionFailedAt = Date.now();
+      console.warn('[WebhookService] Redis not available, deliveries disabled:', error instanceof Error ? error.message : error);
+    } finally {
+      redis.disconnect();
+    }
+
+    return this.queue;
+  }
+}
+
+export const webhookService = new WebhookService();
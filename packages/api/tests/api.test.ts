@@ -11,6 +11,7 @@ vi.mock('../src/db.js', () => ({
       findMany: vi.fn(),
       count: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
     },
     testSpec: {
       create: vi.fn(),
@@ -19,6 +20,7 @@ vi.mock('../src/db.js', () => ({
       count: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
     },
     testRun: {
       create: vi.fn(),
@@ -26,6 +28,7 @@ vi.mock('../src/db.js', () => ({
       findMany: vi.fn(),
       count: vi.fn(),
       update: vi.fn(),
+      deleteMany: vi.fn(),
     },
     clarification: {
       createMany: vi.fn(),
@@ -37,18 +40,49 @@ vi.mock('../src/db.js', () => ({
     artifact: {
       findMany: vi.fn(),
     },
+    project: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    session: {
+      findUnique: vi.fn(),
+    },
+    membership: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
   },
 }));
 
 import { buildServer } from '../src/server.js';
+import { encryptSecret, envelopeKeyId, loadKeyring, maskSeedPhrase, rewrapSecret } from '../src/services/vault.js';
 import type { FastifyInstance } from 'fastify';
 
+const SESSION_TOKEN = 'w3s_test';
+const AUTH_HEADERS = { authorization: `Bearer ${SESSION_TOKEN}` };
+
+async function signInAs(role: 'VIEWER' | 'EDITOR' | 'ADMIN') {
+  const { prisma } = await import('../src/db.js');
+  vi.mocked(prisma.session.findUnique).mockResolvedValue({
+    id: 'session-1',
+    userId: 'user-1',
+    organizationId: 'org-1',
+    expiresAt: new Date(Date.now() + 60_000),
+  } as never);
+  vi.mocked(prisma.membership.findUnique).mockResolvedValue({ id: 'member-1', role } as never);
+}
+
 describe('API Server', () => {
   let app: FastifyInstance;
 
   beforeAll(async () => {
     app = await buildServer();
     await app.ready();
+    await signInAs('EDITOR');
   });
 
   afterAll(async () => {
@@ -72,6 +106,7 @@ describe('API Server', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/health/detailed',
+        headers: AUTH_HEADERS,
       });
 
       expect(response.statusCode).toBe(200);
@@ -81,11 +116,46 @@ describe('API Server', () => {
     });
   });
 
+  describe('Authentication', () => {
+    it('should reject requests without credentials', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/recordings',
+      });
+
+      expect(response.statusCode).toBe(401);
+
+      // Only the basic health check is public; the detailed one reports queue contents
+      const detailed = await app.inject({
+        method: 'GET',
+        url: '/api/health/detailed',
+      });
+      expect(detailed.statusCode).toBe(401);
+    });
+
+    it('should enforce role permissions', async () => {
+      await signInAs('VIEWER');
+      try {
+        const response = await app.inject({
+          method: 'DELETE',
+          url: '/api/runs/all/runs',
+          headers: AUTH_HEADERS,
+        });
+
+        expect(response.statusCode).toBe(403);
+        expect(JSON.parse(response.body).error).toContain('admin');
+      } finally {
+        await signInAs('EDITOR');
+      }
+    });
+  });
+
   describe('Recordings Endpoints', () => {
     it('POST /api/recordings should validate recording format', async () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/recordings',
+        headers: AUTH_HEADERS,
         payload: {
           jsonData: { invalid: 'data' },
         },
@@ -104,6 +174,7 @@ describe('API Server', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/recordings',
+        headers: AUTH_HEADERS,
       });
 
       expect(response.statusCode).toBe(200);
@@ -118,22 +189,53 @@ describe('API Server', () => {
       const { prisma } = await import('../src/db.js');
       vi.mocked(prisma.testSpec.findMany).mockResolvedValue([]);
       vi.mocked(prisma.testSpec.count).mockResolvedValue(0);
+      vi.mocked(prisma.testRun.findMany).mockClear();
 
       const response = await app.inject({
         method: 'GET',
         url: '/api/tests',
+        headers: AUTH_HEADERS,
       });
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.tests).toBeDefined();
       expect(Array.isArray(body.tests)).toBe(true);
+      // No specs on the page, so no dataset matrix lookup
+      expect(prisma.testRun.findMany).not.toHaveBeenCalled();
+    });
+
+    it('GET /api/tests should attach each spec\'s latest dataset matrix', async () => {
+      const { prisma } = await import('../src/db.js');
+      const now = new Date();
+      vi.mocked(prisma.testSpec.findMany).mockResolvedValue([
+        { id: 'spec-1', recordingId: 'rec-1', code: '', version: 1, status: 'READY', createdAt: now, updatedAt: now, recording: { name: 'Swap' } },
+      ] as never);
+      vi.mocked(prisma.testSpec.count).mockResolvedValue(1);
+      vi.mocked(prisma.testRun.findMany)
+        .mockResolvedValueOnce([{ testSpecId: 'spec-1', matrixId: 'matrix-1', createdAt: now }] as never)
+        .mockResolvedValueOnce([
+          { id: 'run-1', matrixId: 'matrix-1', datasetName: 'small', status: 'PASSED', passed: true, durationMs: 1000 },
+          { id: 'run-2', matrixId: 'matrix-1', datasetName: 'large', status: 'FAILED', passed: false, durationMs: 2000 },
+        ] as never);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/tests',
+        headers: AUTH_HEADERS,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [spec] = JSON.parse(response.body).tests;
+      expect(spec.latestMatrix.matrixId).toBe('matrix-1');
+      expect(spec.latestMatrix.runs.map((r: { datasetName: string }) => r.datasetName)).toEqual(['small', 'large']);
     });
 
     it('POST /api/tests/generate should require recordingId', async () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/tests/generate',
+        headers: AUTH_HEADERS,
         payload: {},
       });
 
@@ -150,6 +252,7 @@ describe('API Server', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/runs',
+        headers: AUTH_HEADERS,
       });
 
       expect(response.statusCode).toBe(200);
@@ -168,6 +271,7 @@ describe('API Server', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/clarifications',
+        headers: AUTH_HEADERS,
       });
 
       expect(response.statusCode).toBe(200);
@@ -176,4 +280,210 @@ describe('API Server', () => {
       expect(Array.isArray(body.clarifications)).toBe(true);
     });
   });
+
+  describe('Webhooks Endpoints', () => {
+    it('POST /api/webhooks should reject non-http URLs', async () => {
+      await signInAs('ADMIN');
+      try {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/webhooks',
+          headers: AUTH_HEADERS,
+          payload: { projectId: 'project-1', url: 'ftp://example.com/hook', events: ['run.failed'] },
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).error).toContain('http');
+      } finally {
+        await signInAs('EDITOR');
+      }
+    });
+
+    it('POST /api/webhooks should reject URLs that resolve to private addresses', async () => {
+      await signInAs('ADMIN');
+      try {
+        for (const url of ['http://localhost:3001/hook', 'http://169.254.169.254/latest/meta-data', 'http://[fd00::1]/hook']) {
+          const response = await app.inject({
+            method: 'POST',
+            url: '/api/webhooks',
+            headers: AUTH_HEADERS,
+            payload: { projectId: 'project-1', url, events: ['run.failed'] },
+          });
+
+          expect(response.statusCode).toBe(400);
+          expect(JSON.parse(response.body).error).toContain('private address');
+        }
+      } finally {
+        await signInAs('EDITOR');
+      }
+    });
+  });
+
+  describe('Organisation Endpoints', () => {
+    it('POST /api/organizations/current/members should not add existing accounts', async () => {
+      const { prisma } = await import('../src/db.js');
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-2', email: 'someone@example.com' } as never);
+
+      await signInAs('ADMIN');
+      try {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/organizations/current/members',
+          headers: AUTH_HEADERS,
+          payload: { email: 'Someone@example.com', password: 'correct horse battery', role: 'EDITOR' },
+        });
+
+        expect(response.statusCode).toBe(409);
+        expect(prisma.user.create).not.toHaveBeenCalled();
+        expect(prisma.membership.create).not.toHaveBeenCalled();
+      } finally {
+        await signInAs('EDITOR');
+      }
+    });
+  });
+
+  describe('Projects Endpoints', () => {
+    it('PUT /api/projects/:id should limit LLM base URLs to admins and the allowlist', async () => {
+      const { prisma } = await import('../src/db.js');
+      vi.mocked(prisma.project.findUnique).mockResolvedValue({ id: 'project-1', llmBaseUrl: null } as never);
+      const payload = { llmProvider: 'openai-compatible', llmBaseUrl: 'http://169.254.169.254/v1' };
+
+      const asEditor = await app.inject({ method: 'PUT', url: '/api/projects/project-1', headers: AUTH_HEADERS, payload });
+      expect(asEditor.statusCode).toBe(403);
+
+      await signInAs('ADMIN');
+      try {
+        const asAdmin = await app.inject({ method: 'PUT', url: '/api/projects/project-1', headers: AUTH_HEADERS, payload });
+        expect(asAdmin.statusCode).toBe(400);
+        expect(JSON.parse(asAdmin.body).error).toContain('LLM_ALLOWED_BASE_URLS');
+        expect(prisma.project.update).not.toHaveBeenCalled();
+      } finally {
+        await signInAs('EDITOR');
+      }
+    });
+  });
+
+  describe('Suite Runs Endpoints', () => {
+    it('POST /api/projects/:id/run-suite should reject non-http dApp URL overrides', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/projects/project-1/run-suite',
+        headers: AUTH_HEADERS,
+        payload: { dappUrl: 'javascript:alert(1)' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('Schedules Endpoints', () => {
+    it('GET /api/schedules/preview should list next runs in the timezone', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/preview?cron=0%209%20*%20*%201-5&timezone=Europe%2FBerlin',
+        headers: AUTH_HEADERS,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.valid).toBe(true);
+      expect(body.nextRuns).toHaveLength(5);
+      expect([7, 8]).toContain(new Date(body.nextRuns[0]).getUTCHours());
+    });
+
+    it('POST /api/schedules should reject invalid cron expressions', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules',
+        headers: AUTH_HEADERS,
+        payload: { projectId: 'project-1', name: 'Hourly', cron: '* * * * * *' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('5 fields');
+    });
+  });
+
+  describe('Tenancy', () => {
+    // A recording owned by org-2; the signed-in session acts in org-1
+    const otherOrgRecording = { id: 'rec-2', organizationId: 'org-2', name: 'Theirs' };
+
+    it('should not read another organisation\'s recording', async () => {
+      const { prisma } = await import('../src/db.js');
+      vi.mocked(prisma.recording.findUnique).mockImplementation((async ({ where }: { where: { id: string; organizationId?: string } }) =>
+        where.id === otherOrgRecording.id && where.organizationId === otherOrgRecording.organizationId
+          ? otherOrgRecording
+          : null) as never);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/recordings/rec-2',
+        headers: AUTH_HEADERS,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.recording.findUnique).toHaveBeenCalledWith({ where: { id: 'rec-2', organizationId: 'org-1' } });
+    });
+
+    it('should not delete another organisation\'s recording', async () => {
+      const { prisma } = await import('../src/db.js');
+      vi.mocked(prisma.recording.delete).mockImplementation((async ({ where }: { where: { id: string; organizationId?: string } }) => {
+        if (where.organizationId !== otherOrgRecording.organizationId) {
+          throw new Error('Record to delete does not exist');
+        }
+        return otherOrgRecording;
+      }) as never);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/recordings/rec-2',
+        headers: AUTH_HEADERS,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.recording.delete).toHaveBeenCalledWith({ where: { id: 'rec-2', organizationId: 'org-1' } });
+    });
+
+    it('should limit bulk deletes to the caller\'s organisation', async () => {
+      const { prisma } = await import('../src/db.js');
+      vi.mocked(prisma.recording.deleteMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.testSpec.deleteMany).mockResolvedValue({ count: 2 });
+      vi.mocked(prisma.testRun.deleteMany).mockResolvedValue({ count: 3 });
+
+      await signInAs('ADMIN');
+      try {
+        for (const url of ['/api/recordings/all/recordings', '/api/tests/all/specs', '/api/runs/all/runs']) {
+          const response = await app.inject({ method: 'DELETE', url, headers: AUTH_HEADERS });
+          expect(response.statusCode).toBe(200);
+        }
+      } finally {
+        await signInAs('EDITOR');
+      }
+
+      const recording = { organizationId: 'org-1' };
+      expect(prisma.recording.deleteMany).toHaveBeenCalledWith({ where: recording });
+      expect(prisma.testSpec.deleteMany).toHaveBeenCalledWith({ where: { recording } });
+      expect(prisma.testRun.deleteMany).toHaveBeenCalledWith({ where: { testSpec: { recording } } });
+    });
+  });
+});
+
+describe('Vault', () => {
+  const oldKey = Buffer.alloc(32, 7).toString('base64');
+  const newKey = Buffer.alloc(32, 9).toString('base64');
+  const seedPhrase = 'test test test test test test test test test test test junk';
+
+  it('should re-wrap data keys under the new master key without touching the ciphertext', () => {
+    const envelope = encryptSecret(seedPhrase, 'project-1', loadKeyring({ VAULT_MASTER_KEY: oldKey }));
+    expect(envelope).not.toContain('test');
+    expect(envelopeKeyId(envelope)).toBe('4bb06f8e4e3a7715');
+
+    const rotated = loadKeyring({ VAULT_MASTER_KEY: newKey, VAULT_PREVIOUS_MASTER_KEYS: oldKey });
+    const rewrapped = rewrapSecret(envelope, rotated);
+    expect(envelopeKeyId(rewrapped)).toBe(rotated.active.id);
+    expect(rewrapped.split(':').slice(-3)).toEqual(envelope.split(':').slice(-3));
+
+    expect(() => rewrapSecret(envelope, loadKeyring({ VAULT_MASTER_KEY: newKey }))).toThrow(/not configured/);
+    expect(maskSeedPhrase(seedPhrase)).toBe('test … junk (12 words)');
+  });
 });
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api';
+import { Loader2 } from 'lucide-react';
+
+const inputClass =
+  'w-full px-4 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-400 focus:outline-none focus:border-zinc-500';
+
+/**
+ * Sign-in page. Before the first account exists it creates the organisation and its admin.
+ */
+export default function LoginPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const [organizationName, setOrganizationName] = useState('');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const { data: setupStatus, isLoading } = useQuery({
+    queryKey: ['authSetup'],
+    queryFn: () => api.getSetupStatus(),
+  });
+  const setupRequired = setupStatus?.setupRequired ?? false;
+
+  const signInMutation = useMutation({
+    mutationFn: () =>
+      setupRequired
+        ? api.setup({ organizationName, name: name || undefined, email, password })
+        : api.login(email, password),
+    onSuccess: (me) => {
+      queryClient.setQueryData(['me'], me);
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    },
+  });
+
+  const isValid = email && password && (!setupRequired || (organizationName && password.length >= 8));
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-950 p-8">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center justify-center gap-2.5 mb-8">
+          <Image src="/logo.png" alt="Web3 Test" width={32} height={32} />
+          <span className="text-xl font-semibold text-zinc-50 tracking-tight">Web3 Test</span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isValid) signInMutation.mutate();
+            }}
+            className="bg-zinc-900 border border-zinc-800 rounded-lg p-6 space-y-4"
+          >
+            <div>
+              <h1 className="text-lg font-medium text-white">
+                {setupRequired ? 'Create your organisation' : 'Sign in'}
+              </h1>
+              {setupRequired && (
+                <p className="text-sm text-zinc-400 mt-1">
+                  This account becomes the organisation&apos;s admin.
+                </p>
+              )}
+            </div>
+
+            {setupRequired && (
+              <>
+                <input
+                  type="text"
+                  placeholder="Organisation name"
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  placeholder="Your name (optional)"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClass}
+                />
+              </>
+            )}
+
+            <input
+              type="email"
+              placeholder="Email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              placeholder={setupRequired ? 'Password (at least 8 characters)' : 'Password'}
+              autoComplete={setupRequired ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+            />
+
+            {signInMutation.isError && (
+              <p className="text-sm text-red-400">{(signInMutation.error as Error).message}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={!isValid || signInMutation.isPending}
+              className="w-full flex items-center justify-center px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {signInMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : setupRequired ? (
+                'Create and sign in'
+              ) : (
+                'Sign in'
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -33,12 +33,18 @@ import { ClarificationPanel } from '@/components/clarification-panel';
 import { SpecCodeViewer } from '@/components/spec-code-viewer';
 import { FailureAnalysis } from '@/components/failure-analysis';
 import { ExecutionOptions, type ExecutionMode } from '@/components/execution-options';
+import { SnippetLibrary } from '@/components/snippet-library';
+import { KnowledgeBase } from '@/components/knowledge-base';
+import { SeedPhraseAccess } from '@/components/seed-phrase-access';
+import { ProjectWebhooks } from '@/components/project-webhooks';
+import { SuiteSchedules } from '@/components/suite-schedules';
 
 export default function ProjectDetailPage() {
   const params = useParams();
   const id = params.id as string;
   const queryClient = useQueryClient();
   const [copied, setCopied] = useState(false);
+  const [suiteTab, setSuiteTab] = useState<'runs' | 'schedules'>('runs');
 
   const { data: project, isLoading } = useQuery({
     queryKey: ['project', id],
@@ -54,6 +60,11 @@ export default function ProjectDetailPage() {
     },
   });
 
+  const { data: me } = useQuery({
+    queryKey: ['me'],
+    queryFn: () => api.getMe(),
+  });
+
   const runSuiteMutation = useMutation({
     mutationFn: () => api.runSuite(id),
     onSuccess: () => {
@@ -191,27 +202,57 @@ export default function ProjectDetailPage() {
         />
       </div>
 
-      {/* Suite Runs */}
+      {/* Shared step snippets */}
+      <SnippetLibrary projectId={id} recordings={project.recordings || []} />
+
+      {/* Fixes learned from passing runs */}
+      <KnowledgeBase projectId={id} />
+
+      {/* Decrypts of the project's wallet */}
+      {me?.permissions.includes('admin') && <SeedPhraseAccess projectId={id} />}
+
+      {/* Run, suite and self-heal events posted to subscribers */}
+      <ProjectWebhooks projectId={id} canManage={!!me?.permissions.includes('admin')} />
+
+      {/* Suite Runs and their schedules */}
       <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
-        <div className="px-4 py-3 border-b border-zinc-800">
-          <h2 className="text-sm font-medium text-white">Suite Runs</h2>
-        </div>
-        <div className="divide-y divide-zinc-800">
-          {!project.recentSuiteRuns || project.recentSuiteRuns.length === 0 ? (
-            <div className="p-8 text-center text-zinc-500 text-sm">
-              No suite runs yet. Click &quot;Run All Tests&quot; to start.
-            </div>
-          ) : (
-            project.recentSuiteRuns.map((run, idx) => (
-              <SuiteRunRow
-                key={run.id}
-                run={run}
-                projectId={project.id}
-                number={project.recentSuiteRuns!.length - idx}
-              />
-            ))
-          )}
+        <div className="px-4 border-b border-zinc-800 flex items-center gap-4">
+          {(['runs', 'schedules'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setSuiteTab(tab)}
+              className={`py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                suiteTab === tab ? 'text-white border-white' : 'text-zinc-500 border-transparent hover:text-zinc-300'
+              }`}
+            >
+              {tab === 'runs' ? 'Suite Runs' : 'Schedules'}
+            </button>
+          ))}
         </div>
+        {suiteTab === 'schedules' ? (
+          <SuiteSchedules
+            projectId={id}
+            groups={project.groups || []}
+            canEdit={!!me?.permissions.includes('execute')}
+          />
+        ) : (
+          <div className="divide-y divide-zinc-800">
+            {!project.recentSuiteRuns || project.recentSuiteRuns.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500 text-sm">
+                No suite runs yet. Click &quot;Run All Tests&quot; to start.
+              </div>
+            ) : (
+              project.recentSuiteRuns.map((run, idx) => (
+                <SuiteRunRow
+                  key={run.id}
+                  run={run}
+                  projectId={project.id}
+                  number={project.recentSuiteRuns!.length - idx}
+                />
+              ))
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1189,6 +1230,7 @@ function SuiteRunRow({
       <div className="ml-3 flex-1 min-w-0">
         <p className="text-sm font-medium text-white">
           #{number}
+          {run.scheduleId && <span className="ml-2 text-xs font-normal text-zinc-500">scheduled</span>}
         </p>
         <p className="text-xs text-zinc-500">
           {run.passedTests}/{run.totalTests} passed
@@ -66,6 +66,11 @@ export default function SuiteRunDetailPage() {
             <span>{formatDuration(suiteRun.durationMs)}</span>
           )}
           <span>{formatDate(suiteRun.createdAt)}</span>
+          {suiteRun.dappUrl && (
+            <span title="dApp URL override">
+              Against <code className="font-mono text-zinc-300">{suiteRun.dappUrl}</code>
+            </span>
+          )}
         </div>
         {suiteRun.error && (
           <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import { api, type Project } from '@/lib/api';
-import { ArrowLeft, Copy, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Copy, Lock, CheckCircle } from 'lucide-react';
 import Link from 'next/link';
 
 export default function NewProjectPage() {
@@ -15,7 +15,6 @@ export default function NewProjectPage() {
   const [homeUrl, setHomeUrl] = useState('');
   const [description, setDescription] = useState('');
   const [createdProject, setCreatedProject] = useState<Project | null>(null);
-  const [copiedSeed, setCopiedSeed] = useState(false);
   const [copiedAddress, setCopiedAddress] = useState(false);
 
   const createMutation = useMutation({
@@ -31,14 +30,6 @@ export default function NewProjectPage() {
     },
   });
 
-  const copySeed = () => {
-    if (createdProject?.seedPhrase) {
-      navigator.clipboard.writeText(createdProject.seedPhrase);
-      setCopiedSeed(true);
-      setTimeout(() => setCopiedSeed(false), 2000);
-    }
-  };
-
   const copyAddress = () => {
     if (createdProject?.walletAddress) {
       navigator.clipboard.writeText(createdProject.walletAddress);
@@ -90,33 +81,20 @@ export default function NewProjectPage() {
               </p>
             </div>
 
-            {/* Seed Phrase - shown only once */}
+            {/* Seed Phrase - encrypted in the vault, never shown */}
             <div className="mb-4">
               <label className="block text-sm font-medium text-zinc-300 mb-1">
                 Seed Phrase
               </label>
-              <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
-                <div className="flex items-start gap-2 mb-2">
-                  <AlertTriangle className="h-4 w-4 text-yellow-500 mt-0.5 shrink-0" />
-                  <p className="text-xs text-yellow-400">
-                    This is shown only once. Save it securely if you need to recover this wallet.
-                  </p>
-                </div>
-                <div className="flex items-center gap-2 bg-zinc-900 rounded px-4 py-3">
-                  <code className="text-sm text-white font-mono flex-1 break-all">
-                    {createdProject.seedPhrase}
-                  </code>
-                  <button
-                    onClick={copySeed}
-                    className="text-zinc-400 hover:text-white transition-colors shrink-0"
-                  >
-                    <Copy className="h-4 w-4" />
-                  </button>
-                  {copiedSeed && (
-                    <span className="text-xs text-green-400">Copied!</span>
-                  )}
-                </div>
+              <div className="flex items-center gap-2 bg-zinc-800 rounded-lg px-4 py-3">
+                <Lock className="h-4 w-4 text-zinc-400 shrink-0" />
+                <code className="text-sm text-white font-mono flex-1">
+                  {createdProject.seedPhraseHint}
+                </code>
               </div>
+              <p className="text-xs text-zinc-500 mt-1">
+                Stored encrypted. Only the executor decrypts it, for each run, and every decrypt is logged on the project page.
+              </p>
             </div>
           </div>
 
@@ -2,7 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams, useRouter } from 'next/navigation';
-import { api, type RecordingStep } from '@/lib/api';
+import { api, type RecordingStep, type NetworkRequest } from '@/lib/api';
 import { formatDate } from '@/lib/utils';
 import { useState, useCallback } from 'react';
 import {
@@ -19,11 +19,18 @@ import {
   Navigation,
   Wallet,
   ArrowUpDown,
+  Hand,
+  Keyboard,
+  Move,
+  CheckSquare,
   AlertCircle,
   CheckCircle,
   FileCode,
+  Activity,
+  Scissors,
 } from 'lucide-react';
 import Link from 'next/link';
+import { RecordingLint } from '@/components/recording-lint';
 
 // Step type icons and labels
 const STEP_TYPE_CONFIG = {
@@ -32,11 +39,27 @@ const STEP_TYPE_CONFIG = {
   navigation: { icon: Navigation, label: 'Navigate', color: 'text-purple-400' },
   web3: { icon: Wallet, label: 'Web3', color: 'text-orange-400' },
   scroll: { icon: ArrowUpDown, label: 'Scroll', color: 'text-zinc-400' },
+  hover: { icon: Hand, label: 'Hover', color: 'text-cyan-400' },
+  keypress: { icon: Keyboard, label: 'Key', color: 'text-yellow-400' },
+  drag: { icon: Move, label: 'Drag', color: 'text-pink-400' },
+  assert: { icon: CheckSquare, label: 'Assert', color: 'text-emerald-400' },
+};
+
+// What each assert step kind checks, for the step header
+const ASSERTION_KIND_LABELS: Record<NonNullable<RecordingStep['assertion']>['kind'], string> = {
+  textVisible: 'Text visible',
+  textEquals: 'Text equals',
+  textContains: 'Text contains',
+  visible: 'Visible',
+  enabled: 'Enabled',
+  attribute: 'Attribute',
+  numberWithin: 'Number within',
 };
 
 interface StepEditorProps {
   step: RecordingStep;
   index: number;
+  networkRequests: NetworkRequest[];
   onUpdate: (index: number, step: RecordingStep) => void;
   onDelete: (index: number) => void;
   onMoveUp: (index: number) => void;
@@ -48,6 +71,7 @@ interface StepEditorProps {
 function StepEditor({
   step,
   index,
+  networkRequests,
   onUpdate,
   onDelete,
   onMoveUp,
@@ -85,11 +109,38 @@ function StepEditor({
           <span className="font-medium text-white">{config.label}</span>
           <span className="ml-3 text-zinc-400 text-sm truncate max-w-md">
             {step.type === 'click' ? (step.selector || String(step.metadata?.text || '') || 'Element') : null}
-            {step.type === 'input' ? (step.value?.slice(0, 30) || 'Empty') : null}
+            {step.type === 'input' ? (step.redaction ? `$${step.redaction.param}` : (step.value?.slice(0, 30) || 'Empty')) : null}
             {step.type === 'navigation' ? step.url : null}
-            {step.type === 'web3' ? step.web3Method : null}
+            {step.type === 'web3' ? (step.web3Decoded ? `${step.web3Method} · ${step.web3Decoded.protocol} ${step.web3Decoded.functionName}` : step.web3Method) : null}
             {step.type === 'scroll' ? `(${step.scrollX ?? 0}, ${step.scrollY ?? 0})` : null}
+            {step.type === 'hover' ? (String(step.metadata?.text || '') || step.selector || 'Element') : null}
+            {step.type === 'keypress' ? [...(step.modifiers || []), step.key].join('+') : null}
+            {step.type === 'drag' ? (step.drag?.valueAfter !== undefined ? `${step.selector} → ${step.drag.valueAfter}` : step.selector) : null}
+            {step.type === 'assert' && step.assertion
+              ? `${ASSERTION_KIND_LABELS[step.assertion.kind]}${step.assertion.attribute ? ` [${step.assertion.attribute}]` : ''}${step.assertion.expected !== undefined ? `: "${step.assertion.expected}"` : ''}${step.assertion.tolerance !== undefined ? ` ± ${step.assertion.tolerance}` : ''}${step.selector ? ` on ${step.selector}` : ''}`
+              : null}
           </span>
+          {step.comment ? (
+            <span className="ml-2 text-zinc-500 text-xs italic truncate max-w-xs" title={step.comment}>
+              {step.comment}
+            </span>
+          ) : null}
+          {step.framePath?.length ? (
+            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-zinc-800 text-zinc-400" title={step.framePath.join(' → ')}>
+              iframe
+            </span>
+          ) : null}
+          {step.shadowPath?.length ? (
+            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-zinc-800 text-zinc-400" title={step.shadowPath.join(' → ')}>
+              shadow
+            </span>
+          ) : null}
+          {networkRequests.length > 0 ? (
+            <span className="ml-2 flex items-center px-1.5 py-0.5 text-xs rounded bg-zinc-800 text-zinc-400" title="Network requests this step triggered">
+              <Activity className="h-3 w-3 mr-1" />
+              {networkRequests.length}
+            </span>
+          ) : null}
         </div>
 
         <div className="flex items-center space-x-1">
@@ -151,11 +202,14 @@ function StepEditor({
               <option value="navigation">Navigation</option>
               <option value="web3">Web3</option>
               <option value="scroll">Scroll</option>
+              <option value="hover">Hover</option>
+              <option value="keypress">Keypress</option>
+              <option value="drag">Drag</option>
             </select>
           </div>
 
-          {/* Selector (for click/input) */}
-          {(step.type === 'click' || step.type === 'input') && (
+          {/* Selector (for element steps) */}
+          {(step.type === 'click' || step.type === 'input' || step.type === 'hover' || step.type === 'keypress' || step.type === 'drag' || (step.type === 'assert' && step.selector !== undefined)) && (
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-1">
                 Selector
@@ -232,6 +286,53 @@ function StepEditor({
             </>
           )}
 
+          {/* Expected value and tolerance (for assert) */}
+          {step.type === 'assert' && step.assertion?.expected !== undefined && (
+            <div className={step.assertion.kind === 'numberWithin' ? 'grid grid-cols-2 gap-4' : undefined}>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">
+                  Expected{step.assertion.attribute ? ` (${step.assertion.attribute})` : ''}
+                </label>
+                <input
+                  type="text"
+                  value={step.assertion.expected}
+                  onChange={(e) => handleFieldChange('assertion', { ...step.assertion, expected: e.target.value })}
+                  placeholder="Expected value"
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
+                />
+              </div>
+              {step.assertion.kind === 'numberWithin' && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-1">
+                    Tolerance (±)
+                  </label>
+                  <input
+                    type="number"
+                    value={step.assertion.tolerance ?? 0}
+                    onChange={(e) => handleFieldChange('assertion', { ...step.assertion, tolerance: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Key (for keypress) */}
+          {step.type === 'keypress' && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-1">
+                Key
+              </label>
+              <input
+                type="text"
+                value={step.key || ''}
+                onChange={(e) => handleFieldChange('key', e.target.value)}
+                placeholder="Enter, Escape, ArrowDown, etc."
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-400 focus:outline-none focus:border-zinc-500 font-mono text-sm"
+              />
+            </div>
+          )}
+
           {/* Scroll Position (for scroll) */}
           {step.type === 'scroll' && (
             <div className="grid grid-cols-2 gap-4">
@@ -260,6 +361,20 @@ function StepEditor({
             </div>
           )}
 
+          {/* Comment (all steps) */}
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-1">
+              Comment
+            </label>
+            <input
+              type="text"
+              value={step.comment || ''}
+              onChange={(e) => handleFieldChange('comment', e.target.value || undefined)}
+              placeholder="Intent for test generation, e.g. use a small amount"
+              className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
+            />
+          </div>
+
           {/* Metadata (optional fields) */}
           {(step.type === 'click' || step.type === 'input') && (
             <div className="pt-4 border-t border-zinc-700">
@@ -318,6 +433,42 @@ function StepEditor({
               </div>
             </div>
           )}
+
+          {/* Network requests this step triggered (read-only) */}
+          {networkRequests.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-1">
+                Network Requests
+              </label>
+              <div className="space-y-1">
+                {networkRequests.map((request) => (
+                  <details key={request.id} className="bg-zinc-800 rounded-lg px-3 py-2 text-xs">
+                    <summary className="flex items-center cursor-pointer text-zinc-300 font-mono">
+                      <span className="w-16 text-zinc-400">{request.method}</span>
+                      <span
+                        className={`w-10 ${request.error || (request.status ?? 0) >= 400 ? 'text-red-400' : 'text-green-400'}`}
+                      >
+                        {request.error ? 'ERR' : request.status ?? '—'}
+                      </span>
+                      <span className="flex-1 truncate" title={request.url}>
+                        {request.rpcMethod ? `${request.rpcMethod} · ` : ''}{request.url}
+                      </span>
+                      {request.durationMs !== undefined && (
+                        <span className="ml-2 text-zinc-500">{request.durationMs}ms</span>
+                      )}
+                    </summary>
+                    {request.error && <p className="mt-2 text-red-400">{request.error}</p>}
+                    {request.requestBody && (
+                      <pre className="mt-2 p-2 bg-zinc-900 rounded text-zinc-400 whitespace-pre-wrap break-all">{request.requestBody}</pre>
+                    )}
+                    {request.responseBody && (
+                      <pre className="mt-2 p-2 bg-zinc-900 rounded text-zinc-400 whitespace-pre-wrap break-all">{request.responseBody}</pre>
+                    )}
+                  </details>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -341,6 +492,7 @@ export default function RecordingDetailPage() {
 
   // Get the steps to display (edited or original)
   const steps = editedSteps ?? (recording?.jsonData?.steps || []);
+  const networkRequests = recording?.jsonData?.networkRequests || [];
 
   // Initialize edited steps when recording loads
   const initializeSteps = useCallback(() => {
@@ -359,6 +511,7 @@ export default function RecordingDetailPage() {
       api.updateRecording(id, params),
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['recording', id] });
+      queryClient.invalidateQueries({ queryKey: ['recordingLint', id] });
       queryClient.invalidateQueries({ queryKey: ['testSpecs'] });
       setHasChanges(false);
       if (result.testSpec) {
@@ -374,6 +527,13 @@ export default function RecordingDetailPage() {
     },
   });
 
+  const segmentMutation = useMutation({
+    mutationFn: () => api.generateSegmentSpecs(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['testSpecs'] });
+    },
+  });
+
   // Step manipulation handlers
   const handleUpdateStep = (index: number, updatedStep: RecordingStep) => {
     if (!editedSteps) return;
@@ -500,6 +660,15 @@ export default function RecordingDetailPage() {
             <RefreshCw className={`h-4 w-4 mr-2 ${regenerateMutation.isPending ? 'animate-spin' : ''}`} />
             Regenerate
           </button>
+          <button
+            onClick={() => segmentMutation.mutate()}
+            disabled={segmentMutation.isPending || hasChanges}
+            className="flex items-center px-4 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+            title={hasChanges ? 'Save changes first' : 'Generate one spec per logical segment (connect, approve, deposit, ...)'}
+          >
+            <Scissors className={`h-4 w-4 mr-2 ${segmentMutation.isPending ? 'animate-pulse' : ''}`} />
+            Split into Segments
+          </button>
         </div>
       </div>
 
@@ -545,6 +714,44 @@ export default function RecordingDetailPage() {
         </div>
       )}
 
+      {segmentMutation.isSuccess && (
+        <div className="mb-6 p-4 bg-zinc-900 border border-zinc-800 rounded-lg text-sm">
+          <div className="flex items-center mb-2">
+            <Scissors className="h-4 w-4 text-zinc-400 mr-2" />
+            <span className="text-white">{segmentMutation.data.segments.length} segment specs</span>
+          </div>
+          <ul className="space-y-1">
+            {segmentMutation.data.segments.map((segment) => (
+              <li key={segment.segmentKey} className="flex items-center gap-2">
+                {segment.testSpecId ? (
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                )}
+                {segment.testSpecId ? (
+                  <Link href={`/tests/${segment.testSpecId}`} className="text-white hover:underline">
+                    {segment.segmentKey}
+                  </Link>
+                ) : (
+                  <span className="text-zinc-300">{segment.segmentKey}</span>
+                )}
+                <span className="text-zinc-500">steps {segment.startIndex}-{segment.endIndex}</span>
+                {segment.errors.length > 0 && <span className="text-red-400">{segment.errors[0]}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {segmentMutation.isError && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-500 mr-2" />
+          <span className="text-red-400">
+            Failed to split recording: {(segmentMutation.error as Error).message}
+          </span>
+        </div>
+      )}
+
       {/* Recording Info */}
       <div className="mb-6 p-4 bg-zinc-900 rounded-lg border border-zinc-800">
         <div className="grid grid-cols-2 gap-4 text-sm">
@@ -566,6 +773,13 @@ export default function RecordingDetailPage() {
         </div>
       </div>
 
+      {/* Pre-translation quality report */}
+      <RecordingLint
+        recordingId={id}
+        disabled={hasChanges}
+        onFixed={() => setEditedSteps(null)}
+      />
+
       {/* Steps List */}
       <div className="space-y-3">
         <div className="flex items-center justify-between mb-4">
@@ -598,6 +812,7 @@ export default function RecordingDetailPage() {
                 key={step.id || index}
                 step={step}
                 index={index}
+                networkRequests={networkRequests.filter((r) => r.stepId && r.stepId === step.id)}
                 onUpdate={handleUpdateStep}
                 onDelete={handleDeleteStep}
                 onMoveUp={handleMoveUp}
@@ -254,6 +254,9 @@ function RunCard({ run, testSpecId }: { run: TestRun; testSpecId: string | null
           <h3 className="text-sm font-medium text-white truncate">
             {run.recordingName || `Run #${run.id.slice(0, 8)}`}
           </h3>
+          {run.datasetName && (
+            <span className="text-xs px-1.5 py-0 rounded bg-zinc-800 text-zinc-400">{run.datasetName}</span>
+          )}
           {run.headless && (
             <span className="text-xs px-1.5 py-0 rounded bg-zinc-800 text-zinc-500">headless</span>
           )}
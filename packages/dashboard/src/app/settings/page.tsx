@@ -2,19 +2,17 @@
 
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { api, type Permission } from '@/lib/api';
 import { Key, Plus, Trash2, Copy, CheckCircle, XCircle, Loader2, Server, AlertTriangle } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
+import { OrganizationMembers } from '@/components/organization-members';
 
-interface ApiKey {
-  id: string;
-  name: string;
-  keyPrefix: string;
-  lastUsedAt: string | null;
-  createdAt: string;
-  expiresAt: string | null;
-  isExpired: boolean;
-}
+const KEY_PERMISSIONS: Array<{ permission: Permission; label: string }> = [
+  { permission: 'read', label: 'Read' },
+  { permission: 'write', label: 'Write' },
+  { permission: 'execute', label: 'Run tests' },
+  { permission: 'admin', label: 'Admin' },
+];
 
 // Delete All Button Component
 function DeleteAllButton({
@@ -100,17 +98,22 @@ export default function SettingsPage() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyExpiry, setNewKeyExpiry] = useState('');
+  // The extension needs read (projects, groups) and write (uploads)
+  const [newKeyPermissions, setNewKeyPermissions] = useState<Permission[]>(['read', 'write']);
   const [createdKey, setCreatedKey] = useState<string | null>(null);
   const [copiedKey, setCopiedKey] = useState(false);
 
+  const { data: me } = useQuery({
+    queryKey: ['me'],
+    queryFn: () => api.getMe(),
+  });
+  const isAdmin = me?.permissions.includes('admin') ?? false;
+
   // Fetch API keys
   const { data: apiKeysData, isLoading: keysLoading } = useQuery({
-    queryKey: ['apiKeys'],
-    queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/api-keys`);
-      if (!response.ok) throw new Error('Failed to fetch API keys');
-      return response.json() as Promise<{ keys: ApiKey[] }>;
-    },
+    queryKey: ['apiKeys', me?.organization.id],
+    queryFn: () => api.getApiKeys(),
+    enabled: isAdmin,
   });
 
   // Fetch container status
@@ -122,15 +125,7 @@ export default function SettingsPage() {
 
   // Create API key mutation
   const createKeyMutation = useMutation({
-    mutationFn: async (params: { name: string; expiresInDays?: number }) => {
-      const response = await fetch(`${apiUrl}/api/api-keys`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(params),
-      });
-      if (!response.ok) throw new Error('Failed to create API key');
-      return response.json();
-    },
+    mutationFn: (params: { name: string; permissions: Permission[]; expiresInDays?: number }) => api.createApiKey(params),
     onSuccess: (data) => {
       setCreatedKey(data.key);
       setNewKeyName('');
@@ -141,12 +136,7 @@ export default function SettingsPage() {
 
   // Delete API key mutation
   const deleteKeyMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const response = await fetch(`${apiUrl}/api/api-keys/${id}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) throw new Error('Failed to delete API key');
-    },
+    mutationFn: (id: string) => api.deleteApiKey(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
     },
@@ -155,7 +145,13 @@ export default function SettingsPage() {
   const handleCreateKey = () => {
     if (!newKeyName.trim()) return;
     const expiresInDays = newKeyExpiry ? parseInt(newKeyExpiry, 10) : undefined;
-    createKeyMutation.mutate({ name: newKeyName.trim(), expiresInDays });
+    createKeyMutation.mutate({ name: newKeyName.trim(), permissions: newKeyPermissions, expiresInDays });
+  };
+
+  const toggleKeyPermission = (permission: Permission) => {
+    setNewKeyPermissions((current) =>
+      current.includes(permission) ? current.filter((p) => p !== permission) : [...current, permission]
+    );
   };
 
   const handleCopyKey = () => {
@@ -171,132 +167,153 @@ export default function SettingsPage() {
       <h1 className="text-2xl font-bold text-white mb-8">Settings</h1>
 
       <div className="max-w-3xl space-y-6">
-        {/* API Keys for Extension */}
-        <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-6">
-          <div className="flex items-center mb-4">
-            <Key className="h-5 w-5 text-zinc-300 mr-2" />
-            <h2 className="text-lg font-medium text-white">
-              API Keys
-            </h2>
-          </div>
-          <p className="text-sm text-zinc-400 mb-4">
-            Create API keys to authenticate the browser extension when uploading recordings.
-          </p>
+        {me && <OrganizationMembers me={me} />}
 
-          {/* Create new key form */}
-          <div className="bg-zinc-800/50 rounded-lg p-4 mb-4">
-            <div className="flex gap-3">
-              <input
-                type="text"
-                placeholder="Key name (e.g., My Extension)"
-                value={newKeyName}
-                onChange={(e) => setNewKeyName(e.target.value)}
-                className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
-              />
-              <select
-                value={newKeyExpiry}
-                onChange={(e) => setNewKeyExpiry(e.target.value)}
-                className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:border-zinc-500"
-              >
-                <option value="">Never expires</option>
-                <option value="30">30 days</option>
-                <option value="90">90 days</option>
-                <option value="365">1 year</option>
-              </select>
-              <button
-                onClick={handleCreateKey}
-                disabled={!newKeyName.trim() || createKeyMutation.isPending}
-                className="px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
-              >
-                {createKeyMutation.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <>
-                    <Plus className="h-4 w-4 mr-1" />
-                    Create
-                  </>
-                )}
-              </button>
+        {/* API Keys for the extension and CI */}
+        {isAdmin && (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-6">
+            <div className="flex items-center mb-4">
+              <Key className="h-5 w-5 text-zinc-300 mr-2" />
+              <h2 className="text-lg font-medium text-white">
+                API Keys
+              </h2>
             </div>
-          </div>
+            <p className="text-sm text-zinc-400 mb-4">
+              Create API keys for the browser extension and CI. Keys act in this organisation with the permissions you pick.
+            </p>
 
-          {/* Show newly created key */}
-          {createdKey && (
-            <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 mb-4">
-              <p className="text-sm text-green-400 mb-2 flex items-center">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                API key created! Copy it now - you won't be able to see it again.
-              </p>
-              <div className="flex items-center gap-2">
-                <code className="flex-1 bg-zinc-950 px-3 py-2 rounded text-sm text-zinc-300 font-mono overflow-x-auto">
-                  {createdKey}
-                </code>
+            {/* Create new key form */}
+            <div className="bg-zinc-800/50 rounded-lg p-4 mb-4">
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  placeholder="Key name (e.g., My Extension)"
+                  value={newKeyName}
+                  onChange={(e) => setNewKeyName(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
+                />
+                <select
+                  value={newKeyExpiry}
+                  onChange={(e) => setNewKeyExpiry(e.target.value)}
+                  className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:border-zinc-500"
+                >
+                  <option value="">Never expires</option>
+                  <option value="30">30 days</option>
+                  <option value="90">90 days</option>
+                  <option value="365">1 year</option>
+                </select>
                 <button
-                  onClick={handleCopyKey}
-                  className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
+                  onClick={handleCreateKey}
+                  disabled={!newKeyName.trim() || newKeyPermissions.length === 0 || createKeyMutation.isPending}
+                  className="px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
                 >
-                  {copiedKey ? (
-                    <CheckCircle className="h-4 w-4 text-green-400" />
+                  {createKeyMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
                   ) : (
-                    <Copy className="h-4 w-4 text-zinc-400" />
+                    <>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Create
+                    </>
                   )}
                 </button>
               </div>
-              <button
-                onClick={() => setCreatedKey(null)}
-                className="mt-2 text-xs text-zinc-400 hover:text-white"
-              >
-                Dismiss
-              </button>
+              <div className="flex items-center gap-4 mt-3">
+                {KEY_PERMISSIONS.map(({ permission, label }) => (
+                  <label key={permission} className="flex items-center text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={newKeyPermissions.includes(permission)}
+                      onChange={() => toggleKeyPermission(permission)}
+                      className="rounded bg-zinc-800 border-zinc-700 text-white focus:ring-zinc-500"
+                    />
+                    <span className="ml-2">{label}</span>
+                  </label>
+                ))}
+              </div>
+              {createKeyMutation.isError && (
+                <p className="text-sm text-red-400 mt-2">{(createKeyMutation.error as Error).message}</p>
+              )}
             </div>
-          )}
 
-          {/* Existing keys list */}
-          {keysLoading ? (
-            <div className="text-center py-4 text-zinc-400">
-              <Loader2 className="h-5 w-5 animate-spin mx-auto" />
-            </div>
-          ) : apiKeysData?.keys && apiKeysData.keys.length > 0 ? (
-            <div className="space-y-2">
-              {apiKeysData.keys.map((key) => (
-                <div
-                  key={key.id}
-                  className={`flex items-center justify-between p-3 rounded-lg ${
-                    key.isExpired ? 'bg-red-500/10 border border-red-500/30' : 'bg-zinc-800/50'
-                  }`}
-                >
-                  <div>
-                    <div className="flex items-center">
-                      <span className="text-white font-medium">{key.name}</span>
-                      {key.isExpired && (
-                        <span className="ml-2 px-2 py-0.5 bg-red-500/20 text-red-400 text-xs rounded">
-                          Expired
-                        </span>
-                      )}
-                    </div>
-                    <div className="text-xs text-zinc-400 mt-1">
-                      <code className="bg-zinc-900 px-1 rounded">{key.keyPrefix}...</code>
-                      {key.lastUsedAt && ` • Last used ${formatDate(key.lastUsedAt)}`}
-                      {key.expiresAt && ` • Expires ${formatDate(key.expiresAt)}`}
-                    </div>
-                  </div>
+            {/* Show newly created key */}
+            {createdKey && (
+              <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 mb-4">
+                <p className="text-sm text-green-400 mb-2 flex items-center">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  API key created! Copy it now - you won't be able to see it again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 bg-zinc-950 px-3 py-2 rounded text-sm text-zinc-300 font-mono overflow-x-auto">
+                    {createdKey}
+                  </code>
                   <button
-                    onClick={() => deleteKeyMutation.mutate(key.id)}
-                    disabled={deleteKeyMutation.isPending}
-                    className="p-2 text-zinc-400 hover:text-red-400 transition-colors"
-                    title="Revoke key"
+                    onClick={handleCopyKey}
+                    className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors"
                   >
-                    <Trash2 className="h-4 w-4" />
+                    {copiedKey ? (
+                      <CheckCircle className="h-4 w-4 text-green-400" />
+                    ) : (
+                      <Copy className="h-4 w-4 text-zinc-400" />
+                    )}
                   </button>
                 </div>
-              ))}
-            </div>
-          ) : (
-            <p className="text-center text-zinc-400 py-4">
-              No API keys created yet
-            </p>
-          )}
-        </div>
+                <button
+                  onClick={() => setCreatedKey(null)}
+                  className="mt-2 text-xs text-zinc-400 hover:text-white"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+
+            {/* Existing keys list */}
+            {keysLoading ? (
+              <div className="text-center py-4 text-zinc-400">
+                <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+              </div>
+            ) : apiKeysData?.keys && apiKeysData.keys.length > 0 ? (
+              <div className="space-y-2">
+                {apiKeysData.keys.map((key) => (
+                  <div
+                    key={key.id}
+                    className={`flex items-center justify-between p-3 rounded-lg ${
+                      key.isExpired ? 'bg-red-500/10 border border-red-500/30' : 'bg-zinc-800/50'
+                    }`}
+                  >
+                    <div>
+                      <div className="flex items-center">
+                        <span className="text-white font-medium">{key.name}</span>
+                        {key.isExpired && (
+                          <span className="ml-2 px-2 py-0.5 bg-red-500/20 text-red-400 text-xs rounded">
+                            Expired
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-zinc-400 mt-1">
+                        <code className="bg-zinc-900 px-1 rounded">{key.keyPrefix}...</code>
+                        {` • ${key.permissions.join(', ') || 'no permissions'}`}
+                        {key.lastUsedAt && ` • Last used ${formatDate(key.lastUsedAt)}`}
+                        {key.expiresAt && ` • Expires ${formatDate(key.expiresAt)}`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => deleteKeyMutation.mutate(key.id)}
+                      disabled={deleteKeyMutation.isPending}
+                      className="p-2 text-zinc-400 hover:text-red-400 transition-colors"
+                      title="Revoke key"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-zinc-400 py-4">
+                No API keys created yet
+              </p>
+            )}
+          </div>
+        )}
 
         {/* Container Pool Status */}
         <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-6">
@@ -409,35 +426,37 @@ export default function SettingsPage() {
         </div>
 
         {/* Danger Zone - Delete All */}
-        <div className="bg-zinc-900 rounded-lg border border-red-500/30 p-6">
-          <h2 className="text-lg font-medium text-red-400 mb-4">
-            Danger Zone
-          </h2>
-          <p className="text-sm text-zinc-400 mb-4">
-            These actions are irreversible. All associated data will be permanently deleted.
-          </p>
-
-          <div className="space-y-3">
-            <DeleteAllButton
-              label="Delete All Test Runs"
-              description="Remove all test runs and their artifacts"
-              onDelete={() => api.deleteAllTestRuns()}
-              queryKey="testRuns"
-            />
-            <DeleteAllButton
-              label="Delete All Test Specs"
-              description="Remove all test specs and their runs"
-              onDelete={() => api.deleteAllTestSpecs()}
-              queryKey="testSpecs"
-            />
-            <DeleteAllButton
-              label="Delete All Recordings"
-              description="Remove all recordings, specs, and runs"
-              onDelete={() => api.deleteAllRecordings()}
-              queryKey="recordings"
-            />
+        {isAdmin && (
+          <div className="bg-zinc-900 rounded-lg border border-red-500/30 p-6">
+            <h2 className="text-lg font-medium text-red-400 mb-4">
+              Danger Zone
+            </h2>
+            <p className="text-sm text-zinc-400 mb-4">
+              These actions are irreversible. All associated data will be permanently deleted.
+            </p>
+
+            <div className="space-y-3">
+              <DeleteAllButton
+                label="Delete All Test Runs"
+                description="Remove all test runs and their artifacts"
+                onDelete={() => api.deleteAllTestRuns()}
+                queryKey="testRuns"
+              />
+              <DeleteAllButton
+                label="Delete All Test Specs"
+                description="Remove all test specs and their runs"
+                onDelete={() => api.deleteAllTestSpecs()}
+                queryKey="testSpecs"
+              />
+              <DeleteAllButton
+                label="Delete All Recordings"
+                description="Remove all recordings, specs, and runs"
+                onDelete={() => api.deleteAllRecordings()}
+                queryKey="recordings"
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* About */}
         <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-6">
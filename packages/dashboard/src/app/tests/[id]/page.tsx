@@ -11,11 +11,13 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
+  Table,
 } from 'lucide-react';
 import Link from 'next/link';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { ExecutionOptions, type ExecutionMode } from '@/components/execution-options';
+import { SpecExport } from '@/components/spec-export';
 
 export default function TestSpecPage() {
   const params = useParams();
@@ -57,6 +59,13 @@ export default function TestSpecPage() {
     },
   });
 
+  const matrixMutation = useMutation({
+    mutationFn: () => api.createMatrixRun(id),
+    onSuccess: () => {
+      router.push(`/runs?testSpecId=${id}`);
+    },
+  });
+
   const handleRunTest = (mode: ExecutionMode) => {
     runMutation.mutate(mode);
   };
@@ -140,6 +149,7 @@ export default function TestSpecPage() {
                   'Validate'
                 )}
               </button>
+              <SpecExport specId={spec.id} />
               <button
                 onClick={handleEdit}
                 className="px-4 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors"
@@ -191,6 +201,26 @@ export default function TestSpecPage() {
             isRunning={runMutation.isPending}
             disabled={spec.status === 'DRAFT'}
           />
+          {spec.datasets && spec.datasets.length > 0 && (
+            <div className="mt-3 flex items-center gap-3">
+              <button
+                onClick={() => matrixMutation.mutate()}
+                disabled={matrixMutation.isPending || spec.status === 'DRAFT'}
+                className="flex items-center px-4 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+              >
+                {matrixMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Table className="h-4 w-4 mr-2" />
+                )}
+                Run all datasets ({spec.datasets.length})
+              </button>
+              <span className="text-sm text-zinc-400">{spec.datasets.join(', ')}</span>
+            </div>
+          )}
+          {matrixMutation.error && (
+            <p className="mt-2 text-sm text-red-400">{(matrixMutation.error as Error).message}</p>
+          )}
           {spec.status === 'DRAFT' && (
             <p className="mt-2 text-sm text-amber-400">
               Test is in DRAFT status. Please add code before running.
@@ -1,7 +1,7 @@
 'use client';
 
 import { useQuery } from '@tanstack/react-query';
-import { api, type TestSpec } from '@/lib/api';
+import { api, type TestSpec, type RunMatrix } from '@/lib/api';
 import { formatDate } from '@/lib/utils';
 import { FileCode, Play, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import Link from 'next/link';
@@ -77,11 +77,21 @@ function TestSpecCard({ spec }: { spec: TestSpec }) {
               {spec.status}
             </span>
             <span className="text-sm text-zinc-400">v{spec.version}</span>
+            {spec.segmentKey && (
+              <span
+                className="px-2 py-1 rounded text-xs bg-zinc-800 text-zinc-300"
+                title={spec.dependsOnId ? `Depends on spec ${spec.dependsOnId.slice(0, 8)}` : 'Independent segment'}
+              >
+                segment {(spec.segmentIndex ?? 0) + 1}: {spec.segmentKey}
+              </span>
+            )}
           </div>
 
           <p className="text-xs text-zinc-500 mt-2">
             Updated {formatDate(spec.updatedAt)}
           </p>
+
+          {spec.latestMatrix && <MatrixResults matrix={spec.latestMatrix} />}
         </div>
 
         <div className="flex items-center space-x-2">
@@ -110,3 +120,32 @@ function TestSpecCard({ spec }: { spec: TestSpec }) {
     </div>
   );
 }
+
+function MatrixResults({ matrix }: { matrix: RunMatrix }) {
+  const statusColor: Record<string, string> = {
+    PASSED: 'bg-green-500/10 text-green-400',
+    FAILED: 'bg-red-500/10 text-red-400',
+    TIMEOUT: 'bg-orange-500/10 text-orange-400',
+    RUNNING: 'bg-blue-500/10 text-blue-400',
+  };
+  const passed = matrix.runs.filter((r) => r.status === 'PASSED').length;
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-zinc-400 mb-1.5">
+        Datasets: {passed}/{matrix.runs.length} passed • {formatDate(matrix.createdAt)}
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {matrix.runs.map((run) => (
+          <Link
+            key={run.id}
+            href={`/runs/${run.id}`}
+            className={`px-2 py-0.5 rounded text-xs hover:opacity-80 ${statusColor[run.status] || 'bg-zinc-500/10 text-zinc-400'}`}
+          >
+            {run.datasetName}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
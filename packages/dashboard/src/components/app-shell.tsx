@@ -0,0 +1,43 @@
+'use client';
+
+import { usePathname } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { Sidebar } from '@/components/sidebar';
+import { Loader2 } from 'lucide-react';
+
+/**
+ * Page frame with the sidebar, shown once the session is confirmed. Requests without a
+ * session send the browser to /login (see ApiClient.request).
+ */
+export function AppShell({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+
+  const { data: me } = useQuery({
+    queryKey: ['me'],
+    queryFn: () => api.getMe(),
+    retry: false,
+    enabled: pathname !== '/login',
+  });
+
+  if (pathname === '/login') {
+    return <>{children}</>;
+  }
+
+  if (!me) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-zinc-950">
+        <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen bg-zinc-950">
+      <Sidebar me={me} />
+      <main className="flex-1 overflow-auto">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type KnowledgeEntry, type KnowledgeKind } from '@/lib/api';
+import { Loader2, Lightbulb, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface KnowledgeBaseProps {
+  projectId: string;
+}
+
+const KIND_LABELS: Record<KnowledgeKind, string> = {
+  selector_fix: 'Selector fix',
+  obstacle: 'Obstacle',
+  connection_flow: 'Connection flow',
+};
+
+const SOURCE_LABELS: Record<KnowledgeEntry['source'], string> = {
+  agent_patch: 'agent patch',
+  self_heal: 'self-heal',
+  connection_run: 'connection run',
+};
+
+/**
+ * Fixes learned from the project's passing runs. Generation reuses them for recordings of
+ * the same dApp; deleting an entry stops that.
+ */
+export function KnowledgeBase({ projectId }: KnowledgeBaseProps) {
+  const [kind, setKind] = useState<KnowledgeKind | ''>('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['knowledge', projectId, kind],
+    queryFn: () => api.getKnowledge(projectId, kind || undefined),
+  });
+
+  const entries = data?.entries || [];
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg mb-6">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-white flex items-center gap-2">
+          <Lightbulb className="h-4 w-4 text-zinc-400" />
+          Learned Knowledge
+        </h2>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as KnowledgeKind | '')}
+          className="px-2 py-1 bg-zinc-950 border border-zinc-800 rounded text-xs text-white"
+        >
+          <option value="">All kinds</option>
+          {(Object.keys(KIND_LABELS) as KnowledgeKind[]).map((k) => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="divide-y divide-zinc-800">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-6 text-center text-zinc-500 text-sm">
+            Nothing learned yet. Selector fixes, dismissed overlays and connection flows from passing runs show up here.
+          </div>
+        ) : (
+          entries.map((entry) => <KnowledgeRow key={entry.id} entry={entry} projectId={projectId} />)
+        )}
+      </div>
+    </div>
+  );
+}
+
+function KnowledgeRow({ entry, projectId }: { entry: KnowledgeEntry; projectId: string }) {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState(false);
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteKnowledgeEntry(entry.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge', projectId] });
+    },
+  });
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 min-w-0 text-left"
+        >
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 text-zinc-500 shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-zinc-500 shrink-0" />
+          )}
+          <span className="px-1.5 py-0.5 text-xs rounded bg-zinc-800 text-zinc-300 shrink-0">
+            {KIND_LABELS[entry.kind]}
+          </span>
+          <span className="text-sm text-white truncate">{entry.summary}</span>
+        </button>
+        <div className="flex items-center gap-3 shrink-0">
+          <span className="text-xs text-zinc-500">{entry.domain}</span>
+          <span className="text-xs text-zinc-500" title={`Learned from ${SOURCE_LABELS[entry.source]}`}>
+            {entry.hits}x
+          </span>
+          <button
+            onClick={() => {
+              if (confirm('Delete this entry? Generation stops using it.')) deleteMutation.mutate();
+            }}
+            disabled={deleteMutation.isPending}
+            className="text-zinc-400 hover:text-red-400 disabled:opacity-50"
+            title="Delete entry"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {entry.before && (
+            <div>
+              <p className="text-xs text-zinc-500 mb-1">Failed</p>
+              <pre className="p-2 bg-zinc-950 rounded text-xs font-mono text-red-300/80 overflow-x-auto">{entry.before}</pre>
+            </div>
+          )}
+          <div>
+            {entry.before && <p className="text-xs text-zinc-500 mb-1">Passed</p>}
+            <pre className="p-2 bg-zinc-950 rounded text-xs font-mono text-zinc-300 overflow-x-auto">{entry.after}</pre>
+          </div>
+          <p className="text-xs text-zinc-600">
+            Learned from {SOURCE_LABELS[entry.source]} · last confirmed {new Date(entry.updatedAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+
+      {deleteMutation.isError && (
+        <p className="text-xs text-red-400 mt-1">{(deleteMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
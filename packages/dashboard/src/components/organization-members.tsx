@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type Me, type Role } from '@/lib/api';
+import { Loader2, Users, Plus, Trash2 } from 'lucide-react';
+
+const ROLES: Array<{ role: Role; label: string }> = [
+  { role: 'VIEWER', label: 'Viewer' },
+  { role: 'EDITOR', label: 'Editor' },
+  { role: 'ADMIN', label: 'Admin' },
+];
+
+/**
+ * Members of the current organisation. Admins add members (creating the account when the
+ * email is new), change roles and remove members.
+ */
+export function OrganizationMembers({ me }: { me: Me }) {
+  const queryClient = useQueryClient();
+  const isAdmin = me.permissions.includes('admin');
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('EDITOR');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['members', me.organization.id],
+    queryFn: () => api.getMembers(),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['members', me.organization.id] });
+
+  const addMutation = useMutation({
+    mutationFn: () => api.addMember({ email: email.trim(), password, role }),
+    onSuccess: () => {
+      setEmail('');
+      setPassword('');
+      invalidate();
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: (params: { userId: string; role: Role }) => api.updateMemberRole(params.userId, params.role),
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) => api.removeMember(userId),
+    onSuccess: invalidate,
+  });
+
+  const error = addMutation.error || roleMutation.error || removeMutation.error;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-6">
+      <div className="flex items-center mb-4">
+        <Users className="h-5 w-5 text-zinc-300 mr-2" />
+        <h2 className="text-lg font-medium text-white">
+          Members of {me.organization.name}
+        </h2>
+      </div>
+      <p className="text-sm text-zinc-400 mb-4">
+        Viewers can read everything, editors can also change recordings, specs and projects and start runs,
+        admins can also manage members and API keys.
+      </p>
+
+      {isAdmin && (
+        <div className="bg-zinc-800/50 rounded-lg p-4 mb-4">
+          <div className="flex gap-3">
+            <input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
+            />
+            <input
+              type="password"
+              placeholder="Password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm placeholder-zinc-400 focus:outline-none focus:border-zinc-500"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:border-zinc-500"
+            >
+              {ROLES.map((r) => (
+                <option key={r.role} value={r.role}>{r.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => addMutation.mutate()}
+              disabled={!email.trim() || !password || addMutation.isPending}
+              className="px-4 py-2 bg-white text-black rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+            >
+              {addMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400 mb-3">{(error as Error).message}</p>}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-zinc-400">
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {data?.members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between p-3 rounded-lg bg-zinc-800/50">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">
+                  {member.name || member.email}
+                  {member.userId === me.user?.id && <span className="ml-2 text-xs text-zinc-500">(you)</span>}
+                </p>
+                {member.name && <p className="text-xs text-zinc-400 truncate">{member.email}</p>}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {isAdmin ? (
+                  <>
+                    <select
+                      value={member.role}
+                      onChange={(e) => roleMutation.mutate({ userId: member.userId, role: e.target.value as Role })}
+                      disabled={roleMutation.isPending}
+                      className="px-2 py-1 bg-zinc-900 border border-zinc-700 rounded text-xs text-white"
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r.role} value={r.role}>{r.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Remove ${member.email} from ${me.organization.name}?`)) removeMutation.mutate(member.userId);
+                      }}
+                      disabled={removeMutation.isPending}
+                      className="p-2 text-zinc-400 hover:text-red-400 transition-colors"
+                      title="Remove member"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-zinc-400">
+                    {ROLES.find((r) => r.role === member.role)?.label}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type Webhook, type WebhookDelivery, type WebhookEvent } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Loader2, Webhook as WebhookIcon, Trash2, ChevronDown, ChevronRight, Plus, Send, Copy, Check } from 'lucide-react';
+
+interface ProjectWebhooksProps {
+  projectId: string;
+  /** Admins can add, edit and delete webhooks; everyone else can send test events */
+  canManage: boolean;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'run.started': 'Run started',
+  'run.passed': 'Run passed',
+  'run.failed': 'Run failed',
+  'suite.completed': 'Suite completed',
+  'spec.healed': 'Spec healed',
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  PENDING: 'bg-yellow-500/10 text-yellow-400',
+  SUCCEEDED: 'bg-green-500/10 text-green-400',
+  FAILED: 'bg-red-500/10 text-red-400',
+};
+
+/**
+ * URLs that receive signed POSTs for the project's run, suite and self-heal events, with
+ * each webhook's delivery log.
+ */
+export function ProjectWebhooks({ projectId, canManage }: ProjectWebhooksProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery({
+    queryKey: ['webhooks', projectId],
+    queryFn: () => api.getWebhooks(projectId),
+  });
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg mb-6">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-white flex items-center gap-2">
+          <WebhookIcon className="h-4 w-4 text-zinc-400" />
+          Webhooks
+        </h2>
+        {canManage && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center text-xs text-zinc-400 hover:text-white"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add Webhook
+          </button>
+        )}
+      </div>
+
+      {createdSecret && (
+        <SecretNotice secret={createdSecret} onDismiss={() => setCreatedSecret(null)} />
+      )}
+
+      {showForm && (
+        <WebhookForm
+          projectId={projectId}
+          onCreated={(secret) => {
+            setShowForm(false);
+            setCreatedSecret(secret);
+          }}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      <div className="divide-y divide-zinc-800">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <div className="p-6 text-center text-zinc-500 text-sm">
+            No webhooks yet. Add one to get run results, suite summaries and self-heals posted to your own service.
+          </div>
+        ) : (
+          webhooks.map((webhook) => (
+            <WebhookRow key={webhook.id} webhook={webhook} projectId={projectId} canManage={canManage} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SecretNotice({ secret, onDismiss }: { secret: string; onDismiss: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="p-4 border-b border-zinc-800 bg-zinc-950/50">
+      <p className="text-xs text-zinc-400 mb-2">
+        Signing secret. Copy it now; it won&apos;t be shown again.
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 px-2 py-1.5 bg-zinc-950 border border-zinc-800 rounded text-xs font-mono text-white truncate">
+          {secret}
+        </code>
+        <button
+          onClick={() => {
+            navigator.clipboard.writeText(secret);
+            setCopied(true);
+          }}
+          className="text-zinc-400 hover:text-white"
+          title="Copy secret"
+        >
+          {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+        </button>
+        <button onClick={onDismiss} className="text-xs text-zinc-400 hover:text-white">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function WebhookForm({
+  projectId,
+  onCreated,
+  onCancel,
+}: {
+  projectId: string;
+  onCreated: (secret: string) => void;
+  onCancel: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['run.failed', 'suite.completed']);
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createWebhook({ projectId, url, description: description || undefined, events }),
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks', projectId] });
+      onCreated(webhook.secret);
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(events.includes(event) ? events.filter((e) => e !== event) : [...events, event]);
+  };
+
+  return (
+    <div className="p-4 border-b border-zinc-800 space-y-3">
+      <input
+        type="url"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="https://example.com/hooks/bugdapp"
+        className="w-full px-3 py-1.5 bg-zinc-950 border border-zinc-800 rounded text-sm text-white placeholder-zinc-600"
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description (optional)"
+        className="w-full px-3 py-1.5 bg-zinc-950 border border-zinc-800 rounded text-sm text-white placeholder-zinc-600"
+      />
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map((event) => (
+          <label key={event} className="flex items-center gap-1.5 text-xs text-zinc-300">
+            <input
+              type="checkbox"
+              checked={events.includes(event)}
+              onChange={() => toggleEvent(event)}
+              className="accent-zinc-400"
+            />
+            {EVENT_LABELS[event]}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!url || events.length === 0 || createMutation.isPending}
+          className="px-3 py-1.5 bg-white text-black rounded text-xs font-medium hover:bg-zinc-200 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Adding...' : 'Add Webhook'}
+        </button>
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-white">
+          Cancel
+        </button>
+      </div>
+      {createMutation.isError && (
+        <p className="text-xs text-red-400">{(createMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
+
+function WebhookRow({ webhook, projectId, canManage }: { webhook: Webhook; projectId: string; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['webhooks', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', webhook.id] });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: () => api.updateWebhook(webhook.id, { enabled: !webhook.enabled }),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteWebhook(webhook.id),
+    onSuccess: invalidate,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => api.sendTestWebhook(webhook.id),
+    onSuccess: () => {
+      setExpanded(true);
+      invalidate();
+    },
+  });
+
+  const error = toggleMutation.error || deleteMutation.error || testMutation.error;
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 min-w-0 text-left"
+        >
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 text-zinc-500 shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-zinc-500 shrink-0" />
+          )}
+          <span className={`text-sm font-mono truncate ${webhook.enabled ? 'text-white' : 'text-zinc-500 line-through'}`}>
+            {webhook.url}
+          </span>
+        </button>
+        <div className="flex items-center gap-3 shrink-0">
+          <span className="text-xs text-zinc-500 font-mono" title="Signing secret">{webhook.secretPrefix}…</span>
+          <button
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending || !webhook.enabled}
+            className="text-zinc-400 hover:text-white disabled:opacity-50"
+            title="Send test event"
+          >
+            {testMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </button>
+          {canManage && (
+            <>
+              <button
+                onClick={() => toggleMutation.mutate()}
+                disabled={toggleMutation.isPending}
+                className="text-xs text-zinc-400 hover:text-white disabled:opacity-50"
+              >
+                {webhook.enabled ? 'Disable' : 'Enable'}
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm('Delete this webhook and its delivery log?')) deleteMutation.mutate();
+                }}
+                disabled={deleteMutation.isPending}
+                className="text-zinc-400 hover:text-red-400 disabled:opacity-50"
+                title="Delete webhook"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-1.5 ml-6 flex flex-wrap items-center gap-1.5">
+        {webhook.events.map((event) => (
+          <span key={event} className="px-1.5 py-0.5 text-xs rounded bg-zinc-800 text-zinc-300">
+            {EVENT_LABELS[event] || event}
+          </span>
+        ))}
+        {webhook.description && <span className="text-xs text-zinc-500">{webhook.description}</span>}
+      </div>
+
+      {expanded && <DeliveryLog webhookId={webhook.id} />}
+
+      {error && <p className="text-xs text-red-400 mt-1">{(error as Error).message}</p>}
+    </div>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhookDeliveries', webhookId],
+    queryFn: () => api.getWebhookDeliveries(webhookId),
+    refetchInterval: (query) =>
+      query.state.data?.deliveries.some((d) => d.status === 'PENDING') ? 5000 : false,
+  });
+
+  const deliveries = data?.deliveries || [];
+
+  if (isLoading) {
+    return (
+      <div className="mt-3 flex justify-center">
+        <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="mt-3 ml-6 text-xs text-zinc-500">No deliveries yet.</p>;
+  }
+
+  return (
+    <div className="mt-3 ml-6 border border-zinc-800 rounded divide-y divide-zinc-800">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="px-3 py-2 flex items-center justify-between gap-3 text-xs">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className={`px-1.5 py-0.5 rounded ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+              {delivery.status}
+            </span>
+            <span className="text-zinc-300 font-mono">{delivery.event}</span>
+            {delivery.error && (
+              <span className="text-red-400 truncate" title={delivery.error}>
+                {delivery.error}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-zinc-500 shrink-0">
+            {delivery.responseStatus !== null && <span className="font-mono">{delivery.responseStatus}</span>}
+            <span>{delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}</span>
+            {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+              <span>retry {formatDate(delivery.nextAttemptAt)}</span>
+            )}
+            <span>{formatDate(delivery.deliveredAt || delivery.createdAt)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
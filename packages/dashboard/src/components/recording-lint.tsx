@@ -0,0 +1,116 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type RecordingFinding } from '@/lib/api';
+import { Loader2, ClipboardCheck, AlertCircle, AlertTriangle, Info, Wand2 } from 'lucide-react';
+
+interface RecordingLintProps {
+  recordingId: string;
+  /** Unsaved step edits: fixes rewrite the stored recording, so they wait for a save */
+  disabled?: boolean;
+  onFixed: () => void;
+}
+
+const SEVERITY_ICONS: Record<RecordingFinding['severity'], JSX.Element> = {
+  error: <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0" />,
+  info: <Info className="h-4 w-4 text-zinc-500 shrink-0" />,
+};
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 50) return 'text-amber-400';
+  return 'text-red-400';
+}
+
+/**
+ * Pre-translation quality report for a recording, with one-click cleanups
+ */
+export function RecordingLint({ recordingId, disabled, onFixed }: RecordingLintProps) {
+  const queryClient = useQueryClient();
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['recordingLint', recordingId],
+    queryFn: () => api.getRecordingLint(recordingId),
+  });
+
+  const fixMutation = useMutation({
+    mutationFn: (ids?: string[]) => api.fixRecordingLint(recordingId, ids),
+    onSuccess: async (result) => {
+      queryClient.setQueryData(['recordingLint', recordingId], result.report);
+      // Wait for the refetch so the page re-reads the fixed steps
+      await queryClient.invalidateQueries({ queryKey: ['recording', recordingId] });
+      onFixed();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="mb-6 p-4 bg-zinc-900 rounded-lg border border-zinc-800 flex justify-center">
+        <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const fixable = report.findings.filter((f) => f.fix);
+
+  return (
+    <div className="mb-6 bg-zinc-900 rounded-lg border border-zinc-800">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-white flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4 text-zinc-400" />
+          Recording Quality
+          <span className={`font-semibold ${scoreColor(report.score)}`}>{report.score}/100</span>
+        </h2>
+        {fixable.length > 0 && (
+          <button
+            onClick={() => fixMutation.mutate(undefined)}
+            disabled={disabled || fixMutation.isPending}
+            className="flex items-center text-xs text-zinc-400 hover:text-white transition-colors disabled:opacity-50"
+            title={disabled ? 'Save changes first' : 'Apply every suggested fix'}
+          >
+            <Wand2 className="h-3.5 w-3.5 mr-1" />
+            Fix all ({fixable.length})
+          </button>
+        )}
+      </div>
+
+      {report.findings.length === 0 ? (
+        <div className="p-4 text-sm text-zinc-500">No issues found.</div>
+      ) : (
+        <ul className="divide-y divide-zinc-800">
+          {report.findings.map((finding) => (
+            <li key={finding.id} className="px-4 py-2 flex items-start justify-between gap-4 text-sm">
+              <div className="flex items-start gap-2 min-w-0">
+                {SEVERITY_ICONS[finding.severity]}
+                <div className="min-w-0">
+                  <p className="text-zinc-300">{finding.message}</p>
+                  <p className="text-xs text-zinc-500">
+                    {finding.rule}
+                    {finding.fix && ` · ${finding.fix.description}`}
+                  </p>
+                </div>
+              </div>
+              {finding.fix && (
+                <button
+                  onClick={() => fixMutation.mutate([finding.id])}
+                  disabled={disabled || fixMutation.isPending}
+                  className="px-2 py-1 text-xs bg-zinc-800 text-white rounded hover:bg-zinc-700 transition-colors disabled:opacity-50 shrink-0"
+                  title={disabled ? 'Save changes first' : finding.fix.description}
+                >
+                  Fix
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {fixMutation.isError && (
+        <p className="px-4 pb-3 text-xs text-red-400">{(fixMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { api, type SecretAccess } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Loader2, KeyRound } from 'lucide-react';
+
+interface SeedPhraseAccessProps {
+  projectId: string;
+}
+
+const PURPOSE_LABELS: Record<SecretAccess['purpose'], string> = {
+  test_run: 'Test run',
+  suite_run: 'Suite run',
+  agent_run: 'Agent run',
+  hybrid_run: 'Hybrid run',
+};
+
+/**
+ * Audit trail of the project's seed phrase. It is stored encrypted and only the executor
+ * decrypts it, once per run; each decrypt is listed here.
+ */
+export function SeedPhraseAccess({ projectId }: SeedPhraseAccessProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['secretAccess', projectId],
+    queryFn: () => api.getSecretAccess(projectId),
+  });
+
+  const accesses = data?.accesses || [];
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg mb-6">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-white flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-zinc-400" />
+          Seed Phrase Access
+        </h2>
+        {data && data.total > accesses.length && (
+          <span className="text-xs text-zinc-500">Latest {accesses.length} of {data.total}</span>
+        )}
+      </div>
+
+      <div className="divide-y divide-zinc-800">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+          </div>
+        ) : accesses.length === 0 ? (
+          <div className="p-6 text-center text-zinc-500 text-sm">
+            The seed phrase has not been decrypted yet. Each run that uses the wallet shows up here.
+          </div>
+        ) : (
+          accesses.map((access) => (
+            <div key={access.id} className="px-4 py-2.5 flex items-center justify-between text-sm">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-white">{PURPOSE_LABELS[access.purpose] || access.purpose}</span>
+                {access.runId && (
+                  <Link
+                    href={access.purpose === 'suite_run'
+                      ? `/projects/${projectId}/suite-runs/${access.runId}`
+                      : `/runs/${access.runId}`}
+                    className="text-xs text-zinc-400 hover:text-white font-mono truncate"
+                  >
+                    {access.runId.slice(0, 8)}
+                  </Link>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs text-zinc-500 shrink-0">
+                <span className="font-mono" title="Executor host and process">{access.worker}</span>
+                <span className="font-mono" title="Master key">{access.keyId}</span>
+                <span>{formatDate(access.createdAt)}</span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,15 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Home,
   Settings,
   FolderKanban,
   Activity,
+  LogOut,
 } from 'lucide-react';
+import { api, type Me } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 const navigation = [
@@ -18,8 +21,31 @@ const navigation = [
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
-export function Sidebar() {
+const ROLE_LABELS: Record<NonNullable<Me['role']>, string> = {
+  VIEWER: 'Viewer',
+  EDITOR: 'Editor',
+  ADMIN: 'Admin',
+};
+
+export function Sidebar({ me }: { me: Me }) {
   const pathname = usePathname();
+  const queryClient = useQueryClient();
+
+  const switchMutation = useMutation({
+    mutationFn: (organizationId: string) => api.switchOrganization(organizationId),
+    onSuccess: () => {
+      // Everything on screen belonged to the previous organisation's view
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => api.logout(),
+    onSuccess: () => {
+      queryClient.clear();
+      window.location.href = '/login';
+    },
+  });
 
   return (
     <div className="flex flex-col w-56 bg-zinc-950 border-r border-zinc-800">
@@ -56,7 +82,35 @@ export function Sidebar() {
       </nav>
 
       {/* Footer */}
-      <div className="p-4 border-t border-zinc-800">
+      <div className="p-4 border-t border-zinc-800 space-y-2">
+        {me.organizations.length > 1 ? (
+          <select
+            value={me.organization.id}
+            onChange={(e) => switchMutation.mutate(e.target.value)}
+            disabled={switchMutation.isPending}
+            className="w-full px-2 py-1 bg-zinc-900 border border-zinc-800 rounded text-xs text-white"
+          >
+            {me.organizations.map((org) => (
+              <option key={org.id} value={org.id}>{org.name}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-xs text-zinc-300 truncate">{me.organization.name}</p>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-xs text-zinc-400 truncate">{me.user?.email}</p>
+            {me.role && <p className="text-xs text-zinc-500">{ROLE_LABELS[me.role]}</p>}
+          </div>
+          <button
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            className="text-zinc-500 hover:text-white transition-colors shrink-0"
+            title="Sign out"
+          >
+            <LogOut className="h-4 w-4" />
+          </button>
+        </div>
         <p className="text-xs text-zinc-500">
           v1.0.0
         </p>
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type StepSnippet, type ProjectRecording } from '@/lib/api';
+import { Loader2, Puzzle, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface SnippetLibraryProps {
+  projectId: string;
+  recordings: ProjectRecording[];
+}
+
+/**
+ * Project-level step snippets. Editing a snippet's code bumps its version and rewrites
+ * every spec that uses it.
+ */
+export function SnippetLibrary({ projectId, recordings }: SnippetLibraryProps) {
+  const [creating, setCreating] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['snippets', projectId],
+    queryFn: () => api.getSnippets(projectId),
+  });
+
+  const snippets = data?.snippets || [];
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg mb-6">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-white flex items-center gap-2">
+          <Puzzle className="h-4 w-4 text-zinc-400" />
+          Step Snippets
+        </h2>
+        <button
+          onClick={() => setCreating(true)}
+          disabled={creating || recordings.length === 0}
+          className="flex items-center text-xs text-zinc-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          New Snippet
+        </button>
+      </div>
+
+      {creating && (
+        <CreateSnippetForm projectId={projectId} recordings={recordings} onDone={() => setCreating(false)} />
+      )}
+
+      <div className="divide-y divide-zinc-800">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+          </div>
+        ) : snippets.length === 0 ? (
+          <div className="p-6 text-center text-zinc-500 text-sm">
+            No snippets yet. Shared steps like &quot;open trade panel&quot; are generated once and reused by every spec.
+          </div>
+        ) : (
+          snippets.map((snippet) => <SnippetRow key={snippet.id} snippet={snippet} projectId={projectId} />)
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SnippetRow({ snippet, projectId }: { snippet: StepSnippet; projectId: string }) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [code, setCode] = useState(snippet.code);
+
+  const updateMutation = useMutation({
+    mutationFn: () => api.updateSnippet(snippet.id, { code }),
+    onSuccess: () => {
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['snippets', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteSnippet(snippet.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snippets', projectId] });
+    },
+  });
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-white">{snippet.name}</span>
+          <span className="text-xs text-zinc-500">v{snippet.version}</span>
+          <span className="text-xs text-zinc-500">
+            {snippet.specCount} spec{snippet.specCount !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {editing ? (
+            <>
+              <button
+                onClick={() => updateMutation.mutate()}
+                disabled={updateMutation.isPending || code.trim() === snippet.code}
+                className="text-green-400 hover:text-green-300 disabled:opacity-50"
+                title="Save and roll out to dependent specs"
+              >
+                {updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => {
+                  setCode(snippet.code);
+                  setEditing(false);
+                }}
+                className="text-zinc-400 hover:text-white"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setEditing(true)} className="text-zinc-400 hover:text-white" title="Edit code">
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete snippet "${snippet.name}"? Specs keep its code.`)) deleteMutation.mutate();
+                }}
+                className="text-zinc-400 hover:text-red-400"
+                title="Delete snippet"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-zinc-500 mt-1 font-mono truncate">{snippet.steps.join(' → ')}</p>
+
+      {editing ? (
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          rows={Math.min(12, code.split('\n').length + 1)}
+          className="mt-2 w-full p-2 bg-zinc-950 border border-zinc-800 rounded text-xs font-mono text-zinc-200"
+        />
+      ) : (
+        <pre className="mt-2 p-2 bg-zinc-950 rounded text-xs font-mono text-zinc-300 overflow-x-auto">{snippet.code}</pre>
+      )}
+
+      {updateMutation.isSuccess && (
+        <p className="text-xs text-green-400 mt-1">
+          Rolled out to {updateMutation.data.updatedSpecIds.length} spec{updateMutation.data.updatedSpecIds.length !== 1 ? 's' : ''}
+        </p>
+      )}
+      {updateMutation.isError && (
+        <p className="text-xs text-red-400 mt-1">{(updateMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
+
+function CreateSnippetForm({
+  projectId,
+  recordings,
+  onDone,
+}: {
+  projectId: string;
+  recordings: ProjectRecording[];
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [recordingId, setRecordingId] = useState(recordings[0]?.id || '');
+  const [startIndex, setStartIndex] = useState(0);
+  const [endIndex, setEndIndex] = useState(0);
+  const [code, setCode] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createSnippet({ projectId, name: name.trim(), code, recordingId, startIndex, endIndex }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snippets', projectId] });
+      onDone();
+    },
+  });
+
+  const inputClass = 'px-2 py-1 bg-zinc-950 border border-zinc-800 rounded text-sm text-white';
+
+  return (
+    <div className="p-4 border-b border-zinc-800 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Snippet name, e.g. open trade panel"
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <select value={recordingId} onChange={(e) => setRecordingId(e.target.value)} className={inputClass}>
+          {recordings.map((r) => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+        </select>
+        <label className="text-xs text-zinc-400">steps</label>
+        <input
+          type="number"
+          min={0}
+          value={startIndex}
+          onChange={(e) => setStartIndex(Number(e.target.value))}
+          className={`${inputClass} w-16`}
+        />
+        <span className="text-xs text-zinc-500">to</span>
+        <input
+          type="number"
+          min={startIndex}
+          value={endIndex}
+          onChange={(e) => setEndIndex(Number(e.target.value))}
+          className={`${inputClass} w-16`}
+        />
+      </div>
+      <textarea
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="await page.getByTestId('trade-button').click()"
+        rows={4}
+        className="w-full p-2 bg-zinc-950 border border-zinc-800 rounded text-xs font-mono text-zinc-200"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!name.trim() || !code.trim() || !recordingId || createMutation.isPending}
+          className="px-3 py-1.5 bg-white text-black text-xs rounded hover:bg-zinc-200 transition-colors disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create Snippet'}
+        </button>
+        <button onClick={onDone} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-white">
+          Cancel
+        </button>
+        {createMutation.isError && (
+          <span className="text-xs text-red-400">{(createMutation.error as Error).message}</span>
+        )}
+      </div>
+    </div>
+  );
+}
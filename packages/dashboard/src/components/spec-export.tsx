@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { api, type ExportFormat } from '@/lib/api';
+import { Download, ChevronDown } from 'lucide-react';
+
+interface SpecExportProps {
+  specId: string;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string }> = [
+  { format: 'dappwright', label: 'Playwright + dappwright', description: 'Same fixtures the runner uses' },
+  { format: 'synpress', label: 'Synpress v4', description: 'Wallet calls translated to Synpress' },
+];
+
+/**
+ * Download the spec as a zipped Playwright project that runs outside the platform
+ */
+export function SpecExport({ specId }: SpecExportProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center px-4 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Export
+        <ChevronDown className="h-4 w-4 ml-1 text-zinc-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-zinc-900 border border-zinc-800 rounded-lg shadow-lg z-10 py-1">
+          {FORMATS.map(({ format, label, description }) => (
+            <a
+              key={format}
+              href={api.getTestExportUrl(specId, format)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 hover:bg-zinc-800 transition-colors"
+            >
+              <p className="text-sm text-white">{label}</p>
+              <p className="text-xs text-zinc-500">{description}</p>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, type SuiteSchedule, type SuiteScheduleParams, type TestGroup } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Loader2, Plus, Pause, Play, Pencil, Trash2, CalendarClock } from 'lucide-react';
+
+interface SuiteSchedulesProps {
+  projectId: string;
+  groups: TestGroup[];
+  /** Needs the execute permission to add, change, pause or delete schedules */
+  canEdit: boolean;
+}
+
+const CRON_PRESETS: Array<{ label: string; cron: string }> = [
+  { label: 'Every 15 minutes', cron: '*/15 * * * *' },
+  { label: 'Hourly', cron: '0 * * * *' },
+  { label: 'Daily at 09:00', cron: '0 9 * * *' },
+  { label: 'Weekdays at 09:00', cron: '0 9 * * 1-5' },
+];
+
+function formatInZone(date: string, timeZone: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Cron schedules that start suite runs for the project or one of its groups
+ */
+export function SuiteSchedules({ projectId, groups, canEdit }: SuiteSchedulesProps) {
+  const [editing, setEditing] = useState<SuiteSchedule | 'new' | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['schedules', projectId],
+    queryFn: () => api.getSchedules(projectId),
+    refetchInterval: 60000,
+  });
+
+  return (
+    <div>
+      {editing ? (
+        <ScheduleForm
+          projectId={projectId}
+          groups={groups}
+          schedule={editing === 'new' ? undefined : editing}
+          onDone={() => setEditing(null)}
+        />
+      ) : canEdit && (
+        <div className="px-4 py-2 border-b border-zinc-800 flex justify-end">
+          <button
+            onClick={() => setEditing('new')}
+            className="inline-flex items-center text-xs text-zinc-400 hover:text-white"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add Schedule
+          </button>
+        </div>
+      )}
+
+      <div className="divide-y divide-zinc-800">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-zinc-500" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="p-8 text-center text-zinc-500 text-sm">
+            No schedules yet. Add one to run the suite on a cron expression, e.g. every hour against production.
+          </div>
+        ) : (
+          schedules.map((schedule) => (
+            <ScheduleRow
+              key={schedule.id}
+              schedule={schedule}
+              projectId={projectId}
+              canEdit={canEdit}
+              onEdit={() => setEditing(schedule)}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ScheduleRow({
+  schedule,
+  projectId,
+  canEdit,
+  onEdit,
+}: {
+  schedule: SuiteSchedule;
+  projectId: string;
+  canEdit: boolean;
+  onEdit: () => void;
+}) {
+  const queryClient = useQueryClient();
+
+  const toggleMutation = useMutation({
+    mutationFn: () => (schedule.enabled ? api.pauseSchedule(schedule.id) : api.resumeSchedule(schedule.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules', projectId] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteSchedule(schedule.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules', projectId] });
+    },
+  });
+
+  const error = toggleMutation.error || deleteMutation.error;
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <CalendarClock className={`h-4 w-4 shrink-0 ${schedule.enabled ? 'text-blue-400' : 'text-zinc-600'}`} />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white truncate">
+              {schedule.name}
+              {!schedule.enabled && (
+                <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">Paused</span>
+              )}
+            </p>
+            <p className="text-xs text-zinc-500">
+              <code className="font-mono text-zinc-400">{schedule.cron}</code>
+              {' '}{schedule.timezone}
+              {' · '}{schedule.groupName || 'All tests'}
+              {' · '}{schedule.executionMode}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 shrink-0">
+          <div className="text-right text-xs">
+            {schedule.nextRunAt ? (
+              <p className="text-zinc-300" title={formatDate(schedule.nextRunAt)}>
+                Next: {formatInZone(schedule.nextRunAt, schedule.timezone)}
+              </p>
+            ) : (
+              <p className="text-zinc-500">Not scheduled</p>
+            )}
+            {schedule.lastSuiteRun && (
+              <Link
+                href={`/projects/${projectId}/suite-runs/${schedule.lastSuiteRun.id}`}
+                className="text-zinc-500 hover:text-white"
+              >
+                Last: {schedule.lastSuiteRun.status.toLowerCase()} · {formatDate(schedule.lastSuiteRun.createdAt)}
+              </Link>
+            )}
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => toggleMutation.mutate()}
+                disabled={toggleMutation.isPending}
+                className="text-zinc-400 hover:text-white disabled:opacity-50"
+                title={schedule.enabled ? 'Pause' : 'Resume'}
+              >
+                {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </button>
+              <button onClick={onEdit} className="text-zinc-400 hover:text-white" title="Edit">
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm('Delete this schedule? Its past suite runs are kept.')) deleteMutation.mutate();
+                }}
+                disabled={deleteMutation.isPending}
+                className="text-zinc-400 hover:text-red-400 disabled:opacity-50"
+                title="Delete schedule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-1">{(error as Error).message}</p>}
+    </div>
+  );
+}
+
+function ScheduleForm({
+  projectId,
+  groups,
+  schedule,
+  onDone,
+}: {
+  projectId: string;
+  groups: TestGroup[];
+  schedule?: SuiteSchedule;
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [params, setParams] = useState<SuiteScheduleParams>({
+    name: schedule?.name || '',
+    groupId: schedule?.groupId || null,
+    cron: schedule?.cron || '0 * * * *',
+    timezone: schedule?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    executionMode: schedule?.executionMode || 'SPEC',
+    streamingMode: schedule?.streamingMode || 'NONE',
+    headless: schedule?.headless ?? true,
+  });
+
+  const update = (changes: Partial<SuiteScheduleParams>) => setParams({ ...params, ...changes });
+
+  const { data: preview, isFetching: previewLoading } = useQuery({
+    queryKey: ['schedulePreview', params.cron, params.timezone],
+    queryFn: () => api.previewSchedule(params.cron, params.timezone),
+    enabled: params.cron.trim().length > 0 && params.timezone.length > 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => (schedule ? api.updateSchedule(schedule.id, params) : api.createSchedule(projectId, params)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules', projectId] });
+      onDone();
+    },
+  });
+
+  const inputClass = 'w-full px-3 py-1.5 bg-zinc-950 border border-zinc-800 rounded text-sm text-white placeholder-zinc-600';
+
+  return (
+    <div className="p-4 border-b border-zinc-800 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={params.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Name, e.g. Production monitor"
+          className={inputClass}
+        />
+        <select
+          value={params.groupId || ''}
+          onChange={(e) => update({ groupId: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">All tests in the project</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>Group: {group.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={params.cron}
+          onChange={(e) => update({ cron: e.target.value })}
+          placeholder="Cron expression"
+          className={`${inputClass} font-mono`}
+        />
+        <input
+          type="text"
+          value={params.timezone}
+          onChange={(e) => update({ timezone: e.target.value })}
+          placeholder="Timezone, e.g. Europe/Berlin"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {CRON_PRESETS.map((preset) => (
+          <button
+            key={preset.cron}
+            onClick={() => update({ cron: preset.cron })}
+            className={`px-2 py-0.5 rounded text-xs ${
+              params.cron === preset.cron ? 'bg-zinc-700 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-xs">
+        {previewLoading && !preview ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin text-zinc-500" />
+        ) : preview?.valid ? (
+          <div className="text-zinc-400">
+            <span className="text-zinc-500">Next runs: </span>
+            {preview.nextRuns.map((run) => formatInZone(run, params.timezone)).join(' · ')}
+          </div>
+        ) : preview?.error ? (
+          <p className="text-red-400">{preview.error}</p>
+        ) : null}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-zinc-300">
+        <select
+          value={params.executionMode}
+          onChange={(e) => update({ executionMode: e.target.value as SuiteScheduleParams['executionMode'] })}
+          className="px-2 py-1 bg-zinc-950 border border-zinc-800 rounded text-xs text-white"
+        >
+          <option value="SPEC">Spec</option>
+          <option value="HYBRID">Hybrid</option>
+          <option value="AGENT">Agent</option>
+        </select>
+        <select
+          value={params.streamingMode}
+          onChange={(e) => update({ streamingMode: e.target.value as SuiteScheduleParams['streamingMode'] })}
+          className="px-2 py-1 bg-zinc-950 border border-zinc-800 rounded text-xs text-white"
+        >
+          <option value="NONE">No streaming</option>
+          <option value="VIDEO">Video</option>
+          <option value="VNC">Live VNC</option>
+        </select>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={params.headless}
+            onChange={(e) => update({ headless: e.target.checked })}
+            className="accent-zinc-400"
+          />
+          Headless
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={!params.name.trim() || !preview?.valid || saveMutation.isPending}
+          className="px-3 py-1.5 bg-white text-black rounded text-xs font-medium hover:bg-zinc-200 disabled:opacity-50"
+        >
+          {saveMutation.isPending ? 'Saving...' : schedule ? 'Save Schedule' : 'Add Schedule'}
+        </button>
+        <button onClick={onDone} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-white">
+          Cancel
+        </button>
+      </div>
+      {saveMutation.isError && (
+        <p className="text-xs text-red-400">{(saveMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
@@ -2,24 +2,90 @@ const API_BASE = '/api';
 
 export interface RecordingStep {
   id: string;
-  type: 'click' | 'input' | 'navigation' | 'web3' | 'scroll';
+  type: 'click' | 'input' | 'navigation' | 'web3' | 'scroll' | 'hover' | 'keypress' | 'drag' | 'assert';
   timestamp: number;
+  comment?: string;
   selector?: string;
   value?: string;
+  // Set when the recorder masked the value; tests read it from process.env[param]
+  redaction?: {
+    param: string;
+    reason: 'password' | 'secret' | 'rule';
+  };
   url?: string;
+  framePath?: string[];
+  shadowPath?: string[];
+  selectorCandidates?: Array<{
+    strategy: 'testid' | 'role' | 'text' | 'css' | 'xpath' | 'anchor';
+    selector: string;
+    role?: string;
+    name?: string;
+    matchCount: number;
+    score: number;
+  }>;
   web3Method?: string;
   web3Params?: unknown;
   web3Result?: unknown;
   chainId?: number;
+  web3Event?: {
+    name: 'accountsChanged' | 'chainChanged' | 'disconnect';
+    before: unknown;
+    after: unknown;
+  };
+  web3Decoded?: {
+    source: 'calldata' | 'typedData';
+    protocol: string;
+    functionName: string;
+    signature?: string;
+    action: string;
+    args: Record<string, unknown>;
+    tokens: Array<{ token: string; amount?: string; direction: 'in' | 'out' | 'approve' }>;
+    spender?: string;
+    contract?: string;
+  };
   scrollX?: number;
   scrollY?: number;
+  key?: string;
+  modifiers?: string[];
+  drag?: {
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+    startRatioX?: number;
+    endRatioX?: number;
+    valueAfter?: string;
+  };
+  assertion?: {
+    kind: 'textVisible' | 'textEquals' | 'textContains' | 'visible' | 'enabled' | 'attribute' | 'numberWithin';
+    expected?: string;
+    attribute?: string;
+    tolerance?: number;
+  };
   metadata?: Record<string, unknown>;
 }
 
+// fetch/XHR/WebSocket call the dApp made while recording, linked to the step that triggered it
+export interface NetworkRequest {
+  id: string;
+  kind: 'fetch' | 'xhr' | 'websocket';
+  method: string;
+  url: string;
+  status?: number;
+  startTime: number;
+  durationMs?: number;
+  rpcMethod?: string;
+  requestBody?: string;
+  responseBody?: string;
+  error?: string;
+  stepId?: string;
+}
+
 export interface RecordingJsonData {
   name: string;
   startUrl: string;
   steps: RecordingStep[];
+  networkRequests?: NetworkRequest[];
   metadata?: Record<string, unknown>;
   durationMs?: number;
 }
@@ -46,6 +112,48 @@ export interface TestSpec {
   status: 'DRAFT' | 'NEEDS_REVIEW' | 'READY' | 'TESTED';
   createdAt: string;
   updatedAt: string;
+  // Names of the recording's datasets (spec detail only)
+  datasets?: string[];
+  // Most recent run per dataset (spec list only)
+  latestMatrix?: RunMatrix | null;
+  // Set on specs split from a longer recording
+  segmentKey?: string | null;
+  segmentIndex?: number | null;
+  dependsOnId?: string | null;
+  preconditions?: SegmentPrecondition[] | null;
+}
+
+/** Standalone project flavours a spec can be downloaded as */
+export type ExportFormat = 'dappwright' | 'synpress';
+
+export type SegmentPrecondition =
+  | { type: 'wallet_connected' }
+  | { type: 'network'; chainId: number }
+  | { type: 'segment'; segmentId: string; reason: string };
+
+export interface SegmentSpec {
+  segmentKey: string;
+  segmentIndex: number;
+  startIndex: number;
+  endIndex: number;
+  preconditions: SegmentPrecondition[];
+  testSpecId: string | null;
+  dependsOnId: string | null;
+  status: string | null;
+  warnings: string[];
+  errors: string[];
+}
+
+export interface RunMatrix {
+  matrixId: string;
+  createdAt: string;
+  runs: Array<{
+    id: string;
+    datasetName: string;
+    status: TestRun['status'];
+    passed?: boolean | null;
+    durationMs?: number | null;
+  }>;
 }
 
 export interface AgentAction {
@@ -107,6 +215,10 @@ export interface TestRun {
   // Agent mode fields
   executionMode?: 'SPEC' | 'AGENT' | 'HYBRID';
   agentData?: AgentRunData | null;
+  // Data-driven runs
+  datasetName?: string | null;
+  params?: Record<string, string | number> | null;
+  matrixId?: string | null;
 }
 
 export interface Artifact {
@@ -208,13 +320,97 @@ export interface TestGroup {
   createdAt: string;
 }
 
+export interface StepSnippet {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string | null;
+  version: number;
+  // Signatures of the recorded steps it stands in for, e.g. click:trade-button
+  steps: string[];
+  code: string;
+  specCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecordingFix =
+  | { type: 'remove-steps'; stepIds: string[]; description: string }
+  | { type: 'set-selector'; stepId: string; selector: string; description: string }
+  | { type: 'strip-screenshot'; stepId: string; description: string };
+
+// Pre-translation quality finding (see the translator's recording-linter.ts)
+export interface RecordingFinding {
+  id: string;
+  rule: string;
+  severity: 'error' | 'warning' | 'info';
+  stepIndex?: number;
+  message: string;
+  fix?: RecordingFix;
+}
+
+export interface RecordingLintReport {
+  score: number;
+  findings: RecordingFinding[];
+}
+
+export type KnowledgeKind = 'selector_fix' | 'obstacle' | 'connection_flow';
+
+// A fix verified by one of the project's passing runs, fed back into generation
+export interface KnowledgeEntry {
+  id: string;
+  projectId: string;
+  domain: string;
+  kind: KnowledgeKind;
+  summary: string;
+  before?: string | null;
+  after: string;
+  source: 'agent_patch' | 'self_heal' | 'connection_run';
+  sourceSpecId?: string | null;
+  hits: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type Role = 'VIEWER' | 'EDITOR' | 'ADMIN';
+export type Permission = 'read' | 'write' | 'execute' | 'admin';
+
+// The signed-in user (or API key), the organisation it acts in and what it may do
+export interface Me {
+  type: 'session' | 'api_key';
+  user: { id: string; email: string; name?: string | null } | null;
+  organization: { id: string; name: string };
+  role: Role | null;
+  permissions: Permission[];
+  organizations: Array<{ id: string; name: string; role: Role }>;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  name?: string | null;
+  role: Role;
+  createdAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  permissions: Permission[];
+  lastUsedAt: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  isExpired: boolean;
+}
+
 export interface Project {
   id: string;
   name: string;
   homeUrl: string;
   description?: string;
   walletAddress: string;
-  seedPhrase?: string; // Only present on creation response
+  seedPhraseHint?: string; // Only present on creation response; the phrase itself never leaves the vault
   chainId?: number;
   recordingCount?: number;
   suiteRunCount?: number;
@@ -225,6 +421,44 @@ export interface Project {
   recentSuiteRuns?: SuiteRun[];
 }
 
+export interface SecretAccess {
+  id: string;
+  secret: string;
+  keyId: string;
+  purpose: 'test_run' | 'suite_run' | 'agent_run' | 'hybrid_run';
+  runId: string | null;
+  worker: string;
+  createdAt: string;
+}
+
+export type WebhookEvent = 'run.started' | 'run.passed' | 'run.failed' | 'suite.completed' | 'spec.healed';
+
+export interface Webhook {
+  id: string;
+  projectId: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+  /** Start of the signing secret; the full secret is only returned on create */
+  secretPrefix: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
 // --- Replay types ---
 
 export interface ReplayFrame {
@@ -285,12 +519,46 @@ export interface SuiteRun {
   durationMs?: number;
   error?: string;
   logs?: string;
+  /** Set when a schedule started the suite run */
+  scheduleId?: string | null;
+  /** Set when the suite ran against a URL other than the recorded one */
+  dappUrl?: string | null;
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   testRuns?: Array<TestRun & { artifacts?: Artifact[] }>;
 }
 
+export interface SuiteSchedule {
+  id: string;
+  projectId: string;
+  /** Null when the schedule runs the whole project */
+  groupId: string | null;
+  groupName: string | null;
+  name: string;
+  cron: string;
+  timezone: string;
+  executionMode: 'SPEC' | 'AGENT' | 'HYBRID';
+  streamingMode: 'NONE' | 'VNC' | 'VIDEO';
+  headless: boolean;
+  /** False while paused */
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastSuiteRun: { id: string; status: SuiteRun['status']; createdAt: string } | null;
+  createdAt: string;
+}
+
+export interface SuiteScheduleParams {
+  groupId?: string | null;
+  name: string;
+  cron: string;
+  timezone: string;
+  executionMode: SuiteSchedule['executionMode'];
+  streamingMode: SuiteSchedule['streamingMode'];
+  headless: boolean;
+}
+
 class ApiClient {
   private async request<T>(
     endpoint: string,
@@ -310,8 +578,12 @@ class ApiClient {
     });
 
     if (!response.ok) {
+      // Expired or missing session: sign in again, then come back
+      if (response.status === 401 && typeof window !== 'undefined' && window.location.pathname !== '/login') {
+        window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`;
+      }
       const error = await response.json().catch(() => ({}));
-      throw new Error(error.message || `HTTP ${response.status}`);
+      throw new Error(error.error || error.message || `HTTP ${response.status}`);
     }
 
     if (response.status === 204 || response.headers.get('content-length') === '0') {
@@ -321,6 +593,79 @@ class ApiClient {
     return response.json();
   }
 
+  // Auth
+  async getSetupStatus(): Promise<{ setupRequired: boolean }> {
+    return this.request('/auth/setup');
+  }
+
+  async setup(params: { organizationName: string; name?: string; email: string; password: string }): Promise<Me> {
+    return this.request('/auth/setup', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async login(email: string, password: string): Promise<Me> {
+    return this.request('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  async logout(): Promise<void> {
+    await this.request('/auth/logout', { method: 'POST' });
+  }
+
+  async getMe(): Promise<Me> {
+    return this.request('/auth/me');
+  }
+
+  async switchOrganization(organizationId: string): Promise<Me> {
+    return this.request('/auth/organization', {
+      method: 'POST',
+      body: JSON.stringify({ organizationId }),
+    });
+  }
+
+  // Organisation members
+  async getMembers(): Promise<{ members: OrganizationMember[] }> {
+    return this.request('/organizations/current/members');
+  }
+
+  async addMember(params: { email: string; name?: string; password: string; role: Role }): Promise<OrganizationMember> {
+    return this.request('/organizations/current/members', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async updateMemberRole(userId: string, role: Role): Promise<OrganizationMember> {
+    return this.request(`/organizations/current/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeMember(userId: string): Promise<void> {
+    await this.request(`/organizations/current/members/${userId}`, { method: 'DELETE' });
+  }
+
+  // API keys
+  async getApiKeys(): Promise<{ keys: ApiKey[] }> {
+    return this.request('/api-keys');
+  }
+
+  async createApiKey(params: { name: string; permissions: Permission[]; expiresInDays?: number }): Promise<ApiKey & { key: string }> {
+    return this.request('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async deleteApiKey(id: string): Promise<void> {
+    await this.request(`/api-keys/${id}`, { method: 'DELETE' });
+  }
+
   // Stats
   async getStats(): Promise<PlatformStats> {
     return this.request('/stats');
@@ -345,6 +690,18 @@ class ApiClient {
     });
   }
 
+  async getRecordingLint(id: string): Promise<RecordingLintReport> {
+    return this.request(`/recordings/${id}/lint`);
+  }
+
+  // Omitting ids applies every suggested fix
+  async fixRecordingLint(id: string, ids?: string[]): Promise<{ applied: string[]; stepCount: number; report: RecordingLintReport }> {
+    return this.request(`/recordings/${id}/lint/fix`, {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+    });
+  }
+
   async deleteRecording(id: string): Promise<void> {
     await this.request(`/recordings/${id}`, { method: 'DELETE' });
   }
@@ -399,6 +756,13 @@ class ApiClient {
     });
   }
 
+  async generateSegmentSpecs(recordingId: string): Promise<{ recordingId: string; segments: SegmentSpec[] }> {
+    return this.request('/tests/generate-segments', {
+      method: 'POST',
+      body: JSON.stringify({ recordingId }),
+    });
+  }
+
   async updateTestSpec(id: string, code: string): Promise<TestSpec> {
     return this.request(`/tests/${id}`, {
       method: 'PUT',
@@ -406,6 +770,10 @@ class ApiClient {
     });
   }
 
+  getTestExportUrl(id: string, format: ExportFormat): string {
+    return `${API_BASE}/tests/${id}/export?format=${format}`;
+  }
+
   async validateTestSpec(id: string): Promise<{ valid: boolean; errors: string[] }> {
     return this.request(`/tests/${id}/validate`, { method: 'POST' });
   }
@@ -432,6 +800,18 @@ class ApiClient {
     });
   }
 
+  // Run a spec once per recording dataset
+  async createMatrixRun(
+    testSpecId: string,
+    options: { datasets?: string[]; headless?: boolean; streamingMode?: 'NONE' | 'VNC' | 'VIDEO' } = {}
+  ): Promise<{ matrixId: string; testSpecId: string; runs: Array<{ id: string; datasetName: string; status: string; queued: boolean }>; message: string }> {
+    const { datasets, headless = false, streamingMode = 'NONE' } = options;
+    return this.request('/runs/matrix', {
+      method: 'POST',
+      body: JSON.stringify({ testSpecId, headless, streamingMode, ...(datasets && { datasets }) }),
+    });
+  }
+
   // Cancel a running or pending test run
   async cancelRun(id: string): Promise<{ id: string; status: string }> {
     return this.request(`/runs/${id}/cancel`, { method: 'POST' });
@@ -570,10 +950,50 @@ class ApiClient {
     return response.suiteRuns;
   }
 
+  async getSecretAccess(projectId: string): Promise<{ accesses: SecretAccess[]; total: number }> {
+    return this.request(`/projects/${projectId}/secret-access`);
+  }
+
   async getSuiteRun(id: string): Promise<SuiteRun> {
     return this.request(`/suite-runs/${id}`);
   }
 
+  // Suite schedules
+  async getSchedules(projectId: string): Promise<SuiteSchedule[]> {
+    const response = await this.request<{ schedules: SuiteSchedule[] }>(`/schedules?projectId=${encodeURIComponent(projectId)}`);
+    return response.schedules;
+  }
+
+  async previewSchedule(cron: string, timezone: string): Promise<{ valid: boolean; error?: string; nextRuns: string[] }> {
+    return this.request(`/schedules/preview?cron=${encodeURIComponent(cron)}&timezone=${encodeURIComponent(timezone)}`);
+  }
+
+  async createSchedule(projectId: string, params: SuiteScheduleParams): Promise<SuiteSchedule & { registered: boolean }> {
+    return this.request('/schedules', {
+      method: 'POST',
+      body: JSON.stringify({ projectId, ...params, groupId: params.groupId || undefined }),
+    });
+  }
+
+  async updateSchedule(id: string, params: Partial<SuiteScheduleParams>): Promise<SuiteSchedule & { registered: boolean }> {
+    return this.request(`/schedules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async pauseSchedule(id: string): Promise<SuiteSchedule> {
+    return this.request(`/schedules/${id}/pause`, { method: 'POST' });
+  }
+
+  async resumeSchedule(id: string): Promise<SuiteSchedule> {
+    return this.request(`/schedules/${id}/resume`, { method: 'POST' });
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await this.request(`/schedules/${id}`, { method: 'DELETE' });
+  }
+
   // Groups
   async createGroup(projectId: string, params: { name: string; description?: string }): Promise<TestGroup> {
     return this.request(`/projects/${projectId}/groups`, {
@@ -603,6 +1023,89 @@ class ApiClient {
     });
   }
 
+  // Step snippets
+  async getSnippets(projectId: string): Promise<{ snippets: StepSnippet[] }> {
+    return this.request(`/snippets?projectId=${encodeURIComponent(projectId)}`);
+  }
+
+  async createSnippet(params: {
+    projectId: string;
+    name: string;
+    description?: string;
+    code: string;
+    recordingId: string;
+    startIndex: number;
+    endIndex: number;
+  }): Promise<StepSnippet> {
+    return this.request('/snippets', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async updateSnippet(id: string, params: { description?: string; code?: string }): Promise<{ snippet: StepSnippet; updatedSpecIds: string[] }> {
+    return this.request(`/snippets/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async deleteSnippet(id: string): Promise<void> {
+    await this.request(`/snippets/${id}`, { method: 'DELETE' });
+  }
+
+  // Learned knowledge
+  async getKnowledge(projectId: string, kind?: KnowledgeKind): Promise<{ entries: KnowledgeEntry[] }> {
+    const query = kind ? `&kind=${kind}` : '';
+    return this.request(`/knowledge?projectId=${encodeURIComponent(projectId)}${query}`);
+  }
+
+  async deleteKnowledgeEntry(id: string): Promise<void> {
+    await this.request(`/knowledge/${id}`, { method: 'DELETE' });
+  }
+
+  // Webhooks
+  async getWebhooks(projectId: string): Promise<Webhook[]> {
+    const response = await this.request<{ webhooks: Webhook[] }>(`/webhooks?projectId=${encodeURIComponent(projectId)}`);
+    return response.webhooks;
+  }
+
+  async createWebhook(params: {
+    projectId: string;
+    url: string;
+    description?: string;
+    events: WebhookEvent[];
+  }): Promise<Webhook & { secret: string }> {
+    return this.request('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async updateWebhook(id: string, params: {
+    url?: string;
+    description?: string | null;
+    events?: WebhookEvent[];
+    enabled?: boolean;
+  }): Promise<Webhook> {
+    return this.request(`/webhooks/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    await this.request(`/webhooks/${id}`, { method: 'DELETE' });
+  }
+
+  async sendTestWebhook(id: string): Promise<{ deliveryId: string; queued: boolean }> {
+    return this.request(`/webhooks/${id}/test`, { method: 'POST' });
+  }
+
+  async getWebhookDeliveries(id: string, limit = 20): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    return this.request(`/webhooks/${id}/deliveries?limit=${limit}`);
+  }
+
   // Frames (screenshot player)
   async getFrames(runId: string): Promise<FrameListResponse> {
     return this.request(`/runs/${runId}/frames`);
@@ -1,14 +1,16 @@
-import Anthropic from '@anthropic-ai/sdk';
 import type {
   IntentStep,
   AgentConfig,
   AgentContext,
+  AgentLLMConfig,
   ToolCallResult,
   ControlSignal,
   ToolDefinition,
   StepResult,
   AgentAction,
   AgentStepData,
+  LLMContentBlock,
+  LLMMessage,
 } from './types.js';
 import { browserToolDefinitions, executeBrowserTool } from './tools/browser-tools.js';
 import { walletToolDefinitions, executeWalletTool } from './tools/wallet-tools.js';
@@ -16,6 +18,13 @@ import { controlToolDefinitions, executeControlTool } from './tools/control-tool
 import { buildSystemPrompt, buildStepMessage } from './system-prompt.js';
 import { CostTracker } from './cost-tracker.js';
 import { isDeterministicStep, executeDeterministicStep } from './deterministic-steps.js';
+import {
+  createAgentProvider,
+  toProviderTools,
+  isRetryableLLMError,
+  isAgentLLMConfigured,
+  describeMissingLLMConfig,
+} from './llm.js';
 import { join } from 'path';
 
 // Collect all tool definitions
@@ -30,6 +39,8 @@ const BROWSER_TOOLS = new Set(browserToolDefinitions.map((t) => t.name));
 const WALLET_TOOLS = new Set(walletToolDefinitions.map((t) => t.name));
 const CONTROL_TOOLS = new Set(controlToolDefinitions.map((t) => t.name));
 
+type ToolUseBlock = Extract<LLMContentBlock, { type: 'tool_use' }>;
+
 interface LoopResult {
   stepResults: AgentStepData[];
   costTracker: CostTracker;
@@ -41,7 +52,7 @@ interface LoopResult {
 
 /**
  * Run the agent loop for a set of intent steps.
- * Core loop: snapshot → Claude API → execute tools → repeat
+ * Core loop: snapshot → LLM → execute tools → repeat
  */
 export async function runAgentLoop(
   steps: IntentStep[],
@@ -51,8 +62,8 @@ export async function runAgentLoop(
   dappUrl: string,
   dappContext?: string,
 ): Promise<LoopResult> {
-  const client = new Anthropic({ apiKey: config.apiKey });
-  const costTracker = new CostTracker(config.model);
+  const provider = await createAgentProvider(config, config.model);
+  const costTracker = new CostTracker(provider.pricing);
   const stepResults: AgentStepData[] = [];
   const completedStepSummaries: string[] = [];
   let totalApiCalls = 0;
@@ -62,12 +73,7 @@ export async function runAgentLoop(
 
   const systemPrompt = buildSystemPrompt(dappContext);
 
-  // Format tools for Claude API
-  const tools = ALL_TOOLS.map((t) => ({
-    name: t.name,
-    description: t.description,
-    input_schema: t.input_schema,
-  }));
+  const tools = toProviderTools(ALL_TOOLS);
 
   for (let stepIdx = 0; stepIdx < steps.length; stepIdx++) {
     if (testCompleted) break;
@@ -92,7 +98,7 @@ export async function runAgentLoop(
 
     console.log(`[Agent] Step ${stepIdx + 1}/${steps.length}: ${step.description}`);
 
-    // Execute deterministic steps directly (no Claude API calls needed)
+    // Execute deterministic steps directly (no LLM calls needed)
     if (isDeterministicStep(step)) {
       const result = await executeDeterministicStep(step, stepIdx, steps.length, ctx);
 
@@ -117,11 +123,11 @@ export async function runAgentLoop(
     const stepMessage = buildStepMessage(step, steps, stepIdx, testType, dappUrl, completedStepSummaries);
 
     // Conversation messages for this step
-    const messages: Anthropic.Messages.MessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'user', content: stepMessage },
     ];
 
-    // Step loop: keep calling Claude until step is complete or limits hit
+    // Step loop: keep calling the model until step is complete or limits hit
     while (!stepSignal && !testCompleted) {
       if (totalApiCalls >= config.maxApiCalls) {
         console.log(`[Agent] Max API calls reached (${config.maxApiCalls})`);
@@ -133,12 +139,11 @@ export async function runAgentLoop(
       }
 
       try {
-        // Call Claude API
-        const response = await client.messages.create({
-          model: config.model,
-          max_tokens: 4096,
-          system: [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }],
-          tools: tools as Anthropic.Messages.Tool[],
+        const response = await provider.complete({
+          maxTokens: 4096,
+          system: systemPrompt,
+          cacheSystemPrompt: true,
+          tools,
           messages,
         });
 
@@ -146,25 +151,18 @@ export async function runAgentLoop(
         stepApiCalls++;
 
         // Track usage
-        if (response.usage) {
-          costTracker.recordUsage(response.usage as {
-            input_tokens?: number;
-            output_tokens?: number;
-            cache_read_input_tokens?: number;
-            cache_creation_input_tokens?: number;
-          });
-        }
+        costTracker.recordUsage(response.usage);
 
         // Check stop reason
-        if (response.stop_reason === 'end_turn') {
-          // Claude finished without tool calls — shouldn't happen often
+        if (response.stopReason === 'end_turn') {
+          // Model finished without tool calls — shouldn't happen often
           // Extract any text content for logging
           const textContent = response.content
-            .filter((b): b is Anthropic.Messages.TextBlock => b.type === 'text')
+            .filter((b): b is Extract<LLMContentBlock, { type: 'text' }> => b.type === 'text')
             .map((b) => b.text)
             .join('\n');
           if (textContent) {
-            console.log(`[Agent] Claude text: ${textContent.slice(0, 200)}`);
+            console.log(`[Agent] Model text: ${textContent.slice(0, 200)}`);
           }
 
           // Add assistant response and ask to continue
@@ -176,25 +174,23 @@ export async function runAgentLoop(
           continue;
         }
 
-        if (response.stop_reason !== 'tool_use') {
+        if (response.stopReason !== 'tool_use') {
           // Unexpected stop reason
-          console.log(`[Agent] Unexpected stop reason: ${response.stop_reason}`);
+          console.log(`[Agent] Unexpected stop reason: ${response.stopReason}`);
           break;
         }
 
         // Process tool calls
-        const toolBlocks = response.content.filter(
-          (b): b is Anthropic.Messages.ToolUseBlock => b.type === 'tool_use'
-        );
+        const toolBlocks = response.content.filter((b): b is ToolUseBlock => b.type === 'tool_use');
 
         // Add assistant response to conversation
         messages.push({ role: 'assistant', content: response.content });
 
         // Execute each tool call and collect results
-        const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+        const toolResults: LLMContentBlock[] = [];
 
         for (const toolBlock of toolBlocks) {
-          const toolInput = toolBlock.input as Record<string, unknown>;
+          const toolInput = toolBlock.input;
           const actionStart = Date.now();
           let result: ToolCallResult;
 
@@ -266,9 +262,9 @@ export async function runAgentLoop(
 
           toolResults.push({
             type: 'tool_result',
-            tool_use_id: toolBlock.id,
+            toolUseId: toolBlock.id,
             content: result.output,
-            is_error: !result.success,
+            isError: !result.success,
           });
         }
 
@@ -279,7 +275,7 @@ export async function runAgentLoop(
         console.error(`[Agent] API error: ${message}`);
 
         // Rate limit or transient error — wait and retry
-        if (message.includes('rate_limit') || message.includes('overloaded')) {
+        if (isRetryableLLMError(error)) {
           console.log('[Agent] Rate limited, waiting 5 seconds...');
           await new Promise((resolve) => setTimeout(resolve, 5000));
           continue;
@@ -407,6 +403,7 @@ export interface SingleStepResult {
  * @param dappUrl - The dApp URL
  * @param completedSteps - Summaries of steps already completed
  * @param dappContext - Optional per-project dApp context
+ * @param llm - Optional per-project LLM provider settings
  */
 export async function runSingleAgentStep(
   ctx: AgentContext,
@@ -418,26 +415,24 @@ export async function runSingleAgentStep(
   dappContext?: string,
   testGoal?: string,
   upcomingSteps?: string[],
+  llm: AgentLLMConfig = {},
 ): Promise<SingleStepResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    return { passed: false, summary: 'No ANTHROPIC_API_KEY', apiCalls: 0, costUsd: 0, actions: [] };
+  if (!isAgentLLMConfigured(llm)) {
+    return { passed: false, summary: describeMissingLLMConfig(llm), apiCalls: 0, costUsd: 0, actions: [] };
   }
 
-  const model = process.env.AGENT_MODEL || 'claude-haiku-4-5-20251001';
-  const client = new Anthropic({ apiKey });
-  const costTracker = new CostTracker(model);
+  const provider = await createAgentProvider(
+    { ...llm, model: llm.model || process.env.AGENT_MODEL },
+    'claude-haiku-4-5-20251001'
+  );
+  const costTracker = new CostTracker(provider.pricing);
   const maxCalls = 15; // Single step shouldn't need many calls
   let apiCalls = 0;
   const stepActions: AgentAction[] = [];
 
   const systemPrompt = buildSystemPrompt(dappContext);
 
-  const tools = ALL_TOOLS.map((t) => ({
-    name: t.name,
-    description: t.description,
-    input_schema: t.input_schema,
-  }));
+  const tools = toProviderTools(ALL_TOOLS);
 
   // Build initial message with failure context
   let userMsg = `## Recover Failed Step
@@ -481,7 +476,7 @@ ${error}
 
   userMsg += `\nStart by taking a browser_snapshot to see the current page state, then achieve the goal. Call step_complete when done or step_failed if impossible.`;
 
-  const messages: Anthropic.Messages.MessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'user', content: userMsg },
   ];
 
@@ -489,25 +484,18 @@ ${error}
 
   while (!stepSignal && apiCalls < maxCalls) {
     try {
-      const response = await client.messages.create({
-        model,
-        max_tokens: 4096,
-        system: [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }],
-        tools: tools as Anthropic.Messages.Tool[],
+      const response = await provider.complete({
+        maxTokens: 4096,
+        system: systemPrompt,
+        cacheSystemPrompt: true,
+        tools,
         messages,
       });
 
       apiCalls++;
-      if (response.usage) {
-        costTracker.recordUsage(response.usage as {
-          input_tokens?: number;
-          output_tokens?: number;
-          cache_read_input_tokens?: number;
-          cache_creation_input_tokens?: number;
-        });
-      }
+      costTracker.recordUsage(response.usage);
 
-      if (response.stop_reason === 'end_turn') {
+      if (response.stopReason === 'end_turn') {
         messages.push({ role: 'assistant', content: response.content });
         messages.push({
           role: 'user',
@@ -516,18 +504,16 @@ ${error}
         continue;
       }
 
-      if (response.stop_reason !== 'tool_use') break;
+      if (response.stopReason !== 'tool_use') break;
 
-      const toolBlocks = response.content.filter(
-        (b): b is Anthropic.Messages.ToolUseBlock => b.type === 'tool_use'
-      );
+      const toolBlocks = response.content.filter((b): b is ToolUseBlock => b.type === 'tool_use');
 
       messages.push({ role: 'assistant', content: response.content });
 
-      const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+      const toolResults: LLMContentBlock[] = [];
 
       for (const toolBlock of toolBlocks) {
-        const toolInput = toolBlock.input as Record<string, unknown>;
+        const toolInput = toolBlock.input;
         const actionStart = Date.now();
         let result: ToolCallResult;
 
@@ -571,16 +557,16 @@ ${error}
 
         toolResults.push({
           type: 'tool_result',
-          tool_use_id: toolBlock.id,
+          toolUseId: toolBlock.id,
           content: result.output,
-          is_error: !result.success,
+          isError: !result.success,
         });
       }
 
       messages.push({ role: 'user', content: toolResults });
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      if (message.includes('rate_limit') || message.includes('overloaded')) {
+      if (isRetryableLLMError(err)) {
         await new Promise((resolve) => setTimeout(resolve, 5000));
         continue;
       }
@@ -14,6 +14,7 @@ import type {
 import { DEFAULT_AGENT_CONFIG } from './types.js';
 import { buildIntentSteps } from './intent-builder.js';
 import { runAgentLoop } from './agent-loop.js';
+import { isAgentLLMConfigured, describeMissingLLMConfig } from './llm.js';
 
 // Loose types for recording/analysis to avoid hard translator dependency
 interface Recording {
@@ -58,20 +59,27 @@ export class AgentRunner {
   constructor(options: AgentRunnerOptions) {
     this.options = options;
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required for agent mode');
+    if (!isAgentLLMConfigured(options.config)) {
+      throw new Error(describeMissingLLMConfig(options.config));
     }
 
     this.config = {
       ...DEFAULT_AGENT_CONFIG,
       ...options.config,
-      apiKey,
+      // Per-project model first, then AGENT_MODEL from env
+      model: options.config?.model || process.env.AGENT_MODEL || DEFAULT_AGENT_CONFIG.model,
     };
 
-    // Override model from env if set
-    if (process.env.AGENT_MODEL) {
-      this.config.model = process.env.AGENT_MODEL;
+    // Keep each run's cassette with its artifacts so a failed session can be replayed
+    // (LLM_CASSETTE_MODE=strict LLM_CASSETTE_DIR=<artifacts>/cassette). Turns are keyed by
+    // order, since their screenshots and snapshots never match a later run's.
+    const cassetteMode = process.env.LLM_CASSETTE_MODE as NonNullable<AgentConfig['cassette']>['mode'] | undefined;
+    if (!this.config.cassette && cassetteMode && cassetteMode !== 'off') {
+      this.config.cassette = {
+        mode: cassetteMode,
+        dir: process.env.LLM_CASSETTE_DIR || join(options.artifactsDir, 'cassette'),
+        session: 'agent',
+      };
     }
   }
 
@@ -12,6 +12,9 @@ export type {
   ToolCallResult,
   ControlSignal,
   SnapshotNode,
+  AgentLLMConfig,
+  LLMProviderName,
+  ModelPricing,
 } from './types.js';
 
 export { DEFAULT_AGENT_CONFIG } from './types.js';
@@ -19,5 +22,6 @@ export { AgentRunner, createAgentRunner } from './agent-runner.js';
 export { buildIntentSteps } from './intent-builder.js';
 export { runAgentLoop } from './agent-loop.js';
 export { CostTracker } from './cost-tracker.js';
+export { createAgentProvider, isAgentLLMConfigured } from './llm.js';
 export { captureSnapshot } from './snapshot-serializer.js';
 export { buildSystemPrompt, buildStepMessage } from './system-prompt.js';
@@ -0,0 +1,69 @@
+import type { AgentLLMConfig, LLMProvider, LLMProviderName, ToolDefinition } from './types.js';
+
+/**
+ * Provider name from config, then LLM_PROVIDER env (same precedence as the translator's
+ * resolveProviderConfig, which isn't loaded yet when this is checked)
+ */
+function resolveProviderName(config: AgentLLMConfig = {}): LLMProviderName {
+  return config.provider || (process.env.LLM_PROVIDER as LLMProviderName | undefined) || 'anthropic';
+}
+
+/**
+ * Whether the agent can make LLM calls: an API key for Anthropic, a base URL for an
+ * OpenAI-compatible server, or a strict cassette replay
+ */
+export function isAgentLLMConfigured(config: AgentLLMConfig = {}): boolean {
+  if ((config.cassette?.mode || process.env.LLM_CASSETTE_MODE) === 'strict') {
+    return true;
+  }
+  if (resolveProviderName(config) === 'openai-compatible') {
+    return !!(config.baseUrl || process.env.LLM_BASE_URL);
+  }
+  return !!(config.apiKey || process.env.ANTHROPIC_API_KEY);
+}
+
+/**
+ * Human-readable reason the agent cannot run, for error messages
+ */
+export function describeMissingLLMConfig(config: AgentLLMConfig = {}): string {
+  return resolveProviderName(config) === 'openai-compatible'
+    ? 'LLM_BASE_URL environment variable is required for the openai-compatible provider'
+    : 'ANTHROPIC_API_KEY environment variable is required for agent mode';
+}
+
+/**
+ * Create the LLM provider for an agent run
+ * The provider layer lives in the translator (linked as @web3-test/translator in Docker).
+ * A project base URL outside LLM_ALLOWED_BASE_URLS is dropped in favour of the env one.
+ */
+export async function createAgentProvider(config: AgentLLMConfig, defaultModel: string): Promise<LLMProvider> {
+  const translatorModule = '@web3-test/translator';
+  const { createLLMProvider, resolveProviderConfig, isAllowedBaseUrl } = await import(/* webpackIgnore: true */ translatorModule);
+  if (config.baseUrl && !isAllowedBaseUrl(config.baseUrl)) {
+    console.warn(`[Agent] Ignoring project LLM base URL ${config.baseUrl}: not in LLM_ALLOWED_BASE_URLS`);
+    config = { ...config, baseUrl: undefined };
+  }
+  return createLLMProvider(resolveProviderConfig(config, defaultModel)) as LLMProvider;
+}
+
+/**
+ * Tool definitions in the provider-neutral format
+ */
+export function toProviderTools(tools: ToolDefinition[]) {
+  return tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    inputSchema: t.input_schema,
+  }));
+}
+
+/**
+ * Rate limits and overloads are worth waiting out
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (error && typeof error === 'object' && (error as { retryable?: boolean }).retryable) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('rate_limit') || message.includes('overloaded');
+}
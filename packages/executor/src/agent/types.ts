@@ -158,8 +158,8 @@ export interface SnapshotNode {
 // Agent Loop Configuration
 // ============================================================================
 
-export interface AgentConfig {
-  /** Claude model to use */
+export interface AgentConfig extends AgentLLMConfig {
+  /** Model to use */
   model: string;
   /** Max API calls before aborting */
   maxApiCalls: number;
@@ -169,11 +169,9 @@ export interface AgentConfig {
   stepTimeoutMs: number;
   /** Whether to capture screenshots after each step */
   captureStepScreenshots: boolean;
-  /** Anthropic API key */
-  apiKey: string;
 }
 
-export const DEFAULT_AGENT_CONFIG: Omit<AgentConfig, 'apiKey'> = {
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
   model: 'claude-haiku-4-5-20251001',
   maxApiCalls: 60,
   maxCallsPerStep: 20,
@@ -181,6 +179,71 @@ export const DEFAULT_AGENT_CONFIG: Omit<AgentConfig, 'apiKey'> = {
   captureStepScreenshots: true,
 };
 
+// ============================================================================
+// LLM Provider — mirrors the provider layer in @web3-test/translator, which is
+// loaded at runtime (see llm.ts) to avoid a hard translator dependency
+// ============================================================================
+
+export type LLMProviderName = 'anthropic' | 'openai-compatible';
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/** Provider settings; unset fields come from LLM_* / ANTHROPIC_API_KEY env vars */
+export interface AgentLLMConfig {
+  provider?: LLMProviderName;
+  model?: string;
+  /** Base URL of an OpenAI-compatible API */
+  baseUrl?: string;
+  apiKey?: string;
+  pricing?: ModelPricing;
+  /** Record/replay LLM calls (default: LLM_CASSETTE_MODE / LLM_CASSETTE_DIR env) */
+  cassette?: { mode: 'off' | 'record' | 'replay' | 'strict'; dir: string; session?: string };
+}
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: { base64: string; mediaType: 'image/png' | 'image/jpeg' } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+export interface LLMResponse {
+  content: LLMContentBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | 'other';
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly pricing: ModelPricing;
+  complete(request: {
+    system?: string;
+    messages: LLMMessage[];
+    tools?: { name: string; description: string; inputSchema: Record<string, unknown> }[];
+    maxTokens: number;
+    temperature?: number;
+    cacheSystemPrompt?: boolean;
+  }): Promise<LLMResponse>;
+}
+
 // ============================================================================
 // Agent Job Data
 // ============================================================================
@@ -0,0 +1,49 @@
+/**
+ * dApp URL overrides: run specs recorded against one deployment (production, say) against
+ * another, such as a preview deployment. The recorded origin is replaced wherever it
+ * appears in spec code or recording JSON; paths and query strings are kept.
+ */
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Origin of a URL plus any path prefix, without a trailing slash
+ */
+function baseUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`.replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First URL a spec navigates to, for specs whose recording has no dApp URL
+ */
+export function findSpecDappUrl(code: string): string | null {
+  const match = code.match(/\.goto\(\s*['"`](https?:\/\/[^'"`\s]+)/);
+  return match?.[1] || null;
+}
+
+/**
+ * Replace the origin of `fromUrl` with `toUrl` throughout `text`. Only whole origins
+ * match, so `https://app.example.com` leaves `https://app.example.com.evil` and
+ * `https://app.example.com:8443` alone. Returns `text` unchanged if either URL is invalid.
+ */
+export function rebaseDappUrl(text: string, fromUrl: string | null | undefined, toUrl: string | null | undefined): string {
+  if (!fromUrl || !toUrl) return text;
+
+  let from: string;
+  try {
+    from = new URL(fromUrl).origin;
+  } catch {
+    return text;
+  }
+  const to = baseUrl(toUrl);
+  if (!to || from === 'null' || from === to) return text;
+
+  return text.replace(new RegExp(`${escapeRegExp(from)}(?![\\w.:-])`, 'g'), to);
+}
@@ -6,8 +6,9 @@
  * 1. Bootstraps a browser with dappwright (like agent mode)
  * 2. Parses the spec into steps using // STEP N: markers
  * 3. Executes each step's code directly against the browser
- * 4. If a step fails → invokes the agent for just that step
- * 5. Continues executing remaining spec steps in the same browser
+ * 4. If a step fails on a stale locator → retries with the recorded selector candidates
+ * 5. If it still fails → invokes the agent for just that step
+ * 6. Continues executing remaining spec steps in the same browser
  *
  * Result: ONE browser session, ONE process, and AI costs ONLY for failed steps.
  */
@@ -21,7 +22,16 @@ import { join } from 'path';
 import { execSync } from 'child_process';
 import { raceApprove, raceSign, raceConfirmTransaction } from './wallet-helpers.js';
 import { runSingleAgentStep } from './agent/agent-loop.js';
-import type { AgentContext, AgentAction } from './agent/types.js';
+import type { AgentContext, AgentAction, AgentLLMConfig } from './agent/types.js';
+import { isAgentLLMConfigured } from './agent/llm.js';
+import {
+  isLocatorError,
+  findRecordedStepForCode,
+  buildCandidateAttempts,
+  type RecordedElementStep,
+  type CandidateAttempt,
+} from './selector-fallback.js';
+import { resolveSpecParams, type SpecParams } from './spec-params.js';
 
 // ============================================================================
 // Types
@@ -37,7 +47,7 @@ export interface HybridStepResult {
   stepNumber: number;
   description: string;
   passed: boolean;
-  mode: 'spec' | 'agent';
+  mode: 'spec' | 'candidate' | 'agent';
   error?: string;
   agentApiCalls?: number;
   agentCostUsd?: number;
@@ -48,6 +58,8 @@ export interface SpecPatch {
   stepNumber: number;
   patchedCode: string;
   reason: string;
+  /** What the patch fixed: a stale locator, or a blocker dismissed before the original code */
+  kind: 'selector_fix' | 'obstacle';
 }
 
 export interface HybridRunResult {
@@ -72,6 +84,12 @@ export interface HybridRunnerOptions {
   headless?: boolean;
   debug?: boolean;
   dappContext?: string;
+  /** Per-project LLM provider settings for agent fallback */
+  llm?: AgentLLMConfig;
+  /** Recording steps with selector candidate bundles, used before agent fallback */
+  recordingSteps?: RecordedElementStep[];
+  /** Dataset row overriding the spec's params block */
+  params?: SpecParams;
 }
 
 // ============================================================================
@@ -250,22 +268,51 @@ const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
 /**
  * Execute a single step's code in the browser context.
  * The code runs as an async function with page, wallet, context,
- * expect, raceApprove, raceSign, and raceConfirmTransaction in scope.
+ * expect, raceApprove, raceSign, raceConfirmTransaction and the spec's params in scope.
  */
 async function executeStepCode(
   code: string,
   page: Page,
   wallet: Dappwright,
   context: BrowserContext,
+  params: SpecParams = {},
 ): Promise<void> {
   const jsCode = stripTypeAnnotations(code);
 
   const fn = new AsyncFunction(
-    'page', 'wallet', 'context', 'expect', 'raceApprove', 'raceSign', 'raceConfirmTransaction',
+    'page', 'wallet', 'context', 'expect', 'raceApprove', 'raceSign', 'raceConfirmTransaction', 'params',
     jsCode,
   );
 
-  await fn(page, wallet, context, expect, raceApprove, raceSign, raceConfirmTransaction);
+  await fn(page, wallet, context, expect, raceApprove, raceSign, raceConfirmTransaction, params);
+}
+
+/**
+ * Retry a failed step's recorded action with each selector candidate in rank order.
+ * Returns the attempt that worked, or null if none resolved to a unique element.
+ */
+async function tryCandidateFallback(
+  step: SpecStep,
+  page: Page,
+  wallet: Dappwright,
+  context: BrowserContext,
+  recordingSteps: RecordedElementStep[],
+  log: (msg: string) => void,
+): Promise<CandidateAttempt | null> {
+  const recorded = findRecordedStepForCode(step.code, recordingSteps);
+  if (!recorded) return null;
+
+  for (const attempt of buildCandidateAttempts(recorded)) {
+    try {
+      await executeStepCode(attempt.attemptCode, page, wallet, context);
+      return attempt;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`  Candidate ${attempt.candidate.strategy} failed: ${msg.split('\n')[0]}`);
+    }
+  }
+
+  return null;
 }
 
 // ============================================================================
@@ -417,6 +464,11 @@ export async function runHybrid(
     log(`  Step ${step.number}: ${step.description}`);
   }
 
+  const params = resolveSpecParams(specCode, options.params);
+  if (Object.keys(params).length > 0) {
+    log(`Params: ${JSON.stringify(params)}`);
+  }
+
   // Extract test name/goal from spec
   const testNameMatch = specCode.match(/test\s*\(\s*['"]([^'"]+)['"]/);
   const testGoal = testNameMatch?.[1] || steps.map(s => s.description).join(' → ');
@@ -486,7 +538,7 @@ export async function runHybrid(
 
       try {
         // Execute spec code for this step
-        await executeStepCode(step.code, page, wallet!, context!);
+        await executeStepCode(step.code, page, wallet!, context!, params);
 
         const durationMs = Date.now() - stepStart;
         stepResults.push({
@@ -545,8 +597,34 @@ export async function runHybrid(
           break;
         }
 
+        // Stale locator: try the recorder's other selector candidates before the agent.
+        // The candidate replays only the recorded action, replacing the whole step.
+        if (options.recordingSteps?.length && isLocatorError(errorMsg)) {
+          const recovered = await tryCandidateFallback(step, page, wallet!, context!, options.recordingSteps, log);
+          if (recovered) {
+            specPatches.push({
+              stepNumber: step.number,
+              patchedCode: recovered.patchCode,
+              reason: `Recorded ${recovered.candidate.strategy} selector matched after the spec locator failed`,
+              kind: 'selector_fix',
+            });
+            const durationMs = Date.now() - stepStart;
+            stepResults.push({
+              stepNumber: step.number,
+              description: step.description,
+              passed: true,
+              mode: 'candidate',
+              durationMs,
+            });
+            completedStepSummaries.push(`${step.description}: done (selector candidate)`);
+            log(`  PASSED [candidate ${recovered.candidate.strategy}, ${durationMs}ms, $0]`);
+            stepIdx++;
+            continue;
+          }
+        }
+
         // Invoke agent for this step (two-phase: dismiss → retry → full takeover)
-        if (process.env.ANTHROPIC_API_KEY) {
+        if (isAgentLLMConfigured(options.llm)) {
           log(`  Invoking agent for step ${step.number} (Phase 1: dismiss blockers)...`);
 
           const agentCtx: AgentContext = {
@@ -568,6 +646,9 @@ export async function runHybrid(
               dappUrl!,
               completedStepSummaries,
               options.dappContext,
+              undefined,
+              undefined,
+              options.llm,
             );
 
             totalAgentCalls += dismissResult.apiCalls;
@@ -579,7 +660,7 @@ export async function runHybrid(
             if (dismissResult.passed && dismissResult.actions.length > 0) {
               log(`  Phase 1 cleared blockers (${dismissResult.actions.length} actions). Phase 2: retrying spec code...`);
               try {
-                await executeStepCode(step.code, page, wallet!, context!);
+                await executeStepCode(step.code, page, wallet!, context!, params);
                 // Original code works now! Patch = dismissal prefix + original code
                 const prefixCode = agentActionsToSpecCode(dismissResult.actions);
                 if (prefixCode) {
@@ -587,6 +668,7 @@ export async function runHybrid(
                     stepNumber: step.number,
                     patchedCode: prefixCode + '\n' + step.code,
                     reason: `Cleared blocker: ${dismissResult.summary}`,
+                    kind: 'obstacle',
                   });
                 }
                 const durationMs = Date.now() - stepStart;
@@ -627,6 +709,7 @@ export async function runHybrid(
                 options.dappContext,
                 testGoal,
                 upcomingDescriptions,
+                options.llm,
               );
 
               totalAgentCalls += fullResult.apiCalls;
@@ -701,6 +784,7 @@ export async function runHybrid(
                       stepNumber: step.number,
                       patchedCode: patchCode,
                       reason: fullResult.summary,
+                      kind: 'selector_fix',
                     });
                   }
                 }
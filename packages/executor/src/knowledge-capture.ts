@@ -0,0 +1,76 @@
+/**
+ * Learned knowledge from passing runs (see the translator's learned-knowledge.ts).
+ *
+ * A run that passes verifies whatever it took to get there: the hybrid runner's spec
+ * patches (a recorded selector that replaced a stale one, an overlay dismissed before the
+ * step), the steps a self-heal rewrote, and the connection flow of a connection spec.
+ * The worker stores these per project and dApp domain so later generations reuse them.
+ */
+
+import type { SpecPatch, SpecStep } from './hybrid-runner.js';
+
+export type CapturedKnowledgeKind = 'selector_fix' | 'obstacle' | 'connection_flow';
+
+export interface CapturedKnowledge {
+  kind: CapturedKnowledgeKind;
+  summary: string;
+  /** Step code that failed */
+  before: string | null;
+  /** Code the passing run verified */
+  after: string;
+}
+
+function sameCode(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Entries for the spec patches of a passing hybrid run. `steps` is the spec the run
+ * executed (the connection + flow composite for flow tests), which the patch numbers refer to.
+ */
+export function knowledgeFromPatches(steps: SpecStep[], patches: SpecPatch[]): CapturedKnowledge[] {
+  const entries: CapturedKnowledge[] = [];
+  for (const patch of patches) {
+    const step = steps.find((s) => s.number === patch.stepNumber);
+    if (!patch.patchedCode.trim() || (step && sameCode(step.code, patch.patchedCode))) continue;
+    entries.push({
+      kind: patch.kind,
+      summary: `${step?.description ?? `Step ${patch.stepNumber}`}: ${patch.reason}`,
+      before: step?.code ?? null,
+      after: patch.patchedCode.trim(),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Entries for the steps a self-healed spec changed, once it passes. Steps are matched by
+ * description, since the regenerated spec may number them differently.
+ */
+export function knowledgeFromHeal(parentSteps: SpecStep[], healedSteps: SpecStep[]): CapturedKnowledge[] {
+  const entries: CapturedKnowledge[] = [];
+  for (const step of healedSteps) {
+    const parent = parentSteps.find((p) => p.description === step.description);
+    if (!parent || sameCode(parent.code, step.code)) continue;
+    entries.push({
+      kind: 'selector_fix',
+      summary: `${step.description}: rewritten by self-heal`,
+      before: parent.code,
+      after: step.code,
+    });
+  }
+  return entries;
+}
+
+/**
+ * The steps of a passing connection spec, as the dApp's connection flow
+ */
+export function knowledgeFromConnectionSpec(steps: SpecStep[]): CapturedKnowledge | null {
+  if (steps.length === 0) return null;
+  return {
+    kind: 'connection_flow',
+    summary: 'Wallet connection flow',
+    before: null,
+    after: steps.map((s) => `// STEP ${s.number}: ${s.description}\n${s.code}`).join('\n\n'),
+  };
+}
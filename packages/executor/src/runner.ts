@@ -4,6 +4,7 @@ import { join, dirname } from 'path';
 import { tmpdir } from 'os';
 import { randomBytes } from 'crypto';
 import AdmZip from 'adm-zip';
+import { PARAMS_ENV_VAR, extractParamsBlock, type SpecParams } from './spec-params.js';
 
 export interface RunnerOptions {
   headless?: boolean;
@@ -13,6 +14,8 @@ export interface RunnerOptions {
   debug?: boolean;
   // Directory containing dappwright test infrastructure (fixtures, config, etc.)
   testDir?: string;
+  // Dataset row for the spec's params block, passed as TEST_PARAMS
+  params?: SpecParams;
 }
 
 export interface RunResult {
@@ -213,6 +216,7 @@ export class TestRunner {
         HEADLESS: this.options.headless ? 'true' : 'false',
         PLAYWRIGHT_JSON_OUTPUT_NAME: join(artifactsDir, 'results.json'),
         ...(seedPhrase ? { SEED_PHRASE: seedPhrase } : {}),
+        ...(this.options.params ? { [PARAMS_ENV_VAR]: JSON.stringify(this.options.params) } : {}),
       };
 
       const proc = spawn('npx', args, {
@@ -542,9 +546,12 @@ export class TestRunner {
     const connectionBody = this.extractTestBody(connectionCode);
     const flowBody = this.extractTestBody(flowCode);
 
+    const paramsBlock = extractParamsBlock(flowCode);
+
     const compositeCode = [
       "import { test, expect } from '../../fixtures/wallet.fixture';",
       '',
+      ...(paramsBlock ? [paramsBlock, ''] : []),
       "test.describe.serial('Connection + Flow', () => {",
       "  test('connect wallet', async ({ wallet, page }) => {",
       ...connectionBody.split('\n').map((line) => `    ${line}`),
@@ -679,6 +686,7 @@ export default defineConfig({
         env: {
           ...process.env,
           HEADLESS: this.options.headless ? 'true' : 'false',
+          ...(this.options.params ? { [PARAMS_ENV_VAR]: JSON.stringify(this.options.params) } : {}),
         },
       });
 
@@ -0,0 +1,63 @@
+/**
+ * Scheduled suite runs.
+ *
+ * Each enabled SuiteSchedule is a BullMQ job scheduler on the test-runs queue, keyed
+ * `schedule-<id>`, that adds a `scheduled-suite` job on its cron expression. The API
+ * registers and removes schedulers as schedules change, and the worker re-syncs them on
+ * startup. The worker turns each job into a suite run for the project or the group.
+ */
+
+export const SCHEDULE_JOB_NAME = 'scheduled-suite';
+
+export type ScheduleExecutionMode = 'SPEC' | 'AGENT' | 'HYBRID';
+
+export interface ScheduledSuiteJobData {
+  scheduleId: string;
+}
+
+export function scheduleJobSchedulerId(scheduleId: string): string {
+  return `schedule-${scheduleId}`;
+}
+
+export function isScheduleJobSchedulerId(id: string): boolean {
+  return id.startsWith('schedule-');
+}
+
+/**
+ * Repeat options for a schedule; the API registers the same ones
+ */
+export function scheduleRepeatOptions(schedule: { cron: string; timezone: string }): { pattern: string; tz: string } {
+  return { pattern: schedule.cron, tz: schedule.timezone };
+}
+
+/**
+ * Job name and id for one run of a scheduled suite. Ids match the ones the API cancels by.
+ */
+export function runJobFor(executionMode: ScheduleExecutionMode, runId: string): { name: string; jobId: string } {
+  if (executionMode === 'AGENT') return { name: 'execute-agent', jobId: `agent-${runId}` };
+  if (executionMode === 'HYBRID') return { name: 'execute-hybrid', jobId: `run-${runId}` };
+  return { name: 'execute', jobId: `run-${runId}` };
+}
+
+/**
+ * Latest non-draft spec of each recording, connection tests first, the same order the
+ * run-suite routes use.
+ */
+export function orderSuiteSpecs(
+  recordings: Array<{ testType?: string | null; testSpecs: Array<{ id: string; code: string }> }>,
+): string[] {
+  const specs = recordings
+    .filter((r) => r.testSpecs.length > 0)
+    .map((r) => ({
+      id: r.testSpecs[0].id,
+      isConnectTest: r.testType === 'connection' || r.testSpecs[0].code.includes('wallet.approve()'),
+    }));
+
+  specs.sort((a, b) => {
+    if (a.isConnectTest && !b.isConnectTest) return -1;
+    if (!a.isConnectTest && b.isConnectTest) return 1;
+    return 0;
+  });
+
+  return specs.map((s) => s.id);
+}
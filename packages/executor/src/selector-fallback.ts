@@ -0,0 +1,156 @@
+/**
+ * Selector candidate fallback — retries a failed spec step with the recorder's
+ * ranked selector bundle before the hybrid runner pays for an agent call.
+ *
+ * The recorder stores several candidates per element (test id, role + name, text,
+ * CSS, XPath, labelled anchor) with how many elements each matched at capture time.
+ * When a step's locator stops resolving after a minor UI change, one of the other
+ * candidates usually still points at the same element.
+ */
+
+// ============================================================================
+// Types (subset of the recording format — executor does not depend on the translator)
+// ============================================================================
+
+export interface SelectorCandidate {
+  strategy: 'testid' | 'role' | 'text' | 'css' | 'xpath' | 'anchor';
+  selector: string;
+  role?: string;
+  name?: string;
+  matchCount: number;
+  score: number;
+}
+
+export interface RecordedElementStep {
+  id?: string;
+  type: string;
+  selector?: string;
+  value?: string;
+  framePath?: string[];
+  shadowPath?: string[];
+  selectorCandidates?: SelectorCandidate[];
+}
+
+export interface CandidateAttempt {
+  candidate: SelectorCandidate;
+  // Code that checks the candidate is unique, then performs the recorded action
+  attemptCode: string;
+  // Code saved into the spec when the attempt succeeds
+  patchCode: string;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+// Errors that mean "the locator didn't find the element", as opposed to app or wallet failures
+const LOCATOR_ERROR_PATTERN = /waiting for (?:locator|selector|getBy)|resolved to \d+ elements|strict mode violation|element is not (?:attached|visible)|Timeout \d+ms exceeded/i;
+
+const REPLAYABLE_STEP_TYPES = ['click', 'input', 'hover'];
+
+/**
+ * Check if a step failure looks like a selector that no longer resolves
+ */
+export function isLocatorError(error: string): boolean {
+  return LOCATOR_ERROR_PATTERN.test(error);
+}
+
+/**
+ * Find the single recorded element step a spec step replays.
+ *
+ * Generated specs always keep the recorded CSS selector as the last .or() fallback,
+ * so a step's code containing that selector (or any bundle selector) identifies it.
+ * Returns null when no step or more than one distinct action matches.
+ */
+export function findRecordedStepForCode(
+  code: string,
+  recordingSteps: RecordedElementStep[],
+): RecordedElementStep | null {
+  const matches = recordingSteps.filter((step) => {
+    if (!REPLAYABLE_STEP_TYPES.includes(step.type) || !step.selectorCandidates?.length) return false;
+    const selectors = [step.selector, ...step.selectorCandidates.map((c) => c.selector)]
+      .filter((s): s is string => !!s && s.length > 3);
+    return selectors.some((s) => code.includes(s) || code.includes(JSON.stringify(s).slice(1, -1)));
+  });
+
+  const distinct = new Map(matches.map((s) => [`${s.type}|${s.selector}|${s.value ?? ''}`, s]));
+  return distinct.size === 1 ? [...distinct.values()][0] : null;
+}
+
+// ============================================================================
+// Code building
+// ============================================================================
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Build the page/frame/shadow scope a step's locators start from
+ */
+function buildScope(step: RecordedElementStep): string {
+  let scope = 'page';
+  for (const frame of step.framePath || []) scope += `.frameLocator(${quote(frame)})`;
+  for (const host of step.shadowPath || []) scope += `.locator(${quote(host)})`;
+  return scope;
+}
+
+function buildLocator(step: RecordedElementStep, candidate: SelectorCandidate): string {
+  const scope = buildScope(step);
+  switch (candidate.strategy) {
+    case 'role':
+      return `${scope}.getByRole(${quote(candidate.role || 'button')}, { name: ${quote(candidate.name || '')} })`;
+    case 'text':
+      return `${scope}.getByText(${quote(candidate.name || '')}, { exact: true })`;
+    default:
+      return `${scope}.locator(${quote(candidate.selector)})`;
+  }
+}
+
+/**
+ * Build the recorded action's method call, with extra options appended when given
+ */
+function buildAction(step: RecordedElementStep, options?: string): string | null {
+  const withOptions = (args: string[]) => [...args, ...(options ? [options] : [])].join(', ');
+  switch (step.type) {
+    case 'click':
+      return `click(${withOptions([])})`;
+    case 'input':
+      return `fill(${withOptions([quote(step.value ?? '')])})`;
+    case 'hover':
+      return `hover(${withOptions([])})`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the ordered candidate attempts for a recorded step.
+ * Candidates that matched several elements at capture time are tried last.
+ */
+export function buildCandidateAttempts(step: RecordedElementStep): CandidateAttempt[] {
+  const action = buildAction(step);
+  const attemptAction = buildAction(step, '{ timeout: 5000 }');
+  if (!action || !attemptAction) return [];
+
+  return (step.selectorCandidates || [])
+    .filter((c) => c.matchCount > 0)
+    .sort((a, b) => Number(b.matchCount === 1) - Number(a.matchCount === 1) || b.score - a.score)
+    .map((candidate) => {
+      const locator = buildLocator(step, candidate);
+      return {
+        candidate,
+        attemptCode: [
+          `const candidate = ${locator}`,
+          `const count = await candidate.count()`,
+          `if (count !== 1) throw new Error('Candidate matched ' + count + ' elements')`,
+          `await candidate.${attemptAction}`,
+        ].join('\n'),
+        patchCode: [
+          `// Auto-patched from recorded selector candidate (${candidate.strategy})`,
+          `await ${locator}.${action}`,
+          `await page.waitForTimeout(500)`,
+        ].join('\n'),
+      };
+    });
+}
@@ -0,0 +1,46 @@
+/**
+ * Spec parameters for data-driven runs.
+ *
+ * Generated specs keep recorded input values in a module-level block
+ * (see the translator's parameters.ts):
+ *
+ *   const params: SpecParams = {
+ *     tradeSize: 10,
+ *     ...JSON.parse(process.env.TEST_PARAMS || '{}'),
+ *   }
+ *
+ * The spec runner sets TEST_PARAMS to the run's dataset row. The hybrid runner executes
+ * step bodies on their own, so it evaluates the block here and passes `params` into
+ * each step's scope.
+ */
+
+export const PARAMS_ENV_VAR = 'TEST_PARAMS';
+
+export type SpecParams = Record<string, string | number>;
+
+const PARAMS_BLOCK_REGEX = /^const params\b[^=\n]*=\s*\{[\s\S]*?^\}/m;
+const PARAMS_INTERFACE_REGEX = /^interface SpecParams\s*\{[\s\S]*?^\}/m;
+
+/**
+ * Values of the spec's params block with the dataset row applied.
+ * Specs without a block get the row as-is.
+ */
+export function resolveSpecParams(specCode: string, overrides: SpecParams = {}): SpecParams {
+  const match = specCode.match(PARAMS_BLOCK_REGEX);
+  if (!match) return { ...overrides };
+
+  const js = match[0].replace(/^const params\s*:\s*\w+/, 'const params');
+  const evaluate = new Function('process', `${js}\nreturn params;`);
+  return evaluate({ env: { [PARAMS_ENV_VAR]: JSON.stringify(overrides) } }) as SpecParams;
+}
+
+/**
+ * The spec's SpecParams interface and params block, for specs rebuilt from test bodies
+ * (connection + flow composites). Empty when the spec has no block.
+ */
+export function extractParamsBlock(specCode: string): string {
+  const block = specCode.match(PARAMS_BLOCK_REGEX);
+  if (!block) return '';
+  const iface = specCode.match(PARAMS_INTERFACE_REGEX);
+  return iface ? `${iface[0]}\n\n${block[0]}` : block[0];
+}
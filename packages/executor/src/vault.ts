@@ -0,0 +1,95 @@
+import { createDecipheriv, createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * Decrypting side of the secrets vault. The API encrypts project seed phrases into
+ * envelopes (see the API's services/vault.ts for the format and key configuration);
+ * only the worker holds the code that opens them, and it records each decrypt in the
+ * SecretAccess audit trail first (see openSeedPhrase in worker.ts).
+ */
+
+const ENVELOPE_PREFIX = 'vault:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+let masterKeys: Map<string, Buffer> | null = null;
+
+/**
+ * Master keys by id: VAULT_MASTER_KEY and VAULT_PREVIOUS_MASTER_KEYS, or the lines of
+ * VAULT_KEY_FILE. Previous keys keep envelopes readable while a rotation is under way.
+ */
+export function loadMasterKeys(env: NodeJS.ProcessEnv = process.env): Map<string, Buffer> {
+  let encoded: string[] = [];
+  if (env.VAULT_MASTER_KEY) {
+    encoded = [env.VAULT_MASTER_KEY, ...(env.VAULT_PREVIOUS_MASTER_KEYS || '').split(',')];
+  } else if (env.VAULT_KEY_FILE && existsSync(env.VAULT_KEY_FILE)) {
+    encoded = readFileSync(env.VAULT_KEY_FILE, 'utf-8').split('\n').filter((line) => !line.trim().startsWith('#'));
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const value of encoded.map((e) => e.trim()).filter(Boolean)) {
+    const key = Buffer.from(value, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new VaultError(`Vault master keys must be ${KEY_BYTES} bytes, base64-encoded`);
+    }
+    keys.set(createHash('sha256').update(key).digest('hex').slice(0, 16), key);
+  }
+
+  if (keys.size === 0) {
+    throw new VaultError('No vault master key configured: set VAULT_MASTER_KEY or VAULT_KEY_FILE');
+  }
+  return keys;
+}
+
+function getMasterKeys(): Map<string, Buffer> {
+  if (!masterKeys) {
+    masterKeys = loadMasterKeys();
+  }
+  return masterKeys;
+}
+
+function envelopeParts(envelope: string): string[] {
+  const parts = envelope.startsWith(ENVELOPE_PREFIX) ? envelope.slice(ENVELOPE_PREFIX.length).split(':') : [];
+  if (parts.length !== 5) {
+    throw new VaultError('Secret is not a vault envelope; run `vault migrate` in the API package');
+  }
+  return parts;
+}
+
+export function envelopeKeyId(envelope: string): string {
+  return envelopeParts(envelope)[0];
+}
+
+/**
+ * Open a project's envelope. The project id is the ciphertext's associated data, so
+ * an envelope only opens for the project it was written for.
+ */
+export function decryptSecret(envelope: string, projectId: string, keys: Map<string, Buffer> = getMasterKeys()): string {
+  const [keyId, ...encoded] = envelopeParts(envelope);
+  const [wrappedKey, iv, tag, ciphertext] = encoded.map((part) => Buffer.from(part, 'base64url'));
+
+  const masterKey = keys.get(keyId);
+  if (!masterKey) {
+    throw new VaultError(`Master key ${keyId} is not configured on this worker`);
+  }
+
+  // Unwrap the data key (iv | tag | ciphertext, key id bound as associated data)
+  const unwrap = createDecipheriv(ALGORITHM, masterKey, wrappedKey.subarray(0, IV_BYTES));
+  unwrap.setAAD(Buffer.from(keyId));
+  unwrap.setAuthTag(wrappedKey.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  const dataKey = Buffer.concat([unwrap.update(wrappedKey.subarray(IV_BYTES + TAG_BYTES)), unwrap.final()]);
+
+  const decipher = createDecipheriv(ALGORITHM, dataKey, iv);
+  decipher.setAAD(Buffer.from(projectId));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+}
@@ -0,0 +1,207 @@
+/**
+ * Outbound webhooks for run, suite and self-heal lifecycle events.
+ *
+ * The worker stores one WebhookDelivery per subscribed webhook and event, and queues it on
+ * the webhook-deliveries queue, which retries failed attempts with exponential backoff.
+ * Each request is a JSON POST signed with the webhook's secret:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Subscribers recompute the HMAC over the raw body and compare, and reject old timestamps.
+ *
+ * Requests go through the translator's postWebhook, which resolves the URL while
+ * connecting and refuses loopback, private and link-local addresses, so a webhook can't
+ * be pointed at the executor's own network (set WEBHOOK_ALLOW_PRIVATE_URLS=true for
+ * subscribers on that network). Redirects are not followed, and response bodies are
+ * not kept.
+ */
+
+import { createHmac } from 'crypto';
+
+export type WebhookEvent = 'run.started' | 'run.passed' | 'run.failed' | 'suite.completed' | 'spec.healed';
+
+export const WEBHOOK_QUEUE_NAME = 'webhook-deliveries';
+
+/** Attempts per delivery before it is marked FAILED */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+/** First retry delay; doubles with each attempt (30s, 1m, 2m, 4m, 8m) */
+export const WEBHOOK_RETRY_DELAY_MS = 30_000;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent | 'webhook.test';
+  createdAt: string;
+  projectId: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export interface RunEventRun {
+  id: string;
+  status: string;
+  executionMode?: string | null;
+  durationMs: number | null;
+  error: string | null;
+  suiteRunId: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  testSpec: { id: string; recording: { id: string; name: string } | null } | null;
+}
+
+export interface RunEventArtifact {
+  type: string;
+  name: string;
+  storagePath: string;
+  stepName: string | null;
+}
+
+/**
+ * Dashboard origin used for links in payloads. Artifact links go through the dashboard's
+ * /api proxy and need a session or an API key.
+ */
+export function getDashboardUrl(): string {
+  return (process.env.DASHBOARD_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+export function webhookRetryDelay(attempt: number): number {
+  return WEBHOOK_RETRY_DELAY_MS * 2 ** (attempt - 1);
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${hmac}`;
+}
+
+/**
+ * Event for a run's status: started while running, passed or failed once finished.
+ * Cancelled and pending runs have none.
+ */
+export function runEventFor(status: string): WebhookEvent | null {
+  if (status === 'RUNNING') return 'run.started';
+  if (status === 'PASSED') return 'run.passed';
+  if (status === 'FAILED' || status === 'TIMEOUT') return 'run.failed';
+  return null;
+}
+
+export function runEventData(run: RunEventRun, artifacts: RunEventArtifact[], baseUrl = getDashboardUrl()): Record<string, unknown> {
+  return {
+    run: {
+      id: run.id,
+      status: run.status,
+      executionMode: run.executionMode || 'SPEC',
+      durationMs: run.durationMs,
+      error: run.error,
+      specId: run.testSpec?.id || null,
+      recordingId: run.testSpec?.recording?.id || null,
+      recordingName: run.testSpec?.recording?.name || null,
+      suiteRunId: run.suiteRunId,
+      startedAt: run.startedAt?.toISOString() || null,
+      completedAt: run.completedAt?.toISOString() || null,
+    },
+    links: {
+      run: `${baseUrl}/runs/${run.id}`,
+      artifacts: artifacts.map((a) => ({
+        type: a.type,
+        name: a.name,
+        stepName: a.stepName,
+        url: `${baseUrl}/api/artifacts/${a.storagePath}`,
+      })),
+    },
+  };
+}
+
+export function suiteEventData(
+  suiteRun: {
+    id: string;
+    projectId: string;
+    status: string;
+    totalTests: number;
+    passedTests: number;
+    failedTests: number;
+    durationMs: number | null;
+    completedAt: Date | null;
+    testRuns: Array<{ id: string; status: string }>;
+  },
+  baseUrl = getDashboardUrl(),
+): Record<string, unknown> {
+  return {
+    suiteRun: {
+      id: suiteRun.id,
+      status: suiteRun.status,
+      totalTests: suiteRun.totalTests,
+      passedTests: suiteRun.passedTests,
+      failedTests: suiteRun.failedTests,
+      durationMs: suiteRun.durationMs,
+      completedAt: suiteRun.completedAt?.toISOString() || null,
+    },
+    links: {
+      suiteRun: `${baseUrl}/projects/${suiteRun.projectId}/suite-runs/${suiteRun.id}`,
+      runs: suiteRun.testRuns.map((r) => ({ id: r.id, status: r.status, url: `${baseUrl}/runs/${r.id}` })),
+    },
+  };
+}
+
+export function specHealedEventData(
+  heal: { failedRunId: string; previousSpecId: string; specId: string; version: number; attempt: number; category: string; retryRunId: string },
+  baseUrl = getDashboardUrl(),
+): Record<string, unknown> {
+  return {
+    heal,
+    links: {
+      spec: `${baseUrl}/tests/${heal.specId}`,
+      failedRun: `${baseUrl}/runs/${heal.failedRunId}`,
+      retryRun: `${baseUrl}/runs/${heal.retryRunId}`,
+    },
+  };
+}
+
+/**
+ * POST a payload to a subscriber. Never throws; failures come back as `ok: false`.
+ */
+export async function sendWebhook(
+  webhook: { url: string; secret: string },
+  deliveryId: string,
+  payload: WebhookPayload,
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const translatorModule = '@web3-test/translator';
+    const { postWebhook } = await import(/* webpackIgnore: true */ translatorModule);
+    const status: number = await postWebhook(webhook.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'web3-test-webhooks/1',
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Delivery': deliveryId,
+        'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+    });
+    const ok = status >= 200 && status < 300;
+
+    return {
+      ok,
+      responseStatus: status,
+      error: ok ? null : `HTTP ${status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
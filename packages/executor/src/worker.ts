@@ -1,9 +1,40 @@
 import { Worker, Job, Queue } from 'bullmq';
-import type { PrismaClient as PrismaClientType } from '@prisma/client';
+import type { PrismaClient as PrismaClientType, Project } from '@prisma/client';
 import { createRunner, type RunResult, type SuiteRunResult } from './runner.js';
-import { runHybrid, type SpecPatch } from './hybrid-runner.js';
+import { runHybrid, parseSpecIntoSteps, type SpecPatch } from './hybrid-runner.js';
+import { knowledgeFromPatches, knowledgeFromHeal, knowledgeFromConnectionSpec, type CapturedKnowledge } from './knowledge-capture.js';
+import type { RecordedElementStep } from './selector-fallback.js';
+import { resolveSpecParams, type SpecParams } from './spec-params.js';
+import type { AgentLLMConfig, LLMProviderName } from './agent/types.js';
+import { isAgentLLMConfigured } from './agent/llm.js';
+import { decryptSecret, envelopeKeyId } from './vault.js';
+import { rebaseDappUrl, findSpecDappUrl } from './dapp-url.js';
+import {
+  WEBHOOK_QUEUE_NAME,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAY_MS,
+  webhookRetryDelay,
+  runEventFor,
+  runEventData,
+  suiteEventData,
+  specHealedEventData,
+  sendWebhook,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookDeliveryJobData,
+} from './webhooks.js';
+import {
+  SCHEDULE_JOB_NAME,
+  scheduleJobSchedulerId,
+  isScheduleJobSchedulerId,
+  scheduleRepeatOptions,
+  runJobFor,
+  orderSuiteSpecs,
+  type ScheduledSuiteJobData,
+} from './schedules.js';
 import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
 import { join, basename } from 'path';
+import { hostname } from 'os';
 import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 
 // Lazy-loaded Prisma client (initialized when first needed)
@@ -60,6 +91,202 @@ interface AgentRunJobData {
   streamingMode?: 'NONE' | 'VNC' | 'VIDEO';
 }
 
+// Project columns holding the per-project LLM settings
+const PROJECT_LLM_SELECT = { llmProvider: true, llmModel: true, llmBaseUrl: true } as const;
+
+/**
+ * Per-project LLM provider settings (unset fields fall back to env in the provider layer)
+ */
+function getProjectLLMConfig(project: Pick<Project, 'llmProvider' | 'llmModel' | 'llmBaseUrl'> | null | undefined): AgentLLMConfig {
+  return {
+    ...(project?.llmProvider && { provider: project.llmProvider as LLMProviderName }),
+    ...(project?.llmModel && { model: project.llmModel }),
+    ...(project?.llmBaseUrl && { baseUrl: project.llmBaseUrl }),
+  };
+}
+
+/**
+ * Dataset row of a data-driven run (null for ordinary runs)
+ */
+function getRunParams(run: unknown): SpecParams | undefined {
+  const params = (run as { params?: SpecParams | null }).params;
+  return params || undefined;
+}
+
+/**
+ * Whether a spec is a recording segment that starts with the wallet already connected
+ * (see the translator's segmenter.ts); those run behind the connection spec like flow tests
+ */
+function requiresConnection(testSpec: unknown): boolean {
+  const preconditions = (testSpec as { preconditions?: Array<{ type: string }> | null }).preconditions;
+  return !!preconditions?.some((p) => p.type === 'wallet_connected');
+}
+
+type SecretPurpose = 'test_run' | 'suite_run' | 'agent_run' | 'hybrid_run';
+
+/**
+ * Decrypt a project's seed phrase for a run (see vault.ts). The access is recorded
+ * first, so a decrypt never happens without an audit row.
+ */
+async function openSeedPhrase(
+  db: PrismaClientType,
+  project: { id: string; encryptedSeedPhrase: string },
+  purpose: SecretPurpose,
+  runId: string,
+): Promise<string> {
+  await db.secretAccess.create({
+    data: {
+      projectId: project.id,
+      secret: 'seed_phrase',
+      keyId: envelopeKeyId(project.encryptedSeedPhrase),
+      purpose,
+      runId,
+      worker: `${hostname()}:${process.pid}`,
+    },
+  });
+
+  return decryptSecret(project.encryptedSeedPhrase, project.id);
+}
+
+interface SnippetBlock {
+  name: string;
+  version: number;
+  code: string;
+}
+
+/**
+ * Link data for the project snippets a spec's code contains (see the translator's snippets.ts)
+ */
+async function getSnippetLinks(db: PrismaClientType, projectId: string | null | undefined, code: string) {
+  if (!projectId) return { connect: [] };
+  const translatorModule = '@web3-test/translator';
+  const { extractSnippetBlocks } = await import(/* webpackIgnore: true */ translatorModule);
+  const names = (extractSnippetBlocks(code) as SnippetBlock[]).map((b) => b.name);
+  if (names.length === 0) return { connect: [] };
+
+  const snippets = await db.stepSnippet.findMany({
+    where: { projectId, name: { in: names } },
+    select: { id: true },
+  });
+  return { connect: snippets.map((s) => ({ id: s.id })) };
+}
+
+/**
+ * A self-healed spec that passed may have fixed a shared snippet. The fix becomes the
+ * snippet's next version and is rolled out to every spec that uses it, so the step is
+ * healed once instead of in each spec. Only fixes made against the current version count.
+ */
+async function promoteSnippetFixes(db: PrismaClientType, spec: { id: string; code: string }, projectId: string): Promise<void> {
+  const translatorModule = '@web3-test/translator';
+  const { extractSnippetBlocks, applySnippets } = await import(/* webpackIgnore: true */ translatorModule);
+  const blocks = extractSnippetBlocks(spec.code) as SnippetBlock[];
+  if (blocks.length === 0) return;
+
+  const snippets = await db.stepSnippet.findMany({
+    where: { projectId, name: { in: blocks.map((b) => b.name) } },
+    include: { specs: { select: { id: true, code: true, version: true } } },
+  });
+
+  for (const snippet of snippets) {
+    const block = blocks.find((b) => b.name === snippet.name);
+    if (!block || block.version !== snippet.version || block.code.trim() === snippet.code) continue;
+
+    const promoted = { ...snippet, code: block.code.trim(), version: snippet.version + 1 };
+    await db.stepSnippet.update({
+      where: { id: snippet.id },
+      data: { code: promoted.code, version: promoted.version },
+    });
+
+    const dependents = snippet.specs.some((s) => s.id === spec.id)
+      ? snippet.specs
+      : [...snippet.specs, { id: spec.id, code: spec.code, version: 0 }];
+    for (const dependent of dependents) {
+      const { code } = applySnippets(dependent.code, [promoted]) as { code: string };
+      await db.testSpec.update({
+        where: { id: dependent.id },
+        data: {
+          code,
+          ...(dependent.id === spec.id
+            ? { snippets: { connect: [{ id: snippet.id }] } }
+            : { version: dependent.version + 1 }),
+        },
+      });
+    }
+
+    console.log(`[Worker] Promoted self-heal fix of snippet "${snippet.name}" to v${promoted.version} (${dependents.length} specs)`);
+  }
+}
+
+/**
+ * URL of the dApp a recording was made on, which learned knowledge is filed under
+ */
+function getDappUrl(recording: unknown): string | null {
+  const r = (recording || {}) as { dappUrl?: string | null; jsonData?: { startUrl?: string } | null };
+  return r.dappUrl || r.jsonData?.startUrl || null;
+}
+
+/**
+ * dApp URL override a run was started with, e.g. a preview deployment from CI
+ */
+function getDappUrlOverride(run: unknown): string | null {
+  return (run as { dappUrl?: string | null }).dappUrl || null;
+}
+
+/**
+ * Spec code pointed at the run's dApp URL override, if it has one
+ */
+function withDappUrlOverride(code: string, recording: unknown, run: unknown): string {
+  const override = getDappUrlOverride(run);
+  if (!override) return code;
+  return rebaseDappUrl(code, getDappUrl(recording) || findSpecDappUrl(code), override);
+}
+
+/**
+ * Store fixes verified by a passing run as the project's learned knowledge for the dApp
+ * (see knowledge-capture.ts). A fix seen before counts as another hit.
+ */
+async function saveLearnedKnowledge(
+  db: PrismaClientType,
+  projectId: string,
+  dappUrl: string,
+  entries: CapturedKnowledge[],
+  source: 'agent_patch' | 'self_heal' | 'connection_run',
+  specId: string,
+): Promise<void> {
+  if (entries.length === 0) return;
+  const translatorModule = '@web3-test/translator';
+  const { dappDomain, knowledgeFingerprint } = await import(/* webpackIgnore: true */ translatorModule);
+  const domain: string = dappDomain(dappUrl);
+
+  for (const entry of entries) {
+    const fingerprint: string = knowledgeFingerprint({ ...entry, domain });
+    await db.knowledgeEntry.upsert({
+      where: { projectId_fingerprint: { projectId, fingerprint } },
+      create: { projectId, domain, fingerprint, source, sourceSpecId: specId, ...entry },
+      update: { summary: entry.summary, before: entry.before, after: entry.after, sourceSpecId: specId, hits: { increment: 1 } },
+    });
+  }
+  console.log(`[Worker] Learned ${entries.length} ${source} entr${entries.length === 1 ? 'y' : 'ies'} for ${domain}`);
+}
+
+/**
+ * Keep a passing connection spec's steps as the dApp's connection flow
+ */
+async function recordConnectionFlow(
+  db: PrismaClientType,
+  recording: { projectId?: string | null },
+  testSpec: { id: string; code: string },
+): Promise<void> {
+  const dappUrl = getDappUrl(recording);
+  if (!recording.projectId || !dappUrl) return;
+  try {
+    const flow = knowledgeFromConnectionSpec(parseSpecIntoSteps(testSpec.code));
+    if (flow) await saveLearnedKnowledge(db, recording.projectId, dappUrl, [flow], 'connection_run', testSpec.id);
+  } catch (err) {
+    console.warn(`[Worker] Failed to save connection flow knowledge:`, err instanceof Error ? err.message : err);
+  }
+}
+
 // S3 client for MinIO
 let s3Client: S3Client | null = null;
 
@@ -162,12 +389,151 @@ function startCancelPoller(runId: string, onCancel: () => void, intervalMs = 500
 }
 
 /**
- * Check if all TestRuns in a suite are terminal, and if so, update the SuiteRun.
+ * Create a webhook delivery queue (deliveries retry with exponential backoff)
+ */
+function createWebhookQueue(): Queue<WebhookDeliveryJobData> {
+  return new Queue<WebhookDeliveryJobData>(WEBHOOK_QUEUE_NAME, {
+    connection: redisConnection,
+    defaultJobOptions: {
+      attempts: WEBHOOK_MAX_ATTEMPTS,
+      backoff: {
+        type: 'exponential',
+        delay: WEBHOOK_RETRY_DELAY_MS,
+      },
+      removeOnComplete: {
+        count: 100,
+      },
+      removeOnFail: {
+        count: 100,
+      },
+    },
+  });
+}
+
+/**
+ * Store and queue a delivery for each of the project's webhooks subscribed to `event`
+ * (see webhooks.ts). Webhook problems are logged and never fail the job.
+ */
+async function emitWebhookEvent(
+  db: PrismaClientType,
+  projectId: string | null | undefined,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<void> {
+  if (!projectId) return;
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { projectId, enabled: true, events: { has: event } },
+      select: { id: true },
+    });
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload = { event, createdAt: new Date().toISOString(), projectId, data };
+    const queue = createWebhookQueue();
+    for (const webhook of webhooks) {
+      const delivery = await db.webhookDelivery.create({
+        data: { webhookId: webhook.id, event, payload: payload as unknown as object },
+      });
+      await queue.add('deliver', { deliveryId: delivery.id }, { jobId: `webhook-${delivery.id}` });
+    }
+    await queue.close();
+
+    console.log(`[Worker] Queued ${event} for ${webhooks.length} webhook(s)`);
+  } catch (err) {
+    console.warn(`[Worker] Failed to emit ${event} webhooks:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Send a run's lifecycle event for its current status, with links to its artifacts
+ */
+async function emitRunEvent(db: PrismaClientType, runId: string): Promise<void> {
+  try {
+    const run = await db.testRun.findUnique({
+      where: { id: runId },
+      include: {
+        testSpec: { select: { id: true, recording: { select: { id: true, name: true, projectId: true } } } },
+        artifacts: { select: { type: true, name: true, storagePath: true, stepName: true } },
+      },
+    });
+    const event = run && runEventFor(run.status);
+    if (!event) return;
+
+    await emitWebhookEvent(db, run.testSpec?.recording?.projectId, event, runEventData(run, run.artifacts));
+  } catch (err) {
+    console.warn(`[Worker] Failed to emit webhook event for run ${runId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Send suite.completed for a suite run that has reached PASSED or FAILED
+ */
+async function emitSuiteCompleted(db: PrismaClientType, suiteRunId: string): Promise<void> {
+  try {
+    const suiteRun = await db.suiteRun.findUnique({
+      where: { id: suiteRunId },
+      include: { testRuns: { select: { id: true, status: true }, orderBy: { createdAt: 'asc' } } },
+    });
+    if (!suiteRun) return;
+
+    await emitWebhookEvent(db, suiteRun.projectId, 'suite.completed', suiteEventData(suiteRun));
+  } catch (err) {
+    console.warn(`[Worker] Failed to emit suite.completed for ${suiteRunId}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Send one webhook delivery. A failed attempt throws so BullMQ retries it with backoff;
+ * the delivery row keeps the outcome of the latest attempt for the delivery log.
+ */
+async function processWebhookDelivery(job: Job<WebhookDeliveryJobData>): Promise<void> {
+  const db = await getPrisma();
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: job.data.deliveryId },
+    include: { webhook: true },
+  });
+
+  if (!delivery || delivery.status !== 'PENDING') return;
+
+  if (!delivery.webhook.enabled) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'FAILED', error: 'Webhook disabled', nextAttemptAt: null },
+    });
+    return;
+  }
+
+  const attempt = job.attemptsMade + 1;
+  const result = await sendWebhook(delivery.webhook, delivery.id, delivery.payload as unknown as WebhookPayload);
+  const retrying = !result.ok && attempt < (job.opts.attempts || 1);
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: result.ok ? 'SUCCEEDED' : retrying ? 'PENDING' : 'FAILED',
+      attempts: attempt,
+      responseStatus: result.responseStatus,
+      error: result.error,
+      nextAttemptAt: retrying ? new Date(Date.now() + webhookRetryDelay(attempt)) : null,
+      deliveredAt: result.ok ? new Date() : null,
+    },
+  });
+
+  if (!result.ok) {
+    throw new Error(`Webhook delivery ${delivery.id} failed: ${result.error}`);
+  }
+}
+
+/**
+ * Send the finished run's webhook event, then check if all TestRuns in a suite are
+ * terminal, and if so, update the SuiteRun and send suite.completed.
  * Called after each individual TestRun completes (for parallel execution).
  */
 async function checkAndUpdateSuiteCompletion(testRunId: string): Promise<void> {
   const db = await getPrisma();
 
+  await emitRunEvent(db, testRunId);
+
   // Look up the TestRun to get suiteRunId
   const testRun = await db.testRun.findUnique({
     where: { id: testRunId },
@@ -196,19 +562,18 @@ async function checkAndUpdateSuiteCompletion(testRunId: string): Promise<void> {
   // Compute duration from suite startedAt
   const suiteRun = await db.suiteRun.findUnique({
     where: { id: suiteRunId },
-    select: { startedAt: true, status: true },
+    select: { startedAt: true },
   });
 
-  // Don't update if already completed (race condition guard)
-  if (suiteRun?.status === 'PASSED' || suiteRun?.status === 'FAILED') return;
-
   const now = new Date();
   const durationMs = suiteRun?.startedAt
     ? now.getTime() - suiteRun.startedAt.getTime()
     : null;
 
-  await db.suiteRun.update({
-    where: { id: suiteRunId },
+  // The last runs of a suite can finish at the same time on different workers; only
+  // the one whose update moves the suite out of RUNNING completes it
+  const { count } = await db.suiteRun.updateMany({
+    where: { id: suiteRunId, status: 'RUNNING' },
     data: {
       status: allPassed ? 'PASSED' : 'FAILED',
       passedTests: passedCount,
@@ -217,8 +582,11 @@ async function checkAndUpdateSuiteCompletion(testRunId: string): Promise<void> {
       durationMs,
     },
   });
+  if (count !== 1) return;
 
   console.log(`[Worker] Suite ${suiteRunId} completed: ${passedCount}/${allTestRuns.length} passed`);
+
+  await emitSuiteCompleted(db, suiteRunId);
 }
 
 /**
@@ -236,7 +604,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
     return;
   }
 
-  // Get the run and its spec, traversing to recording → project for seedPhrase
+  // Get the run and its spec, traversing to recording → project for the seed phrase
   const run = await db.testRun.findUnique({
     where: { id: runId },
     include: {
@@ -244,7 +612,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
         include: {
           recording: {
             include: {
-              project: { select: { seedPhrase: true } },
+              project: { select: { id: true, encryptedSeedPhrase: true, ...PROJECT_LLM_SELECT } },
             },
           },
         },
@@ -260,9 +628,6 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
     throw new Error(`Test spec not found for run: ${runId}`);
   }
 
-  // Get seed phrase from project (if recording is associated with a project)
-  const seedPhrase = run.testSpec.recording?.project?.seedPhrase;
-
   // Update status to running
   await db.testRun.update({
     where: { id: runId },
@@ -271,6 +636,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
       startedAt: new Date(),
     },
   });
+  await emitRunEvent(db, runId);
 
   // Update job progress
   await job.updateProgress(10);
@@ -282,12 +648,18 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
   // Determine headless based on streaming mode
   const isHeadless = streamingMode === 'NONE' && run.headless;
 
+  const params = getRunParams(run);
+  if (params) {
+    console.log(`[Worker] Dataset "${run.datasetName}" with parameters: ${Object.keys(params).join(', ')}`);
+  }
+
   const runner = createRunner({
     headless: isHeadless,
     outputDir: artifactsDir,
     keepArtifacts: true,
     debug: process.env.DEBUG === 'true',
     testDir: DAPPWRIGHT_TEST_DIR,
+    params,
   });
 
   let result: RunResult;
@@ -300,14 +672,24 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
   });
 
   try {
+    // Get seed phrase from project (if recording is associated with a project). A vault
+    // failure fails the run like any other error
+    const seedPhrase = run.testSpec.recording?.project
+      ? await openSeedPhrase(db, run.testSpec.recording.project, 'test_run', runId)
+      : undefined;
+
     await job.updateProgress(20);
 
     // Check if this is a flow test that needs auto-connection
     const recording = run.testSpec.recording;
     const testType = recording ? (recording as { testType?: string }).testType : null;
     const projectId = recording?.projectId;
+    const specCode = withDappUrlOverride(run.testSpec.code, recording, run);
+    if (getDappUrlOverride(run)) {
+      console.log(`[Worker] Running against dApp URL override ${getDappUrlOverride(run)}`);
+    }
 
-    if (testType === 'flow' && projectId && seedPhrase) {
+    if ((testType === 'flow' || requiresConnection(run.testSpec)) && projectId && seedPhrase) {
       // Look up the project's connection spec
       const project = await db.project.findUnique({
         where: { id: projectId },
@@ -324,7 +706,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
 
         if (connectionSpec) {
           console.log(`[Worker] Flow test: using connection spec ${connectionSpecId}`);
-          result = await runner.runWithConnection(connectionSpec.code, run.testSpec.code, seedPhrase);
+          result = await runner.runWithConnection(withDappUrlOverride(connectionSpec.code, recording, run), specCode, seedPhrase);
         } else {
           // Stale reference — clear it so auto-set can fix it on next connection test pass
           console.warn(`[Worker] Connection spec ${connectionSpecId} not found (stale) — clearing and running as-is`);
@@ -332,15 +714,15 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
             where: { id: projectId },
             data: { connectionSpecId: null },
           });
-          result = await runner.run(run.testSpec.code, undefined, seedPhrase);
+          result = await runner.run(specCode, undefined, seedPhrase);
         }
       } else {
         // No connection spec set for project, run as-is (translator should have added connection steps)
-        result = await runner.run(run.testSpec.code, undefined, seedPhrase);
+        result = await runner.run(specCode, undefined, seedPhrase);
       }
     } else {
       // Connection test or no project association — run normally
-      result = await runner.run(run.testSpec.code, undefined, seedPhrase);
+      result = await runner.run(specCode, undefined, seedPhrase);
     }
 
     // If cancelled during execution, skip artifact processing
@@ -394,10 +776,32 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
       data: { status: 'TESTED' },
     });
 
+    // A passing self-healed spec shares its snippet fixes with the project
+    if (result.passed && run.testSpec.parentSpecId && recording?.projectId) {
+      try {
+        await promoteSnippetFixes(db, run.testSpec, recording.projectId);
+      } catch (err) {
+        console.warn(`[Worker] Failed to promote snippet fixes:`, err instanceof Error ? err.message : err);
+      }
+
+      const dappUrl = getDappUrl(recording);
+      if (dappUrl) {
+        try {
+          const parent = await db.testSpec.findUnique({ where: { id: run.testSpec.parentSpecId }, select: { code: true } });
+          if (parent) {
+            const entries = knowledgeFromHeal(parseSpecIntoSteps(parent.code), parseSpecIntoSteps(run.testSpec.code));
+            await saveLearnedKnowledge(db, recording.projectId, dappUrl, entries, 'self_heal', run.testSpec.id);
+          }
+        } catch (err) {
+          console.warn(`[Worker] Failed to save self-heal knowledge:`, err instanceof Error ? err.message : err);
+        }
+      }
+    }
+
     // Auto-set connectionSpecId if this is a passing connection test
     if (result.passed && recording) {
       const recTestType = (recording as { testType?: string }).testType;
-      if (recTestType === 'connection' && recording.projectId) {
+      if (recTestType === 'connection' && !requiresConnection(run.testSpec) && recording.projectId) {
         try {
           const project = await db.project.findUnique({
             where: { id: recording.projectId },
@@ -423,6 +827,8 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
         } catch (err) {
           console.warn(`[Worker] Failed to auto-set connectionSpecId:`, err instanceof Error ? err.message : err);
         }
+
+        await recordConnectionFlow(db, recording, run.testSpec);
       }
     }
 
@@ -436,7 +842,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
     // HYBRID: if spec failed, launch agent to take over (replaces old self-heal loop)
     // Skip agent fallback for code bugs — these need a spec fix, not AI retry
     const isCodeBug = result.error && /ReferenceError|SyntaxError|TypeError|Cannot find module/.test(result.error);
-    if (!result.passed && !isCodeBug && run.testSpec?.recording && process.env.ANTHROPIC_API_KEY) {
+    if (!result.passed && !isCodeBug && run.testSpec?.recording && isAgentLLMConfigured(getProjectLLMConfig(run.testSpec.recording.project))) {
       console.log(`[Worker] Spec failed — launching agent fallback for run ${runId}`);
       try {
         const agentQueue = createQueue();
@@ -449,6 +855,7 @@ async function processTestRun(job: Job<TestRunJobData>): Promise<void> {
             streamingMode: run.streamingMode,
             executionMode: 'AGENT',
             isAutoRetry: true,
+            dappUrl: getDappUrlOverride(run),
           },
         });
         await agentQueue.add('execute-agent', {
@@ -536,7 +943,7 @@ async function processSuiteRun(job: Job<SuiteRunJobData>): Promise<void> {
     .filter((tr) => tr.testSpec)
     .map((tr) => ({
       id: tr.testSpec!.id,
-      code: tr.testSpec!.code,
+      code: withDappUrlOverride(tr.testSpec!.code, null, suiteRun),
       name: `test-${tr.testSpec!.id.slice(0, 8)}`,
       isConnectTest: tr.testSpec!.code.includes('wallet.approve()'),
       testRunId: tr.id,
@@ -565,10 +972,8 @@ async function processSuiteRun(job: Job<SuiteRunJobData>): Promise<void> {
   try {
     await job.updateProgress(20);
 
-    const result: SuiteRunResult = await runner.runSuite(
-      specs,
-      suiteRun.project.seedPhrase
-    );
+    const seedPhrase = await openSeedPhrase(db, suiteRun.project, 'suite_run', suiteRunId);
+    const result: SuiteRunResult = await runner.runSuite(specs, seedPhrase);
 
     await job.updateProgress(80);
 
@@ -637,6 +1042,11 @@ async function processSuiteRun(job: Job<SuiteRunJobData>): Promise<void> {
     await job.updateProgress(100);
 
     console.log(`[Worker] Suite run ${suiteRunId} completed: ${passedCount}/${specs.length} passed`);
+
+    for (const spec of specs) {
+      await emitRunEvent(db, spec.testRunId);
+    }
+    await emitSuiteCompleted(db, suiteRunId);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -663,10 +1073,139 @@ async function processSuiteRun(job: Job<SuiteRunJobData>): Promise<void> {
     });
 
     console.error(`[Worker] Suite run ${suiteRunId} failed:`, errorMessage);
+
+    for (const tr of suiteRun.testRuns) {
+      await emitRunEvent(db, tr.id);
+    }
+    await emitSuiteCompleted(db, suiteRunId);
     throw error;
   }
 }
 
+/**
+ * Process a scheduled-suite job — start a suite run for the schedule's project or group.
+ * A tick is skipped while the schedule is paused or its previous suite run is unfinished.
+ */
+async function processScheduledSuite(job: Job<ScheduledSuiteJobData>): Promise<void> {
+  const { scheduleId } = job.data;
+  const db = await getPrisma();
+
+  const schedule = await db.suiteSchedule.findUnique({ where: { id: scheduleId } });
+  if (!schedule) {
+    // Deleted while Redis was unreachable, so its job scheduler was left behind
+    const queue = createQueue();
+    await queue.removeJobScheduler(scheduleJobSchedulerId(scheduleId));
+    await queue.close();
+    console.warn(`[Worker] Removed job scheduler of deleted schedule ${scheduleId}`);
+    return;
+  }
+
+  if (!schedule.enabled) {
+    console.log(`[Worker] Schedule ${scheduleId} is paused, skipping`);
+    return;
+  }
+
+  const unfinished = await db.suiteRun.findFirst({
+    where: { scheduleId, status: { in: ['PENDING', 'RUNNING'] } },
+    select: { id: true },
+  });
+  if (unfinished) {
+    console.log(`[Worker] Schedule ${scheduleId}: suite run ${unfinished.id} still running, skipping`);
+    return;
+  }
+
+  const recordings = await db.recording.findMany({
+    where: { projectId: schedule.projectId, ...(schedule.groupId && { groupId: schedule.groupId }) },
+    include: {
+      testSpecs: {
+        where: { status: { not: 'DRAFT' } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+  const specIds = orderSuiteSpecs(recordings);
+
+  await db.suiteSchedule.update({ where: { id: scheduleId }, data: { lastRunAt: new Date() } });
+
+  if (specIds.length === 0) {
+    console.warn(`[Worker] Schedule ${scheduleId}: no test specs to run`);
+    return;
+  }
+
+  const suiteRun = await db.suiteRun.create({
+    data: {
+      projectId: schedule.projectId,
+      groupId: schedule.groupId,
+      scheduleId,
+      status: 'RUNNING',
+      startedAt: new Date(),
+      specIds,
+      totalTests: specIds.length,
+      headless: schedule.headless,
+      streamingMode: schedule.streamingMode,
+    },
+  });
+
+  const queue = createQueue();
+  try {
+    for (const specId of specIds) {
+      const run = await db.testRun.create({
+        data: {
+          testSpecId: specId,
+          status: 'PENDING',
+          headless: schedule.headless,
+          streamingMode: schedule.streamingMode,
+          executionMode: schedule.executionMode,
+          suiteRunId: suiteRun.id,
+        },
+      });
+      const { name, jobId } = runJobFor(schedule.executionMode, run.id);
+      await queue.add(name, { runId: run.id, streamingMode: schedule.streamingMode }, { jobId, priority: 2 });
+    }
+  } finally {
+    await queue.close();
+  }
+
+  console.log(`[Worker] Schedule ${scheduleId} started suite run ${suiteRun.id} (${specIds.length} tests)`);
+}
+
+/**
+ * Register a job scheduler for every enabled schedule and drop the rest, so schedules
+ * saved while Redis was down (or lost with it) still fire
+ */
+async function syncSchedules(): Promise<void> {
+  const db = await getPrisma();
+  const queue = new Queue<ScheduledSuiteJobData>(QUEUE_NAME, { connection: redisConnection });
+
+  try {
+    const schedules = await db.suiteSchedule.findMany({ where: { enabled: true } });
+    const active = new Set<string>();
+
+    for (const schedule of schedules) {
+      const schedulerId = scheduleJobSchedulerId(schedule.id);
+      active.add(schedulerId);
+      await queue.upsertJobScheduler(schedulerId, scheduleRepeatOptions(schedule), {
+        name: SCHEDULE_JOB_NAME,
+        data: { scheduleId: schedule.id },
+        opts: { attempts: 1 },
+      });
+    }
+
+    for (const scheduler of await queue.getJobSchedulers()) {
+      if (isScheduleJobSchedulerId(scheduler.key) && !active.has(scheduler.key)) {
+        await queue.removeJobScheduler(scheduler.key);
+      }
+    }
+
+    console.log(`[Worker] Synced ${schedules.length} suite schedule(s)`);
+  } catch (error) {
+    console.warn('[Worker] Failed to sync suite schedules:', error instanceof Error ? error.message : error);
+  } finally {
+    await queue.close();
+  }
+}
+
 /**
  * Process a self-heal job — regenerate failed spec and queue a new run
  * Uses the API's self-heal service via dynamic import (shared DB/Redis)
@@ -794,11 +1333,22 @@ async function processSelfHeal(job: Job<SelfHealJobData>): Promise<void> {
       maxAttempts,
     };
 
-    // Regenerate using Sonnet for speed
-    const regenerationModel = process.env.SELF_HEAL_MODEL || 'claude-sonnet-4-5-20250929';
+    // Regenerate with the project's model, else Sonnet for speed
+    const llm = getProjectLLMConfig(recording.project);
+    const regenerationModel = llm.model || process.env.SELF_HEAL_MODEL || 'claude-sonnet-4-5-20250929';
+    const learnedKnowledge = recording.projectId
+      ? await db.knowledgeEntry.findMany({
+          where: { projectId: recording.projectId },
+          select: { kind: true, domain: true, summary: true, before: true, after: true, hits: true },
+          orderBy: { updatedAt: 'desc' },
+        })
+      : [];
     const generator = new CodeGenerator({
       model: regenerationModel,
+      provider: llm.provider,
+      baseUrl: llm.baseUrl,
       validateOutput: true,
+      learnedKnowledge,
     });
 
     console.log(`[Worker] Self-heal: regenerating spec (attempt ${currentAttempt + 1}/${maxAttempts}, category: ${category})`);
@@ -822,6 +1372,7 @@ async function processSelfHeal(job: Job<SelfHealJobData>): Promise<void> {
         maxAttempts: maxAttempts,
         parentSpecId: spec.id,
         failureContext: failureContext as unknown as object,
+        snippets: await getSnippetLinks(db, recording.projectId, result.code),
       },
     });
 
@@ -833,6 +1384,7 @@ async function processSelfHeal(job: Job<SelfHealJobData>): Promise<void> {
         headless: run.headless,
         streamingMode: run.streamingMode,
         isAutoRetry: true,
+        dappUrl: getDappUrlOverride(run),
       },
     });
 
@@ -847,6 +1399,16 @@ async function processSelfHeal(job: Job<SelfHealJobData>): Promise<void> {
     await queue.close();
 
     console.log(`[Worker] Self-heal: created spec ${newSpec.id} and run ${newRun.id}`);
+
+    await emitWebhookEvent(db, recording.projectId, 'spec.healed', specHealedEventData({
+      failedRunId: runId,
+      previousSpecId: spec.id,
+      specId: newSpec.id,
+      version: newSpec.version,
+      attempt: currentAttempt + 1,
+      category,
+      retryRunId: newRun.id,
+    }));
   } catch (error) {
     console.error(`[Worker] Self-heal failed for run ${runId}:`, error instanceof Error ? error.message : error);
   }
@@ -875,7 +1437,7 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
         include: {
           recording: {
             include: {
-              project: { select: { seedPhrase: true, connectionSpecId: true, id: true, dappContext: true } },
+              project: { select: { encryptedSeedPhrase: true, connectionSpecId: true, id: true, dappContext: true, ...PROJECT_LLM_SELECT } },
             },
           },
         },
@@ -887,14 +1449,19 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
   if (!run.testSpec?.recording) throw new Error(`No recording found for run: ${runId}`);
 
   const recording = run.testSpec.recording;
-  const seedPhrase = recording.project?.seedPhrase;
-  if (!seedPhrase) throw new Error(`No seed phrase found for run: ${runId}`);
+  if (!recording.project) throw new Error(`No seed phrase found for run: ${runId}`);
 
   // Parse recording JSON
   const translatorModule = '@web3-test/translator';
   const { RecordingSchema, analyzeRecording } = await import(/* webpackIgnore: true */ translatorModule);
 
-  const parseResult = RecordingSchema.safeParse(recording.jsonData);
+  // A dApp URL override retargets the recording's URLs before the agent sees them
+  const dappUrlOverride = getDappUrlOverride(run);
+  const retarget = (jsonData: unknown, dappUrl: string | null) => dappUrlOverride
+    ? JSON.parse(rebaseDappUrl(JSON.stringify(jsonData), dappUrl, dappUrlOverride))
+    : jsonData;
+
+  const parseResult = RecordingSchema.safeParse(retarget(recording.jsonData, getDappUrl(recording)));
   if (!parseResult.success) throw new Error(`Invalid recording data: ${parseResult.error.message}`);
 
   const analysis = analyzeRecording(parseResult.data);
@@ -904,6 +1471,7 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
     where: { id: runId },
     data: { status: 'RUNNING', startedAt: new Date() },
   });
+  await emitRunEvent(db, runId);
 
   await job.updateProgress(10);
 
@@ -914,12 +1482,14 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
   const isHeadless = streamingMode === 'NONE' && run.headless;
 
   const dappContext = (recording.project as { dappContext?: string | null })?.dappContext || undefined;
+  const llm = getProjectLLMConfig(recording.project);
 
   const runner = createAgentRunner({
     artifactsDir,
     headless: isHeadless,
     debug: process.env.DEBUG === 'true',
     dappContext,
+    config: llm,
   });
 
   let cancelled = false;
@@ -932,6 +1502,8 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
   });
 
   try {
+    const seedPhrase = await openSeedPhrase(db, recording.project, 'agent_run', runId);
+
     // Determine test type
     const testType = (recording as { testType?: string }).testType as 'connection' | 'flow' || analysis.testType;
 
@@ -954,7 +1526,9 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
         });
 
         if (connectionSpec?.recording) {
-          const connParse = RecordingSchema.safeParse(connectionSpec.recording.jsonData);
+          const connParse = RecordingSchema.safeParse(
+            retarget(connectionSpec.recording.jsonData, getDappUrl(connectionSpec.recording)),
+          );
           if (connParse.success) {
             connectionRecording = connParse.data;
             connectionAnalysis = analyzeRecording(connParse.data);
@@ -1014,7 +1588,7 @@ async function processAgentRun(job: Job<AgentRunJobData>): Promise<void> {
     const agentData = {
       steps: result.steps,
       usage: result.usage,
-      model: process.env.AGENT_MODEL || 'claude-sonnet-4-5-20250929',
+      model: llm.model || process.env.AGENT_MODEL || 'claude-sonnet-4-5-20250929',
     };
 
     await db.testRun.update({
@@ -1169,7 +1743,7 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
         include: {
           recording: {
             include: {
-              project: { select: { seedPhrase: true, dappContext: true, id: true, connectionSpecId: true } },
+              project: { select: { encryptedSeedPhrase: true, dappContext: true, id: true, connectionSpecId: true, ...PROJECT_LLM_SELECT } },
             },
           },
         },
@@ -1180,14 +1754,14 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
   if (!run) throw new Error(`Run not found: ${runId}`);
   if (!run.testSpec) throw new Error(`Test spec not found for run: ${runId}`);
 
-  const seedPhrase = run.testSpec.recording?.project?.seedPhrase;
-  if (!seedPhrase) throw new Error(`No seed phrase for run: ${runId}`);
+  if (!run.testSpec.recording?.project) throw new Error(`No seed phrase for run: ${runId}`);
 
   // Update status to running
   await db.testRun.update({
     where: { id: runId },
     data: { status: 'RUNNING', startedAt: new Date() },
   });
+  await emitRunEvent(db, runId);
 
   await job.updateProgress(10);
 
@@ -1197,13 +1771,15 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
 
   const recording = run.testSpec.recording;
   const dappContext = (recording?.project as { dappContext?: string | null })?.dappContext || undefined;
-  const dappUrl = recording?.dappUrl || undefined;
+  const llm = getProjectLLMConfig(recording?.project);
+  const dappUrlOverride = getDappUrlOverride(run);
+  const dappUrl = dappUrlOverride || recording?.dappUrl || undefined;
 
   // For flow tests, prepend connection spec code
   let specCode = run.testSpec.code;
   const testType = recording ? (recording as { testType?: string }).testType : null;
 
-  if (testType === 'flow' && recording?.projectId) {
+  if ((testType === 'flow' || requiresConnection(run.testSpec)) && recording?.projectId) {
     const project = await db.project.findUnique({
       where: { id: recording.projectId },
       select: { connectionSpecId: true },
@@ -1231,17 +1807,27 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
     }
   }
 
+  specCode = withDappUrlOverride(specCode, recording, run);
+
   let cancelled = false;
   const stopPoller = startCancelPoller(runId, () => { cancelled = true; });
 
   try {
+    const seedPhrase = await openSeedPhrase(db, run.testSpec.recording.project, 'hybrid_run', runId);
+
     await job.updateProgress(20);
 
+    const recordingSteps = (recording?.jsonData as { steps?: RecordedElementStep[] } | null)?.steps;
+
     const result = await runHybrid(specCode, seedPhrase, {
       artifactsDir,
       headless: isHeadless,
       debug: process.env.DEBUG === 'true',
       dappContext,
+      llm,
+      recordingSteps,
+      // Resolved against the flow spec — a composite spec drops its params block
+      params: resolveSpecParams(run.testSpec.code, getRunParams(run)),
     }, dappUrl);
 
     if (cancelled) {
@@ -1272,7 +1858,7 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
         totalApiCalls: result.totalAgentCalls,
         estimatedCostUsd: result.totalAgentCostUsd,
       },
-      model: process.env.AGENT_MODEL || 'claude-haiku-4-5-20251001',
+      model: llm.model || process.env.AGENT_MODEL || 'claude-haiku-4-5-20251001',
       mode: 'hybrid',
     };
 
@@ -1305,8 +1891,9 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
       });
     }
 
-    // Self-learning: save spec patches from agent recovery
-    if (result.specPatches?.length > 0) {
+    // Self-learning: save spec patches from agent recovery. Not for runs against another
+    // deployment, whose fixes may not hold for the recorded one.
+    if (result.specPatches?.length > 0 && !dappUrlOverride) {
       try {
         const connStepCount = testType === 'flow'
           ? (specCode.match(/\/\/\s*STEP\s+\d+:/g) || []).length -
@@ -1333,6 +1920,17 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
       } catch (patchErr) {
         console.warn(`[Worker] Failed to save spec patches:`, patchErr instanceof Error ? patchErr.message : patchErr);
       }
+
+      // Patches of a passing run are verified: keep them for the project's next generations
+      const knowledgeUrl = getDappUrl(recording);
+      if (result.passed && recording?.projectId && knowledgeUrl) {
+        try {
+          const entries = knowledgeFromPatches(parseSpecIntoSteps(specCode), result.specPatches);
+          await saveLearnedKnowledge(db, recording.projectId, knowledgeUrl, entries, 'agent_patch', run.testSpec.id);
+        } catch (err) {
+          console.warn(`[Worker] Failed to save patch knowledge:`, err instanceof Error ? err.message : err);
+        }
+      }
     }
 
     // Update test spec status
@@ -1370,15 +1968,18 @@ async function processHybridRun(job: Job<TestRunJobData>): Promise<void> {
         } catch (err) {
           console.warn(`[Worker] Hybrid: failed to auto-set connectionSpecId:`, err instanceof Error ? err.message : err);
         }
+
+        await recordConnectionFlow(db, recording, run.testSpec);
       }
     }
 
     await job.updateProgress(100);
 
     const specSteps = result.steps.filter(s => s.mode === 'spec' && s.passed).length;
+    const candidateSteps = result.steps.filter(s => s.mode === 'candidate').length;
     const agentSteps = result.steps.filter(s => s.mode === 'agent').length;
     console.log(`[Worker] Hybrid run ${runId} completed: ${result.passed ? 'PASSED' : 'FAILED'} ` +
-      `(${specSteps} spec + ${agentSteps} agent steps, ~$${result.totalAgentCostUsd.toFixed(3)})`);
+      `(${specSteps} spec + ${candidateSteps} candidate + ${agentSteps} agent steps, ~$${result.totalAgentCostUsd.toFixed(3)})`);
 
     // Update suite aggregation if this run is part of a suite
     await checkAndUpdateSuiteCompletion(runId);
@@ -1476,9 +2077,12 @@ function extractBody(code: string): string {
 export async function startWorker(): Promise<Worker> {
   console.log('[Worker] Starting test run worker...');
 
-  const worker = new Worker<TestRunJobData | SuiteRunJobData | SelfHealJobData | AgentRunJobData>(
+  const worker = new Worker<TestRunJobData | SuiteRunJobData | SelfHealJobData | AgentRunJobData | ScheduledSuiteJobData>(
     QUEUE_NAME,
     async (job) => {
+      if (job.name === SCHEDULE_JOB_NAME) {
+        return processScheduledSuite(job as Job<ScheduledSuiteJobData>);
+      }
       if (job.name === 'execute-agent') {
         return processAgentRun(job as Job<AgentRunJobData>);
       }
@@ -1529,6 +2133,22 @@ export async function startWorker(): Promise<Worker> {
     console.error('[Worker] Error:', err.message);
   });
 
+  // Webhook deliveries get their own queue so they don't wait behind test runs
+  const webhookWorker = new Worker<WebhookDeliveryJobData>(WEBHOOK_QUEUE_NAME, processWebhookDelivery, {
+    connection: redisConnection,
+    concurrency: 5,
+  });
+
+  webhookWorker.on('failed', (job, err) => {
+    console.warn(`[Worker] Webhook job ${job?.id} attempt ${job?.attemptsMade} failed:`, err.message);
+  });
+
+  webhookWorker.on('error', (err) => {
+    console.error('[Worker] Webhook worker error:', err.message);
+  });
+
+  await syncSchedules();
+
   console.log('[Worker] Worker started, waiting for jobs...');
 
   return worker;
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { randomBytes } from 'crypto';
+import { randomBytes, createHmac } from 'crypto';
 
 import {
   ArtifactCollector,
@@ -23,6 +23,27 @@ import {
   type WalletConfig,
 } from '../src/wallet-setup.js';
 
+import {
+  isLocatorError,
+  findRecordedStepForCode,
+  buildCandidateAttempts,
+  type RecordedElementStep,
+} from '../src/selector-fallback.js';
+
+import { isAgentLLMConfigured } from '../src/agent/llm.js';
+
+import { resolveSpecParams, extractParamsBlock } from '../src/spec-params.js';
+
+import { knowledgeFromPatches, knowledgeFromHeal, knowledgeFromConnectionSpec } from '../src/knowledge-capture.js';
+
+import { decryptSecret, envelopeKeyId, loadMasterKeys, VaultError } from '../src/vault.js';
+
+import { signWebhookPayload, runEventFor, runEventData, webhookRetryDelay, sendWebhook } from '../src/webhooks.js';
+
+import { orderSuiteSpecs, runJobFor, scheduleJobSchedulerId } from '../src/schedules.js';
+
+import { rebaseDappUrl, findSpecDappUrl } from '../src/dapp-url.js';
+
 // Worker module is not imported directly to avoid Prisma initialization issues
 // These tests focus on the core utilities that don't require database/redis
 
@@ -266,5 +287,227 @@ describe('WalletConfig', () => {
   });
 });
 
+describe('Selector candidate fallback', () => {
+  const recordedClick: RecordedElementStep = {
+    id: 'step-1',
+    type: 'click',
+    selector: 'div.header > button.connect',
+    selectorCandidates: [
+      { strategy: 'css', selector: 'div.header > button.connect', matchCount: 1, score: 0.6 },
+      { strategy: 'text', selector: '', name: 'Connect', matchCount: 2, score: 0.35 },
+      { strategy: 'role', selector: '', role: 'button', name: 'Connect Wallet', matchCount: 1, score: 0.9 },
+    ],
+  };
+
+  it('should recognise stale locator errors', () => {
+    expect(isLocatorError("locator.click: Timeout 30000ms exceeded.\nwaiting for locator('button.connect')")).toBe(true);
+    expect(isLocatorError('ReferenceError: wallet is not defined')).toBe(false);
+  });
+
+  it('should map a spec step to its recorded step by selector', () => {
+    const code = `await page.getByRole('button', { name: /connect/i }).or(page.locator('div.header > button.connect')).first().click()`;
+    expect(findRecordedStepForCode(code, [recordedClick])?.id).toBe('step-1');
+    expect(findRecordedStepForCode(`await page.goto('https://example.com')`, [recordedClick])).toBeNull();
+  });
+
+  it('should try unique candidates by score before ambiguous ones', () => {
+    const attempts = buildCandidateAttempts(recordedClick);
+
+    expect(attempts.map((a) => a.candidate.strategy)).toEqual(['role', 'css', 'text']);
+    expect(attempts[0].patchCode).toContain(`await page.getByRole('button', { name: 'Connect Wallet' }).click()`);
+    expect(attempts[0].attemptCode).toContain('click({ timeout: 5000 })');
+  });
+});
+
+describe('Agent LLM config', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should allow strict cassette replays without provider credentials', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.stubEnv('LLM_CASSETTE_MODE', '');
+    expect(isAgentLLMConfigured()).toBe(false);
+    expect(isAgentLLMConfigured({ provider: 'openai-compatible', baseUrl: 'http://llm.local/v1' })).toBe(true);
+    expect(isAgentLLMConfigured({ cassette: { mode: 'strict', dir: 'cassette' } })).toBe(true);
+
+    vi.stubEnv('LLM_CASSETTE_MODE', 'strict');
+    expect(isAgentLLMConfigured()).toBe(true);
+  });
+});
+
+describe('Spec params', () => {
+  const spec = `import { test, expect } from '../../fixtures/wallet.fixture'
+
+// Recorded input values. Each dataset row overrides them through TEST_PARAMS (JSON).
+interface SpecParams {
+  tradeSize: number
+  pair: string
+}
+
+const params: SpecParams = {
+  tradeSize: 10,
+  pair: 'ETH/USDC',
+  ...JSON.parse(process.env.TEST_PARAMS || '{}'),
+}
+
+test('trade', async ({ page }) => {
+  await page.locator('#size').fill(String(params.tradeSize))
+})`;
+
+  it('should apply a dataset row over the spec defaults', () => {
+    expect(resolveSpecParams(spec)).toEqual({ tradeSize: 10, pair: 'ETH/USDC' });
+    expect(resolveSpecParams(spec, { tradeSize: 250 })).toEqual({ tradeSize: 250, pair: 'ETH/USDC' });
+    expect(resolveSpecParams('test(\'x\', async () => {})', { pair: 'BTC/USDC' })).toEqual({ pair: 'BTC/USDC' });
+  });
+
+  it('should extract the block for composite specs', () => {
+    const block = extractParamsBlock(spec);
+    expect(block.startsWith('interface SpecParams {')).toBe(true);
+    expect(block.endsWith(`...JSON.parse(process.env.TEST_PARAMS || '{}'),\n}`)).toBe(true);
+    expect(extractParamsBlock('test(\'x\', async () => {})')).toBe('');
+  });
+});
+
+describe('Knowledge capture', () => {
+  const steps = [
+    { number: 1, description: 'Open trade page', code: "await page.goto('https://app.example.com/trade')" },
+    { number: 2, description: 'Open trade panel', code: "await page.locator('#trade').click()" },
+  ];
+
+  it('should turn verified patches and self-heal rewrites into entries', () => {
+    const entries = knowledgeFromPatches(steps, [
+      { stepNumber: 2, patchedCode: "await page.getByTestId('trade-button').click()", reason: 'Recorded testid selector matched', kind: 'selector_fix' },
+      { stepNumber: 1, patchedCode: steps[0].code, reason: 'no-op', kind: 'obstacle' },
+    ]);
+    expect(entries).toEqual([{
+      kind: 'selector_fix',
+      summary: 'Open trade panel: Recorded testid selector matched',
+      before: "await page.locator('#trade').click()",
+      after: "await page.getByTestId('trade-button').click()",
+    }]);
+
+    const healed = [{ ...steps[1], number: 3, code: "await page.getByRole('button', { name: 'Trade' }).click()" }, { ...steps[0] }];
+    expect(knowledgeFromHeal(steps, healed).map((e) => [e.summary, e.before])).toEqual([
+      ['Open trade panel: rewritten by self-heal', "await page.locator('#trade').click()"],
+    ]);
+
+    expect(knowledgeFromConnectionSpec(steps)?.after).toBe(
+      "// STEP 1: Open trade page\nawait page.goto('https://app.example.com/trade')\n\n// STEP 2: Open trade panel\nawait page.locator('#trade').click()"
+    );
+    expect(knowledgeFromConnectionSpec([])).toBeNull();
+  });
+});
+
+describe('Vault', () => {
+  // Written by the API's encryptSecret for project-1 under MASTER_KEY
+  const MASTER_KEY = Buffer.alloc(32, 7).toString('base64');
+  const ENVELOPE = 'vault:v1:4bb06f8e4e3a7715:iEIDcg8zyH3EeGL5v-KMR9hsNzgKkL6kzHUptjhIgquoghJjTeSkgWWOP5SxT4ZzqmqhNQb4grIAUYvm:6kITdHU2eLVqgfFv:F1SVnhLzbzZObX0MuTUOcA:yt619abdm53gfGQpFyCpFjQ108A_1y-mRiDZjKd_eCJ0Btlk_j-6mBFqiuZOjOFWEG7AVi_rIGkwgto';
+
+  it('should decrypt envelopes only with their master key and for their project', () => {
+    const keys = loadMasterKeys({ VAULT_MASTER_KEY: MASTER_KEY });
+    expect(envelopeKeyId(ENVELOPE)).toBe('4bb06f8e4e3a7715');
+    expect(decryptSecret(ENVELOPE, 'project-1', keys)).toBe(
+      'test test test test test test test test test test test junk'
+    );
+
+    const otherKey = Buffer.alloc(32, 9).toString('base64');
+    expect(() => decryptSecret(ENVELOPE, 'project-1', loadMasterKeys({ VAULT_MASTER_KEY: otherKey }))).toThrow(VaultError);
+    // Copied into another project's row
+    expect(() => decryptSecret(ENVELOPE, 'project-2', keys)).toThrow(/authenticate/);
+    expect(() => decryptSecret('test test junk', 'project-1', keys)).toThrow(/vault migrate/);
+    expect(() => loadMasterKeys({})).toThrow(/No vault master key/);
+  });
+});
+
+describe('Webhooks', () => {
+  it('should sign the timestamped body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ event: 'run.passed' });
+    const signature = signWebhookPayload('whsec_test', 1700000000, body);
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+    expect(signature).toBe(`t=1700000000,v1=${expected}`);
+    expect(webhookRetryDelay(1)).toBe(30_000);
+    expect(webhookRetryDelay(3)).toBe(120_000);
+  });
+
+  it('should map run statuses to events and link artifacts', () => {
+    expect(runEventFor('RUNNING')).toBe('run.started');
+    expect(runEventFor('TIMEOUT')).toBe('run.failed');
+    expect(runEventFor('CANCELLED')).toBeNull();
+
+    const data = runEventData(
+      {
+        id: 'run-1',
+        status: 'FAILED',
+        durationMs: 1200,
+        error: 'Timeout',
+        suiteRunId: null,
+        startedAt: null,
+        completedAt: new Date('2026-01-01T00:00:00Z'),
+        testSpec: { id: 'spec-1', recording: { id: 'rec-1', name: 'Swap' } },
+      },
+      [{ type: 'SCREENSHOT', name: 'failure.png', storagePath: 'artifacts/run-1/failure.png', stepName: null }],
+      'https://ci.example.com',
+    ) as { run: { recordingName: string }; links: { run: string; artifacts: Array<{ url: string }> } };
+    expect(data.run.recordingName).toBe('Swap');
+    expect(data.links.run).toBe('https://ci.example.com/runs/run-1');
+    expect(data.links.artifacts[0].url).toBe('https://ci.example.com/api/artifacts/artifacts/run-1/failure.png');
+  });
+
+  it('should send through the shared URL guard and report refusals', async () => {
+    const postWebhook = vi.fn()
+      .mockRejectedValueOnce(new Error('Webhook URL resolves to a private address (10.0.0.5)'))
+      .mockResolvedValueOnce(500);
+    vi.doMock('@web3-test/translator', () => ({ postWebhook }));
+    try {
+      const payload = { event: 'webhook.test' as const, createdAt: '', projectId: 'p1', data: {} };
+      const refused = await sendWebhook({ url: 'http://internal.example.com/hook', secret: 'whsec_test' }, 'd1', payload);
+      expect(refused).toEqual({ ok: false, responseStatus: null, error: expect.stringMatching(/private address/) });
+
+      const sent = await sendWebhook({ url: 'http://93.184.216.34/hook', secret: 'whsec_test' }, 'd1', payload);
+      expect(sent).toEqual({ ok: false, responseStatus: 500, error: 'HTTP 500' });
+      expect(postWebhook.mock.calls[1][1].headers['X-Webhook-Signature']).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    } finally {
+      vi.doUnmock('@web3-test/translator');
+    }
+  });
+});
+
+describe('Suite schedules', () => {
+  it('should run connection specs first and skip recordings without specs', () => {
+    const specIds = orderSuiteSpecs([
+      { testType: 'flow', testSpecs: [{ id: 'swap', code: 'await page.click()' }] },
+      { testType: null, testSpecs: [] },
+      { testType: null, testSpecs: [{ id: 'connect', code: 'await wallet.approve()' }] },
+    ]);
+    expect(specIds).toEqual(['connect', 'swap']);
+  });
+
+  it('should queue runs under the job names of their execution mode', () => {
+    expect(runJobFor('SPEC', 'r1')).toEqual({ name: 'execute', jobId: 'run-r1' });
+    expect(runJobFor('HYBRID', 'r1')).toEqual({ name: 'execute-hybrid', jobId: 'run-r1' });
+    expect(runJobFor('AGENT', 'r1')).toEqual({ name: 'execute-agent', jobId: 'agent-r1' });
+    expect(scheduleJobSchedulerId('s1')).toBe('schedule-s1');
+  });
+});
+
+describe('dApp URL override', () => {
+  it('should retarget only the recorded origin', () => {
+    const code = [
+      "await page.goto('https://app.example.com/swap?from=ETH');",
+      "await page.goto('https://app.example.com.evil/phish');",
+      "await page.goto('https://app.example.com:8443/');",
+    ].join('\n');
+
+    expect(findSpecDappUrl(code)).toBe('https://app.example.com/swap?from=ETH');
+    expect(rebaseDappUrl(code, 'https://app.example.com/swap', 'https://pr-42.preview.example.dev/')).toBe([
+      "await page.goto('https://pr-42.preview.example.dev/swap?from=ETH');",
+      "await page.goto('https://app.example.com.evil/phish');",
+      "await page.goto('https://app.example.com:8443/');",
+    ].join('\n'));
+    expect(rebaseDappUrl(code, null, 'https://pr-42.preview.example.dev')).toBe(code);
+  });
+});
+
 // Worker/Queue tests are skipped in unit tests as they require Redis
 // Integration tests would cover the worker functionality
@@ -6,7 +6,30 @@ import type {
   AnalysisResult,
   ClickStep,
   DappConnectionPattern,
+  DecodedWeb3Payload,
 } from './types.js';
+import { extractSpecParameters, validateDatasets } from './parameters.js';
+
+// Flow patterns implied by a decoded call's action
+const DECODED_ACTION_PATTERNS: Partial<Record<DecodedWeb3Payload['action'], FlowPatternType>> = {
+  approve: 'wallet_approve',
+  permit: 'wallet_approve',
+  swap: 'token_swap',
+  deposit: 'defi_deposit',
+  withdraw: 'defi_withdraw',
+};
+
+/**
+ * Parse a chain ID from a provider value (hex string or number)
+ */
+function parseChainId(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.length > 0) {
+    const parsed = value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
 
 /**
  * Analyzes a recording to detect flow patterns like wallet connect, sign, approve, etc.
@@ -34,8 +57,11 @@ export class RecordingAnalyzer {
     this.detectNetworkSwitchPatterns();
     this.detectTradePatterns();
     this.detectApprovalPatterns();
+    this.detectDecodedCallPatterns();
     this.detectFormFillPatterns();
     this.detectNavigationPatterns();
+    this.checkInteractionSteps();
+    this.checkDatasets();
 
     // Sort patterns by start index
     this.patterns.sort((a, b) => a.startIndex - b.startIndex);
@@ -251,7 +277,8 @@ export class RecordingAnalyzer {
   }
 
   /**
-   * Detect network switch patterns (wallet_switchEthereumChain, wallet_addEthereumChain)
+   * Detect network switch patterns (wallet_switchEthereumChain, wallet_addEthereumChain,
+   * wallet-side chainChanged events, and eth_chainId result changes)
    */
   private detectNetworkSwitchPatterns(): void {
     const networkMethods = ['wallet_switchEthereumChain', 'wallet_addEthereumChain'];
@@ -282,6 +309,36 @@ export class RecordingAnalyzer {
       }
     }
 
+    // chainChanged events from the provider. After a dApp-requested switch they confirm
+    // it; on their own they mean the user switched network in the wallet itself.
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (step.type !== 'web3' || step.web3Event?.name !== 'chainChanged') continue;
+
+      const chainId = parseChainId(step.web3Event.after);
+      const fromChain = parseChainId(step.web3Event.before);
+      if (chainId === undefined) continue;
+
+      const requested = this.patterns.find(
+        (p) => p.type === 'network_switch' && p.metadata?.chainId === chainId && p.startIndex <= i
+      );
+      if (requested) {
+        requested.steps.push(step);
+        requested.endIndex = Math.max(requested.endIndex, i);
+        if (fromChain !== undefined) requested.metadata = { ...requested.metadata, fromChain };
+        continue;
+      }
+
+      this.patterns.push({
+        type: 'network_switch',
+        startIndex: i,
+        endIndex: i,
+        steps: [step],
+        confidence: 0.9,
+        metadata: { chainId, fromChain, walletInitiated: true },
+      });
+    }
+
     // Also detect implicit network switches from eth_chainId result changes
     let lastChainHex: string | undefined;
     for (let i = 0; i < steps.length; i++) {
@@ -341,12 +398,14 @@ export class RecordingAnalyzer {
           for (let j = i + 1; j < Math.min(steps.length, i + 5); j++) {
             const nextStep = steps[j];
             if (nextStep.type === 'web3' && nextStep.web3Method === 'eth_sendTransaction') {
+              const leverage = this.findLeverageBefore(i);
               this.patterns.push({
                 type: 'trade_open',
                 startIndex: i,
                 endIndex: j,
                 steps: steps.slice(i, j + 1),
                 confidence: 0.85,
+                ...(leverage && { metadata: { leverage } }),
               });
               break;
             }
@@ -356,6 +415,27 @@ export class RecordingAnalyzer {
     }
   }
 
+  /**
+   * Find the leverage set by a slider drag shortly before a trade click
+   */
+  private findLeverageBefore(index: number): string | undefined {
+    const steps = this.recording.steps;
+
+    for (let k = index - 1; k >= Math.max(0, index - 10); k--) {
+      const step = steps[k];
+      if (step.type !== 'drag' || step.drag.valueAfter === undefined) continue;
+
+      const label = [step.metadata?.ariaLabel, step.metadata?.nearbyLabel, step.metadata?.dataTestId]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (label.includes('leverage')) {
+        return step.drag.valueAfter;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Detect token approval patterns
    */
@@ -389,13 +469,88 @@ export class RecordingAnalyzer {
   }
 
   /**
-   * Detect form fill patterns (input sequences)
+   * Detect swaps, approvals/permits and deposits from calldata and EIP-712 payloads
+   * decoded at record time. A keyword-detected pattern ending at the same step gets the
+   * decoded details instead of a duplicate; a keyword trade_open is dropped for decoded swaps.
+   */
+  private detectDecodedCallPatterns(): void {
+    const steps = this.recording.steps;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (step.type !== 'web3' || !step.web3Decoded) continue;
+
+      const decoded = step.web3Decoded;
+      const type = DECODED_ACTION_PATTERNS[decoded.action];
+      if (!type) continue;
+
+      const metadata = {
+        protocol: decoded.protocol,
+        functionName: decoded.functionName,
+        tokens: decoded.tokens,
+        amount: decoded.tokens[0]?.amount,
+        ...(decoded.spender && { spender: decoded.spender }),
+      };
+
+      if (type === 'token_swap') {
+        this.patterns = this.patterns.filter((p) => !(p.type === 'trade_open' && p.endIndex === i));
+      }
+
+      const existing = this.patterns.find((p) => p.type === type && p.endIndex === i);
+      if (existing) {
+        existing.confidence = Math.max(existing.confidence, 0.95);
+        existing.metadata = { ...existing.metadata, ...metadata };
+        continue;
+      }
+
+      // Start at the click that triggered the call, if there is one since the previous decoded call
+      let startIndex = i;
+      for (let j = i - 1; j >= Math.max(0, i - 4); j--) {
+        const prev = steps[j];
+        if (prev.type === 'web3' && prev.web3Decoded) break;
+        if (prev.type === 'click') {
+          startIndex = j;
+          break;
+        }
+      }
+
+      this.patterns.push({
+        type,
+        startIndex,
+        endIndex: i,
+        steps: steps.slice(startIndex, i + 1),
+        confidence: 0.95,
+        metadata,
+      });
+    }
+  }
+
+  /**
+   * Detect form fill patterns (input sequences). Tab keypresses between inputs keep the
+   * sequence going; an Enter keypress ends it and counts as the form submission.
    */
   private detectFormFillPatterns(): void {
     const steps = this.recording.steps;
     let formStart: number | null = null;
     let formSteps: RecordingStep[] = [];
 
+    const closeForm = (endIndex: number, submittedWith?: string) => {
+      const inputCount = formSteps.filter((s) => s.type === 'input').length;
+      // A single input submitted with Enter (search box, amount field) is still a form
+      if (formStart !== null && (inputCount >= 2 || (inputCount >= 1 && submittedWith))) {
+        this.patterns.push({
+          type: 'form_fill',
+          startIndex: formStart,
+          endIndex,
+          steps: formSteps,
+          confidence: 0.7,
+          ...(submittedWith && { metadata: { submittedWith } }),
+        });
+      }
+      formStart = null;
+      formSteps = [];
+    };
+
     for (let i = 0; i < steps.length; i++) {
       const step = steps[i];
 
@@ -404,19 +559,13 @@ export class RecordingAnalyzer {
           formStart = i;
         }
         formSteps.push(step);
+      } else if (formStart !== null && step.type === 'keypress' && step.key === 'Tab') {
+        formSteps.push(step);
+      } else if (formStart !== null && step.type === 'keypress' && step.key === 'Enter') {
+        formSteps.push(step);
+        closeForm(i, 'Enter');
       } else if (formStart !== null) {
-        // Check if this is the end of a form
-        if (formSteps.length >= 2) {
-          this.patterns.push({
-            type: 'form_fill',
-            startIndex: formStart,
-            endIndex: i - 1,
-            steps: formSteps,
-            confidence: 0.7,
-          });
-        }
-        formStart = null;
-        formSteps = [];
+        closeForm(i - 1);
       }
     }
   }
@@ -444,12 +593,39 @@ export class RecordingAnalyzer {
     }
   }
 
+  /**
+   * Warn about interaction steps that cannot be replayed precisely
+   */
+  private checkInteractionSteps(): void {
+    for (const step of this.recording.steps) {
+      if (step.type === 'drag' && step.drag.valueAfter === undefined) {
+        this.warnings.push(
+          `Drag on ${step.selector} has no recorded end value; replay will use raw pointer offsets`
+        );
+      }
+    }
+  }
+
+  /**
+   * Warn about datasets that don't match the recording's input parameters
+   */
+  private checkDatasets(): void {
+    if (!this.recording.datasets?.length) return;
+    this.warnings.push(...validateDatasets(this.recording.datasets, extractSpecParameters(this.recording)));
+  }
+
   /**
    * Extract chain ID from Web3 steps
    */
   private extractChainId(): number | undefined {
     for (const step of this.recording.steps) {
       if (step.type === 'web3') {
+        // A chainChanged event's chainId is the new chain — the recording started on the old one
+        if (step.web3Event?.name === 'chainChanged') {
+          const fromChain = parseChainId(step.web3Event.before);
+          if (fromChain !== undefined) return fromChain;
+        }
+
         // Check for chainId in the step
         if (step.chainId) {
           return step.chainId;
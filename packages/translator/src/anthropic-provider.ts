@@ -0,0 +1,123 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  LLMContentBlock,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMResponse,
+  ModelPricing,
+} from './llm-provider.js';
+import { LLMProviderError, getModelPricing } from './llm-provider.js';
+
+// Prompt-caching fields (accepted and returned by the API, not typed in every SDK version)
+type CachedTextBlockParam = Anthropic.TextBlockParam & { cache_control?: { type: 'ephemeral' } };
+
+type AnthropicUsage = Anthropic.Usage & {
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+/**
+ * LLM provider backed by the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  readonly pricing: ModelPricing;
+  private client: Anthropic;
+
+  constructor(config: LLMProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error(
+        'Anthropic API key is required. Set ANTHROPIC_API_KEY environment variable or pass apiKey option.'
+      );
+    }
+
+    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.model = config.model;
+    this.pricing = getModelPricing(config);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const cachedSystem: CachedTextBlockParam[] | undefined = request.system && request.cacheSystemPrompt
+      ? [{ type: 'text', text: request.system, cache_control: { type: 'ephemeral' } }]
+      : undefined;
+    const system = cachedSystem || request.system;
+
+    let response: Anthropic.Message;
+    try {
+      response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(system && { system }),
+        ...(request.tools && {
+          tools: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+          })),
+        }),
+        messages: request.messages.map(toAnthropicMessage),
+      });
+    } catch (error) {
+      if (error instanceof Anthropic.APIError) {
+        const retryable = error.status === 429 || error.status === 529 || (error.status ?? 0) >= 500;
+        throw new LLMProviderError(error.message, error.status, retryable);
+      }
+      throw error;
+    }
+
+    const usage = response.usage as AnthropicUsage;
+
+    return {
+      content: response.content.flatMap((block): LLMContentBlock[] => {
+        if (block.type === 'text') return [{ type: 'text', text: block.text }];
+        if (block.type === 'tool_use') {
+          return [{ type: 'tool_use', id: block.id, name: block.name, input: block.input as Record<string, unknown> }];
+        }
+        return [];
+      }),
+      stopReason:
+        response.stop_reason === 'end_turn' || response.stop_reason === 'tool_use' || response.stop_reason === 'max_tokens'
+          ? response.stop_reason
+          : 'other',
+      usage: {
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+      },
+    };
+  }
+}
+
+function toAnthropicMessage(message: LLMMessage): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content };
+  }
+
+  const content = message.content.map((block) => {
+    switch (block.type) {
+      case 'text':
+        return { type: 'text' as const, text: block.text };
+      case 'image':
+        return {
+          type: 'image' as const,
+          source: { type: 'base64' as const, media_type: block.image.mediaType, data: block.image.base64 },
+        };
+      case 'tool_use':
+        return { type: 'tool_use' as const, id: block.id, name: block.name, input: block.input };
+      case 'tool_result':
+        return {
+          type: 'tool_result' as const,
+          tool_use_id: block.toolUseId,
+          content: block.content,
+          is_error: block.isError,
+        };
+    }
+  });
+
+  return { role: message.role, content } as Anthropic.MessageParam;
+}
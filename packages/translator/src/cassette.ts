@@ -0,0 +1,188 @@
+/**
+ * Record/replay cassettes for LLM calls
+ * Each request/response pair is stored as <dir>/<key>.json, where the key is a hash of
+ * the normalised request. Agent sessions send live screenshots and page snapshots that
+ * differ on every run, so their cassettes are keyed by session and turn instead.
+ * Replaying a cassette makes spec generation and agent runs reproducible without a live
+ * model: prompt changes can be regression-tested offline and a failed agent session
+ * re-run exactly.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type {
+  LLMContentBlock,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  ModelPricing,
+} from './llm-provider.js';
+import { getModelPricing } from './llm-provider.js';
+
+/**
+ * off: always call the model
+ * record: always call the model and (over)write the cassette
+ * replay: use the cassette when it has the request, else call the model and record it
+ * strict: cassette only — a request that isn't recorded fails with CassetteMissError
+ */
+export type CassetteMode = 'off' | 'record' | 'replay' | 'strict';
+
+export const CASSETTE_MODES: CassetteMode[] = ['off', 'record', 'replay', 'strict'];
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Directory holding the cassette entries */
+  dir: string;
+  /**
+   * Key requests by this session name and their order (<session>-001, <session>-002, ...)
+   * instead of by content. One provider instance is one session.
+   */
+  session?: string;
+}
+
+export interface CassetteEntry {
+  key: string;
+  /** Turn within the session, for session cassettes */
+  turn?: number;
+  provider: LLMProviderName;
+  model: string;
+  recordedAt: string;
+  request: NormalizedRequest;
+  response: LLMResponse;
+}
+
+type NormalizedRequest = ReturnType<typeof normalizeRequest>;
+
+/**
+ * A strict-mode request with no recorded response
+ */
+export class CassetteMissError extends Error {
+  constructor(public readonly key: string, public readonly dir: string) {
+    super(`No cassette entry for request ${key} in ${dir} (strict mode). Re-record with mode "record" or "replay".`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function normalizeBlock(block: LLMContentBlock) {
+  switch (block.type) {
+    case 'text':
+      return { type: block.type, text: normalizeText(block.text) };
+    case 'image':
+      // Key on the image digest so entries stay readable
+      return {
+        type: block.type,
+        mediaType: block.image.mediaType,
+        sha256: createHash('sha256').update(block.image.base64).digest('hex'),
+      };
+    case 'tool_use':
+      return { type: block.type, id: block.id, name: block.name, input: block.input };
+    case 'tool_result':
+      return { type: block.type, toolUseId: block.toolUseId, content: normalizeText(block.content), isError: !!block.isError };
+  }
+}
+
+/**
+ * The parts of a request that determine the response, with line endings, trailing
+ * whitespace and image data normalised
+ */
+export function normalizeRequest(model: string, request: LLMRequest) {
+  return {
+    model,
+    system: request.system ? normalizeText(request.system) : null,
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? normalizeText(message.content)
+        : message.content.map(normalizeBlock),
+    })),
+    tools: (request.tools || []).map((tool) => ({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema })),
+    maxTokens: request.maxTokens,
+    temperature: request.temperature ?? null,
+  };
+}
+
+/**
+ * JSON with sorted object keys, so equal requests always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cassette key for a request: sha256 of the normalised request (first 32 hex chars)
+ */
+export function getCassetteKey(model: string, request: LLMRequest): string {
+  return createHash('sha256').update(stableStringify(normalizeRequest(model, request))).digest('hex').slice(0, 32);
+}
+
+/**
+ * LLM provider that records to and replays from a cassette.
+ * The live provider is only created on a miss, so strict replays need no API key.
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly pricing: ModelPricing;
+  private cassette: CassetteOptions;
+  private createProvider: () => LLMProvider;
+  private provider: LLMProvider | null = null;
+  private turn = 0;
+
+  constructor(config: LLMProviderConfig, cassette: CassetteOptions, createProvider: () => LLMProvider) {
+    this.name = config.provider;
+    this.model = config.model;
+    this.pricing = getModelPricing(config);
+    this.cassette = cassette;
+    this.createProvider = createProvider;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const turn = this.cassette.session ? ++this.turn : undefined;
+    const key = turn !== undefined
+      ? `${this.cassette.session}-${String(turn).padStart(3, '0')}`
+      : getCassetteKey(this.model, request);
+    const path = join(this.cassette.dir, `${key}.json`);
+
+    if (this.cassette.mode !== 'record' && existsSync(path)) {
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as CassetteEntry;
+      return entry.response;
+    }
+
+    if (this.cassette.mode === 'strict') {
+      throw new CassetteMissError(key, this.cassette.dir);
+    }
+
+    this.provider ??= this.createProvider();
+    const response = await this.provider.complete(request);
+
+    const entry: CassetteEntry = {
+      key,
+      turn,
+      provider: this.name,
+      model: this.model,
+      recordedAt: new Date().toISOString(),
+      request: normalizeRequest(this.model, request),
+      response,
+    };
+    mkdirSync(this.cassette.dir, { recursive: true });
+    writeFileSync(path, JSON.stringify(entry, null, 2));
+
+    return response;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * CI gate: start a project or group suite through the API, wait for it to finish and
+ * report the result as JUnit XML and CTRF JSON (https://ctrf.io), with per-test
+ * durations, errors and artifact links.
+ */
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export type GateRunStatus = 'PENDING' | 'RUNNING' | 'PASSED' | 'FAILED' | 'CANCELLED' | 'TIMEOUT';
+
+export interface GateArtifact {
+  id: string;
+  type: string;
+  name: string;
+  storagePath: string;
+}
+
+export interface GateTestRun {
+  id: string;
+  testSpecId: string;
+  recordingName: string | null;
+  status: GateRunStatus;
+  durationMs: number | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  artifacts: GateArtifact[];
+}
+
+/**
+ * Suite run as returned by GET /api/suite-runs/:id
+ */
+export interface GateSuiteRun {
+  id: string;
+  projectId: string;
+  project?: { id: string; name: string } | null;
+  status: GateRunStatus;
+  totalTests: number;
+  passedTests: number;
+  failedTests: number;
+  durationMs: number | null;
+  error: string | null;
+  dappUrl?: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  testRuns: GateTestRun[];
+}
+
+export interface StartSuiteOptions {
+  /** Run one group of the project instead of all its tests */
+  groupId?: string;
+  /** Run against this dApp URL (e.g. a preview deployment) instead of the recorded one */
+  dappUrl?: string;
+  headless?: boolean;
+}
+
+export interface GateReportOptions {
+  /** API origin; artifact links point at its /api/artifacts route */
+  apiUrl: string;
+  /** Dashboard origin for run links. Omitted when not set. */
+  dashboardUrl?: string;
+}
+
+export class CiGateError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+    this.name = 'CiGateError';
+  }
+}
+
+/**
+ * Minimal client for the suite routes, authenticated with an API key
+ */
+export class CiGateClient {
+  private apiUrl: string;
+
+  constructor(apiUrl: string, private apiKey?: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  async startSuite(projectId: string, options: StartSuiteOptions = {}): Promise<{ id: string; totalTests: number; queued: boolean; message: string }> {
+    const path = options.groupId
+      ? `/api/projects/${encodeURIComponent(projectId)}/groups/${encodeURIComponent(options.groupId)}/run-suite`
+      : `/api/projects/${encodeURIComponent(projectId)}/run-suite`;
+
+    return this.request(path, {
+      method: 'POST',
+      body: JSON.stringify({
+        headless: options.headless ?? true,
+        ...(options.dappUrl && { dappUrl: options.dappUrl }),
+      }),
+    });
+  }
+
+  async getSuiteRun(id: string): Promise<GateSuiteRun> {
+    return this.request(`/api/suite-runs/${encodeURIComponent(id)}`);
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(this.apiKey && { 'X-API-Key': this.apiKey }),
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { error?: string; message?: string } | null;
+      throw new CiGateError(
+        `API error ${response.status}: ${body?.error || body?.message || response.statusText}`,
+        response.status
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+export function isSuiteFinished(status: GateRunStatus): boolean {
+  return status !== 'PENDING' && status !== 'RUNNING';
+}
+
+/**
+ * Poll a suite run until it finishes or `timeoutMs` passes, calling `onTestRun` once for
+ * each test run whose status changed. Returns the last state seen, finished or not.
+ */
+export async function waitForSuiteRun(
+  client: CiGateClient,
+  suiteRunId: string,
+  options: { intervalMs?: number; timeoutMs?: number; onTestRun?: (run: GateTestRun) => void } = {}
+): Promise<GateSuiteRun> {
+  const { intervalMs = 5000, timeoutMs = 30 * 60_000, onTestRun } = options;
+  const deadline = Date.now() + timeoutMs;
+  const seen = new Map<string, GateRunStatus>();
+
+  for (;;) {
+    const suiteRun = await client.getSuiteRun(suiteRunId);
+
+    for (const run of suiteRun.testRuns) {
+      if (seen.get(run.id) !== run.status) {
+        seen.set(run.id, run.status);
+        onTestRun?.(run);
+      }
+    }
+
+    if (isSuiteFinished(suiteRun.status) || Date.now() >= deadline) {
+      return suiteRun;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+function testName(run: GateTestRun): string {
+  return run.recordingName || `spec ${run.testSpecId}`;
+}
+
+function artifactUrl(artifact: GateArtifact, options: GateReportOptions): string {
+  return `${options.apiUrl.replace(/\/+$/, '')}/api/artifacts/${artifact.storagePath}`;
+}
+
+function runUrl(run: GateTestRun, options: GateReportOptions): string | null {
+  return options.dashboardUrl ? `${options.dashboardUrl.replace(/\/+$/, '')}/runs/${run.id}` : null;
+}
+
+// ANSI colour codes in Playwright output
+const ANSI_ESCAPE = new RegExp(String.fromCharCode(27) + '\\[[0-9;]*m', 'g');
+
+/**
+ * Drop control characters XML 1.0 can't contain (tab, newline and carriage return stay)
+ */
+function stripControlChars(value: string): string {
+  return Array.from(value)
+    .filter((char) => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+    .join('');
+}
+
+function escapeXml(value: string): string {
+  return stripControlChars(value.replace(ANSI_ESCAPE, ''))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number | null): string {
+  return ((ms || 0) / 1000).toFixed(3);
+}
+
+/**
+ * JUnit XML with one testcase per test run. Timed-out runs count as failures, cancelled
+ * and unfinished runs as skipped. Artifact links are written as [[ATTACHMENT|url]] lines,
+ * which Jenkins and GitLab pick up.
+ */
+export function buildJUnitReport(suiteRun: GateSuiteRun, options: GateReportOptions): string {
+  const suiteName = suiteRun.project?.name || suiteRun.projectId;
+  const failures = suiteRun.testRuns.filter((r) => r.status === 'FAILED' || r.status === 'TIMEOUT').length;
+  const skipped = suiteRun.testRuns.filter((r) => !['PASSED', 'FAILED', 'TIMEOUT'].includes(r.status)).length;
+  const durationMs = suiteRun.durationMs ?? suiteRun.testRuns.reduce((sum, r) => sum + (r.durationMs || 0), 0);
+
+  const testcases = suiteRun.testRuns.map((run) => {
+    const lines: string[] = [];
+    const link = runUrl(run, options);
+    if (link) lines.push(`Run: ${link}`);
+    for (const artifact of run.artifacts) {
+      lines.push(`[[ATTACHMENT|${artifactUrl(artifact, options)}]]`);
+    }
+
+    let result = '';
+    if (run.status === 'FAILED' || run.status === 'TIMEOUT') {
+      const error = run.error || (run.status === 'TIMEOUT' ? 'Test timed out' : 'Test failed');
+      result = `\n      <failure message="${escapeXml(error.split('\n')[0])}" type="${run.status}">${escapeXml(error)}</failure>`;
+    } else if (run.status !== 'PASSED') {
+      const reason = run.status === 'CANCELLED' ? 'Cancelled' : `Still ${run.status.toLowerCase()} when the gate stopped waiting`;
+      result = `\n      <skipped message="${escapeXml(reason)}"/>`;
+    }
+    const systemOut = lines.length > 0 ? `\n      <system-out>${escapeXml(lines.join('\n'))}</system-out>` : '';
+
+    return `    <testcase name="${escapeXml(testName(run))}" classname="${escapeXml(suiteName)}" time="${seconds(run.durationMs)}">${result}${systemOut}\n    </testcase>`;
+  });
+
+  const properties = [
+    ['suiteRunId', suiteRun.id],
+    ['status', suiteRun.status],
+    ...(suiteRun.dappUrl ? [['dappUrl', suiteRun.dappUrl]] : []),
+  ].map(([name, value]) => `      <property name="${name}" value="${escapeXml(value)}"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" tests="${suiteRun.testRuns.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(durationMs)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${suiteRun.testRuns.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(durationMs)}" timestamp="${suiteRun.startedAt || suiteRun.createdAt}">`,
+    '    <properties>',
+    ...properties,
+    '    </properties>',
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+type CtrfStatus = 'passed' | 'failed' | 'skipped' | 'pending' | 'other';
+
+const ARTIFACT_CONTENT_TYPES: Record<string, string> = {
+  SCREENSHOT: 'image/png',
+  VIDEO: 'video/webm',
+  TRACE: 'application/zip',
+  HAR: 'application/json',
+  LOG: 'text/plain',
+};
+
+function ctrfStatus(status: GateRunStatus): CtrfStatus {
+  switch (status) {
+    case 'PASSED':
+      return 'passed';
+    case 'FAILED':
+    case 'TIMEOUT':
+      return 'failed';
+    case 'CANCELLED':
+      return 'skipped';
+    case 'PENDING':
+    case 'RUNNING':
+      return 'pending';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * CTRF report. Artifacts are listed as test attachments, linked rather than embedded.
+ */
+export function buildCtrfReport(suiteRun: GateSuiteRun, options: GateReportOptions): Record<string, unknown> {
+  const tests = suiteRun.testRuns.map((run) => {
+    const link = runUrl(run, options);
+    return {
+      name: testName(run),
+      status: ctrfStatus(run.status),
+      duration: run.durationMs || 0,
+      ...(run.startedAt && { start: Date.parse(run.startedAt) }),
+      ...(run.completedAt && { stop: Date.parse(run.completedAt) }),
+      ...(run.error && { message: run.error.split('\n')[0], trace: run.error }),
+      suite: suiteRun.project?.name || suiteRun.projectId,
+      rawStatus: run.status,
+      attachments: run.artifacts.map((artifact) => ({
+        name: artifact.name,
+        contentType: ARTIFACT_CONTENT_TYPES[artifact.type] || 'application/octet-stream',
+        path: artifactUrl(artifact, options),
+      })),
+      extra: {
+        runId: run.id,
+        specId: run.testSpecId,
+        ...(link && { url: link }),
+      },
+    };
+  });
+
+  const count = (status: CtrfStatus) => tests.filter((t) => t.status === status).length;
+  const start = Date.parse(suiteRun.startedAt || suiteRun.createdAt);
+
+  return {
+    reportFormat: 'CTRF',
+    specVersion: '0.0.0',
+    results: {
+      tool: { name: 'bugdapp' },
+      summary: {
+        tests: tests.length,
+        passed: count('passed'),
+        failed: count('failed'),
+        pending: count('pending'),
+        skipped: count('skipped'),
+        other: count('other'),
+        start,
+        stop: suiteRun.completedAt ? Date.parse(suiteRun.completedAt) : Date.now(),
+      },
+      tests,
+      environment: {
+        appName: suiteRun.project?.name || suiteRun.projectId,
+        ...(suiteRun.dappUrl && { url: suiteRun.dappUrl }),
+        extra: { suiteRunId: suiteRun.id, status: suiteRun.status },
+      },
+    },
+  };
+}
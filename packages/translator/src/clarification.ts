@@ -44,7 +44,7 @@ export class ClarificationDetector {
         const clickStep = step as ClickStep;
 
         // Check for generic selectors
-        if (this.isGenericSelector(clickStep.selector)) {
+        if (ClarificationDetector.isGenericSelector(clickStep.selector)) {
           this.questions.push({
             id: `selector-${i}`,
             type: 'selector',
@@ -212,7 +212,7 @@ export class ClarificationDetector {
   /**
    * Check if a selector is too generic
    */
-  private isGenericSelector(selector: string): boolean {
+  static isGenericSelector(selector: string): boolean {
     const genericPatterns = [
       /^div$/,
       /^button$/,
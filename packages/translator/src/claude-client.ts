@@ -1,9 +1,17 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type { LLMContentBlock, LLMImage, LLMProvider, LLMProviderName } from './llm-provider.js';
+import { createLLMProvider, resolveProviderConfig, getResponseText } from './llm-provider.js';
+import type { CassetteOptions } from './cassette.js';
 
 export interface ClaudeClientOptions {
   apiKey?: string;
   model?: string;
   maxTokens?: number;
+  /** LLM provider (default: LLM_PROVIDER env or anthropic) */
+  provider?: LLMProviderName;
+  /** Base URL for the OpenAI-compatible provider */
+  baseUrl?: string;
+  /** Record/replay calls (default: LLM_CASSETTE_MODE env) */
+  cassette?: CassetteOptions;
 }
 
 export interface GenerateCodeRequest {
@@ -12,10 +20,7 @@ export interface GenerateCodeRequest {
   temperature?: number;
 }
 
-export interface ImageContent {
-  base64: string;
-  mediaType: 'image/png' | 'image/jpeg';
-}
+export type ImageContent = LLMImage;
 
 export interface GenerateCodeWithImagesRequest {
   systemPrompt: string;
@@ -33,27 +38,21 @@ export interface GenerateCodeResponse {
 }
 
 /**
- * Wrapper around the Anthropic Claude API for code generation
+ * Code-generation client on top of the configured LLM provider
+ * (Anthropic by default, or an OpenAI-compatible endpoint for self-hosted models)
  */
 export class ClaudeClient {
-  private client: Anthropic;
-  private model: string;
+  private provider: LLMProvider;
   private maxTokens: number;
 
   constructor(options: ClaudeClientOptions = {}) {
-    const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
-
-    if (!apiKey) {
-      throw new Error(
-        'Anthropic API key is required. Set ANTHROPIC_API_KEY environment variable or pass apiKey option.'
-      );
-    }
-
-    this.client = new Anthropic({
-      apiKey,
-    });
-
-    this.model = options.model || 'claude-sonnet-4-20250514';
+    this.provider = createLLMProvider(resolveProviderConfig({
+      provider: options.provider,
+      model: options.model,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      cassette: options.cassette,
+    }));
     this.maxTokens = options.maxTokens || 8192;
   }
 
@@ -61,39 +60,7 @@ export class ClaudeClient {
    * Generate code from a prompt
    */
   async generateCode(request: GenerateCodeRequest): Promise<GenerateCodeResponse> {
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
-      temperature: request.temperature ?? 0.2,
-      system: request.systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: request.userPrompt,
-        },
-      ],
-    });
-
-    // Extract the text content from the response
-    const textBlock = response.content.find((block) => block.type === 'text');
-    if (!textBlock || textBlock.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
-    // Extract code from markdown code blocks if present
-    let code = textBlock.text;
-    const codeBlockMatch = code.match(/```(?:typescript|ts)?\n([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      code = codeBlockMatch[1].trim();
-    }
-
-    return {
-      code,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-      },
-    };
+    return this.generateCodeWithImages(request);
   }
 
   /**
@@ -101,48 +68,25 @@ export class ClaudeClient {
    * Used for self-healing with screenshots and initial generation with recording screenshots
    */
   async generateCodeWithImages(request: GenerateCodeWithImagesRequest): Promise<GenerateCodeResponse> {
-    // Build content blocks: text + images
-    const content: Anthropic.MessageCreateParams['messages'][0]['content'] = [];
-
-    // Add images first (so Claude sees them before the prompt)
-    if (request.images && request.images.length > 0) {
-      for (const img of request.images) {
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: img.mediaType,
-            data: img.base64,
-          },
-        });
-      }
-    }
-
-    // Add text prompt
-    content.push({
-      type: 'text',
-      text: request.userPrompt,
-    });
+    // Add images first (so the model sees them before the prompt)
+    const content: LLMContentBlock[] = [
+      ...(request.images || []).map((image) => ({ type: 'image' as const, image })),
+      { type: 'text', text: request.userPrompt },
+    ];
 
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
-      temperature: request.temperature ?? 0.2,
+    const response = await this.provider.complete({
       system: request.systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content,
-        },
-      ],
+      messages: [{ role: 'user', content }],
+      maxTokens: this.maxTokens,
+      temperature: request.temperature ?? 0.2,
     });
 
-    const textBlock = response.content.find((block) => block.type === 'text');
-    if (!textBlock || textBlock.type !== 'text') {
+    let code = getResponseText(response);
+    if (!code) {
       throw new Error('No text content in response');
     }
 
-    let code = textBlock.text;
+    // Extract code from markdown code blocks if present
     const codeBlockMatch = code.match(/```(?:typescript|ts)?\n([\s\S]*?)```/);
     if (codeBlockMatch) {
       code = codeBlockMatch[1].trim();
@@ -151,8 +95,8 @@ export class ClaudeClient {
     return {
       code,
       usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
       },
     };
   }
@@ -215,9 +159,8 @@ export class ClaudeClient {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 10,
+      const response = await this.provider.complete({
+        maxTokens: 10,
         messages: [
           {
             role: 'user',
@@ -234,7 +177,7 @@ export class ClaudeClient {
 }
 
 /**
- * Create a Claude client with default options
+ * Create a code-generation client with default options
  */
 export function createClaudeClient(options?: ClaudeClientOptions): ClaudeClient {
   return new ClaudeClient(options);
@@ -10,7 +10,19 @@ import { resolve, basename } from 'path';
 import { translateRecording, parseRecording } from './index.js';
 import { analyzeRecording } from './analyzer.js';
 import { validateGeneratedCode } from './validator.js';
+import { lintSpec, applySpecFixes, type SpecLintOptions } from './spec-linter.js';
+import { segmentRecording, describePrecondition } from './segmenter.js';
+import { lintRecording, applyRecordingFixes } from './recording-linter.js';
+import { buildSpecExport, zipSpecExport, type ExportFormat } from './exporter.js';
 import { detectClarifications, runInteractiveClarification } from './clarification.js';
+import {
+  CiGateClient,
+  waitForSuiteRun,
+  isSuiteFinished,
+  buildJUnitReport,
+  buildCtrfReport,
+  type GateTestRun,
+} from './ci-gate.js';
 
 const program = new Command();
 
@@ -26,8 +38,15 @@ program
   .option('-o, --output <file>', 'Output file path (default: <recording-name>.spec.ts)')
   .option('-i, --interactive', 'Run in interactive mode to answer clarifying questions')
   .option('--no-validate', 'Skip TypeScript validation of generated code')
-  .option('--api-key <key>', 'Anthropic API key (or set ANTHROPIC_API_KEY env var)')
-  .option('--model <model>', 'Claude model to use (default: claude-sonnet-4-20250514)')
+  .option('--api-key <key>', 'Anthropic API key (or set ANTHROPIC_API_KEY / LLM_API_KEY env var)')
+  .option('--model <model>', 'Model to use (default: claude-sonnet-4-20250514)')
+  .option('--provider <provider>', 'LLM provider: anthropic or openai-compatible (or set LLM_PROVIDER env var)')
+  .option('--base-url <url>', 'Base URL of an OpenAI-compatible API (or set LLM_BASE_URL env var; env keys are only sent to LLM_BASE_URL)')
+  .option('--cassette <mode>', 'Record/replay LLM calls: off, record, replay or strict (or set LLM_CASSETTE_MODE env var)')
+  .option('--cassette-dir <dir>', 'Cassette directory (default: ./cassettes or LLM_CASSETTE_DIR env var)')
+  .option('--selector-strategy <strategy>', 'Preferred selector candidate: data-testid, role, text, css or auto', 'auto')
+  .option('--offline', 'Generate deterministically from templates without calling Claude (no API key needed)')
+  .option('--no-parameters', 'Keep recorded input values as literals instead of a params block')
   .action(async (recordingPath: string, options) => {
     const spinner = ora('Reading recording...').start();
 
@@ -79,12 +98,20 @@ program
       }
 
       // Generate the code
-      const genSpinner = ora('Generating test spec with Claude...').start();
+      const genSpinner = ora(options.offline ? 'Generating test spec from templates...' : 'Generating test spec...').start();
 
       const result = await translateRecording(fullPath, {
         apiKey: options.apiKey,
         model: options.model,
+        provider: options.provider,
+        baseUrl: options.baseUrl,
+        cassette: options.cassette || options.cassetteDir
+          ? { mode: options.cassette || process.env.LLM_CASSETTE_MODE || 'replay', dir: options.cassetteDir }
+          : undefined,
+        selectorStrategy: options.selectorStrategy,
         validateOutput: options.validate !== false,
+        offline: options.offline,
+        parameterizeInputs: options.parameters,
         interactive: false, // We already handled this
       });
 
@@ -187,6 +214,18 @@ program
         }
       }
 
+      const segments = segmentRecording(analysis);
+      if (segments.length > 1) {
+        console.log('');
+        console.log(chalk.bold('Proposed Segments:'));
+        for (const segment of segments) {
+          console.log(`  ${chalk.cyan(segment.id)} (steps ${segment.startIndex}-${segment.endIndex})`);
+          for (const precondition of segment.preconditions) {
+            console.log(chalk.gray(`    requires: ${describePrecondition(precondition)}`));
+          }
+        }
+      }
+
       console.log('');
       console.log(chalk.bold('Step Summary:'));
 
@@ -229,11 +268,77 @@ program
     }
   });
 
+// Lint command
+program
+  .command('lint <recording>')
+  .description('Score a recording before translation and suggest fixes')
+  .option('--fix', 'Apply the suggested fixes and rewrite the recording')
+  .option('--min-score <score>', 'Exit with an error when the score is below this')
+  .option('--json', 'Print the report as JSON')
+  .action(async (recordingPath: string, options) => {
+    try {
+      const fullPath = resolve(recordingPath);
+
+      if (!existsSync(fullPath)) {
+        console.error(chalk.red(`Recording file not found: ${fullPath}`));
+        process.exit(1);
+      }
+
+      let recording = parseRecording(fullPath);
+      let report = lintRecording(recording);
+
+      if (options.fix) {
+        const { recording: fixed, applied } = applyRecordingFixes(recording, report.findings);
+        if (applied.length > 0) {
+          recording = fixed;
+          writeFileSync(fullPath, JSON.stringify(recording, null, 2));
+          report = lintRecording(recording);
+          if (!options.json) {
+            console.log(chalk.cyan(`Applied ${applied.length} fix(es) to ${basename(fullPath)}`));
+          }
+        }
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        const color = report.score >= 80 ? chalk.green : report.score >= 50 ? chalk.yellow : chalk.red;
+        console.log(chalk.bold(`Recording score: ${color(String(report.score))}/100`));
+
+        if (report.findings.length > 0) {
+          console.log('');
+          for (const finding of report.findings) {
+            const mark = finding.severity === 'error' ? chalk.red('✖') : finding.severity === 'warning' ? chalk.yellow('⚠') : chalk.gray('ℹ');
+            console.log(`  ${mark} ${finding.message} ${chalk.gray(`[${finding.rule}]`)}`);
+            if (finding.fix) {
+              console.log(chalk.gray(`    fix: ${finding.fix.description}`));
+            }
+          }
+          if (!options.fix && report.findings.some((f) => f.fix)) {
+            console.log('');
+            console.log(chalk.gray('  Run with --fix to apply the suggested fixes.'));
+          }
+        }
+      }
+
+      if (options.minScore !== undefined && report.score < parseInt(options.minScore, 10)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(error instanceof Error ? error.message : 'Unknown error')
+      );
+      process.exit(1);
+    }
+  });
+
 // Validate command
 program
   .command('validate <spec>')
   .description('Validate a generated test spec')
-  .action(async (specPath: string) => {
+  .option('--fix', 'Apply auto-fixes for rule findings and rewrite the spec')
+  .option('--max-wait <ms>', 'Flag waitForTimeout calls longer than this (default: 5000)')
+  .action(async (specPath: string, options) => {
     const spinner = ora('Validating spec...').start();
 
     try {
@@ -244,8 +349,28 @@ program
         process.exit(1);
       }
 
-      const code = readFileSync(fullPath, 'utf-8');
-      const result = await validateGeneratedCode(code);
+      let code = readFileSync(fullPath, 'utf-8');
+      const lintOptions: SpecLintOptions = {
+        maxWaitMs: options.maxWait ? parseInt(options.maxWait, 10) : undefined,
+      };
+
+      if (options.fix) {
+        // Overlapping fixes are applied on the next pass
+        let fixed = 0;
+        for (let pass = 0; pass < 5; pass++) {
+          const { code: next, applied } = applySpecFixes(code, lintSpec(code, lintOptions));
+          if (applied.length === 0) break;
+          code = next;
+          fixed += applied.length;
+        }
+        if (fixed > 0) {
+          writeFileSync(fullPath, code);
+          spinner.info(chalk.cyan(`Applied ${fixed} fix(es) to ${basename(fullPath)}`));
+          spinner.start('Validating spec...');
+        }
+      }
+
+      const result = await validateGeneratedCode(code, lintOptions);
 
       if (result.valid) {
         spinner.succeed(chalk.green('Spec is valid'));
@@ -281,5 +406,149 @@ program
     }
   });
 
+// Export command
+program
+  .command('export <spec>')
+  .description('Export a spec as a standalone Playwright project (zip)')
+  .option('-f, --format <format>', 'dappwright or synpress', 'dappwright')
+  .option('-n, --name <name>', 'Project name (default: from the test title)')
+  .option('-o, --output <path>', 'Zip file path (default: <name>.zip)')
+  .action(async (specPath: string, options) => {
+    const spinner = ora('Exporting spec...').start();
+
+    try {
+      const fullPath = resolve(specPath);
+
+      if (!existsSync(fullPath)) {
+        spinner.fail(chalk.red(`Spec file not found: ${fullPath}`));
+        process.exit(1);
+      }
+
+      if (options.format !== 'dappwright' && options.format !== 'synpress') {
+        spinner.fail(chalk.red(`Unknown format: ${options.format} (use dappwright or synpress)`));
+        process.exit(1);
+      }
+
+      const exported = buildSpecExport(readFileSync(fullPath, 'utf-8'), {
+        format: options.format as ExportFormat,
+        name: options.name,
+      });
+      const outputPath = resolve(options.output || `${exported.name}.zip`);
+      writeFileSync(outputPath, zipSpecExport(exported));
+
+      spinner.succeed(chalk.green(`Exported ${exported.files.length} files to ${outputPath}`));
+
+      if (exported.warnings.length > 0) {
+        console.log('');
+        console.log(chalk.yellow('Review before running:'));
+        for (const warning of exported.warnings) {
+          console.log(chalk.yellow(`  - ${warning}`));
+        }
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('Export failed'));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : 'Unknown error')
+      );
+      process.exit(1);
+    }
+  });
+
+// CI gate command
+program
+  .command('ci')
+  .description('Run a project or group suite through the API and fail when any test fails')
+  .requiredOption('-p, --project <id>', 'Project ID')
+  .option('-g, --group <id>', 'Only run this group of the project')
+  .option('--dapp-url <url>', 'Run against this dApp URL instead of the recorded one, e.g. a preview deployment')
+  .option('--api-url <url>', 'API URL (env: API_URL)')
+  .option('--api-key <key>', 'API key with the execute permission (env: API_KEY)')
+  .option('--dashboard-url <url>', 'Dashboard URL for run links in reports (env: DASHBOARD_URL)')
+  .option('--junit <file>', 'Write a JUnit XML report')
+  .option('--ctrf <file>', 'Write a CTRF JSON report')
+  .option('--timeout <minutes>', 'Stop waiting after this many minutes', '30')
+  .option('--interval <seconds>', 'Seconds between progress checks', '5')
+  .option('--headed', 'Run browsers headed (default: headless)')
+  .action(async (options) => {
+    const apiUrl: string = options.apiUrl || process.env.API_URL || 'http://localhost:3001';
+    const apiKey: string | undefined = options.apiKey || process.env.API_KEY;
+    const dashboardUrl: string | undefined = options.dashboardUrl || process.env.DASHBOARD_URL;
+    const client = new CiGateClient(apiUrl, apiKey);
+
+    // Exit codes: 0 passed, 1 tests failed, 2 the gate itself failed or timed out
+    try {
+      const started = await client.startSuite(options.project, {
+        groupId: options.group,
+        dappUrl: options.dappUrl,
+        headless: !options.headed,
+      });
+
+      console.log(chalk.bold(`Suite run ${started.id}: ${started.totalTests} tests`));
+      if (options.dappUrl) {
+        console.log(chalk.gray(`dApp URL: ${options.dappUrl}`));
+      }
+      // Nothing will pick the run up, so polling would only wait for the timeout
+      if (!started.queued) {
+        console.log(chalk.red(started.message || 'Suite run was not queued'));
+        process.exit(2);
+      }
+      console.log('');
+
+      const printRun = (run: GateTestRun) => {
+        const name = run.recordingName || run.testSpecId;
+        const duration = run.durationMs ? chalk.gray(` (${(run.durationMs / 1000).toFixed(1)}s)`) : '';
+        if (run.status === 'PASSED') {
+          console.log(chalk.green(`  ✓ ${name}`) + duration);
+        } else if (run.status === 'FAILED' || run.status === 'TIMEOUT') {
+          console.log(chalk.red(`  ✗ ${name}`) + duration);
+          if (run.error) console.log(chalk.red(`      ${run.error.split('\n')[0]}`));
+        } else if (run.status === 'RUNNING') {
+          console.log(chalk.blue(`  … ${name}`));
+        } else if (run.status === 'CANCELLED') {
+          console.log(chalk.gray(`  - ${name} (cancelled)`));
+        }
+      };
+
+      const suiteRun = await waitForSuiteRun(client, started.id, {
+        intervalMs: parseFloat(options.interval) * 1000,
+        timeoutMs: parseFloat(options.timeout) * 60_000,
+        onTestRun: printRun,
+      });
+
+      const reportOptions = { apiUrl, dashboardUrl };
+      if (options.junit) {
+        writeFileSync(resolve(options.junit), buildJUnitReport(suiteRun, reportOptions));
+        console.log(chalk.gray(`\nJUnit report: ${resolve(options.junit)}`));
+      }
+      if (options.ctrf) {
+        writeFileSync(resolve(options.ctrf), JSON.stringify(buildCtrfReport(suiteRun, reportOptions), null, 2));
+        console.log(chalk.gray(`${options.junit ? '' : '\n'}CTRF report: ${resolve(options.ctrf)}`));
+      }
+
+      console.log('');
+      if (!isSuiteFinished(suiteRun.status)) {
+        console.log(chalk.red(`Suite still ${suiteRun.status.toLowerCase()} after ${options.timeout} minutes`));
+        process.exit(2);
+      }
+
+      const summary = `${suiteRun.passedTests}/${suiteRun.totalTests} passed`;
+      if (dashboardUrl) {
+        console.log(chalk.gray(`${dashboardUrl.replace(/\/+$/, '')}/projects/${suiteRun.projectId}/suite-runs/${suiteRun.id}`));
+      }
+      if (suiteRun.status === 'PASSED') {
+        console.log(chalk.green(`✓ Suite passed: ${summary}`));
+        process.exit(0);
+      }
+      console.log(chalk.red(`✗ Suite ${suiteRun.status.toLowerCase()}: ${summary}`));
+      if (suiteRun.error) console.log(chalk.red(suiteRun.error));
+      process.exit(1);
+    } catch (error) {
+      console.error(
+        chalk.red(`CI gate failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      );
+      process.exit(2);
+    }
+  });
+
 // Parse and run
 program.parse();
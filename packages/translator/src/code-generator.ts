@@ -1,7 +1,13 @@
 import type { AnalysisResult, GenerationOptions, TranslationResult, FailureContext } from './types.js';
 import { ClaudeClient, createClaudeClient } from './claude-client.js';
+import type { LLMProviderName } from './llm-provider.js';
+import type { CassetteOptions } from './cassette.js';
 import { createPromptBuilder } from './prompt-builder.js';
 import { validateTypeScript } from './validator.js';
+import { createTemplateGenerator } from './template-generator.js';
+import { extractSpecParameters, buildParameterBlock } from './parameters.js';
+import { analyzeSegment, addSegmentHeader, type RecordingSegment } from './segmenter.js';
+import { applySnippets } from './snippets.js';
 
 /**
  * Detect image media type from a data URL or raw base64.
@@ -20,7 +26,15 @@ export interface CodeGeneratorOptions extends Partial<GenerationOptions> {
   apiKey?: string;
   model?: string;
   maxTokens?: number;
+  /** LLM provider (default: LLM_PROVIDER env or anthropic) */
+  provider?: LLMProviderName;
+  /** Base URL for the OpenAI-compatible provider */
+  baseUrl?: string;
+  /** Record/replay LLM calls (default: LLM_CASSETTE_MODE env) */
+  cassette?: CassetteOptions;
   validateOutput?: boolean;
+  /** Generate from templates without calling Claude (no API key needed) */
+  offline?: boolean;
 }
 
 /**
@@ -35,6 +49,9 @@ export class CodeGenerator {
       apiKey: options.apiKey,
       model: options.model,
       maxTokens: options.maxTokens,
+      provider: options.provider,
+      baseUrl: options.baseUrl,
+      cassette: options.cassette,
     });
     this.options = options;
   }
@@ -109,6 +126,9 @@ export class CodeGenerator {
       // Post-process the code
       code = this.postProcessCode(code, analysis);
 
+      // Snippet blocks must match the project's current snippet versions exactly
+      code = applySnippets(code, this.options.snippets || []).code;
+
       return {
         success: true,
         code,
@@ -128,7 +148,7 @@ export class CodeGenerator {
   /**
    * Post-process generated code to fix common issues
    */
-  private postProcessCode(code: string, _analysis: AnalysisResult): string {
+  private postProcessCode(code: string, analysis: AnalysisResult): string {
     let processed = code;
 
     // Fix wrong import paths — specs are in test/playwright/, fixture is at fixtures/wallet.fixture
@@ -184,12 +204,35 @@ export class CodeGenerator {
     // Remove entire .or(page.locator('...radix...')) calls to avoid syntax errors
     processed = processed.replace(/\s*\.or\(page\.locator\(['"][^'"]*#radix-[^'"]*['"]\)\)/g, '');
 
+    // Ensure the params block is present if the code uses it
+    processed = this.addParameterBlock(processed, analysis);
+
     // Ensure step markers are present for hybrid execution
     processed = this.addStepMarkers(processed);
 
     return processed;
   }
 
+  /**
+   * Insert the params block after the imports when the code references params but the
+   * model left the block out
+   */
+  private addParameterBlock(code: string, analysis: AnalysisResult): string {
+    if (this.options.parameterizeInputs === false) return code;
+    if (/^const params\b/m.test(code) || !/\bparams\.\w/.test(code)) return code;
+
+    const block = buildParameterBlock(extractSpecParameters(analysis.recording));
+    if (block.length === 0) return code;
+
+    const lines = code.split('\n');
+    let insertAt = 0;
+    lines.forEach((line, i) => {
+      if (/^(import\b|\}).*\bfrom\s+['"]/.test(line)) insertAt = i + 1;
+    });
+    lines.splice(insertAt, 0, '', ...block);
+    return lines.join('\n');
+  }
+
   /**
    * Insert STEP markers if none found, by detecting key patterns.
    * This is a fallback — the prompt instructs Claude to add them,
@@ -330,38 +373,12 @@ export class CodeGenerator {
   }
 
   /**
-   * Generate code for a specific section of the recording
+   * Generate a standalone spec for one segment of the recording (see segmenter.ts).
+   * The segment is analyzed as its own recording; its preconditions go in a header comment.
    */
-  async generateSection(
-    analysis: AnalysisResult,
-    startIndex: number,
-    endIndex: number
-  ): Promise<TranslationResult> {
-    const promptBuilder = createPromptBuilder(analysis, this.options);
-
-    const systemPrompt = promptBuilder.buildSystemPrompt();
-    const userPrompt = promptBuilder.buildSectionPrompt(startIndex, endIndex);
-
-    try {
-      const response = await this.client.generateCode({
-        systemPrompt,
-        userPrompt,
-        temperature: 0,
-      });
-
-      return {
-        success: true,
-        code: response.code,
-        analysis,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        success: false,
-        errors: [`Section generation failed: ${errorMessage}`],
-        analysis,
-      };
-    }
+  async generateSection(analysis: AnalysisResult, segment: RecordingSegment): Promise<TranslationResult> {
+    const result = await this.generate(analyzeSegment(analysis, segment));
+    return result.code ? { ...result, code: addSegmentHeader(result.code, segment) } : result;
   }
 }
 
@@ -379,6 +396,24 @@ export async function generateCode(
   analysis: AnalysisResult,
   options?: CodeGeneratorOptions
 ): Promise<TranslationResult> {
+  if (options?.offline) {
+    return createTemplateGenerator(options).generate(analysis);
+  }
   const generator = createCodeGenerator(options);
   return generator.generate(analysis);
 }
+
+/**
+ * Generate a standalone spec for one segment of a recording (offline or with the LLM)
+ */
+export async function generateSegmentCode(
+  analysis: AnalysisResult,
+  segment: RecordingSegment,
+  options?: CodeGeneratorOptions
+): Promise<TranslationResult> {
+  if (options?.offline) {
+    const result = await createTemplateGenerator(options).generate(analyzeSegment(analysis, segment));
+    return result.code ? { ...result, code: addSegmentHeader(result.code, segment) } : result;
+  }
+  return createCodeGenerator(options).generateSection(analysis, segment);
+}
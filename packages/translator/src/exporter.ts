@@ -0,0 +1,326 @@
+/**
+ * Standalone export of a generated spec: a Playwright project with the package.json,
+ * config, fixtures and spec needed to run it outside this repo, optionally translated to
+ * Synpress v4. The dappwright project files are copied from dappwright-test, the same
+ * project the executor runs specs in, so an export behaves like a run here.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import AdmZip from 'adm-zip';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export type ExportFormat = 'dappwright' | 'synpress';
+
+export interface ExportFile {
+  /** Path relative to the project root */
+  path: string;
+  content: string;
+}
+
+export interface SpecExport {
+  /** Project (and zip root folder) name */
+  name: string;
+  format: ExportFormat;
+  files: ExportFile[];
+  /** Parts of the spec the Synpress translation could not map one to one */
+  warnings: string[];
+}
+
+export interface SpecExportOptions {
+  /** Default: dappwright */
+  format?: ExportFormat;
+  /** Project name. Default: slug of the first test title */
+  name?: string;
+  /** Directory of the dappwright project to copy from. Default: DAPPWRIGHT_TEST_DIR or the repo's dappwright-test */
+  projectDir?: string;
+}
+
+export interface SynpressTranslation {
+  code: string;
+  warnings: string[];
+}
+
+const FIXTURE_IMPORT = '../../fixtures/wallet.fixture';
+const FIXTURE_IMPORT_PATTERN = /(['"])(?:\.\.?\/)+fixtures\/wallet\.fixture(?:\.ts)?\1/g;
+const DEFAULT_SEED_PHRASE = 'test test test test test test test test test test test junk';
+
+const SYNPRESS_VERSION = '^4.0.0';
+// Synpress v4 is built against this Playwright release
+const SYNPRESS_PLAYWRIGHT_VERSION = '1.48.2';
+
+/** Dappwright wallet methods and their Synpress MetaMask equivalents */
+const SYNPRESS_WALLET_METHODS: Record<string, string> = {
+  approve: 'connectToDapp',
+  sign: 'confirmSignature',
+  confirmTransaction: 'confirmTransaction',
+  confirmNetworkSwitch: 'approveSwitchNetwork',
+  reject: 'rejectTransaction',
+  switchNetwork: 'switchNetwork',
+  addNetwork: 'addNetwork',
+};
+
+/** Methods whose arguments carry over unchanged */
+const SYNPRESS_KEEP_ARGS = new Set(['switchNetwork']);
+
+export function resolveDappwrightProjectDir(): string {
+  return process.env.DAPPWRIGHT_TEST_DIR || join(__dirname, '..', '..', '..', 'dappwright-test');
+}
+
+function slugify(value: string): string {
+  const slug = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return slug || 'web3-test';
+}
+
+function firstTestTitle(code: string): string | null {
+  const match = code.match(/\btest\(\s*(['"`])(.+?)\1/);
+  return match ? match[2] : null;
+}
+
+/**
+ * Replace every call to `callee(...)` with `replace(args)`, matching the closing
+ * parenthesis so arguments like `page.context()` stay intact
+ */
+function replaceCalls(code: string, callee: RegExp, replace: (args: string, match: RegExpExecArray) => string): string {
+  const pattern = new RegExp(`${callee.source}\\(`, 'g');
+  let result = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(code)) !== null) {
+    const argsStart = match.index + match[0].length;
+    let depth = 1;
+    let end = argsStart;
+    while (end < code.length && depth > 0) {
+      if (code[end] === '(') depth++;
+      else if (code[end] === ')') depth--;
+      end++;
+    }
+    if (depth > 0) break;
+
+    result += code.slice(cursor, match.index) + replace(code.slice(argsStart, end - 1), match);
+    cursor = end;
+    pattern.lastIndex = end;
+  }
+
+  return result + code.slice(cursor);
+}
+
+/**
+ * Translate a dappwright spec to Synpress v4: the fixture import becomes a
+ * testWithSynpress test with the wallet setup, and wallet calls (including the race
+ * helpers) become MetaMask calls
+ */
+export function toSynpress(code: string): SynpressTranslation {
+  const warnings: string[] = [];
+  let result = code;
+
+  result = result.replace(
+    /^import\s*\{[^}]*\}\s*from\s*['"](?:\.\.?\/)+fixtures\/wallet\.fixture(?:\.ts)?['"];?[ \t]*$/m,
+    [
+      `import { testWithSynpress } from '@synthetixio/synpress'`,
+      `import { MetaMask, metaMaskFixtures } from '@synthetixio/synpress/playwright'`,
+      `import basicSetup from '../wallet-setup/basic.setup'`,
+      '',
+      'const test = testWithSynpress(metaMaskFixtures(basicSetup))',
+      'const { expect } = test',
+    ].join('\n')
+  );
+
+  // Tests that use the wallet fixture construct a MetaMask instead
+  result = result.replace(
+    /^([ \t]*)(.*?)async\s*\(\s*\{([^}]*\bwallet\b[^}]*)\}\s*\)\s*=>\s*\{[ \t]*$/gm,
+    (_match, indent: string, prefix: string, params: string) => {
+      const rest = params
+        .split(',')
+        .map((p) => p.trim())
+        .filter((p) => p && !['wallet', 'context', 'page'].includes(p));
+      const fixtures = ['context', 'page', 'metamaskPage', 'extensionId', ...rest].join(', ');
+      return `${indent}${prefix}async ({ ${fixtures} }) => {\n` +
+        `${indent}  const metamask = new MetaMask(context, metamaskPage, basicSetup.walletPassword, extensionId)`;
+    }
+  );
+
+  result = replaceCalls(result, /\braceApprove/, (args) => {
+    if (!/skipSiwe\s*:\s*true/.test(args)) {
+      warnings.push('raceApprove also confirmed a sign-in (SIWE) signature; add `await metamask.confirmSignature()` after connectToDapp if the dApp asks for one');
+    }
+    return 'metamask.connectToDapp()';
+  });
+  result = replaceCalls(result, /\braceSign/, () => 'metamask.confirmSignature()');
+  result = replaceCalls(result, /\braceConfirmTransaction/, () => 'metamask.confirmTransaction()');
+
+  result = replaceCalls(result, /\bwallet\.(\w+)/, (args, match) => {
+    const method = match[1];
+    const mapped = SYNPRESS_WALLET_METHODS[method];
+    if (!mapped) {
+      warnings.push(`wallet.${method}() has no Synpress equivalent; it was kept as metamask.${method}()`);
+      return `metamask.${method}(${args})`;
+    }
+    if (method === 'addNetwork') {
+      warnings.push('metamask.addNetwork() takes { name, rpcUrl, chainId, symbol, blockExplorerUrl }; check the options passed');
+      return `metamask.addNetwork(${args})`;
+    }
+    if (method === 'reject') {
+      warnings.push('wallet.reject() became metamask.rejectTransaction(); use rejectSignature() if it rejects a signature');
+    }
+    return `metamask.${mapped}(${SYNPRESS_KEEP_ARGS.has(method) ? args : ''})`;
+  });
+  result = result.replace(/\bwallet\.page\b/g, 'metamaskPage');
+  const codeOnly = result.replace(/\/\/.*$/gm, '').replace(/(['"`])(?:\\.|(?!\1).)*\1/g, '');
+  if (/\bwallet\b/.test(codeOnly)) {
+    warnings.push('The spec still passes `wallet` around; replace it with `metamask`');
+  }
+
+  // Screenshots of the dApp pages are an executor concern
+  result = result.replace(/^[ \t]*(?:const\s+\w+\s*=\s*)?await\s+captureDappScreenshots\(.*\)\s*;?[ \t]*\n/gm, '');
+
+  return { code: result, warnings: [...new Set(warnings)] };
+}
+
+function readProjectFile(projectDir: string, path: string): string {
+  const fullPath = join(projectDir, path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`Cannot export: ${path} not found in ${projectDir} (set DAPPWRIGHT_TEST_DIR)`);
+  }
+  return readFileSync(fullPath, 'utf-8');
+}
+
+function dappwrightFiles(code: string, name: string, projectDir: string): ExportFile[] {
+  const pkg = JSON.parse(readProjectFile(projectDir, 'package.json'));
+  const files: ExportFile[] = [
+    { path: 'package.json', content: `${JSON.stringify({ ...pkg, name }, null, 2)}\n` },
+    { path: 'playwright.config.ts', content: readProjectFile(projectDir, 'playwright.config.ts') },
+    { path: 'tsconfig.json', content: readProjectFile(projectDir, 'tsconfig.json') },
+    { path: 'environment.d.ts', content: readProjectFile(projectDir, 'environment.d.ts') },
+  ];
+  if (code.includes(FIXTURE_IMPORT)) {
+    files.push({ path: 'fixtures/wallet.fixture.ts', content: readProjectFile(projectDir, 'fixtures/wallet.fixture.ts') });
+  }
+  return files;
+}
+
+function synpressFiles(name: string, projectDir: string): ExportFile[] {
+  const pkg = {
+    name,
+    version: '1.0.0',
+    private: true,
+    type: 'module',
+    scripts: {
+      'build:cache': 'synpress',
+      test: 'playwright test',
+      'test:headed': 'HEADLESS=false playwright test',
+    },
+    dependencies: {
+      '@playwright/test': SYNPRESS_PLAYWRIGHT_VERSION,
+      '@synthetixio/synpress': SYNPRESS_VERSION,
+      dotenv: '^16.4.5',
+    },
+    devDependencies: {
+      '@types/node': '^20.11.17',
+      typescript: '^5.3.3',
+    },
+    engines: { node: '>=20' },
+  };
+
+  const config = `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './test/playwright',
+  fullyParallel: false,
+  retries: 0,
+  workers: 1,
+  reporter: 'list',
+  timeout: 180_000,
+  use: {
+    trace: 'on',
+    screenshot: 'on',
+    video: 'on',
+    actionTimeout: 30_000,
+  },
+});
+`;
+
+  const walletSetup = `import 'dotenv/config';
+import { defineWalletSetup } from '@synthetixio/synpress';
+import { MetaMask } from '@synthetixio/synpress/playwright';
+
+const SEED_PHRASE = process.env.SEED_PHRASE || '${DEFAULT_SEED_PHRASE}';
+const PASSWORD = process.env.WALLET_PASSWORD || 'Tester@1234';
+
+export default defineWalletSetup(PASSWORD, async (context, walletPage) => {
+  const metamask = new MetaMask(context, walletPage, PASSWORD);
+  await metamask.importWallet(SEED_PHRASE);
+});
+`;
+
+  return [
+    { path: 'package.json', content: `${JSON.stringify(pkg, null, 2)}\n` },
+    { path: 'playwright.config.ts', content: config },
+    { path: 'tsconfig.json', content: readProjectFile(projectDir, 'tsconfig.json') },
+    { path: 'environment.d.ts', content: readProjectFile(projectDir, 'environment.d.ts') },
+    { path: 'test/wallet-setup/basic.setup.ts', content: walletSetup },
+  ];
+}
+
+function readme(name: string, format: ExportFormat, warnings: string[]): string {
+  const run = format === 'synpress'
+    ? 'npm install\nnpx playwright install chromium\nnpm run build:cache\nnpm test'
+    : 'npm install\nnpx playwright install chromium\nnpm test';
+  let content = `# ${name}
+
+Web3 Playwright spec exported from bugdapp (${format === 'synpress' ? 'Synpress v4' : 'dappwright'}).
+
+## Run
+
+Copy \`.env.example\` to \`.env\` and set the wallet seed phrase, then:
+
+\`\`\`bash
+${run}
+\`\`\`
+`;
+  if (warnings.length > 0) {
+    content += `\n## Review Before Running\n\n${warnings.map((w) => `- ${w}`).join('\n')}\n`;
+  }
+  return content;
+}
+
+/**
+ * Project files for running a generated spec on its own
+ */
+export function buildSpecExport(code: string, options: SpecExportOptions = {}): SpecExport {
+  const format = options.format ?? 'dappwright';
+  const name = slugify(options.name || firstTestTitle(code) || '');
+  const projectDir = options.projectDir ?? resolveDappwrightProjectDir();
+
+  // The spec lands in test/playwright/, like in dappwright-test
+  const spec = code.replace(FIXTURE_IMPORT_PATTERN, `$1${FIXTURE_IMPORT}$1`);
+  const translation = format === 'synpress' ? toSynpress(spec) : { code: spec, warnings: [] };
+
+  const files = [
+    ...(format === 'synpress' ? synpressFiles(name, projectDir) : dappwrightFiles(spec, name, projectDir)),
+    { path: `test/playwright/${name}.spec.ts`, content: translation.code },
+    {
+      path: '.env.example',
+      content: `SEED_PHRASE="${DEFAULT_SEED_PHRASE}"\nHEADLESS=false\n${format === 'synpress' ? 'WALLET_PASSWORD=Tester@1234\n' : ''}`,
+    },
+    { path: '.gitignore', content: 'node_modules/\n.env\ntest-results/\nplaywright-report/\n.cache-synpress/\n' },
+    { path: 'README.md', content: readme(name, format, translation.warnings) },
+  ];
+
+  return { name, format, files, warnings: translation.warnings };
+}
+
+/**
+ * Zip an export, with the files under a folder named after the project
+ */
+export function zipSpecExport(exported: SpecExport): Buffer {
+  const zip = new AdmZip();
+  for (const file of exported.files) {
+    zip.addFile(`${exported.name}/${file.path}`, Buffer.from(file.content, 'utf-8'));
+  }
+  return zip.toBuffer();
+}
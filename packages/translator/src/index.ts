@@ -2,11 +2,26 @@
 
 export * from './types.js';
 export * from './analyzer.js';
+export * from './llm-provider.js';
+export * from './anthropic-provider.js';
+export * from './openai-provider.js';
+export * from './cassette.js';
 export * from './claude-client.js';
 export * from './prompt-builder.js';
 export * from './code-generator.js';
+export * from './template-generator.js';
 export * from './validator.js';
+export * from './spec-linter.js';
+export * from './recording-linter.js';
+export * from './exporter.js';
+export * from './ci-gate.js';
+export * from './parameters.js';
+export * from './segmenter.js';
+export * from './snippets.js';
+export * from './learned-knowledge.js';
 export * from './clarification.js';
+export * from './step-actions.js';
+export * from './webhook-url.js';
 
 import { readFileSync } from 'fs';
 import { RecordingSchema, type Recording, type TranslationResult, type GenerationOptions } from './types.js';
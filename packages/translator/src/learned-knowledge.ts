@@ -0,0 +1,104 @@
+/**
+ * Learned knowledge: fixes that made a project's specs pass — a selector that replaced a
+ * stale one, an overlay that had to be dismissed first, a wallet connection flow that
+ * worked. The executor records them per project and dApp domain; generation feeds the
+ * entries for the recording's dApp back into the system prompt, next to the static
+ * files in knowledge/.
+ */
+
+import { createHash } from 'crypto';
+import type { LearnedKnowledge } from './types.js';
+
+const DEFAULT_LIMIT = 10;
+// Longer code is cut so a few big agent patches can't crowd out the rest of the prompt
+const MAX_CODE_CHARS = 1200;
+
+/**
+ * Hostname a fix belongs to: `https://www.app.example.com/trade` → `app.example.com`
+ */
+export function dappDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0];
+  }
+}
+
+function sameDapp(a: string, b: string): boolean {
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Stable key for an entry, so the same fix seen again counts as another hit instead of
+ * a new entry. A dApp has one connection flow: newer passing flows replace it.
+ */
+export function knowledgeFingerprint(entry: Pick<LearnedKnowledge, 'kind' | 'domain' | 'before' | 'after'>): string {
+  const key = entry.kind === 'connection_flow'
+    ? `${entry.kind}|${entry.domain}`
+    : `${entry.kind}|${entry.domain}|${normalizeCode(entry.before || '')}|${normalizeCode(entry.after)}`;
+  return createHash('sha256').update(key).digest('hex').slice(0, 32);
+}
+
+/**
+ * Entries for the dApp at `url` (including its subdomains): the connection flow first,
+ * then fixes by how many passing runs confirmed them. Ties keep the given order.
+ */
+export function selectLearnedKnowledge(entries: LearnedKnowledge[], url: string, limit = DEFAULT_LIMIT): LearnedKnowledge[] {
+  const domain = dappDomain(url);
+  const relevant = entries.filter((entry) => sameDapp(entry.domain, domain));
+
+  const connection = relevant.find((entry) => entry.kind === 'connection_flow');
+  const fixes = relevant
+    .filter((entry) => entry.kind !== 'connection_flow')
+    .sort((a, b) => (b.hits ?? 1) - (a.hits ?? 1));
+
+  return [...(connection ? [connection] : []), ...fixes].slice(0, limit);
+}
+
+function codeBlock(code: string): string {
+  const trimmed = code.trim();
+  const clipped = trimmed.length > MAX_CODE_CHARS ? `${trimmed.slice(0, MAX_CODE_CHARS)}\n// ...` : trimmed;
+  return `\`\`\`typescript\n${clipped}\n\`\`\``;
+}
+
+function formatFix(entry: LearnedKnowledge): string {
+  const hits = entry.hits ?? 1;
+  const lines = [`### ${entry.summary}${hits > 1 ? ` (verified ${hits}x)` : ''}`];
+  if (entry.before) {
+    lines.push('Failed:', codeBlock(entry.before), 'Passed:');
+  }
+  lines.push(codeBlock(entry.after));
+  return lines.join('\n');
+}
+
+/**
+ * Prompt section with the learned entries for the dApp at `url`; empty when there are none
+ */
+export function formatLearnedKnowledge(entries: LearnedKnowledge[], url: string, limit = DEFAULT_LIMIT): string {
+  const selected = selectLearnedKnowledge(entries, url, limit);
+  if (selected.length === 0) return '';
+
+  const connection = selected.filter((entry) => entry.kind === 'connection_flow');
+  const selectorFixes = selected.filter((entry) => entry.kind === 'selector_fix');
+  const obstacles = selected.filter((entry) => entry.kind === 'obstacle');
+
+  let section = `## Learned From Passing Runs (${dappDomain(url)})
+Earlier specs for this dApp needed these fixes to pass. When the recording touches the same elements or flow, use the code that passed instead of the code that failed.\n`;
+
+  if (connection.length > 0) {
+    section += `\n## Verified Connection Flow\n${connection.map((entry) => codeBlock(entry.after)).join('\n')}\n`;
+  }
+  if (selectorFixes.length > 0) {
+    section += `\n## Verified Selector Fixes\n${selectorFixes.map(formatFix).join('\n\n')}\n`;
+  }
+  if (obstacles.length > 0) {
+    section += `\n## Obstacles To Dismiss
+These overlays blocked the recorded action until they were dismissed:\n${obstacles.map(formatFix).join('\n\n')}\n`;
+  }
+
+  return section;
+}
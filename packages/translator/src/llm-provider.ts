@@ -0,0 +1,222 @@
+/**
+ * Provider-neutral LLM interface used for spec generation and the executor's agent loop.
+ * Messages, images and tool use are expressed in one format; each provider translates
+ * them to its own API. Implementations: Anthropic (SDK) and any OpenAI-compatible
+ * /chat/completions endpoint (vLLM, Ollama, LM Studio, OpenRouter, ...).
+ */
+
+import { AnthropicProvider } from './anthropic-provider.js';
+import { OpenAICompatibleProvider } from './openai-provider.js';
+import { CassetteProvider, CASSETTE_MODES, type CassetteMode, type CassetteOptions } from './cassette.js';
+
+export type LLMProviderName = 'anthropic' | 'openai-compatible';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** Overrides the built-in pricing for the model (self-hosted models default to free) */
+  pricing?: ModelPricing;
+  /** Record/replay LLM calls to disk (see cassette.ts) */
+  cassette?: CassetteOptions;
+}
+
+export interface LLMImage {
+  base64: string;
+  mediaType: 'image/png' | 'image/jpeg';
+}
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: LLMImage }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool input */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+  maxTokens: number;
+  temperature?: number;
+  /** Cache the system prompt across calls where the provider supports it */
+  cacheSystemPrompt?: boolean;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+export interface LLMResponse {
+  content: LLMContentBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | 'other';
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly pricing: ModelPricing;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Error from a provider API call. `retryable` is set for rate limits and overloads.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Built-in pricing for known models (as of 2025)
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5-20251001': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-opus-4-6': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+};
+
+const FREE_PRICING: ModelPricing = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+
+/**
+ * Pricing for a provider config: explicit pricing, then the built-in table.
+ * Unknown Anthropic models are priced like Sonnet; unknown self-hosted models are free.
+ */
+export function getModelPricing(config: Pick<LLMProviderConfig, 'provider' | 'model' | 'pricing'>): ModelPricing {
+  if (config.pricing) return config.pricing;
+  if (MODEL_PRICING[config.model]) return MODEL_PRICING[config.model];
+  return config.provider === 'anthropic' ? MODEL_PRICING['claude-sonnet-4-5-20250929'] : FREE_PRICING;
+}
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Whether a base URL other than the default may be used for a project: it must be
+ * LLM_BASE_URL or one of the comma-separated LLM_ALLOWED_BASE_URLS.
+ */
+export function isAllowedBaseUrl(url: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  const allowed = [env.LLM_BASE_URL || '', ...(env.LLM_ALLOWED_BASE_URLS || '').split(',')]
+    .map(normalizeBaseUrl)
+    .filter(Boolean);
+  return allowed.includes(normalizeBaseUrl(url));
+}
+
+/**
+ * Fill in a provider config from the environment:
+ * LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, LLM_API_KEY (OpenAI-compatible),
+ * ANTHROPIC_API_KEY and LLM_CASSETTE_MODE / LLM_CASSETTE_DIR.
+ * Explicit values (e.g. a project's settings) win over the environment, except that
+ * the env API key is only sent to the env base URL: another base URL gets no key
+ * unless one is passed with it.
+ */
+export function resolveProviderConfig(
+  config: Partial<LLMProviderConfig> = {},
+  defaultModel: string = 'claude-sonnet-4-20250514'
+): LLMProviderConfig {
+  const provider = config.provider || (process.env.LLM_PROVIDER as LLMProviderName | undefined) || 'anthropic';
+
+  if (provider !== 'anthropic' && provider !== 'openai-compatible') {
+    throw new Error(`Unknown LLM provider "${provider}". Use "anthropic" or "openai-compatible".`);
+  }
+
+  const envBaseUrl = process.env.LLM_BASE_URL;
+  // The Anthropic provider has no base URL
+  const usesEnvBaseUrl = provider === 'anthropic' || !config.baseUrl
+    || (!!envBaseUrl && normalizeBaseUrl(config.baseUrl) === normalizeBaseUrl(envBaseUrl));
+  const envApiKey = provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.LLM_API_KEY;
+
+  return {
+    provider,
+    model: config.model || process.env.LLM_MODEL || defaultModel,
+    apiKey: config.apiKey || (usesEnvBaseUrl ? envApiKey : undefined),
+    baseUrl: config.baseUrl || envBaseUrl,
+    pricing: config.pricing,
+    cassette: resolveCassetteOptions(config.cassette),
+  };
+}
+
+function resolveCassetteOptions(cassette?: Partial<CassetteOptions>): CassetteOptions | undefined {
+  const mode = (cassette?.mode || process.env.LLM_CASSETTE_MODE || 'off') as CassetteMode;
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(`Unknown cassette mode "${mode}". Use one of: ${CASSETTE_MODES.join(', ')}.`);
+  }
+  if (mode === 'off') return undefined;
+  return {
+    mode,
+    dir: cassette?.dir || process.env.LLM_CASSETTE_DIR || 'cassettes',
+    ...(cassette?.session && { session: cassette.session }),
+  };
+}
+
+/**
+ * Whether a provider is configured well enough to make calls
+ * (API key for Anthropic, base URL for OpenAI-compatible, nothing for strict cassette replay)
+ */
+export function isProviderConfigured(config: Partial<LLMProviderConfig> = {}): boolean {
+  const resolved = resolveProviderConfig(config);
+  if (resolved.cassette?.mode === 'strict') return true;
+  return resolved.provider === 'anthropic' ? !!resolved.apiKey : !!resolved.baseUrl;
+}
+
+/**
+ * Create a provider from a resolved config, wrapped in a cassette when one is configured
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const create = (): LLMProvider => {
+    switch (config.provider) {
+      case 'anthropic':
+        return new AnthropicProvider(config);
+      case 'openai-compatible':
+        return new OpenAICompatibleProvider(config);
+    }
+  };
+
+  if (config.cassette && config.cassette.mode !== 'off') {
+    return new CassetteProvider(config, config.cassette, create);
+  }
+  return create();
+}
+
+/**
+ * Concatenate the text blocks of a response
+ */
+export function getResponseText(response: LLMResponse): string {
+  return response.content
+    .filter((block): block is Extract<LLMContentBlock, { type: 'text' }> => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
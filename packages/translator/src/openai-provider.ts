@@ -0,0 +1,197 @@
+import type {
+  LLMContentBlock,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMResponse,
+  ModelPricing,
+} from './llm-provider.js';
+import { LLMProviderError, getModelPricing } from './llm-provider.js';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ChatContentPart[] }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: { id: string; function: { name: string; arguments: string } }[];
+    };
+    finish_reason: string | null;
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+const REQUEST_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * LLM provider for OpenAI-compatible /chat/completions APIs (self-hosted models via
+ * vLLM, Ollama, LM Studio, or hosted gateways). Images are sent as data URLs and tools
+ * as functions; the model must support both for vision and agent use.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  readonly pricing: ModelPricing;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: LLMProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error(
+        'Base URL is required for the OpenAI-compatible provider. Set LLM_BASE_URL environment variable or pass baseUrl option.'
+      );
+    }
+
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.pricing = getModelPricing(config);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const messages: ChatMessage[] = [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      ...request.messages.flatMap(toChatMessages),
+    ];
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        messages,
+        ...(request.tools && {
+          tools: request.tools.map((tool) => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+          })),
+        }),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `OpenAI-compatible API error ${response.status}: ${body.slice(0, 500) || response.statusText}`,
+        response.status,
+        response.status === 429 || response.status >= 500
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new LLMProviderError('OpenAI-compatible API returned no choices');
+    }
+
+    const content: LLMContentBlock[] = [];
+    if (choice.message.content) {
+      content.push({ type: 'text', text: choice.message.content });
+    }
+    for (const call of choice.message.tool_calls || []) {
+      content.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) });
+    }
+
+    const cached = data.usage?.prompt_tokens_details?.cached_tokens || 0;
+
+    return {
+      content,
+      stopReason: getStopReason(choice.finish_reason, content),
+      usage: {
+        inputTokens: (data.usage?.prompt_tokens || 0) - cached,
+        outputTokens: data.usage?.completion_tokens || 0,
+        cacheReadTokens: cached,
+        cacheCreationTokens: 0,
+      },
+    };
+  }
+}
+
+/**
+ * Tool results become separate `tool` messages, which must directly follow the
+ * assistant message that made the calls
+ */
+function toChatMessages(message: LLMMessage): ChatMessage[] {
+  if (typeof message.content === 'string') {
+    return [message.role === 'user'
+      ? { role: 'user', content: message.content }
+      : { role: 'assistant', content: message.content }];
+  }
+
+  if (message.role === 'assistant') {
+    const text = message.content
+      .filter((block): block is Extract<LLMContentBlock, { type: 'text' }> => block.type === 'text')
+      .map((block) => block.text)
+      .join('\n');
+    const toolCalls = message.content
+      .filter((block): block is Extract<LLMContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id,
+        type: 'function' as const,
+        function: { name: block.name, arguments: JSON.stringify(block.input) },
+      }));
+    return [{ role: 'assistant', content: text || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) }];
+  }
+
+  const messages: ChatMessage[] = [];
+  const parts: ChatContentPart[] = [];
+
+  for (const block of message.content) {
+    if (block.type === 'tool_result') {
+      messages.push({
+        role: 'tool',
+        tool_call_id: block.toolUseId,
+        content: block.isError ? `Error: ${block.content}` : block.content,
+      });
+    } else if (block.type === 'text') {
+      parts.push({ type: 'text', text: block.text });
+    } else if (block.type === 'image') {
+      parts.push({ type: 'image_url', image_url: { url: `data:${block.image.mediaType};base64,${block.image.base64}` } });
+    }
+  }
+
+  if (parts.length > 0) {
+    messages.push({ role: 'user', content: parts });
+  }
+  return messages;
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getStopReason(finishReason: string | null, content: LLMContentBlock[]): LLMResponse['stopReason'] {
+  // Some servers report "stop" even when the message carries tool calls
+  if (finishReason === 'tool_calls' || content.some((block) => block.type === 'tool_use')) return 'tool_use';
+  if (finishReason === 'stop') return 'end_turn';
+  if (finishReason === 'length') return 'max_tokens';
+  return 'other';
+}
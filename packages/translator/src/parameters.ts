@@ -0,0 +1,127 @@
+/**
+ * Spec parameters: recorded input values pulled out of the test body into a typed
+ * `params` block, so one spec can run against several datasets. The block reads
+ * overrides from the TEST_PARAMS environment variable (a JSON object), which the
+ * executor sets from the dataset row of each run.
+ */
+
+import type { InputStep, Recording, RecordingDataset } from './types.js';
+import { quote } from './step-actions.js';
+
+export const PARAMS_ENV_VAR = 'TEST_PARAMS';
+
+export interface SpecParameter {
+  /** Identifier in the params block */
+  name: string;
+  type: 'string' | 'number';
+  /** The recorded value, used when no dataset overrides it */
+  defaultValue: string;
+  /** Input step the value was recorded in */
+  stepId: string;
+}
+
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+const MAX_NAME_WORDS = 4;
+
+/**
+ * camelCase identifier from a field label, test id or placeholder
+ */
+function toIdentifier(label: string): string {
+  const words = label
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, MAX_NAME_WORDS)
+    .map((word) => word.toLowerCase());
+  const name = words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join('');
+  return /^[a-z]/.test(name) ? name : '';
+}
+
+function parameterName(step: InputStep): string {
+  const candidates = [step.parameter, step.metadata?.dataTestId, step.metadata?.placeholder, step.metadata?.nearbyText];
+  for (const candidate of candidates) {
+    const name = candidate ? toIdentifier(candidate) : '';
+    if (name) return name;
+  }
+  return 'input';
+}
+
+/**
+ * One parameter per recorded input, in step order. Redacted values already come from
+ * their own environment variables and are left out. Names come from the step's
+ * `parameter` field, else the field's test id, placeholder or nearby text; repeats
+ * get a numeric suffix.
+ */
+export function extractSpecParameters(recording: Recording): SpecParameter[] {
+  const params: SpecParameter[] = [];
+  const used = new Map<string, number>();
+
+  for (const step of recording.steps) {
+    if (step.type !== 'input' || step.redaction || step.value === '') continue;
+
+    const base = parameterName(step);
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+
+    params.push({
+      name: count === 1 ? base : `${base}${count}`,
+      type: NUMBER_REGEX.test(step.value) ? 'number' : 'string',
+      defaultValue: step.value,
+      stepId: step.id,
+    });
+  }
+
+  return params;
+}
+
+/**
+ * The module-level params block, placed between the imports and the test
+ */
+export function buildParameterBlock(params: SpecParameter[]): string[] {
+  if (params.length === 0) return [];
+  return [
+    `// Recorded input values. Each dataset row overrides them through ${PARAMS_ENV_VAR} (JSON).`,
+    `interface SpecParams {`,
+    ...params.map((p) => `  ${p.name}: ${p.type}`),
+    `}`,
+    ``,
+    `const params: SpecParams = {`,
+    ...params.map((p) => `  ${p.name}: ${p.type === 'number' ? p.defaultValue : quote(p.defaultValue)},`),
+    `  ...JSON.parse(process.env.${PARAMS_ENV_VAR} || '{}'),`,
+    `}`,
+  ];
+}
+
+/**
+ * Expression to pass to .fill() for a parameter
+ */
+export function buildParameterExpression(param: SpecParameter): string {
+  return param.type === 'number' ? `String(params.${param.name})` : `params.${param.name}`;
+}
+
+/**
+ * Problems with a recording's datasets: unnamed or duplicate rows and values for
+ * parameters the recording doesn't have
+ */
+export function validateDatasets(datasets: RecordingDataset[], params: SpecParameter[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+  const known = new Set(params.map((p) => p.name));
+
+  for (const dataset of datasets) {
+    if (!dataset.name.trim()) {
+      errors.push('Dataset without a name');
+    } else if (names.has(dataset.name)) {
+      errors.push(`Duplicate dataset "${dataset.name}"`);
+    }
+    names.add(dataset.name);
+
+    for (const key of Object.keys(dataset.values)) {
+      if (!known.has(key)) {
+        errors.push(`Dataset "${dataset.name}" sets unknown parameter "${key}" (parameters: ${[...known].join(', ') || 'none'})`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -1,7 +1,23 @@
-import type { AnalysisResult, Recording, GenerationOptions, NetworkConfig, FailureContext, SuccessState } from './types.js';
+import type { AnalysisResult, Recording, AssertStep, GenerationOptions, NetworkConfig, FailureContext, SuccessState } from './types.js';
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  isInteractionStep,
+  buildInteractionAction,
+  buildAssertionAction,
+  hasElementContext,
+  buildScopeExpression,
+  rankSelectorCandidates,
+  selectResponseWaits,
+  buildResponseWait,
+  buildValueExpression,
+  REDACTED_VALUE,
+  type ElementContext,
+} from './step-actions.js';
+import { extractSpecParameters, buildParameterBlock, buildParameterExpression } from './parameters.js';
+import { findSnippetMatches, buildSnippetBlock } from './snippets.js';
+import { formatLearnedKnowledge } from './learned-knowledge.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -260,6 +276,22 @@ Do NOT click any "Switch Network" / "Wrong network" / "Switch to Base" buttons f
 Do NOT call \`wallet.approve()\` or \`wallet.confirmNetworkSwitch()\` for network changes.
 Instead, SKIP the network switch click step and use \`wallet.switchNetwork()\` directly.
 
+### Wallet-Side Events:
+Web3 steps with a \`web3Event\` field were emitted by the wallet itself, not requested by the dApp:
+- \`chainChanged\` (before/after are hex chain IDs): the user switched network in the wallet — call
+  \`wallet.switchNetwork()\` at that point in the flow, using the network for the "after" chain ID.
+- \`accountsChanged\`: the user switched or removed accounts in the wallet. There is only one test
+  account, so just wait for the dApp to update rather than trying to reproduce the switch.
+- \`disconnect\`: the wallet disconnected from the dApp. Expect the dApp to show its connect state again.
+Do NOT click dApp buttons to reproduce these events.
+
+### Decoded Transactions and Signatures:
+Web3 steps with a \`web3Decoded\` field carry the recorder's decoding of the transaction calldata or
+EIP-712 payload: \`protocol\`, \`functionName\`, decoded \`args\`, and \`tokens\` (address or 'native',
+base-unit amount, direction). Use them to understand what the user actually did (which tokens were
+swapped, what was approved and for whom) and to pick the amounts typed into the UI. Do NOT send these
+transactions directly — reproduce them through the dApp UI and approve them in the wallet as usual.
+
 ### Form Input Handling (DETERMINISTIC)
 For number inputs, text fields, and other form elements, follow this exact pattern:
 
@@ -401,6 +433,20 @@ If the recorded CSS selector is ONLY a dynamic ID path (e.g., \`div#radix-\\:r4h
 - NEVER use bare \`:has-text("X")\` for .click() — it matches \<html\>/\<body\> and .first() gives the wrong element
 - When tag is unknown, use \`page.getByText('X', { exact: false }).first()\` for clicking (targets the tightest element)
 
+### Iframes and Shadow DOM (framePath / shadowPath)
+Steps recorded inside an iframe carry \`framePath\`; steps inside web components (Web3Modal \`w3m-*\`, Privy, on-ramp widgets) carry \`shadowPath\`. Both list selectors outermost first.
+- Start every locator in the .or() chain from the SAME scope: \`page.frameLocator(framePath[0]).frameLocator(framePath[1])...\` then \`.locator(shadowPath[0]).locator(shadowPath[1])...\`
+- Playwright CSS and getBy* locators pierce open shadow roots — chain the hosts with \`.locator()\`, never use \`>>>\` or \`evaluate()\` to reach inside
+- Do NOT use \`page.locator(...)\` for a step that has a framePath — \`page\` cannot see inside the iframe
+\`\`\`typescript
+// Example: framePath=["iframe[src^=\"https://widget.example\"]"], shadowPath=["w3m-modal"], dataTestId="wallet-selector-metamask"
+const scope = page.frameLocator('iframe[src^="https://widget.example"]').locator('w3m-modal')
+await scope.getByTestId('wallet-selector-metamask')
+  .or(scope.locator('wui-list-wallet[name="MetaMask"]'))
+  .first()
+  .click()
+\`\`\`
+
 ### Verifying Click Effects (Prevent False Positives)
 **.or().first() chains can match the WRONG element silently.** After important clicks that should open a menu/modal/dropdown, verify the expected result appeared by checking that the **NEXT step's target element** is visible:
 \`\`\`typescript
@@ -498,7 +544,15 @@ Rules:
   await page.getByTestId('leverage-input').first().click()
   await page.getByTestId('leverage-input').first().fill('100')
   \`\`\`
-  **NEVER use const/let to store locators if they will be referenced in another STEP.** Either inline the locator or define it fresh within the same step.`;
+  **NEVER use const/let to store locators if they will be referenced in another STEP.** Either inline the locator or define it fresh within the same step.${this.buildLearnedKnowledgeSection()}`;
+  }
+
+  /**
+   * Build the section with fixes learned from the project's passing runs on this dApp
+   */
+  private buildLearnedKnowledgeSection(): string {
+    const section = formatLearnedKnowledge(this._options.learnedKnowledge || [], this.analysis.recording.startUrl);
+    return section ? `\n\n${section.trimEnd()}` : '';
   }
 
   /**
@@ -554,7 +608,8 @@ Rules:
     // Add detected patterns
     context += `\n## Detected Flow Patterns\n`;
     for (const pattern of patterns) {
-      context += `- ${pattern.type} (steps ${pattern.startIndex}-${pattern.endIndex}, confidence: ${(pattern.confidence * 100).toFixed(0)}%)\n`;
+      const decodedCall = pattern.metadata?.functionName ? ` — ${pattern.metadata.protocol} ${pattern.metadata.functionName}` : '';
+      context += `- ${pattern.type} (steps ${pattern.startIndex}-${pattern.endIndex}, confidence: ${(pattern.confidence * 100).toFixed(0)}%)${decodedCall}\n`;
     }
 
     // Add relevant example if available
@@ -653,6 +708,10 @@ Do NOT write manual popup detection code — \`raceApprove\` handles it all.\n`;
         if ('screenshot' in cleaned) {
           delete (cleaned as Record<string, unknown>).screenshot;
         }
+        // Present the selector bundle in replay order for the configured strategy
+        if ('selectorCandidates' in cleaned && cleaned.selectorCandidates) {
+          cleaned.selectorCandidates = rankSelectorCandidates(cleaned.selectorCandidates, this._options.selectorStrategy);
+        }
         // Remove large base64 icons to save tokens
         if (cleaned.type === 'web3' && cleaned.web3ProviderInfo?.icon) {
           cleaned.web3ProviderInfo = {
@@ -756,13 +815,34 @@ await expect(page.locator('text=Sidharth')).toBeVisible({ timeout: 10000 })
     // Build success state section if available
     const successStateSection = this.buildSuccessStateSection();
 
+    // Pre-translated code for scroll/hover/keypress/drag steps
+    const interactionSection = this.buildInteractionSection(filteredSteps);
+
+    // Scopes for steps recorded inside iframes or shadow roots
+    const elementContextSection = this.buildElementContextSection(filteredSteps);
+
+    // expect() code for assertions the user added while reviewing the recording
+    const assertionSection = this.buildAssertionSection(filteredSteps);
+
+    // waitForResponse code for API calls the recorded steps triggered
+    const networkSection = this.buildNetworkSection(filteredSteps, recording.networkRequests || []);
+
+    // Environment variables standing in for values the recorder masked
+    const redactionSection = this.buildRedactionSection(filteredSteps);
+
+    // params block for recorded input values (data-driven runs)
+    const parameterSection = this.buildParameterSection(recording);
+
+    // Project snippets that stand in for runs of recorded steps
+    const snippetSection = this.buildSnippetSection(recording);
+
     return `${context}
 ${exampleSection}
 ## Recording Steps (JSON)
 \`\`\`json
 ${stepsJson}
 \`\`\`
-${successStateSection}
+${successStateSection}${interactionSection}${elementContextSection}${assertionSection}${networkSection}${redactionSection}${parameterSection}${snippetSection}
 ## Generation Requirements
 - Target wallet: MetaMask
 - Use dappwright built-in methods: raceApprove(), raceSign(), raceConfirmTransaction()
@@ -770,8 +850,10 @@ ${successStateSection}
 - Generate robust selectors with fallbacks using .or() chains with .first()
 - Prefer: data-testid > getByRole > button:has-text() > original recorded CSS selector
 - **CRITICAL: Each step has a \`selector\` field — ALWAYS include it as the LAST .or() fallback**
+- If a step has \`selectorCandidates\`, they are already ranked (unique first, then the project's selector strategy, then stability). Build the .or() chain from the first 3-4 IN THAT ORDER: \`testid\` → \`page.getByTestId\`/\`page.locator(selector)\`, \`role\` → \`page.getByRole(role, { name })\`, \`text\` → \`page.getByText(name, { exact: true })\`, \`css\`/\`xpath\`/\`anchor\` → \`page.locator(selector)\`. These replace the metadata-based priority above for that step
 - Do NOT use page.getByText() for CLICKING — use page.locator(':has-text(...)') or page.getByRole('button') instead. However, page.getByText() IS correct for verification assertions (expect().toBeVisible())
 - **CRITICAL: Do NOT invent verification steps beyond what the recording captured** — if the recording ends at a button click, end the test there
+- If a step has a \`comment\`, it is the recorder's note of intent — use it to name the STEP and follow it when choosing selectors, waits and assertions
 - Add appropriate waits after wallet interactions
 - Handle conditional UI states (modals that may or may not appear)
 - Use expect() assertions to verify wallet connection and signing succeeded
@@ -782,6 +864,143 @@ ${goalVerification}
 Generate a complete, working Playwright/dappwright test spec for this recording.`;
   }
 
+  /**
+   * Build the section mapping recorded scroll/hover/keypress/drag steps to Playwright code
+   */
+  private buildInteractionSection(steps: Recording['steps']): string {
+    const interactions = steps.filter(isInteractionStep);
+    if (interactions.length === 0) return '';
+
+    let section = `\n## Interaction Steps (DETERMINISTIC)
+The recording contains scroll, hover, keypress or drag steps. Emit each one as its own STEP using the code below.
+- hover steps open menus/tooltips — the NEXT click depends on the hover, do NOT drop it
+- keypress steps with a selector press the key on that element; without a selector they are page-level shortcuts
+- drag steps on sliders replay relative to the slider's bounding box; keep the aria-valuenow assertion when present
+- scroll steps can be skipped ONLY if the next step's locator auto-scrolls (Playwright scrolls into view on click); keep them for lazy-loaded/infinite lists\n\n`;
+
+    for (const step of interactions) {
+      section += `Step ${step.id} (${step.type}):\n\`\`\`typescript\n${buildInteractionAction(step, this._options.selectorStrategy).join('\n')}\n\`\`\`\n`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Build the section mapping user-added assert steps to expect() code
+   */
+  private buildAssertionSection(steps: Recording['steps']): string {
+    const assertions = steps.filter((s): s is AssertStep => s.type === 'assert');
+    if (assertions.length === 0) return '';
+
+    let section = `\n## Assertion Steps (REQUIRED)
+The user picked these checks on the page or added them while reviewing the recording. Emit each one as its own STEP at its position in the recording, using the code below. They are the test's verification — do NOT weaken, loosen or drop them. When a Success State is also present, these checks take precedence over assertions guessed from it:\n\n`;
+
+    for (const step of assertions) {
+      const lines = buildAssertionAction(step, this._options.selectorStrategy);
+      if (lines.length === 0) continue;
+      section += `Step ${step.id} (assert):\n\`\`\`typescript\n${lines.join('\n')}\n\`\`\`\n`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Build the section mapping API calls triggered by recorded steps to waitForResponse code
+   */
+  private buildNetworkSection(steps: Recording['steps'], requests: NonNullable<Recording['networkRequests']>): string {
+    if (requests.length === 0) return '';
+
+    let body = '';
+    steps.forEach((step, index) => {
+      const waits = selectResponseWaits(requests, step.id)
+        .map((entry, n) => ({ entry, code: buildResponseWait(entry, `step${index + 1}Response${n > 0 ? n + 1 : ''}`) }))
+        .filter((w) => w.code !== null);
+      if (waits.length === 0) return;
+
+      body += `Step ${step.id} (${step.type}) called:\n`;
+      for (const { entry } of waits) {
+        body += `- ${entry.method} ${entry.url} → ${entry.status}${entry.durationMs !== undefined ? ` (${entry.durationMs}ms)` : ''}\n`;
+      }
+      body += `\`\`\`typescript\n${waits.map((w) => w.code!.before).join('\n')}\n// ...the step's action...\n${waits.map((w) => w.code!.after).join('\n')}\n\`\`\`\n`;
+    });
+    if (!body) return '';
+
+    return `\n## Network Synchronisation
+These steps triggered the dApp's own API calls during recording. Start waiting for the response BEFORE the step's action and await it after, instead of a fixed waitForTimeout. Only wrap the listed steps; if a call is clearly incidental to the flow (prefetch, feature flags), leave it out:\n\n${body}`;
+  }
+
+  /**
+   * Build the section mapping redacted input/assert values to environment variables
+   */
+  private buildRedactionSection(steps: Recording['steps']): string {
+    let body = '';
+    for (const step of steps) {
+      if ((step.type !== 'input' && step.type !== 'assert') || !step.redaction) continue;
+      body += `- Step ${step.id} (${step.type}, ${step.redaction.reason}): \`${buildValueExpression(REDACTED_VALUE, step.redaction)}\`\n`;
+    }
+    if (!body) return '';
+
+    return `\n## Redacted Values (REQUIRED)
+The recorder masked these values before upload; they appear as "${REDACTED_VALUE}" in the steps. Use the expression shown wherever the step needs its value (e.g. \`.fill(process.env.PASSWORD ?? '')\`). NEVER write "${REDACTED_VALUE}" or a guessed value into the test:\n${body}`;
+  }
+
+  /**
+   * Build the section with the params block and the expression each input step fills with
+   */
+  private buildParameterSection(recording: Recording): string {
+    if (this._options.parameterizeInputs === false) return '';
+    const params = extractSpecParameters(recording);
+    if (params.length === 0) return '';
+
+    const body = params.map((p) => `- Step ${p.stepId}: \`${buildParameterExpression(p)}\``).join('\n');
+    return `\n## Spec Parameters (REQUIRED)
+The spec runs once per dataset, so recorded input values must not be written as literals. Put this block between the imports and the test, unchanged, and fill each listed step with its expression (e.g. \`.fill(${buildParameterExpression(params[0])})\`). Use the same expression wherever the step's value is checked later:
+\`\`\`typescript
+${buildParameterBlock(params).join('\n')}
+\`\`\`
+${body}\n`;
+  }
+
+  /**
+   * Build the section listing project snippets to paste in place of generated steps
+   */
+  private buildSnippetSection(recording: Recording): string {
+    const matches = findSnippetMatches(recording, this._options.snippets || []);
+    if (matches.length === 0) return '';
+
+    let section = `\n## Shared Snippets (REQUIRED)
+These step runs are covered by verified project snippets. Do NOT generate code for them: paste the snippet as ONE STEP, verbatim, including the \`// @snippet\` and \`// @end-snippet\` marker lines:\n`;
+
+    for (const match of matches) {
+      const first = recording.steps[match.startIndex];
+      const last = recording.steps[match.endIndex];
+      section += `- Steps ${first.id} to ${last.id}:
+\`\`\`typescript
+${buildSnippetBlock(match.snippet).join('\n')}
+\`\`\`
+`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Build the section listing the frameLocator/shadow-host scope for steps that need one
+   */
+  private buildElementContextSection(steps: Recording['steps']): string {
+    const scoped = steps.filter(hasElementContext);
+    if (scoped.length === 0) return '';
+
+    let section = `\n## Frame / Shadow DOM Scopes (REQUIRED)
+These steps were recorded inside an iframe or shadow root. Build EVERY locator for the step from the scope shown:\n`;
+
+    for (const step of scoped) {
+      section += `- Step ${step.id} (${step.type}): \`${buildScopeExpression(step as ElementContext)}\`\n`;
+    }
+
+    return section;
+  }
+
   /**
    * Build the success state section for the prompt when successState is available
    */
@@ -941,10 +1160,11 @@ Navigation or network error occurred.
 
     // Include original recording steps so Claude can see the exact selectors that worked
     const recordingSteps = this.analysis.recording.steps
-      .filter((s) => s.type === 'click' || s.type === 'input')
+      .filter((s) => s.type === 'click' || s.type === 'input' || s.type === 'hover' || s.type === 'drag')
       .map((s, i) => {
         const meta = (s as unknown as { metadata?: { text?: string } }).metadata;
-        return `  Step ${i + 1}: type=${s.type}, selector="${(s as unknown as { selector?: string }).selector || ''}", text="${meta?.text || ''}"`;
+        const scope = hasElementContext(s) ? `, scope=${buildScopeExpression(s as ElementContext)}` : '';
+        return `  Step ${i + 1}: type=${s.type}, selector="${(s as unknown as { selector?: string }).selector || ''}", text="${meta?.text || ''}"${scope}`;
       })
       .join('\n');
 
@@ -995,26 +1215,12 @@ If the error is about wallet not being connected, that means the connection test
 ## Requirements
 - Fix the specific issue identified above
 - Keep the same test structure and goals
+- Keep \`// @snippet\` / \`// @end-snippet\` marker lines and the version on the marker; change code inside a snippet block only if the failure is in it
 - Use the same import: \`import { test, expect } from '../../fixtures/wallet.fixture'\`
 - ALWAYS include the original recorded CSS selector as the LAST .or() fallback for each click step
 - Do NOT use page.getByText() — use page.locator('button:has-text(...)') or page.getByRole('button') instead
 - Return ONLY the complete fixed TypeScript spec, no explanation text`;
   }
-
-  /**
-   * Build a focused prompt for a specific section of the recording
-   */
-  buildSectionPrompt(startIndex: number, endIndex: number): string {
-    const sectionSteps = this.analysis.recording.steps.slice(startIndex, endIndex + 1);
-
-    return `Generate Playwright code for these steps (${startIndex}-${endIndex}):
-
-\`\`\`json
-${JSON.stringify(sectionSteps, null, 2)}
-\`\`\`
-
-Return only the code for these steps, not a complete test file.`;
-  }
 }
 
 /**
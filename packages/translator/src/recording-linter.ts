@@ -0,0 +1,307 @@
+/**
+ * Quality rules for recordings, run before translation so problems surface as a score
+ * and concrete fixes instead of clarifications or failed runs later. Needs no model call:
+ * generic selectors, double clicks, inputs captured keystroke by keystroke because the
+ * field never lost focus, failed or unconfirmed wallet requests, no success state, and
+ * screenshots too large to ship to the model. Fixes are step edits that
+ * applyRecordingFixes can apply.
+ */
+
+import type { Recording, RecordingStep } from './types.js';
+import { ClarificationDetector } from './clarification.js';
+
+export type RecordingRuleId =
+  | 'generic-selector'
+  | 'duplicate-click'
+  | 'input-without-blur'
+  | 'web3-error'
+  | 'pending-transaction'
+  | 'missing-success-state'
+  | 'oversized-screenshot';
+
+export const RECORDING_RULES: RecordingRuleId[] = [
+  'generic-selector',
+  'duplicate-click',
+  'input-without-blur',
+  'web3-error',
+  'pending-transaction',
+  'missing-success-state',
+  'oversized-screenshot',
+];
+
+export type RecordingFix =
+  | { type: 'remove-steps'; stepIds: string[]; description: string }
+  | { type: 'set-selector'; stepId: string; selector: string; description: string }
+  | { type: 'strip-screenshot'; stepId: string; description: string };
+
+export interface RecordingFinding {
+  /** Stable for the same recording: `<rule>:<step id>` */
+  id: string;
+  rule: RecordingRuleId;
+  severity: 'error' | 'warning' | 'info';
+  /** Index of the step in recording.steps (absent for recording-level findings) */
+  stepIndex?: number;
+  message: string;
+  fix?: RecordingFix;
+}
+
+export interface RecordingLintReport {
+  /** 0-100: 100 minus a penalty per finding by severity */
+  score: number;
+  findings: RecordingFinding[];
+}
+
+export interface RecordingLintOptions {
+  /** Clicks on the same selector within this many ms are duplicates. Default: 1000 */
+  duplicateClickMs?: number;
+  /** Screenshots larger than this (decoded KB) are flagged. Default: 300 */
+  maxScreenshotKb?: number;
+  /** Rules to run. Default: all */
+  rules?: RecordingRuleId[];
+}
+
+const DEFAULT_DUPLICATE_CLICK_MS = 1000;
+const DEFAULT_MAX_SCREENSHOT_KB = 300;
+
+const SEVERITY_PENALTY: Record<RecordingFinding['severity'], number> = {
+  error: 20,
+  warning: 8,
+  info: 2,
+};
+
+const USER_REJECTED_CODE = 4001;
+const TRANSACTION_METHODS = ['eth_sendTransaction', 'eth_sendRawTransaction'];
+
+function stepLabel(step: RecordingStep, index: number): string {
+  const text = 'metadata' in step ? (step.metadata as { text?: string } | undefined)?.text : undefined;
+  return `Step ${index + 1}${text ? ` ("${text.trim().slice(0, 40)}")` : ''}`;
+}
+
+function screenshotKb(base64: string): number {
+  const raw = base64.replace(/^data:image\/\w+;base64,/, '');
+  return Math.round((raw.length * 3) / 4 / 1024);
+}
+
+function checkGenericSelectors(steps: RecordingStep[]): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  steps.forEach((step, index) => {
+    if (step.type !== 'click' && step.type !== 'input' && step.type !== 'hover' && step.type !== 'drag') return;
+    if (step.metadata?.dataTestId || !ClarificationDetector.isGenericSelector(step.selector)) return;
+
+    // A unique testid or CSS candidate from the recorder can stand in for the selector
+    const better = step.selectorCandidates?.find(
+      (c) => (c.strategy === 'testid' || c.strategy === 'css') && c.matchCount === 1 && c.selector && c.selector !== step.selector
+    );
+    findings.push({
+      id: `generic-selector:${step.id}`,
+      rule: 'generic-selector',
+      severity: 'warning',
+      stepIndex: index,
+      message: `${stepLabel(step, index)} uses the generic selector "${step.selector}", which may match other elements`,
+      ...(better && {
+        fix: {
+          type: 'set-selector' as const,
+          stepId: step.id,
+          selector: better.selector,
+          description: `Use the recorded ${better.strategy} selector "${better.selector}"`,
+        },
+      }),
+    });
+  });
+  return findings;
+}
+
+function checkDuplicateClicks(steps: RecordingStep[], windowMs: number): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  for (let i = 1; i < steps.length; i++) {
+    const step = steps[i];
+    const previous = steps[i - 1];
+    if (step.type !== 'click' || previous.type !== 'click') continue;
+    if (step.selector !== previous.selector || step.timestamp - previous.timestamp > windowMs) continue;
+
+    findings.push({
+      id: `duplicate-click:${step.id}`,
+      rule: 'duplicate-click',
+      severity: 'warning',
+      stepIndex: i,
+      message: `${stepLabel(step, i)} repeats the previous click ${step.timestamp - previous.timestamp}ms later; replaying both may toggle the element back`,
+      fix: { type: 'remove-steps', stepIds: [step.id], description: 'Remove the repeated click' },
+    });
+  }
+  return findings;
+}
+
+/**
+ * Consecutive input steps on one field: the recorder only merges keystrokes when the
+ * field loses focus, so each run keeps just its final value
+ */
+function checkInputsWithoutBlur(steps: RecordingStep[]): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  let i = 0;
+  while (i < steps.length) {
+    const step = steps[i];
+    if (step.type !== 'input') {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end + 1 < steps.length) {
+      const next = steps[end + 1];
+      if (next.type !== 'input' || next.selector !== step.selector) break;
+      end++;
+    }
+    if (end > i) {
+      const last = steps[end];
+      findings.push({
+        id: `input-without-blur:${step.id}`,
+        rule: 'input-without-blur',
+        severity: 'warning',
+        stepIndex: i,
+        message: `Steps ${i + 1}-${end + 1} type into "${step.selector}" ${end - i + 1} times without leaving the field`,
+        fix: {
+          type: 'remove-steps',
+          stepIds: steps.slice(i, end).map((s) => s.id),
+          description: `Keep only the final value "${last.type === 'input' ? last.value : ''}"`,
+        },
+      });
+    }
+    i = end + 1;
+  }
+  return findings;
+}
+
+function checkWeb3Requests(steps: RecordingStep[]): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  steps.forEach((step, index) => {
+    if (step.type !== 'web3' || step.web3Event) return;
+
+    if (step.web3Error) {
+      const rejected = step.web3Error.code === USER_REJECTED_CODE;
+      findings.push({
+        id: `web3-error:${step.id}`,
+        rule: 'web3-error',
+        severity: 'error',
+        stepIndex: index,
+        message: rejected
+          ? `${stepLabel(step, index)}: ${step.web3Method} was rejected in the wallet; the spec would reject it too`
+          : `${stepLabel(step, index)}: ${step.web3Method} failed (${step.web3Error.message})`,
+        fix: { type: 'remove-steps', stepIds: [step.id], description: `Remove the failed ${step.web3Method} request` },
+      });
+      return;
+    }
+
+    if (TRANSACTION_METHODS.includes(step.web3Method) && step.web3Result === undefined) {
+      findings.push({
+        id: `pending-transaction:${step.id}`,
+        rule: 'pending-transaction',
+        severity: 'warning',
+        stepIndex: index,
+        message: `${stepLabel(step, index)}: the transaction had no hash when recording stopped; wait for it to be submitted before stopping`,
+      });
+    }
+  });
+  return findings;
+}
+
+function checkSuccessState(recording: Recording): RecordingFinding[] {
+  const state = recording.successState;
+  const hasAssertions = recording.steps.some((step) => step.type === 'assert');
+  if (state?.markedSnapshot || state?.semanticGoal || hasAssertions) return [];
+
+  return [{
+    id: 'missing-success-state:recording',
+    rule: 'missing-success-state',
+    severity: 'warning',
+    message: 'No success state or assertions: the spec can only check that the steps ran, not that the flow worked. Mark the success state or add an assertion.',
+  }];
+}
+
+function checkScreenshots(steps: RecordingStep[], maxKb: number): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  steps.forEach((step, index) => {
+    const screenshot = 'screenshot' in step ? step.screenshot : undefined;
+    if (!screenshot) return;
+    const kb = screenshotKb(screenshot);
+    if (kb <= maxKb) return;
+
+    findings.push({
+      id: `oversized-screenshot:${step.id}`,
+      rule: 'oversized-screenshot',
+      severity: 'info',
+      stepIndex: index,
+      message: `${stepLabel(step, index)} has a ${kb}KB screenshot (limit ${maxKb}KB)`,
+      fix: { type: 'strip-screenshot', stepId: step.id, description: 'Drop the screenshot' },
+    });
+  });
+  return findings;
+}
+
+/**
+ * Score a recording before translation
+ */
+export function lintRecording(recording: Recording, options: RecordingLintOptions = {}): RecordingLintReport {
+  const rules = new Set(options.rules ?? RECORDING_RULES);
+  const { steps } = recording;
+
+  const findings = [
+    ...(rules.has('generic-selector') ? checkGenericSelectors(steps) : []),
+    ...(rules.has('duplicate-click') ? checkDuplicateClicks(steps, options.duplicateClickMs ?? DEFAULT_DUPLICATE_CLICK_MS) : []),
+    ...(rules.has('input-without-blur') ? checkInputsWithoutBlur(steps) : []),
+    ...checkWeb3Requests(steps).filter((f) => rules.has(f.rule)),
+    ...(rules.has('missing-success-state') ? checkSuccessState(recording) : []),
+    ...(rules.has('oversized-screenshot') ? checkScreenshots(steps, options.maxScreenshotKb ?? DEFAULT_MAX_SCREENSHOT_KB) : []),
+  ].sort((a, b) => (a.stepIndex ?? Infinity) - (b.stepIndex ?? Infinity));
+
+  const penalty = findings.reduce((sum, f) => sum + SEVERITY_PENALTY[f.severity], 0);
+  return { score: Math.max(0, 100 - penalty), findings };
+}
+
+/**
+ * Apply the fixes of the given findings. Network requests of removed steps are dropped
+ * with them. Findings without a fix are ignored.
+ */
+export function applyRecordingFixes(
+  recording: Recording,
+  findings: RecordingFinding[]
+): { recording: Recording; applied: RecordingFinding[] } {
+  const applied = findings.filter((f) => f.fix);
+  const removed = new Set<string>();
+  const selectors = new Map<string, string>();
+  const stripped = new Set<string>();
+
+  for (const fix of applied.map((f) => f.fix!)) {
+    switch (fix.type) {
+      case 'remove-steps':
+        fix.stepIds.forEach((id) => removed.add(id));
+        break;
+      case 'set-selector':
+        selectors.set(fix.stepId, fix.selector);
+        break;
+      case 'strip-screenshot':
+        stripped.add(fix.stepId);
+        break;
+    }
+  }
+
+  const steps = recording.steps
+    .filter((step) => !removed.has(step.id))
+    .map((step) => {
+      let next = step;
+      const selector = selectors.get(step.id);
+      if (selector && 'selector' in next) next = { ...next, selector } as RecordingStep;
+      if (stripped.has(step.id) && 'screenshot' in next) {
+        const { screenshot: _screenshot, ...rest } = next;
+        next = rest as RecordingStep;
+      }
+      return next;
+    });
+
+  return {
+    recording: {
+      ...recording,
+      steps,
+      networkRequests: recording.networkRequests?.filter((r) => !r.stepId || !removed.has(r.stepId)),
+    },
+    applied,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Recording segmentation: splits a long recording into logical sub-tests ("connect",
+ * "approve", "deposit", ...) that can be generated and run on their own, so one broken
+ * step doesn't fail the whole flow. Boundaries come from the analyzer's flow patterns
+ * (each wallet/on-chain action closes a segment) and from navigations to a new page.
+ * Each segment declares what it needs from the ones before it.
+ */
+
+import type { AnalysisResult, FlowPattern, FlowPatternType, Recording } from './types.js';
+import { analyzeRecording } from './analyzer.js';
+import { extractSpecParameters } from './parameters.js';
+
+export type SegmentPrecondition =
+  | { type: 'wallet_connected' }
+  | { type: 'network'; chainId: number }
+  | { type: 'segment'; segmentId: string; reason: string };
+
+export interface RecordingSegment {
+  /** Slug, unique within the recording (e.g. 'connect', 'deposit-2') */
+  id: string;
+  name: string;
+  /** Step range in the original recording (inclusive) */
+  startIndex: number;
+  endIndex: number;
+  /** Flow patterns that end inside the segment */
+  patterns: FlowPatternType[];
+  preconditions: SegmentPrecondition[];
+  /** Page the segment starts on */
+  startUrl: string;
+}
+
+export interface SegmentOptions {
+  /** Segments without a wallet action and fewer steps than this are folded into a neighbour (default: 3) */
+  minSteps?: number;
+}
+
+// Patterns that close a segment, and the segment name they give it
+const SEGMENT_NAMES: Partial<Record<FlowPatternType, string>> = {
+  wallet_connect: 'connect',
+  network_switch: 'switch-network',
+  wallet_sign: 'sign',
+  wallet_approve: 'approve',
+  token_swap: 'swap',
+  token_transfer: 'transfer',
+  nft_mint: 'mint',
+  nft_transfer: 'nft-transfer',
+  defi_deposit: 'deposit',
+  defi_withdraw: 'withdraw',
+  trade_open: 'open-trade',
+  trade_close: 'close-trade',
+};
+
+// Patterns that leave state behind (allowances, positions, balances) for later segments
+const STATEFUL_PATTERNS: FlowPatternType[] = [
+  'wallet_approve',
+  'token_swap',
+  'token_transfer',
+  'nft_mint',
+  'nft_transfer',
+  'defi_deposit',
+  'defi_withdraw',
+  'trade_open',
+  'trade_close',
+];
+
+const DEFAULT_MIN_STEPS = 3;
+
+interface SegmentRange {
+  startIndex: number;
+  endIndex: number;
+  patterns: FlowPattern[];
+}
+
+function pathOf(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/$/, '')}`;
+  } catch {
+    return url;
+  }
+}
+
+function pageSlug(url: string): string {
+  const path = pathOf(url).replace(/^[a-z]+:\/\/[^/]+/, '');
+  const last = path.split('/').filter(Boolean).pop() || 'home';
+  return last.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'page';
+}
+
+/**
+ * Indexes after which a new segment starts: the end of each wallet/on-chain pattern,
+ * and the step before a navigation to a different page
+ */
+function findBoundaries(analysis: AnalysisResult): Set<number> {
+  const steps = analysis.recording.steps;
+  const boundaries = new Set<number>();
+
+  for (const pattern of analysis.patterns) {
+    if (SEGMENT_NAMES[pattern.type]) boundaries.add(pattern.endIndex);
+  }
+
+  let currentPage = pathOf(analysis.recording.startUrl);
+  steps.forEach((step, i) => {
+    if (step.type !== 'navigation') return;
+    const page = pathOf(step.url);
+    if (page !== currentPage && i > 0) boundaries.add(i - 1);
+    currentPage = page;
+  });
+
+  boundaries.delete(steps.length - 1);
+  return boundaries;
+}
+
+/**
+ * Cut the recording at the boundaries, then fold short segments without a wallet action
+ * into the next one (or the previous one at the end of the recording)
+ */
+function splitRanges(analysis: AnalysisResult, minSteps: number): SegmentRange[] {
+  const lastIndex = analysis.recording.steps.length - 1;
+  if (lastIndex < 0) return [];
+
+  const cuts = [...findBoundaries(analysis)].sort((a, b) => a - b);
+  const ranges: SegmentRange[] = [];
+  let start = 0;
+  for (const end of [...cuts, lastIndex]) {
+    ranges.push({ startIndex: start, endIndex: end, patterns: [] });
+    start = end + 1;
+  }
+
+  for (const pattern of analysis.patterns) {
+    if (!SEGMENT_NAMES[pattern.type]) continue;
+    ranges.find((r) => pattern.endIndex >= r.startIndex && pattern.endIndex <= r.endIndex)?.patterns.push(pattern);
+  }
+
+  const merged: SegmentRange[] = [];
+  let pending: SegmentRange | null = null;
+  for (const range of ranges) {
+    const current: SegmentRange = pending
+      ? { startIndex: pending.startIndex, endIndex: range.endIndex, patterns: [...pending.patterns, ...range.patterns] }
+      : range;
+    pending = null;
+    if (current.patterns.length === 0 && current.endIndex - current.startIndex + 1 < minSteps) {
+      pending = current;
+    } else {
+      merged.push(current);
+    }
+  }
+
+  if (pending) {
+    const previous = merged.pop();
+    merged.push(previous
+      ? { startIndex: previous.startIndex, endIndex: pending.endIndex, patterns: previous.patterns }
+      : pending);
+  }
+
+  return merged;
+}
+
+/**
+ * Propose independent sub-tests for a recording. A recording that doesn't split
+ * (no boundaries, or everything folded together) comes back as a single segment.
+ */
+export function segmentRecording(analysis: AnalysisResult, options: SegmentOptions = {}): RecordingSegment[] {
+  const { recording } = analysis;
+  const ranges = splitRanges(analysis, options.minSteps ?? DEFAULT_MIN_STEPS);
+
+  const usedIds = new Map<string, number>();
+  let walletConnected = analysis.walletConnected;
+  let chainId: number | undefined;
+  let currentUrl = recording.startUrl;
+  let previous: RecordingSegment | null = null;
+  let previousStateful = false;
+
+  return ranges.map((range) => {
+    const types = [...new Set(range.patterns.map((p) => p.type))];
+    const main = [...types].reverse().find((type) => STATEFUL_PATTERNS.includes(type)) ?? types[types.length - 1];
+    const first = recording.steps[range.startIndex];
+    const startUrl = first.type === 'navigation' ? first.url : currentUrl;
+    const base = main ? SEGMENT_NAMES[main]! : pageSlug(startUrl);
+
+    const count = (usedIds.get(base) || 0) + 1;
+    usedIds.set(base, count);
+    const id = count === 1 ? base : `${base}-${count}`;
+
+    const preconditions: SegmentPrecondition[] = [];
+    if (walletConnected && !types.includes('wallet_connect')) {
+      preconditions.push({ type: 'wallet_connected' });
+    }
+    if (chainId !== undefined && !types.includes('network_switch')) {
+      preconditions.push({ type: 'network', chainId });
+    }
+    if (previous && previousStateful) {
+      preconditions.push({ type: 'segment', segmentId: previous.id, reason: `uses on-chain state left by "${previous.name}"` });
+    }
+
+    const segment: RecordingSegment = {
+      id,
+      name: id.replace(/-/g, ' '),
+      startIndex: range.startIndex,
+      endIndex: range.endIndex,
+      patterns: types,
+      preconditions,
+      startUrl,
+    };
+
+    // State at the end of this segment, for the next one
+    for (const pattern of range.patterns) {
+      if (pattern.type === 'wallet_connect') walletConnected = true;
+      if (pattern.type === 'network_switch' && typeof pattern.metadata?.chainId === 'number') chainId = pattern.metadata.chainId;
+    }
+    for (const step of recording.steps.slice(range.startIndex, range.endIndex + 1)) {
+      if (step.type === 'navigation') currentUrl = step.url;
+    }
+    previous = segment;
+    previousStateful = types.some((type) => STATEFUL_PATTERNS.includes(type));
+
+    return segment;
+  });
+}
+
+/**
+ * Standalone recording for a step range: starts on the page the range starts on,
+ * connected if the wallet was connected by then, and carries only the network requests,
+ * datasets and success state that belong to those steps
+ */
+export function sliceRecording(
+  recording: Recording,
+  startIndex: number,
+  endIndex: number,
+  options: { name?: string; startUrl?: string; walletConnected?: boolean } = {}
+): Recording {
+  const steps = recording.steps.slice(startIndex, endIndex + 1);
+  const stepIds = new Set(steps.map((step) => step.id));
+  const sliced: Recording = {
+    ...recording,
+    name: options.name ?? recording.name,
+    startUrl: options.startUrl ?? recording.startUrl,
+    steps,
+    walletConnected: options.walletConnected ?? recording.walletConnected,
+    networkRequests: recording.networkRequests?.filter((r) => r.stepId && stepIds.has(r.stepId)),
+    successState: endIndex >= recording.steps.length - 1 ? recording.successState : undefined,
+  };
+
+  if (recording.datasets) {
+    const names = new Set(extractSpecParameters(sliced).map((p) => p.name));
+    sliced.datasets = recording.datasets.map((dataset) => ({
+      name: dataset.name,
+      values: Object.fromEntries(Object.entries(dataset.values).filter(([key]) => names.has(key))),
+    }));
+  }
+
+  return sliced;
+}
+
+/**
+ * Analysis of a segment as its own recording, ready for generateCode()
+ */
+export function analyzeSegment(analysis: AnalysisResult, segment: RecordingSegment): AnalysisResult {
+  return analyzeRecording(sliceRecording(analysis.recording, segment.startIndex, segment.endIndex, {
+    name: `${analysis.recording.name} — ${segment.name}`,
+    startUrl: segment.startUrl,
+    walletConnected: segment.preconditions.some((p) => p.type === 'wallet_connected'),
+  }));
+}
+
+/**
+ * One-line summary of a precondition, for spec headers and CLI output
+ */
+export function describePrecondition(precondition: SegmentPrecondition): string {
+  switch (precondition.type) {
+    case 'wallet_connected':
+      return 'wallet connected';
+    case 'network':
+      return `on chain ${precondition.chainId}`;
+    case 'segment':
+      return `after "${precondition.segmentId}" (${precondition.reason})`;
+  }
+}
+
+/**
+ * Comment block naming the segment and its preconditions, put at the top of its spec
+ */
+export function addSegmentHeader(code: string, segment: RecordingSegment): string {
+  const lines = [`// Segment "${segment.id}": recording steps ${segment.startIndex}-${segment.endIndex}`];
+  if (segment.preconditions.length > 0) {
+    lines.push(`// Preconditions: ${segment.preconditions.map(describePrecondition).join('; ')}`);
+  }
+  return `${lines.join('\n')}\n${code}`;
+}
@@ -0,0 +1,158 @@
+/**
+ * Step snippets: named, versioned sub-flows ("open trade panel", "select ETH/USD pair")
+ * shared by the specs of a project. A snippet matches a run of recorded steps by their
+ * signatures; generated specs then contain the snippet's code between marker comments
+ *
+ *   // @snippet "open trade panel" v2
+ *   await page.getByTestId('trade-button').click()
+ *   // @end-snippet
+ *
+ * so a new snippet version can be rolled out to every spec that uses it.
+ */
+
+import type { Recording, RecordingStep, StepSnippet } from './types.js';
+
+export interface SnippetMatch {
+  snippet: StepSnippet;
+  /** Step range in the recording (inclusive) */
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface SnippetBlock {
+  name: string;
+  version: number;
+  /** Block contents with the block's indentation removed */
+  code: string;
+}
+
+// Wallet requests that prompt the user; other RPC calls vary between recordings and are ignored
+const PROMPTING_METHODS = [
+  'eth_requestAccounts',
+  'wallet_requestPermissions',
+  'personal_sign',
+  'eth_sign',
+  'eth_signTypedData',
+  'eth_signTypedData_v3',
+  'eth_signTypedData_v4',
+  'eth_sendTransaction',
+  'wallet_switchEthereumChain',
+  'wallet_addEthereumChain',
+];
+
+const BLOCK_REGEX = /^([ \t]*)\/\/ @snippet "([^"]+)" v(\d+)\n([\s\S]*?)^[ \t]*\/\/ @end-snippet[ \t]*$/gm;
+
+function elementKey(step: { selector?: string; metadata?: { dataTestId?: string; text?: string; placeholder?: string; ariaLabel?: string } }): string {
+  const m = step.metadata;
+  return m?.dataTestId || m?.ariaLabel || m?.placeholder || m?.text?.replace(/\s+/g, ' ').trim() || step.selector || '';
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/$/, '') || '/';
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * What a step does, independent of values and timing: `click:trade-button`,
+ * `input:Amount`, `navigation:/trade`, `web3:eth_sendTransaction`.
+ * Null for steps that don't take part in matching (read-only RPC calls, scrolls).
+ */
+export function stepSignature(step: RecordingStep): string | null {
+  switch (step.type) {
+    case 'click':
+    case 'input':
+    case 'hover':
+    case 'drag':
+      return `${step.type}:${elementKey(step)}`;
+    case 'keypress':
+      return `keypress:${step.key}`;
+    case 'navigation':
+      return `navigation:${pathOf(step.url)}`;
+    case 'web3':
+      return PROMPTING_METHODS.includes(step.web3Method) ? `web3:${step.web3Method}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Signatures for a snippet recorded as the given steps
+ */
+export function buildSnippetSignature(steps: RecordingStep[]): string[] {
+  return steps.map(stepSignature).filter((s): s is string => s !== null);
+}
+
+/**
+ * Non-overlapping snippet matches in step order. At each step the snippet covering the
+ * most steps wins.
+ */
+export function findSnippetMatches(recording: Recording, snippets: StepSnippet[]): SnippetMatch[] {
+  const signed = recording.steps
+    .map((step, index) => ({ index, signature: stepSignature(step) }))
+    .filter((s): s is { index: number; signature: string } => s.signature !== null);
+  const candidates = snippets
+    .filter((s) => s.steps.length > 0)
+    .sort((a, b) => b.steps.length - a.steps.length);
+
+  const matches: SnippetMatch[] = [];
+  for (let i = 0; i < signed.length; ) {
+    const snippet = candidates.find((c) => c.steps.every((sig, k) => signed[i + k]?.signature === sig));
+    if (!snippet) {
+      i++;
+      continue;
+    }
+    matches.push({
+      snippet,
+      startIndex: signed[i].index,
+      endIndex: signed[i + snippet.steps.length - 1].index,
+    });
+    i += snippet.steps.length;
+  }
+
+  return matches;
+}
+
+/**
+ * The snippet's code between its marker comments, unindented
+ */
+export function buildSnippetBlock(snippet: StepSnippet): string[] {
+  return [
+    `// @snippet "${snippet.name}" v${snippet.version}`,
+    ...snippet.code.trim().split('\n'),
+    `// @end-snippet`,
+  ];
+}
+
+/**
+ * Snippet blocks in a spec, in order
+ */
+export function extractSnippetBlocks(code: string): SnippetBlock[] {
+  return [...code.matchAll(BLOCK_REGEX)].map(([, indent, name, version, body]) => ({
+    name,
+    version: Number(version),
+    code: body
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line) => (line.startsWith(indent) ? line.slice(indent.length) : line))
+      .join('\n'),
+  }));
+}
+
+/**
+ * Replace each snippet block with the snippet's current code and version, keeping
+ * the block's indentation. Blocks of unknown snippets are left alone.
+ */
+export function applySnippets(code: string, snippets: StepSnippet[]): { code: string; updated: string[] } {
+  const updated: string[] = [];
+  const result = code.replace(BLOCK_REGEX, (block, indent: string, name: string) => {
+    const snippet = snippets.find((s) => s.name === name);
+    if (!snippet) return block;
+    const replacement = buildSnippetBlock(snippet).map((line) => (line ? `${indent}${line}` : line)).join('\n');
+    if (replacement !== block) updated.push(name);
+    return replacement;
+  });
+  return { code: result, updated };
+}
@@ -0,0 +1,369 @@
+/**
+ * AST-based rules for generated specs
+ * Parses the spec with the TypeScript compiler API and checks what the executor and
+ * wallet fixture depend on: known fixtures only, well-formed STEP markers (used by the
+ * hybrid runner's parseSpecIntoSteps), no long bare sleeps, awaited locator actions and
+ * no hardcoded wallet addresses. Findings carry a location and, where the rewrite is
+ * unambiguous, a fix that applySpecFixes can apply.
+ */
+
+import ts from 'typescript';
+
+export type SpecRuleId =
+  | 'unknown-fixture'
+  | 'step-markers'
+  | 'long-wait'
+  | 'unawaited-action'
+  | 'hardcoded-address';
+
+export const SPEC_RULES: SpecRuleId[] = [
+  'unknown-fixture',
+  'step-markers',
+  'long-wait',
+  'unawaited-action',
+  'hardcoded-address',
+];
+
+/**
+ * Text edit: replace code[start, end) with text
+ */
+export interface SpecFix {
+  start: number;
+  end: number;
+  text: string;
+  description: string;
+}
+
+export interface SpecFinding {
+  rule: SpecRuleId;
+  severity: 'error' | 'warning';
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  message: string;
+  fix?: SpecFix;
+}
+
+export interface SpecLintOptions {
+  /** waitForTimeout calls longer than this (ms) are flagged. Default: 5000 */
+  maxWaitMs?: number;
+  /** Rules to run. Default: all */
+  rules?: SpecRuleId[];
+}
+
+/**
+ * Named exports of fixtures/wallet.fixture.ts
+ */
+export const WALLET_FIXTURE_EXPORTS = [
+  'test',
+  'expect',
+  'raceApprove',
+  'raceSign',
+  'raceConfirmTransaction',
+  'captureDappScreenshots',
+];
+
+/**
+ * Fixtures a test callback may destructure: the wallet fixture's own plus Playwright's built-ins
+ */
+export const WALLET_TEST_FIXTURES = [
+  'wallet',
+  'walletContext',
+  'context',
+  'page',
+  'browser',
+  'browserName',
+  'request',
+];
+
+const LOCATOR_ACTIONS = new Set([
+  'check',
+  'clear',
+  'click',
+  'dblclick',
+  'dragTo',
+  'fill',
+  'focus',
+  'hover',
+  'press',
+  'pressSequentially',
+  'selectOption',
+  'setInputFiles',
+  'tap',
+  'type',
+  'uncheck',
+  'goto',
+  'reload',
+  'waitForLoadState',
+  'waitForURL',
+  'waitForTimeout',
+]);
+
+const DEFAULT_MAX_WAIT_MS = 5000;
+const STEP_SEPARATOR = '// ========================================';
+const SEPARATOR_REGEX = /^\s*\/\/\s*[═=]{3,}\s*$/;
+const STEP_COMMENT_REGEX = /^(\s*)\/\/\s*step\s*(\d+)\s*[:.\-–—)]?\s*(.*)$/i;
+const CANONICAL_STEP_REGEX = /^\s*\/\/\s*STEP\s+(\d+):\s*\S/;
+const ADDRESS_REGEX = /\b0x[a-fA-F0-9]{40}\b/;
+const ZERO_ADDRESS = /^0x0{40}$/;
+
+/**
+ * Run the spec rules over a generated spec
+ */
+export function lintSpec(code: string, options: SpecLintOptions = {}): SpecFinding[] {
+  const sourceFile = ts.createSourceFile('spec.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const rules = new Set(options.rules || SPEC_RULES);
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  const findings: SpecFinding[] = [];
+
+  const report = (node: ts.Node | number, finding: Omit<SpecFinding, 'line' | 'column'>) => {
+    const pos = typeof node === 'number' ? node : node.getStart(sourceFile);
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+    findings.push({ ...finding, line: line + 1, column: character + 1 });
+  };
+
+  const testBodies: Array<{ start: number; end: number }> = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && rules.has('unknown-fixture')) {
+      checkFixtureImport(node, sourceFile, report);
+    }
+
+    if (ts.isCallExpression(node)) {
+      if (isTestCall(node)) {
+        const callback = node.arguments.find(isFunctionLike);
+        if (callback) {
+          if (rules.has('unknown-fixture')) {
+            checkTestFixtures(callback, report);
+          }
+          if (ts.isBlock(callback.body)) {
+            testBodies.push({ start: callback.body.getStart(sourceFile), end: callback.body.getEnd() });
+          }
+        }
+      }
+
+      if (rules.has('long-wait')) {
+        checkWait(node, maxWaitMs, report);
+      }
+      if (rules.has('unawaited-action')) {
+        checkUnawaited(node, sourceFile, report);
+      }
+    }
+
+    if (rules.has('hardcoded-address') && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+      const match = node.text.match(ADDRESS_REGEX);
+      if (match && !ZERO_ADDRESS.test(match[0])) {
+        report(node, {
+          rule: 'hardcoded-address',
+          severity: 'warning',
+          message: `Hardcoded wallet address ${match[0]} — the account depends on the seed phrase; read it from the wallet or process.env instead`,
+        });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (rules.has('step-markers')) {
+    checkStepMarkers(code, testBodies, report);
+  }
+
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+type Report = (node: ts.Node | number, finding: Omit<SpecFinding, 'line' | 'column'>) => void;
+
+function isFunctionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+/**
+ * test(...), test.only(...), test.beforeEach(...) etc. — but not test.describe, whose
+ * callback takes no fixtures
+ */
+function isTestCall(node: ts.CallExpression): boolean {
+  const callee = node.expression;
+  if (ts.isIdentifier(callee)) return callee.text === 'test';
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    callee.expression.text === 'test' &&
+    callee.name.text !== 'describe'
+  );
+}
+
+function checkFixtureImport(node: ts.ImportDeclaration, sourceFile: ts.SourceFile, report: Report) {
+  if (!ts.isStringLiteral(node.moduleSpecifier) || !/fixtures\/wallet\.fixture(\.ts)?$/.test(node.moduleSpecifier.text)) {
+    return;
+  }
+  const bindings = node.importClause?.namedBindings;
+  if (!bindings || !ts.isNamedImports(bindings)) return;
+
+  const elements = bindings.elements;
+  elements.forEach((element, index) => {
+    const name = (element.propertyName || element.name).text;
+    if (WALLET_FIXTURE_EXPORTS.includes(name)) return;
+
+    // Drop the specifier together with its separating comma when other imports remain
+    let fix: SpecFix | undefined;
+    if (elements.length > 1) {
+      const start = index === 0 ? element.getStart(sourceFile) : elements[index - 1].getEnd();
+      const end = index === 0 ? elements[1].getStart(sourceFile) : element.getEnd();
+      fix = { start, end, text: '', description: `Remove "${name}" from the import` };
+    }
+
+    report(element, {
+      rule: 'unknown-fixture',
+      severity: 'error',
+      message: `"${name}" is not exported by wallet.fixture (available: ${WALLET_FIXTURE_EXPORTS.join(', ')})`,
+      fix,
+    });
+  });
+}
+
+function checkTestFixtures(callback: ts.ArrowFunction | ts.FunctionExpression, report: Report) {
+  const param = callback.parameters[0];
+  if (!param || !ts.isObjectBindingPattern(param.name)) return;
+
+  for (const element of param.name.elements) {
+    const key = element.propertyName || element.name;
+    if (!ts.isIdentifier(key) || WALLET_TEST_FIXTURES.includes(key.text)) continue;
+    report(element, {
+      rule: 'unknown-fixture',
+      severity: 'error',
+      message: `Unknown test fixture "${key.text}" (available: ${WALLET_TEST_FIXTURES.join(', ')})`,
+    });
+  }
+}
+
+function checkWait(node: ts.CallExpression, maxWaitMs: number, report: Report) {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || callee.name.text !== 'waitForTimeout') return;
+
+  const arg = node.arguments[0];
+  if (!arg || !ts.isNumericLiteral(arg)) return;
+
+  const ms = Number(arg.text);
+  if (ms <= maxWaitMs) return;
+
+  report(node, {
+    rule: 'long-wait',
+    severity: 'warning',
+    message: `waitForTimeout(${ms}) exceeds ${maxWaitMs}ms — wait for a locator, URL or response instead`,
+    fix: { start: arg.getStart(), end: arg.getEnd(), text: String(maxWaitMs), description: `Shorten the wait to ${maxWaitMs}ms` },
+  });
+}
+
+/**
+ * A locator or page action whose promise is dropped: the next statement races it
+ */
+function checkUnawaited(node: ts.CallExpression, sourceFile: ts.SourceFile, report: Report) {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !LOCATOR_ACTIONS.has(callee.name.text)) return;
+  if (!ts.isExpressionStatement(node.parent)) return;
+
+  const start = node.getStart(sourceFile);
+  report(node, {
+    rule: 'unawaited-action',
+    severity: 'error',
+    message: `.${callee.name.text}() is not awaited`,
+    fix: { start, end: start, text: 'await ', description: 'Add await' },
+  });
+}
+
+/**
+ * STEP markers must be `// STEP N: description`, framed by separator lines, numbered
+ * 1, 2, 3... and inside a test body — otherwise parseSpecIntoSteps runs the whole test
+ * as a single step or splits it in the wrong place.
+ */
+function checkStepMarkers(code: string, testBodies: Array<{ start: number; end: number }>, report: Report) {
+  const lines = code.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  let expected = 1;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(STEP_COMMENT_REGEX);
+    if (!match) continue;
+
+    const [, indent, num, rest] = match;
+    const description = rest.trim();
+    const lineStart = lineStarts[i];
+    const lineEnd = lineStart + lines[i].length;
+    const markerPos = lineStart + indent.length;
+    const canonical = `${indent}// STEP ${expected}: ${description || 'Describe this step'}`;
+
+    if (!testBodies.some((body) => markerPos > body.start && markerPos < body.end)) {
+      report(markerPos, {
+        rule: 'step-markers',
+        severity: 'warning',
+        message: 'STEP marker outside a test body is ignored by the hybrid runner',
+      });
+      continue;
+    }
+
+    if (!CANONICAL_STEP_REGEX.test(lines[i]) || !description) {
+      report(markerPos, {
+        rule: 'step-markers',
+        severity: 'warning',
+        message: `Malformed STEP marker — expected "// STEP ${expected}: <description>"`,
+        fix: { start: lineStart, end: lineEnd, text: canonical, description: 'Rewrite the marker' },
+      });
+    } else if (Number(num) !== expected) {
+      report(markerPos, {
+        rule: 'step-markers',
+        severity: 'warning',
+        message: `STEP ${num} is out of sequence — expected STEP ${expected}`,
+        fix: { start: lineStart, end: lineEnd, text: canonical, description: `Renumber to STEP ${expected}` },
+      });
+    }
+
+    const framedAbove = i > 0 && SEPARATOR_REGEX.test(lines[i - 1]);
+    const framedBelow = i + 1 < lines.length && SEPARATOR_REGEX.test(lines[i + 1]);
+    if (!framedAbove || !framedBelow) {
+      const separator = `${indent}${STEP_SEPARATOR}`;
+      const start = framedAbove ? lineStarts[i - 1] : lineStart;
+      const end = framedBelow ? lineStarts[i + 1] + lines[i + 1].length : lineEnd;
+      const before = framedAbove ? `${lines[i - 1]}\n` : `${separator}\n`;
+      const after = framedBelow ? `\n${lines[i + 1]}` : `\n${separator}`;
+      report(markerPos, {
+        rule: 'step-markers',
+        severity: 'warning',
+        message: 'STEP marker must be framed by "// ====" separator lines above and below',
+        fix: { start, end, text: `${before}${canonical}${after}`, description: 'Add separator lines' },
+      });
+    }
+
+    expected++;
+  }
+}
+
+/**
+ * Apply the fixes of the given findings. Of overlapping fixes only the first (widest at
+ * the same position) is applied, so re-lint and re-apply until nothing changes if needed.
+ */
+export function applySpecFixes(code: string, findings: SpecFinding[]): { code: string; applied: SpecFinding[] } {
+  const fixable = findings
+    .filter((f): f is SpecFinding & { fix: SpecFix } => !!f.fix)
+    .sort((a, b) => a.fix.start - b.fix.start || b.fix.end - a.fix.end);
+
+  const applied: Array<SpecFinding & { fix: SpecFix }> = [];
+  for (const finding of fixable) {
+    const last = applied[applied.length - 1];
+    if (last && finding.fix.start < last.fix.end) continue;
+    applied.push(finding);
+  }
+
+  let result = code;
+  for (const finding of [...applied].reverse()) {
+    result = result.slice(0, finding.fix.start) + finding.fix.text + result.slice(finding.fix.end);
+  }
+
+  return { code: result, applied };
+}
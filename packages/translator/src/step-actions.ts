@@ -0,0 +1,436 @@
+import type {
+  RecordingStep,
+  ScrollStep,
+  HoverStep,
+  KeypressStep,
+  DragStep,
+  AssertStep,
+  SelectorCandidate,
+  StepRedaction,
+  NetworkRequestEntry,
+  GenerationOptions,
+} from './types.js';
+
+/**
+ * Step types that map to a fixed Playwright action without model judgement
+ */
+export type InteractionStep = ScrollStep | HoverStep | KeypressStep | DragStep;
+
+const INTERACTION_STEP_TYPES = new Set(['scroll', 'hover', 'keypress', 'drag']);
+
+/**
+ * Check if a recording step is a scroll/hover/keypress/drag interaction
+ */
+export function isInteractionStep(step: RecordingStep): step is InteractionStep {
+  return INTERACTION_STEP_TYPES.has(step.type);
+}
+
+/**
+ * Quote a string as a single-quoted TypeScript literal
+ */
+export function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Escape a string for use inside a case-insensitive regex literal
+ */
+function toRegexLiteral(value: string): string {
+  const escaped = value.trim().replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  return `/${escaped}/i`;
+}
+
+/**
+ * Frame chain and shadow-host path recorded with a step (outermost first)
+ */
+export interface ElementContext {
+  framePath?: string[];
+  shadowPath?: string[];
+}
+
+/**
+ * Check if a step was recorded inside an iframe or shadow root
+ */
+export function hasElementContext(step: RecordingStep): boolean {
+  const context = step as ElementContext;
+  return Boolean(context.framePath?.length || context.shadowPath?.length);
+}
+
+/**
+ * Build the expression that element locators hang off: `page`, narrowed with
+ * frameLocator() for each recorded iframe and locator() for each shadow host.
+ * Playwright CSS pierces open shadow roots, so chaining the hosts is enough.
+ */
+export function buildScopeExpression(context?: ElementContext): string {
+  let scope = 'page';
+
+  for (const frame of context?.framePath || []) {
+    scope += `.frameLocator(${quote(frame)})`;
+  }
+  for (const host of context?.shadowPath || []) {
+    scope += `.locator(${quote(host)})`;
+  }
+
+  return scope;
+}
+
+/**
+ * Build a locator expression for a recorded element, following the prompt's selector
+ * priority: data-testid > aria-label > role + name > recorded CSS (always last).
+ */
+export function buildLocatorExpression(
+  selector: string | undefined,
+  metadata?: {
+    dataTestId?: string;
+    ariaLabel?: string;
+    role?: string;
+    text?: string;
+  },
+  context?: ElementContext
+): string | null {
+  const scope = buildScopeExpression(context);
+  const candidates: string[] = [];
+
+  if (metadata?.dataTestId) {
+    candidates.push(`${scope}.getByTestId(${quote(metadata.dataTestId)})`);
+  }
+  if (metadata?.ariaLabel) {
+    candidates.push(`${scope}.getByLabel(${quote(metadata.ariaLabel)})`);
+  }
+  if (metadata?.role && metadata.text && !metadata.text.endsWith('...')) {
+    candidates.push(`${scope}.getByRole(${quote(metadata.role)}, { name: ${toRegexLiteral(metadata.text)} })`);
+  }
+  if (selector) {
+    candidates.push(`${scope}.locator(${quote(selector)})`);
+  }
+
+  if (candidates.length === 0) return null;
+
+  const [first, ...rest] = candidates;
+  return `${first}${rest.map((c) => `.or(${c})`).join('')}.first()`;
+}
+
+/**
+ * Candidates chained into one .or() locator — enough to survive a UI change
+ * without turning every line into a wall of fallbacks
+ */
+const MAX_CHAINED_CANDIDATES = 4;
+
+const STRATEGY_FOR_OPTION: Record<GenerationOptions['selectorStrategy'], SelectorCandidate['strategy'] | null> = {
+  'data-testid': 'testid',
+  text: 'text',
+  role: 'role',
+  css: 'css',
+  auto: null,
+};
+
+/**
+ * Order a recorded selector bundle for replay. Unique candidates come first; among
+ * them the configured selectorStrategy wins, then the recorder's score.
+ */
+export function rankSelectorCandidates(
+  candidates: SelectorCandidate[],
+  strategy: GenerationOptions['selectorStrategy'] = 'auto'
+): SelectorCandidate[] {
+  const preferred = STRATEGY_FOR_OPTION[strategy];
+  const rank = (c: SelectorCandidate) => (c.matchCount === 1 ? 2 : 0) + (c.strategy === preferred ? 1 : 0);
+
+  return candidates
+    .filter((c) => c.matchCount > 0)
+    .map((c, index) => ({ c, index }))
+    .sort((a, b) => rank(b.c) - rank(a.c) || b.c.score - a.c.score || a.index - b.index)
+    .map(({ c }) => c);
+}
+
+/**
+ * Build the locator expression for a single selector candidate
+ */
+export function buildCandidateLocator(candidate: SelectorCandidate, context?: ElementContext): string {
+  const scope = buildScopeExpression(context);
+
+  switch (candidate.strategy) {
+    case 'role':
+      return `${scope}.getByRole(${quote(candidate.role || 'button')}, { name: ${quote(candidate.name || '')} })`;
+    case 'text':
+      return `${scope}.getByText(${quote(candidate.name || '')}, { exact: true })`;
+    default:
+      return `${scope}.locator(${quote(candidate.selector)})`;
+  }
+}
+
+/**
+ * Build the locator for a recorded element step: the ranked candidate bundle when the
+ * recorder captured one, otherwise the metadata-based chain.
+ */
+export function buildStepLocator(
+  step: {
+    selector?: string;
+    metadata?: { dataTestId?: string; ariaLabel?: string; role?: string; text?: string };
+    selectorCandidates?: SelectorCandidate[];
+  } & ElementContext,
+  strategy: GenerationOptions['selectorStrategy'] = 'auto'
+): string | null {
+  const ranked = rankSelectorCandidates(step.selectorCandidates || [], strategy);
+  if (ranked.length === 0) {
+    return buildLocatorExpression(step.selector, step.metadata, step);
+  }
+
+  const chained = ranked.slice(0, MAX_CHAINED_CANDIDATES).map((c) => buildCandidateLocator(c, step));
+  // The recorded CSS selector stays in the chain as the last fallback
+  if (step.selector && !ranked.slice(0, MAX_CHAINED_CANDIDATES).some((c) => c.selector === step.selector)) {
+    chained.push(`${buildScopeExpression(step)}.locator(${quote(step.selector)})`);
+  }
+
+  const [first, ...rest] = chained;
+  return `${first}${rest.map((c) => `.or(${c})`).join('')}.first()`;
+}
+
+/**
+ * Build the Playwright key string for a keypress (e.g. "Control+K")
+ */
+export function buildKeyCombo(step: KeypressStep): string {
+  return [...(step.modifiers || []), step.key].join('+');
+}
+
+/**
+ * Map a scroll/hover/keypress/drag step to Playwright code lines.
+ * Returns an empty array for step types this module does not handle.
+ */
+export function buildInteractionAction(
+  step: RecordingStep,
+  strategy: GenerationOptions['selectorStrategy'] = 'auto'
+): string[] {
+  switch (step.type) {
+    case 'scroll':
+      return buildScrollAction(step, strategy);
+    case 'hover':
+      return buildHoverAction(step, strategy);
+    case 'keypress':
+      return buildKeypressAction(step, strategy);
+    case 'drag':
+      return buildDragAction(step, strategy);
+    default:
+      return [];
+  }
+}
+
+function buildScrollAction(step: ScrollStep, strategy: GenerationOptions['selectorStrategy']): string[] {
+  if (step.selector && step.metadata?.scrollTarget !== 'window') {
+    const locator = buildStepLocator(step, strategy) as string;
+    return [
+      `await ${locator}.evaluate((el, pos) => el.scrollTo(pos.x, pos.y), { x: ${step.scrollX}, y: ${step.scrollY} })`,
+      `await page.waitForTimeout(500)`,
+    ];
+  }
+
+  if (step.framePath?.length) {
+    // Window scroll inside an iframe — evaluate in the frame, not the top page
+    return [
+      `await ${buildScopeExpression(step)}.locator('html').evaluate((_, pos) => window.scrollTo(pos.x, pos.y), { x: ${step.scrollX}, y: ${step.scrollY} })`,
+      `await page.waitForTimeout(500)`,
+    ];
+  }
+
+  return [
+    `await page.evaluate((pos) => window.scrollTo(pos.x, pos.y), { x: ${step.scrollX}, y: ${step.scrollY} })`,
+    `await page.waitForTimeout(500)`,
+  ];
+}
+
+function buildHoverAction(step: HoverStep, strategy: GenerationOptions['selectorStrategy']): string[] {
+  const locator = buildStepLocator(step, strategy) as string;
+  return [
+    `await ${locator}.hover()`,
+    `await page.waitForTimeout(500)`,
+  ];
+}
+
+function buildKeypressAction(step: KeypressStep, strategy: GenerationOptions['selectorStrategy']): string[] {
+  const combo = quote(buildKeyCombo(step));
+  const locator = step.selector ? buildStepLocator(step, strategy) : null;
+
+  if (locator) {
+    return [`await ${locator}.press(${combo})`];
+  }
+  return [`await page.keyboard.press(${combo})`];
+}
+
+function buildDragAction(step: DragStep, strategy: GenerationOptions['selectorStrategy']): string[] {
+  const locator = buildStepLocator(step, strategy) as string;
+  const { drag } = step;
+
+  // Native range inputs accept fill() with the target value
+  if (step.metadata?.inputType === 'range' && drag.valueAfter !== undefined) {
+    return [`await ${locator}.fill(${quote(drag.valueAfter)})`];
+  }
+
+  const notVisible = `if (!dragBox) throw new Error('Drag target not visible: ${step.selector.replace(/'/g, "\\'")}')`;
+  let moves: string[];
+
+  if (drag.startRatioX !== undefined && drag.endRatioX !== undefined) {
+    // Replay relative to the track's box (the element's own when it is the track) so
+    // the drag survives viewport changes
+    const track = drag.trackSelector
+      ? `${buildScopeExpression(step)}.locator(${quote(drag.trackSelector)}).first()`
+      : locator;
+    moves = [
+      `const dragBox = await ${track}.boundingBox()`,
+      notVisible,
+      `await page.mouse.move(dragBox.x + dragBox.width * ${round(drag.startRatioX)}, dragBox.y + dragBox.height / 2)`,
+      `await page.mouse.down()`,
+      `await page.mouse.move(dragBox.x + dragBox.width * ${round(drag.endRatioX)}, dragBox.y + dragBox.height / 2, { steps: 10 })`,
+      `await page.mouse.up()`,
+    ];
+  } else {
+    const dx = drag.endX - drag.startX;
+    const dy = drag.endY - drag.startY;
+    moves = [
+      `const dragBox = await ${locator}.boundingBox()`,
+      notVisible,
+      `await page.mouse.move(dragBox.x + dragBox.width / 2, dragBox.y + dragBox.height / 2)`,
+      `await page.mouse.down()`,
+      `await page.mouse.move(dragBox.x + dragBox.width / 2 + ${dx}, dragBox.y + dragBox.height / 2 + ${dy}, { steps: 10 })`,
+      `await page.mouse.up()`,
+    ];
+  }
+
+  // A block of its own, so a spec with several drags doesn't redeclare dragBox
+  const lines = ['{', ...moves.map((line) => `  ${line}`), '}'];
+
+  if (drag.valueAfter !== undefined && step.metadata?.role === 'slider') {
+    lines.push(`await expect(${locator}).toHaveAttribute('aria-valuenow', ${quote(drag.valueAfter)})`);
+  }
+
+  return lines;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// What the recorder puts in place of a value masked by its redaction rules
+export const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * TypeScript expression for a recorded value: a literal, or the environment variable
+ * that stands in for a redacted one
+ */
+export function buildValueExpression(value: string, redaction?: StepRedaction): string {
+  return redaction ? `process.env.${redaction.param} ?? ''` : quote(value);
+}
+
+// Matches the recorder's number parsing: first number, thousands separators allowed
+const DISPLAYED_NUMBER_REGEX = '/-?\\d[\\d,]*(?:\\.\\d+)?/';
+
+/**
+ * Map an assert step to the expect() lines that verify it.
+ * Returns an empty array when an element assertion has no recorded element.
+ */
+export function buildAssertionAction(
+  step: AssertStep,
+  strategy: GenerationOptions['selectorStrategy'] = 'auto'
+): string[] {
+  const { assertion, redaction } = step;
+
+  if (assertion.kind === 'textVisible') {
+    return [`await expect(page.getByText(${buildValueExpression(assertion.expected, redaction)}).first()).toBeVisible({ timeout: 10000 })`];
+  }
+
+  const locator = buildStepLocator(step, strategy);
+  if (!locator) return [];
+
+  switch (assertion.kind) {
+    case 'textEquals':
+      return [`await expect(${locator}).toHaveText(${buildValueExpression(assertion.expected, redaction)}, { timeout: 10000 })`];
+    case 'textContains':
+      return [`await expect(${locator}).toContainText(${buildValueExpression(assertion.expected, redaction)}, { timeout: 10000 })`];
+    case 'visible':
+      return [`await expect(${locator}).toBeVisible({ timeout: 10000 })`];
+    case 'enabled':
+      return [`await expect(${locator}).toBeEnabled({ timeout: 10000 })`];
+    case 'attribute':
+      return [`await expect(${locator}).toHaveAttribute(${quote(assertion.attribute)}, ${buildValueExpression(assertion.expected, redaction)}, { timeout: 10000 })`];
+    case 'numberWithin': {
+      const target = redaction ? `Number(process.env.${redaction.param})` : Number(assertion.expected);
+      // Balances update asynchronously — poll until the displayed number settles within tolerance
+      return [
+        `await expect.poll(async () => {`,
+        `  const text = (await ${locator}.textContent()) || ''`,
+        `  const match = text.match(${DISPLAYED_NUMBER_REGEX})`,
+        `  return match ? Math.abs(parseFloat(match[0].replace(/,/g, '')) - ${target}) : Infinity`,
+        `}, { timeout: 10000 }).toBeLessThanOrEqual(${assertion.tolerance})`,
+      ];
+    }
+  }
+}
+
+// Analytics/monitoring beacons — never what a test should wait on
+const TELEMETRY_URL_PATTERN = /google-analytics|googletagmanager|segment\.(io|com)|sentry|mixpanel|amplitude|posthog|datadog|hotjar|intercom/i;
+
+// Path segments that look like ids, hashes or addresses — matched loosely in response waits
+const DYNAMIC_SEGMENT_PATTERN = /^(?:\d+|0x[0-9a-f]+|[0-9a-f-]{16,})$/i;
+
+/**
+ * Pick the requests worth synchronising on for a step: successful HTTP calls it triggered,
+ * excluding JSON-RPC (chain reads), WebSocket traffic and telemetry. Non-GET requests come
+ * first; duplicates of the same method and URL pattern are dropped.
+ */
+export function selectResponseWaits(
+  requests: NetworkRequestEntry[],
+  stepId: string,
+  limit = 2
+): NetworkRequestEntry[] {
+  const seen = new Set<string>();
+
+  return requests
+    .filter((r) => r.stepId === stepId && r.kind !== 'websocket' && !r.rpcMethod && !r.error)
+    .filter((r) => r.status !== undefined && r.status < 400 && r.method !== 'OPTIONS')
+    .filter((r) => !TELEMETRY_URL_PATTERN.test(r.url))
+    .sort((a, b) => Number(b.method !== 'GET') - Number(a.method !== 'GET') || a.startTime - b.startTime)
+    .filter((r) => {
+      const key = `${r.method} ${buildUrlPattern(r.url)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Build a regex literal matching a request URL's origin and path (any query string),
+ * with id-like path segments wildcarded. Returns null for unparseable URLs.
+ */
+export function buildUrlPattern(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const path = parsed.pathname
+    .split('/')
+    .map((segment) => (DYNAMIC_SEGMENT_PATTERN.test(segment) ? '[^\\/]+' : escape(segment)))
+    .join('\\/');
+
+  return `/^${escape(parsed.origin)}${path}(?:\\?|$)/`;
+}
+
+/**
+ * Map a captured request to waitForResponse code: `before` starts waiting ahead of the
+ * step's action, `after` awaits the response once the action has run.
+ * Returns null when the URL can't be turned into a pattern.
+ */
+export function buildResponseWait(
+  entry: NetworkRequestEntry,
+  variable: string
+): { before: string; after: string } | null {
+  const pattern = buildUrlPattern(entry.url);
+  if (!pattern) return null;
+
+  return {
+    before: `const ${variable} = page.waitForResponse((response) => ${pattern}.test(response.url()) && response.request().method() === ${quote(entry.method)}, { timeout: 15000 })`,
+    after: `await ${variable}`,
+  };
+}
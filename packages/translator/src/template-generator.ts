@@ -0,0 +1,356 @@
+import Handlebars from 'handlebars';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type {
+  AnalysisResult,
+  FlowPattern,
+  GenerationOptions,
+  RecordingStep,
+  TranslationResult,
+  Web3Step,
+} from './types.js';
+import {
+  quote,
+  isInteractionStep,
+  buildInteractionAction,
+  buildAssertionAction,
+  buildStepLocator,
+  buildValueExpression,
+  selectResponseWaits,
+  buildResponseWait,
+} from './step-actions.js';
+import { validateTypeScript } from './validator.js';
+import { extractSpecParameters, buildParameterBlock, buildParameterExpression, type SpecParameter } from './parameters.js';
+import { findSnippetMatches, buildSnippetBlock } from './snippets.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export interface TemplateGeneratorOptions extends Partial<GenerationOptions> {
+  validateOutput?: boolean;
+}
+
+interface TemplateStep {
+  stepNumber: number;
+  comment: string;
+  codeLines: string[];
+}
+
+// MetaMask's built-in network names (see the switchNetwork list in the prompt)
+const NETWORK_NAMES: Record<number, string> = {
+  1: 'Ethereum Mainnet',
+  10: 'OP Mainnet',
+  56: 'BNB Smart Chain',
+  137: 'Polygon Mainnet',
+  8453: 'Base',
+  42161: 'Arbitrum One',
+  43114: 'Avalanche Network C-Chain',
+  11155111: 'Sepolia',
+};
+
+const CONNECT_METHODS = ['eth_requestAccounts', 'wallet_requestPermissions'];
+const SIGN_METHODS = ['personal_sign', 'eth_sign', 'eth_signTypedData', 'eth_signTypedData_v3', 'eth_signTypedData_v4'];
+const SWITCH_METHODS = ['wallet_switchEthereumChain', 'wallet_addEthereumChain', 'chainChanged'];
+
+// EIP-1193 "user rejected the request"
+const USER_REJECTED_CODE = 4001;
+
+// A navigation this soon after a click was caused by it — wait for the load instead of goto()
+const CLICK_NAVIGATION_WINDOW_MS = 5000;
+
+// Clicks on the dApp's own "switch network" UI are replaced by wallet.switchNetwork()
+const NETWORK_SWITCH_CLICK_PATTERN = /switch|network|wrong|chain/i;
+
+const CONNECTION_CHECK = [
+  `const connected = await page.evaluate(() => {`,
+  `  const eth = (window as any).ethereum`,
+  `  return eth?.selectedAddress || eth?.accounts?.[0] || null`,
+  `})`,
+  `expect(connected?.toLowerCase()).toContain('0x')`,
+];
+
+/**
+ * Rule-based spec generation without an LLM. Every recorded step and detected
+ * FlowPattern maps to fixed fixture calls and locators, rendered through
+ * templates/base-spec.ts.hbs. The output is deterministic: the same recording always
+ * yields the same spec, with no API key or network access needed.
+ */
+export class TemplateGenerator {
+  private options: TemplateGeneratorOptions;
+  private template: HandlebarsTemplateDelegate;
+
+  constructor(options: TemplateGeneratorOptions = {}) {
+    this.options = options;
+    const templatePath = join(__dirname, '..', 'templates', 'base-spec.ts.hbs');
+    this.template = Handlebars.compile(readFileSync(templatePath, 'utf-8'), { noEscape: true });
+  }
+
+  /**
+   * Generate a complete test spec from an analysis result
+   */
+  async generate(analysis: AnalysisResult): Promise<TranslationResult> {
+    const warnings = [...analysis.warnings];
+    const params = this.options.parameterizeInputs === false ? [] : extractSpecParameters(analysis.recording);
+    const steps = this.buildSteps(analysis, params, warnings);
+    const code = this.render(analysis, steps, params);
+
+    if (this.options.validateOutput !== false) {
+      const validation = await validateTypeScript(code);
+      if (!validation.valid) {
+        return {
+          success: false,
+          code,
+          errors: validation.errors.map((e) => `Line ${e.line}: ${e.message}`),
+          warnings: validation.warnings.map((w) => `Line ${w.line}: ${w.message}`),
+          analysis,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      code,
+      warnings,
+      analysis,
+    };
+  }
+
+  /**
+   * Render the template with the fixtures the steps use
+   */
+  private render(analysis: AnalysisResult, steps: TemplateStep[], params: SpecParameter[]): string {
+    const body = steps.flatMap((s) => s.codeLines).join('\n');
+    const imports = ['test', 'expect', 'raceApprove', 'raceSign', 'raceConfirmTransaction']
+      .filter((name) => name === 'test' || name === 'expect' || body.includes(`${name}(`));
+
+    return this.template({
+      testName: analysis.recording.name,
+      testNameLiteral: quote(analysis.recording.name),
+      imports: imports.join(', '),
+      parameterBlock: buildParameterBlock(params).join('\n'),
+      steps,
+    });
+  }
+
+  /**
+   * Map the recording to numbered STEP blocks
+   */
+  private buildSteps(analysis: AnalysisResult, params: SpecParameter[], warnings: string[]): TemplateStep[] {
+    const { recording, patterns } = analysis;
+    const strategy = this.options.selectorStrategy ?? 'auto';
+    const requests = recording.networkRequests || [];
+    const steps: TemplateStep[] = [];
+
+    const addStep = (comment: string, codeLines: string[]) => {
+      steps.push({ stepNumber: steps.length + 1, comment, codeLines });
+    };
+
+    addStep(`Navigate to ${recording.startUrl}`, [
+      `await page.goto(${quote(recording.startUrl)})`,
+      `await page.waitForLoadState('domcontentloaded')`,
+    ]);
+
+    const hasConnect = recording.steps.some((s) => s.type === 'web3' && CONNECT_METHODS.includes(s.web3Method));
+    if (analysis.walletConnected && !hasConnect) {
+      warnings.push('Recording started with the wallet already connected — add the dApp\'s connect flow (click + raceApprove) after STEP 1');
+    }
+
+    let connected = false;
+    let lastClickAt: number | null = null;
+    const snippetMatches = findSnippetMatches(recording, this.options.snippets || []);
+
+    recording.steps.forEach((step, index) => {
+      const snippetMatch = snippetMatches.find((m) => m.startIndex <= index && index <= m.endIndex);
+      if (snippetMatch) {
+        if (index === snippetMatch.startIndex) {
+          addStep(`Snippet "${snippetMatch.snippet.name}"`, buildSnippetBlock(snippetMatch.snippet));
+        }
+        if (step.type === 'web3' && CONNECT_METHODS.includes(step.web3Method)) connected = true;
+        if (step.type === 'click') lastClickAt = step.timestamp;
+        return;
+      }
+
+      const pattern = findPattern(patterns, index);
+      const label = pattern ? ` (${pattern.type})` : '';
+      const comment = (description: string) =>
+        (step.comment ? `${description} — ${step.comment.replace(/\s+/g, ' ')}` : description) + label;
+
+      switch (step.type) {
+        case 'click': {
+          if (pattern?.type === 'network_switch' && NETWORK_SWITCH_CLICK_PATTERN.test(step.metadata?.text || '')) {
+            return;
+          }
+          const locator = buildStepLocator(step, strategy);
+          if (!locator) return;
+          lastClickAt = step.timestamp;
+          addStep(comment(`Click ${describeElement(step)}`), this.withResponseWaits(
+            [`await ${locator}.click()`],
+            requests,
+            step.id,
+            steps.length + 1
+          ));
+          return;
+        }
+
+        case 'input': {
+          const locator = buildStepLocator(step, strategy);
+          if (!locator) return;
+          const param = params.find((p) => p.stepId === step.id);
+          const value = param ? buildParameterExpression(param) : buildValueExpression(step.value, step.redaction);
+          addStep(comment(`Fill ${describeElement(step)}`), this.withResponseWaits(
+            [`await ${locator}.fill(${value})`],
+            requests,
+            step.id,
+            steps.length + 1
+          ));
+          return;
+        }
+
+        case 'navigation': {
+          if (index === 0 && step.url === recording.startUrl) return;
+          if (lastClickAt !== null && step.timestamp - lastClickAt <= CLICK_NAVIGATION_WINDOW_MS) {
+            addStep(comment(`Wait for navigation to ${step.url}`), [`await page.waitForLoadState('domcontentloaded')`]);
+          } else {
+            addStep(comment(`Navigate to ${step.url}`), [
+              `await page.goto(${quote(step.url)})`,
+              `await page.waitForLoadState('domcontentloaded')`,
+            ]);
+          }
+          return;
+        }
+
+        case 'assert': {
+          const lines = buildAssertionAction(step, strategy);
+          if (lines.length > 0) addStep(comment(`Verify ${step.assertion.kind}`), lines);
+          return;
+        }
+
+        case 'web3': {
+          const web3 = this.buildWeb3Action(step, pattern, connected, warnings);
+          if (!web3) return;
+          if (CONNECT_METHODS.includes(step.web3Method)) connected = true;
+          addStep(comment(web3.description), web3.lines);
+          return;
+        }
+
+        default:
+          if (isInteractionStep(step)) {
+            const lines = buildInteractionAction(step, strategy);
+            if (lines.length > 0) addStep(comment(`${capitalize(step.type)} ${describeElement(step)}`), lines);
+          }
+      }
+    });
+
+    return steps;
+  }
+
+  /**
+   * Map a wallet request to the fixture call that answers it. Read-only RPC calls and
+   * events the wallet raises on its own produce nothing.
+   */
+  private buildWeb3Action(
+    step: Web3Step,
+    pattern: FlowPattern | undefined,
+    connected: boolean,
+    warnings: string[]
+  ): { description: string; lines: string[] } | null {
+    const method = step.web3Method;
+
+    if (step.web3Error?.code === USER_REJECTED_CODE) {
+      return { description: `Reject ${method} in the wallet`, lines: [`await wallet.reject()`] };
+    }
+
+    if (CONNECT_METHODS.includes(method)) {
+      if (connected) return null;
+      return {
+        description: 'Approve wallet connection',
+        lines: [`await raceApprove(wallet, page.context(), page)`, ...CONNECTION_CHECK],
+      };
+    }
+
+    if (SIGN_METHODS.includes(method)) {
+      // raceApprove already signs the SIWE message that follows a connection
+      if (pattern?.type === 'wallet_connect') return null;
+      return { description: 'Sign message', lines: [`await raceSign(wallet, page.context(), page)`] };
+    }
+
+    if (method === 'eth_sendTransaction') {
+      const decoded = step.web3Decoded ? ` (${step.web3Decoded.protocol} ${step.web3Decoded.functionName})` : '';
+      return {
+        description: `Confirm transaction${decoded}`,
+        lines: [`await raceConfirmTransaction(wallet, page.context(), page)`],
+      };
+    }
+
+    if (SWITCH_METHODS.includes(method)) {
+      const chainId = getTargetChainId(step, pattern);
+      const name = chainId !== undefined ? NETWORK_NAMES[chainId] : undefined;
+      if (!name) {
+        warnings.push(`Network switch to chain ${chainId ?? 'unknown'} has no built-in MetaMask network — add it with wallet.addNetwork()`);
+        return null;
+      }
+      return { description: `Switch to ${name} network`, lines: [`await wallet.switchNetwork(${quote(name)})`] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Wrap a step's action in waitForResponse calls for the API requests it triggered
+   */
+  private withResponseWaits(
+    action: string[],
+    requests: NonNullable<AnalysisResult['recording']['networkRequests']>,
+    stepId: string,
+    stepNumber: number
+  ): string[] {
+    const waits = selectResponseWaits(requests, stepId)
+      .map((entry, n) => buildResponseWait(entry, `step${stepNumber}Response${n > 0 ? n + 1 : ''}`))
+      .filter((w): w is NonNullable<typeof w> => w !== null);
+
+    return [...waits.map((w) => w.before), ...action, ...waits.map((w) => w.after)];
+  }
+}
+
+/**
+ * Most specific pattern covering a step (shortest span wins)
+ */
+function findPattern(patterns: FlowPattern[], index: number): FlowPattern | undefined {
+  return patterns
+    .filter((p) => p.startIndex <= index && index <= p.endIndex)
+    .sort((a, b) => (a.endIndex - a.startIndex) - (b.endIndex - b.startIndex))[0];
+}
+
+/**
+ * Chain a switch step targets: the network_switch pattern's chain, else the request params
+ */
+function getTargetChainId(step: Web3Step, pattern: FlowPattern | undefined): number | undefined {
+  if (pattern?.type === 'network_switch' && typeof pattern.metadata?.chainId === 'number') {
+    return pattern.metadata.chainId;
+  }
+  if (step.chainId !== undefined) return step.chainId;
+
+  const params = Array.isArray(step.web3Params) ? step.web3Params[0] : undefined;
+  const hex = (params as { chainId?: unknown } | undefined)?.chainId;
+  return typeof hex === 'string' ? parseInt(hex, 16) : undefined;
+}
+
+function describeElement(step: RecordingStep): string {
+  const metadata = 'metadata' in step ? (step.metadata as { text?: string; ariaLabel?: string; placeholder?: string; dataTestId?: string } | undefined) : undefined;
+  const label = metadata?.text || metadata?.ariaLabel || metadata?.placeholder || metadata?.dataTestId;
+  if (label) return `"${label.replace(/\s+/g, ' ').trim().slice(0, 40)}"`;
+  if ('selector' in step && step.selector) return step.selector;
+  return step.type === 'scroll' ? 'page' : 'element';
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Create a template generator with the given options
+ */
+export function createTemplateGenerator(options?: TemplateGeneratorOptions): TemplateGenerator {
+  return new TemplateGenerator(options);
+}
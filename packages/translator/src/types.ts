@@ -11,10 +11,35 @@ export const Web3ProviderInfoSchema = z.object({
   uuid: z.string().optional(),
 });
 
+// One alternative way to locate a recorded element, measured at capture time
+export const SelectorCandidateSchema = z.object({
+  strategy: z.enum(['testid', 'role', 'text', 'css', 'xpath', 'anchor']),
+  // CSS, or 'xpath=' prefixed for xpath/anchor; empty for role/text
+  selector: z.string(),
+  role: z.string().optional(),
+  name: z.string().optional(),
+  // Elements matched in the element's document/shadow root when recorded
+  matchCount: z.number(),
+  // 0-1: strategy stability weighted by uniqueness
+  score: z.number(),
+});
+
+// Frame chain and shadow-host path of the recorded element, outermost first.
+// Each selector is scoped to the document or shadow root that contains it.
+// selectorCandidates is the recorder's ranked selector bundle for the element.
+const ElementContextShape = {
+  framePath: z.array(z.string()).optional(),
+  shadowPath: z.array(z.string()).optional(),
+  selectorCandidates: z.array(SelectorCandidateSchema).optional(),
+};
+
+// Every step may carry a `comment` — the recorder's note of intent, added in the popup
 export const ClickStepSchema = z.object({
   id: z.string(),
   type: z.literal('click'),
   timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
   selector: z.string(),
   screenshot: z.string().optional(),
   metadata: z.object({
@@ -30,12 +55,24 @@ export const ClickStepSchema = z.object({
   }).optional(),
 });
 
+// Value masked by the recorder's redaction rules — the step holds '[REDACTED]' and
+// generated code reads the value from the `param` environment variable
+export const StepRedactionSchema = z.object({
+  param: z.string(),
+  reason: z.enum(['password', 'secret', 'rule']),
+});
+
 export const InputStepSchema = z.object({
   id: z.string(),
   type: z.literal('input'),
   timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
   selector: z.string(),
   value: z.string(),
+  redaction: StepRedactionSchema.optional(),
+  // Name of the spec parameter holding the value (derived from the field when unset)
+  parameter: z.string().optional(),
   screenshot: z.string().optional(),
   metadata: z.object({
     dataTestId: z.string().optional(),
@@ -53,19 +90,59 @@ export const NavigationStepSchema = z.object({
   id: z.string(),
   type: z.literal('navigation'),
   timestamp: z.number(),
+  comment: z.string().optional(),
   url: z.string(),
   fromUrl: z.string().optional(),
 });
 
+// Calldata / EIP-712 payload decoded by the recorder against its bundled ABI table.
+// Token is a contract address or 'native'; amounts are base-unit decimal strings.
+export const DecodedTokenAmountSchema = z.object({
+  token: z.string(),
+  amount: z.string().optional(),
+  direction: z.enum(['in', 'out', 'approve']),
+});
+
+export const DecodedWeb3PayloadSchema = z.object({
+  source: z.enum(['calldata', 'typedData']),
+  protocol: z.string(),
+  functionName: z.string(),
+  signature: z.string().optional(),
+  action: z.enum(['approve', 'permit', 'transfer', 'swap', 'deposit', 'withdraw', 'wrap', 'unwrap', 'other']),
+  args: z.record(z.unknown()),
+  tokens: z.array(DecodedTokenAmountSchema),
+  spender: z.string().optional(),
+  contract: z.string().optional(),
+  domain: z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    chainId: z.string().optional(),
+    verifyingContract: z.string().optional(),
+  }).optional(),
+});
+
 export const Web3StepSchema = z.object({
   id: z.string(),
   type: z.literal('web3'),
   timestamp: z.number(),
+  comment: z.string().optional(),
   web3Method: z.string(),
   web3ProviderInfo: Web3ProviderInfoSchema.optional(),
   web3Result: z.any().optional(),
   web3Params: z.any().optional(),
+  web3Error: z.object({
+    message: z.string(),
+    code: z.number().optional(),
+  }).optional(),
   chainId: z.number().optional(),
+  // Wallet-side provider event (web3Method is the event name): accounts arrays for
+  // accountsChanged, hex chain IDs for chainChanged, last state and error for disconnect
+  web3Event: z.object({
+    name: z.enum(['accountsChanged', 'chainChanged', 'disconnect']),
+    before: z.unknown(),
+    after: z.unknown(),
+  }).optional(),
+  web3Decoded: DecodedWeb3PayloadSchema.optional(),
   screenshot: z.string().optional(),
 });
 
@@ -73,8 +150,125 @@ export const ScrollStepSchema = z.object({
   id: z.string(),
   type: z.literal('scroll'),
   timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
   scrollX: z.number(),
   scrollY: z.number(),
+  // Present when an inner container was scrolled instead of the window
+  selector: z.string().optional(),
+  metadata: z.object({
+    tagName: z.string().optional(),
+    ariaLabel: z.string().optional(),
+    dataTestId: z.string().optional(),
+    scrollTarget: z.enum(['window', 'element']).optional(),
+    pageTitle: z.string().optional(),
+  }).optional(),
+});
+
+export const HoverStepSchema = z.object({
+  id: z.string(),
+  type: z.literal('hover'),
+  timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
+  selector: z.string(),
+  metadata: z.object({
+    dataTestId: z.string().optional(),
+    tagName: z.string().optional(),
+    text: z.string().optional(),
+    ariaLabel: z.string().optional(),
+    role: z.string().optional(),
+    pageTitle: z.string().optional(),
+    hoverDurationMs: z.number().optional(),
+  }).optional(),
+});
+
+export const KeypressStepSchema = z.object({
+  id: z.string(),
+  type: z.literal('keypress'),
+  timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
+  key: z.string(),
+  modifiers: z.array(z.enum(['Alt', 'Control', 'Meta', 'Shift'])).optional(),
+  // Focused element when the key was pressed; absent for page-level shortcuts
+  selector: z.string().optional(),
+  metadata: z.object({
+    dataTestId: z.string().optional(),
+    tagName: z.string().optional(),
+    text: z.string().optional(),
+    ariaLabel: z.string().optional(),
+    placeholder: z.string().optional(),
+    inputType: z.string().optional(),
+    pageTitle: z.string().optional(),
+  }).optional(),
+});
+
+export const DragStepSchema = z.object({
+  id: z.string(),
+  type: z.literal('drag'),
+  timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
+  selector: z.string(),
+  drag: z.object({
+    startX: z.number(),
+    startY: z.number(),
+    endX: z.number(),
+    endY: z.number(),
+    startRatioX: z.number().optional(),
+    endRatioX: z.number().optional(),
+    trackSelector: z.string().optional(),
+    valueAfter: z.string().optional(),
+  }),
+  screenshot: z.string().optional(),
+  metadata: z.object({
+    dataTestId: z.string().optional(),
+    tagName: z.string().optional(),
+    text: z.string().optional(),
+    ariaLabel: z.string().optional(),
+    role: z.string().optional(),
+    inputType: z.string().optional(),
+    nearbyLabel: z.string().optional(),
+    pageTitle: z.string().optional(),
+    valueMin: z.string().optional(),
+    valueMax: z.string().optional(),
+  }).optional(),
+});
+
+// Expected outcome of an assert step. All kinds except textVisible check the step's element.
+export const StepAssertionSchema = z.discriminatedUnion('kind', [
+  // `expected` appears somewhere on the page
+  z.object({ kind: z.literal('textVisible'), expected: z.string() }),
+  z.object({ kind: z.literal('textEquals'), expected: z.string() }),
+  z.object({ kind: z.literal('textContains'), expected: z.string() }),
+  z.object({ kind: z.literal('visible') }),
+  z.object({ kind: z.literal('enabled') }),
+  z.object({ kind: z.literal('attribute'), attribute: z.string(), expected: z.string() }),
+  // First number in the element's text is within `tolerance` of `expected` (a decimal string)
+  z.object({ kind: z.literal('numberWithin'), expected: z.string(), tolerance: z.number() }),
+]);
+
+// Verification picked on the page in assert mode, or added while reviewing the recording
+export const AssertStepSchema = z.object({
+  id: z.string(),
+  type: z.literal('assert'),
+  timestamp: z.number(),
+  comment: z.string().optional(),
+  ...ElementContextShape,
+  assertion: StepAssertionSchema,
+  redaction: StepRedactionSchema.optional(),
+  // Absent for page-level (textVisible) assertions
+  selector: z.string().optional(),
+  metadata: z.object({
+    dataTestId: z.string().optional(),
+    tagName: z.string().optional(),
+    text: z.string().optional(),
+    ariaLabel: z.string().optional(),
+    role: z.string().optional(),
+    inputType: z.string().optional(),
+    pageTitle: z.string().optional(),
+  }).optional(),
 });
 
 export const RecordingStepSchema = z.discriminatedUnion('type', [
@@ -83,6 +277,10 @@ export const RecordingStepSchema = z.discriminatedUnion('type', [
   NavigationStepSchema,
   Web3StepSchema,
   ScrollStepSchema,
+  HoverStepSchema,
+  KeypressStepSchema,
+  DragStepSchema,
+  AssertStepSchema,
 ]);
 
 export const ConsoleLogEntrySchema = z.object({
@@ -91,6 +289,23 @@ export const ConsoleLogEntrySchema = z.object({
   timestamp: z.number(),
 });
 
+// fetch/XHR/WebSocket call the page made while recording, linked to the step that
+// triggered it (stepId). Bodies are truncated by the recorder.
+export const NetworkRequestEntrySchema = z.object({
+  id: z.string(),
+  kind: z.enum(['fetch', 'xhr', 'websocket']),
+  method: z.string(),
+  url: z.string(),
+  status: z.number().optional(),
+  startTime: z.number(),
+  durationMs: z.number().optional(),
+  rpcMethod: z.string().optional(),
+  requestBody: z.string().optional(),
+  responseBody: z.string().optional(),
+  error: z.string().optional(),
+  stepId: z.string().optional(),
+});
+
 export const SuccessSnapshotSchema = z.object({
   visibleText: z.array(z.string()).default([]),
   url: z.string().default(''),
@@ -105,6 +320,12 @@ export const SuccessStateSchema = z.object({
   semanticGoal: z.string().optional(),
 });
 
+// Named row of parameter values; the executor runs the spec once per dataset
+export const RecordingDatasetSchema = z.object({
+  name: z.string(),
+  values: z.record(z.union([z.string(), z.number()])),
+});
+
 export const RecordingSchema = z.object({
   name: z.string(),
   startUrl: z.string(),
@@ -115,8 +336,12 @@ export const RecordingSchema = z.object({
   walletAddress: z.string().nullable().optional(),
   // Console logs captured during recording
   consoleLogs: z.array(ConsoleLogEntrySchema).optional(),
+  // Page network requests captured during recording
+  networkRequests: z.array(NetworkRequestEntrySchema).optional(),
   // Success state captured for verification assertions
   successState: SuccessStateSchema.optional(),
+  // Parameter values to run the spec with (see parameters.ts)
+  datasets: z.array(RecordingDatasetSchema).optional(),
   metadata: z.object({
     browser: z.string().optional(),
     extensionVersion: z.string().optional(),
@@ -126,11 +351,21 @@ export const RecordingSchema = z.object({
 
 export type Web3ProviderInfo = z.infer<typeof Web3ProviderInfoSchema>;
 export type ClickStep = z.infer<typeof ClickStepSchema>;
+export type StepRedaction = z.infer<typeof StepRedactionSchema>;
 export type InputStep = z.infer<typeof InputStepSchema>;
+export type RecordingDataset = z.infer<typeof RecordingDatasetSchema>;
 export type NavigationStep = z.infer<typeof NavigationStepSchema>;
 export type Web3Step = z.infer<typeof Web3StepSchema>;
+export type DecodedWeb3Payload = z.infer<typeof DecodedWeb3PayloadSchema>;
 export type ScrollStep = z.infer<typeof ScrollStepSchema>;
+export type HoverStep = z.infer<typeof HoverStepSchema>;
+export type KeypressStep = z.infer<typeof KeypressStepSchema>;
+export type DragStep = z.infer<typeof DragStepSchema>;
+export type StepAssertion = z.infer<typeof StepAssertionSchema>;
+export type AssertStep = z.infer<typeof AssertStepSchema>;
+export type SelectorCandidate = z.infer<typeof SelectorCandidateSchema>;
 export type RecordingStep = z.infer<typeof RecordingStepSchema>;
+export type NetworkRequestEntry = z.infer<typeof NetworkRequestEntrySchema>;
 export type SuccessSnapshot = z.infer<typeof SuccessSnapshotSchema>;
 export type SuccessState = z.infer<typeof SuccessStateSchema>;
 export type Recording = z.infer<typeof RecordingSchema>;
@@ -230,6 +465,39 @@ export interface GeneratedSpec {
   teardownCode: string[];
 }
 
+// ============================================================================
+// Step Snippets - Named sub-flows shared by a project's specs
+// ============================================================================
+
+export interface StepSnippet {
+  name: string;
+  version: number;
+  /** Signatures of the recorded steps the snippet stands in for (see snippets.ts) */
+  steps: string[];
+  /** Test body statements, unindented */
+  code: string;
+}
+
+// ============================================================================
+// Learned Knowledge - Fixes verified by a project's passing runs
+// ============================================================================
+
+export type LearnedKnowledgeKind = 'selector_fix' | 'obstacle' | 'connection_flow';
+
+export interface LearnedKnowledge {
+  kind: LearnedKnowledgeKind;
+  /** Hostname of the dApp the fix was verified on, without "www." */
+  domain: string;
+  /** What was fixed, e.g. "Step 3: Open trade panel — recorded testid selector matched" */
+  summary: string;
+  /** Step code that failed (selector fixes and obstacles) */
+  before?: string | null;
+  /** Code a passing run verified */
+  after: string;
+  /** Passing runs that produced the same fix */
+  hits?: number;
+}
+
 export interface GenerationOptions {
   targetWallet: 'metamask' | 'rabby' | 'coinbase';
   testFramework: 'playwright' | 'synpress' | 'dappwright';
@@ -238,6 +506,12 @@ export interface GenerationOptions {
   selectorStrategy: 'data-testid' | 'text' | 'role' | 'css' | 'auto';
   /** Per-project dApp context (markdown) — wallet provider, UI structure, verification hints */
   dappContext?: string;
+  /** Pull recorded input values into a params block (default: true) */
+  parameterizeInputs?: boolean;
+  /** Project snippets used in place of generated code for the step sequences they match */
+  snippets?: StepSnippet[];
+  /** Fixes learned from the project's passing runs; entries for the recording's dApp go into the system prompt */
+  learnedKnowledge?: LearnedKnowledge[];
 }
 
 // ============================================================================
@@ -4,6 +4,7 @@ import { writeFileSync, unlinkSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { randomBytes } from 'crypto';
+import { lintSpec, type SpecLintOptions } from './spec-linter.js';
 
 /**
  * Validates TypeScript code by attempting to compile it
@@ -249,9 +250,10 @@ function validateSyntax(code: string): ValidationResult {
 }
 
 /**
- * Validate that the code contains required elements for a dappwright test
+ * Validate that the code contains required elements for a dappwright test,
+ * then run the spec rules (see spec-linter.ts)
  */
-export function validateDappwrightStructure(code: string): ValidationResult {
+export function validateDappwrightStructure(code: string, lintOptions?: SpecLintOptions): ValidationResult {
   const errors: Array<{ line: number; column: number; message: string }> = [];
   const warnings: Array<{ line: number; column: number; message: string }> = [];
 
@@ -273,6 +275,16 @@ export function validateDappwrightStructure(code: string): ValidationResult {
     });
   }
 
+  // Values masked by the recorder must come from environment variables, not the marker
+  const redactedLine = code.split('\n').findIndex((line) => line.includes('[REDACTED]'));
+  if (redactedLine !== -1) {
+    warnings.push({
+      line: redactedLine + 1,
+      column: 1,
+      message: 'Redacted placeholder "[REDACTED]" used as a literal — read the value from process.env instead',
+    });
+  }
+
   // Warn if Synpress imports are present (should have been stripped)
   if (code.includes("from '@synthetixio/synpress'")) {
     warnings.push({
@@ -282,6 +294,19 @@ export function validateDappwrightStructure(code: string): ValidationResult {
     });
   }
 
+  for (const finding of lintSpec(code, lintOptions)) {
+    const entry = {
+      line: finding.line,
+      column: finding.column,
+      message: `${finding.message} (${finding.rule}${finding.fix ? ', fixable' : ''})`,
+    };
+    if (finding.severity === 'error') {
+      errors.push(entry);
+    } else {
+      warnings.push(entry);
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -292,12 +317,12 @@ export function validateDappwrightStructure(code: string): ValidationResult {
 /**
  * Combined validation function
  */
-export async function validateGeneratedCode(code: string): Promise<ValidationResult> {
+export async function validateGeneratedCode(code: string, lintOptions?: SpecLintOptions): Promise<ValidationResult> {
   // First check TypeScript syntax
   const tsResult = await validateTypeScript(code);
 
   // Then check dappwright structure
-  const dappwrightResult = validateDappwrightStructure(code);
+  const dappwrightResult = validateDappwrightStructure(code, lintOptions);
 
   return {
     valid: tsResult.valid && dappwrightResult.valid,
@@ -0,0 +1,141 @@
+/**
+ * Webhook URL checks shared by the API (when a webhook is saved) and the executor (on
+ * every send). Webhooks may only reach public addresses, so a subscriber can't point
+ * one at the services' own network; set WEBHOOK_ALLOW_PRIVATE_URLS=true for subscribers
+ * on that network. Sends resolve the host while connecting and refuse private answers
+ * there, so DNS can't answer differently between the check and the request.
+ */
+
+import { lookup } from 'dns';
+import { lookup as lookupAll } from 'dns/promises';
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+/** Non-public ranges; IPv4-mapped IPv6 addresses match the IPv4 entries */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebhookPostOptions {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+function allowsPrivateUrls(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+function isPrivateAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function privateAddressError(address: string): string {
+  return `Webhook URL resolves to a private address (${address})`;
+}
+
+/**
+ * The URL as a http(s) URL and its bare host (IPv6 without brackets), or why it isn't one
+ */
+function parseWebhookUrl(url: string): { parsed: URL; host: string } | string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL must be an http or https URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Webhook URL must be an http or https URL';
+  }
+  return { parsed, host: parsed.hostname.replace(/^\[|\]$/g, '') };
+}
+
+/**
+ * dns.lookup for webhook connections: fails when any address the host resolves to is
+ * private, and otherwise hands the socket exactly the addresses it checked
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked) {
+      callback(new Error(privateAddressError(blocked.address)), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Why a webhook URL may not be called, or null when it may: it must be http(s) and
+ * resolve only to public addresses.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const target = parseWebhookUrl(url);
+  if (typeof target === 'string') {
+    return target;
+  }
+  if (allowsPrivateUrls()) {
+    return null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(target.host)
+      ? [target.host]
+      : (await lookupAll(target.host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return `Webhook host ${target.host} does not resolve`;
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? privateAddressError(blocked) : null;
+}
+
+/**
+ * POST to a webhook URL and resolve with the response status. Redirects are not
+ * followed and the response body is discarded. Rejects when the URL is refused, the
+ * host resolves to a private address at connect time, or the request fails or times out.
+ */
+export function postWebhook(url: string, options: WebhookPostOptions): Promise<number> {
+  const target = parseWebhookUrl(url);
+  if (typeof target === 'string') {
+    return Promise.reject(new Error(target));
+  }
+  // IP literals are connected to without a lookup, so they are checked here
+  if (!allowsPrivateUrls() && isIP(target.host) && isPrivateAddress(target.host)) {
+    return Promise.reject(new Error(privateAddressError(target.host)));
+  }
+
+  const send = target.parsed.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const request = send(target.parsed, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body).toString() },
+      signal: AbortSignal.timeout(options.timeoutMs),
+      ...(!allowsPrivateUrls() && { lookup: publicLookup }),
+    }, (response: IncomingMessage) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(options.body);
+  });
+}
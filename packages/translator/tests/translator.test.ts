@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { readFileSync } from 'fs';
+import { readFileSync, readdirSync, mkdtempSync, rmSync } from 'fs';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -7,10 +10,34 @@ import {
   RecordingSchema,
   type Recording,
   type AnalysisResult,
+  type LearnedKnowledge,
 } from '../src/types.js';
 import { analyzeRecording, RecordingAnalyzer } from '../src/analyzer.js';
 import { validateTypeScript, validateDappwrightStructure } from '../src/validator.js';
+import { lintSpec, applySpecFixes } from '../src/spec-linter.js';
+import { lintRecording, applyRecordingFixes } from '../src/recording-linter.js';
+import { buildSpecExport, toSynpress } from '../src/exporter.js';
+import { buildJUnitReport, buildCtrfReport, type GateSuiteRun } from '../src/ci-gate.js';
 import { detectClarifications } from '../src/clarification.js';
+import {
+  buildLocatorExpression,
+  buildInteractionAction,
+  buildAssertionAction,
+  rankSelectorCandidates,
+  selectResponseWaits,
+  buildResponseWait,
+} from '../src/step-actions.js';
+import { createTemplateGenerator } from '../src/template-generator.js';
+import { createLLMProvider, getModelPricing, isAllowedBaseUrl, resolveProviderConfig, type LLMMessage } from '../src/llm-provider.js';
+import { CassetteMissError, getCassetteKey } from '../src/cassette.js';
+import { CodeGenerator } from '../src/code-generator.js';
+import { extractSpecParameters, buildParameterBlock } from '../src/parameters.js';
+import { segmentRecording, sliceRecording } from '../src/segmenter.js';
+import { generateSegmentCode } from '../src/code-generator.js';
+import { buildSnippetSignature, findSnippetMatches, applySnippets, extractSnippetBlocks } from '../src/snippets.js';
+import { knowledgeFingerprint, selectLearnedKnowledge } from '../src/learned-knowledge.js';
+import { createPromptBuilder } from '../src/prompt-builder.js';
+import { checkWebhookUrl, postWebhook } from '../src/webhook-url.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -100,6 +127,26 @@ describe('RecordingSchema', () => {
     const result = RecordingSchema.safeParse(minimal);
     expect(result.success).toBe(true);
   });
+
+  it('should accept hover, keypress and drag steps', () => {
+    const interactions = {
+      name: 'Interactions',
+      startUrl: 'https://example.com',
+      steps: [
+        { id: 'step-1', type: 'hover', timestamp: 1000, selector: '[aria-haspopup="menu"]' },
+        { id: 'step-2', type: 'keypress', timestamp: 2000, key: 'K', modifiers: ['Control'] },
+        {
+          id: 'step-3',
+          type: 'drag',
+          timestamp: 3000,
+          selector: '[role="slider"]',
+          drag: { startX: 10, startY: 5, endX: 90, endY: 5, startRatioX: 0.1, endRatioX: 0.9, valueAfter: '25' },
+        },
+      ],
+    };
+    const result = RecordingSchema.safeParse(interactions);
+    expect(result.success).toBe(true);
+  });
 });
 
 describe('RecordingAnalyzer', () => {
@@ -153,6 +200,38 @@ describe('RecordingAnalyzer', () => {
       expect(networkPatterns.length).toBe(1);
     });
 
+    it('should detect wallet-initiated network switch from chainChanged events', () => {
+      const recording: Recording = {
+        name: 'Wallet Network Switch Test',
+        startUrl: 'https://example.com',
+        steps: [
+          {
+            id: 'step-1',
+            type: 'web3',
+            timestamp: 1000,
+            web3Method: 'chainChanged',
+            chainId: 8453,
+            web3Event: { name: 'chainChanged', before: '0x1', after: '0x2105' },
+          },
+          {
+            id: 'step-2',
+            type: 'web3',
+            timestamp: 1500,
+            web3Method: 'eth_chainId',
+            web3Result: '0x2105',
+            chainId: 8453,
+          },
+        ],
+      };
+
+      const analysis = analyzeRecording(recording);
+      const networkPatterns = analysis.patterns.filter(p => p.type === 'network_switch');
+
+      expect(networkPatterns.length).toBe(1);
+      expect(networkPatterns[0].metadata).toMatchObject({ chainId: 8453, fromChain: 1, walletInitiated: true });
+      expect(analysis.detectedChainId).toBe(1);
+    });
+
     it('should detect trade pattern', () => {
       const recordingWithTrade: Recording = {
         name: 'Trade Test',
@@ -182,6 +261,819 @@ describe('RecordingAnalyzer', () => {
 
       expect(tradePatterns.length).toBe(1);
     });
+
+    it('should classify swaps and approvals from decoded calldata', () => {
+      const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+      const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+      const recording: Recording = {
+        name: 'Decoded Swap Test',
+        startUrl: 'https://example.com',
+        steps: [
+          {
+            id: 'step-1',
+            type: 'click',
+            timestamp: 1000,
+            selector: '#swap-button',
+            metadata: { tagName: 'button', text: 'Buy' },
+          },
+          {
+            id: 'step-2',
+            type: 'web3',
+            timestamp: 2000,
+            web3Method: 'eth_sendTransaction',
+            web3Decoded: {
+              source: 'calldata',
+              protocol: 'Uniswap V3',
+              functionName: 'exactInputSingle',
+              action: 'swap',
+              args: {},
+              tokens: [
+                { token: usdc, amount: '1000000', direction: 'in' },
+                { token: weth, amount: '400000000000000', direction: 'out' },
+              ],
+            },
+          },
+          {
+            id: 'step-3',
+            type: 'web3',
+            timestamp: 3000,
+            web3Method: 'eth_signTypedData_v4',
+            web3Decoded: {
+              source: 'typedData',
+              protocol: 'Permit2',
+              functionName: 'PermitSingle',
+              action: 'permit',
+              args: {},
+              tokens: [{ token: usdc, amount: '1000000', direction: 'approve' }],
+              spender: '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad',
+            },
+          },
+        ],
+      };
+
+      const analysis = analyzeRecording(recording);
+      const swap = analysis.patterns.find(p => p.type === 'token_swap');
+      const approve = analysis.patterns.find(p => p.type === 'wallet_approve');
+
+      expect(analysis.patterns.some(p => p.type === 'trade_open')).toBe(false);
+      expect(swap).toMatchObject({ startIndex: 0, endIndex: 1, metadata: { functionName: 'exactInputSingle', amount: '1000000' } });
+      expect(approve?.startIndex).toBe(2);
+      expect(approve?.metadata).toMatchObject({ protocol: 'Permit2', spender: '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad' });
+    });
+
+    it('should detect a single input submitted with Enter as a form fill', () => {
+      const recordingWithSearch: Recording = {
+        name: 'Search Test',
+        startUrl: 'https://example.com',
+        steps: [
+          {
+            id: 'step-1',
+            type: 'input',
+            timestamp: 1000,
+            selector: 'input[name="search"]',
+            value: 'USDC',
+          },
+          {
+            id: 'step-2',
+            type: 'keypress',
+            timestamp: 1500,
+            key: 'Enter',
+            selector: 'input[name="search"]',
+          },
+        ],
+      };
+
+      const analysis = analyzeRecording(recordingWithSearch);
+      const formPatterns = analysis.patterns.filter(p => p.type === 'form_fill');
+
+      expect(formPatterns.length).toBe(1);
+      expect(formPatterns[0].metadata?.submittedWith).toBe('Enter');
+    });
+  });
+});
+
+describe('Step actions', () => {
+  it('should scope locators to the recorded frame chain and shadow hosts', () => {
+    const locator = buildLocatorExpression(
+      'wui-list-wallet[name="MetaMask"]',
+      { dataTestId: 'wallet-selector-metamask' },
+      { framePath: ['iframe[src^="https://verify.walletconnect.com"]'], shadowPath: ['w3m-modal', 'w3m-connect-view'] }
+    );
+
+    const scope = `page.frameLocator('iframe[src^="https://verify.walletconnect.com"]').locator('w3m-modal').locator('w3m-connect-view')`;
+    expect(locator).toBe(
+      `${scope}.getByTestId('wallet-selector-metamask').or(${scope}.locator('wui-list-wallet[name="MetaMask"]')).first()`
+    );
+  });
+
+  it('should rank selector candidates by uniqueness, then the configured strategy', () => {
+    const candidates = [
+      { strategy: 'role' as const, selector: '', role: 'button', name: 'Swap', matchCount: 1, score: 0.9 },
+      { strategy: 'css' as const, selector: 'form > button', matchCount: 1, score: 0.6 },
+      { strategy: 'testid' as const, selector: '[data-testid="swap"]', matchCount: 3, score: 0.33 },
+    ];
+
+    expect(rankSelectorCandidates(candidates).map((c) => c.strategy)).toEqual(['role', 'css', 'testid']);
+    expect(rankSelectorCandidates(candidates, 'css').map((c) => c.strategy)).toEqual(['css', 'role', 'testid']);
+  });
+
+  it('should keep frame context when parsing recordings', () => {
+    const result = RecordingSchema.parse({
+      name: 'Frame',
+      startUrl: 'https://example.com',
+      steps: [
+        { id: 'step-1', type: 'hover', timestamp: 1000, selector: 'button.menu', framePath: ['iframe#widget'] },
+      ],
+    });
+
+    expect(buildInteractionAction(result.steps[0])[0]).toBe(
+      `await page.frameLocator('iframe#widget').locator('button.menu').first().hover()`
+    );
+  });
+
+  it('should keep step comments and map manual assertions to expect()', () => {
+    const result = RecordingSchema.parse({
+      name: 'Reviewed',
+      startUrl: 'https://example.com',
+      steps: [
+        { id: 'step-1', type: 'input', timestamp: 1000, selector: '#amount', value: '0.1', comment: 'Use a small amount' },
+        { id: 'step-2', type: 'assert', timestamp: 2000, assertion: { kind: 'textVisible', expected: "Order's filled" } },
+      ],
+    });
+
+    expect(result.steps[0].comment).toBe('Use a small amount');
+    const assertStep = result.steps[1];
+    if (assertStep.type !== 'assert') throw new Error('expected assert step');
+    expect(buildAssertionAction(assertStep)).toEqual([
+      `await expect(page.getByText('Order\\'s filled').first()).toBeVisible({ timeout: 10000 })`,
+    ]);
+  });
+
+  it('should map element assertions picked in assert mode to expect() on the step locator', () => {
+    const result = RecordingSchema.parse({
+      name: 'Assert mode',
+      startUrl: 'https://example.com',
+      steps: [
+        {
+          id: 'step-1', type: 'assert', timestamp: 1000, selector: '#status',
+          assertion: { kind: 'textContains', expected: 'Filled' },
+        },
+        {
+          id: 'step-2', type: 'assert', timestamp: 2000, selector: '[data-testid="balance"]',
+          metadata: { dataTestId: 'balance' },
+          assertion: { kind: 'numberWithin', expected: '1234.5', tolerance: 0.5 },
+        },
+      ],
+    });
+
+    const [contains, balance] = result.steps;
+    if (contains.type !== 'assert' || balance.type !== 'assert') throw new Error('expected assert steps');
+
+    expect(buildAssertionAction(contains)).toEqual([
+      `await expect(page.locator('#status').first()).toContainText('Filled', { timeout: 10000 })`,
+    ]);
+
+    const code = buildAssertionAction(balance).join('\n');
+    expect(code).toContain(`page.getByTestId('balance')`);
+    expect(code).toContain('- 1234.5) : Infinity');
+    expect(code).toContain('.toBeLessThanOrEqual(0.5)');
+    // The emitted regex parses displayed balances the way the recorder does
+    const regex = new Function(`return ${code.match(/text\.match\((.+)\)$/m)![1]}`)() as RegExp;
+    expect('1,234.9 USDC'.match(regex)![0]).toBe('1,234.9');
+  });
+
+  it('should replay slider drags against the recorded track, in a block of their own', () => {
+    const result = RecordingSchema.parse({
+      name: 'Slider',
+      startUrl: 'https://example.com',
+      steps: [
+        {
+          id: 'step-1', type: 'drag', timestamp: 1000, selector: '#leverage [role="slider"]',
+          drag: { startX: 100, startY: 5, endX: 300, endY: 5, startRatioX: 0.1, endRatioX: 0.5, trackSelector: '#leverage .track', valueAfter: '25' },
+          metadata: { role: 'slider' },
+        },
+      ],
+    });
+
+    const lines = buildInteractionAction(result.steps[0]);
+    expect(lines[0]).toBe('{');
+    expect(lines[1]).toBe(`  const dragBox = await page.locator('#leverage .track').first().boundingBox()`);
+    expect(lines[5]).toContain('dragBox.width * 0.5');
+    expect(lines[7]).toBe('}');
+    expect(lines[8]).toBe(`await expect(page.locator('#leverage [role="slider"]').first()).toHaveAttribute('aria-valuenow', '25')`);
+  });
+
+  it('should build waitForResponse code for API calls a step triggered', () => {
+    const { networkRequests = [] } = RecordingSchema.parse({
+      name: 'Network',
+      startUrl: 'https://example.com',
+      steps: [],
+      networkRequests: [
+        { id: 'r1', kind: 'fetch', method: 'GET', url: 'https://api.example.com/quote?amount=1', status: 200, startTime: 1010, stepId: 'step-1' },
+        { id: 'r2', kind: 'fetch', method: 'POST', url: 'https://api.example.com/orders/12345/submit', status: 201, startTime: 1020, stepId: 'step-1' },
+        { id: 'r3', kind: 'fetch', method: 'POST', url: 'https://rpc.example.com', status: 200, startTime: 1030, rpcMethod: 'eth_call', stepId: 'step-1' },
+        { id: 'r4', kind: 'xhr', method: 'POST', url: 'https://api.segment.io/v1/t', status: 200, startTime: 1040, stepId: 'step-1' },
+        { id: 'r5', kind: 'fetch', method: 'GET', url: 'https://api.example.com/quote?amount=2', status: 500, startTime: 1050, stepId: 'step-1' },
+      ],
+    });
+
+    const waits = selectResponseWaits(networkRequests, 'step-1');
+    expect(waits.map((w) => w.id)).toEqual(['r2', 'r1']);
+
+    const code = buildResponseWait(waits[0], 'step1Response')!;
+    expect(code.after).toBe('await step1Response');
+    expect(code.before).toContain(`response.request().method() === 'POST', { timeout: 15000 })`);
+
+    // The emitted pattern ignores ids and query strings but not other paths
+    const regex = new Function(`return ${code.before.match(/=> (\/.+\/)\.test/)![1]}`)() as RegExp;
+    expect(regex.test('https://api.example.com/orders/67890/submit?x=1')).toBe(true);
+    expect(regex.test('https://api.example.com/orders/67890/cancel')).toBe(false);
+  });
+
+  it('should read redacted values from environment variables instead of literals', () => {
+    const result = RecordingSchema.parse({
+      name: 'Redacted',
+      startUrl: 'https://example.com',
+      steps: [
+        {
+          id: 'step-1', type: 'input', timestamp: 1000, selector: '#password', value: '[REDACTED]',
+          redaction: { param: 'PASSWORD', reason: 'password' },
+        },
+        {
+          id: 'step-2', type: 'assert', timestamp: 2000, selector: '#account-email',
+          assertion: { kind: 'textEquals', expected: '[REDACTED]' },
+          redaction: { param: 'USER_EMAIL', reason: 'rule' },
+        },
+      ],
+    });
+
+    const [input, assertStep] = result.steps;
+    if (input.type !== 'input' || assertStep.type !== 'assert') throw new Error('expected input and assert steps');
+    expect(input.redaction).toEqual({ param: 'PASSWORD', reason: 'password' });
+    expect(buildAssertionAction(assertStep)).toEqual([
+      `await expect(page.locator('#account-email').first()).toHaveText(process.env.USER_EMAIL ?? '', { timeout: 10000 })`,
+    ]);
+
+    const validation = validateDappwrightStructure(`import { test, expect } from '../../fixtures/wallet.fixture'
+
+test('login', async ({ page }) => {
+  await page.locator('#password').fill('[REDACTED]')
+})`);
+    expect(validation.warnings.some((w) => w.line === 4 && w.message.includes('process.env'))).toBe(true);
+  });
+});
+
+describe('Template generator', () => {
+  it('should map steps to fixture calls deterministically without an API key', async () => {
+    const recording: Recording = {
+      ...sampleRecording,
+      steps: [
+        ...sampleRecording.steps,
+        {
+          id: 'step-7', type: 'input', timestamp: 7000, selector: '#amount', value: '0.1',
+          metadata: { tagName: 'input', placeholder: 'Amount' },
+        },
+        { id: 'step-8', type: 'web3', timestamp: 8000, web3Method: 'eth_sendTransaction' },
+      ],
+    };
+    const generator = createTemplateGenerator({ validateOutput: false });
+
+    const first = await generator.generate(analyzeRecording(recording));
+    const second = await generator.generate(analyzeRecording(recording));
+
+    expect(first.success).toBe(true);
+    expect(first.code).toBe(second.code);
+    expect(first.code).toContain(`import { test, expect, raceApprove, raceSign, raceConfirmTransaction } from '../../fixtures/wallet.fixture'`);
+    expect(first.code).toContain(`await page.goto('https://example.com')`);
+    expect(first.code?.match(/await raceApprove\(/g)).toHaveLength(1);
+    expect(first.code).toContain(`.fill(String(params.amount))`);
+    expect(first.code).toContain('await raceConfirmTransaction(wallet, page.context(), page)');
+    expect(first.code).toMatch(/STEP 1:/);
+    expect(first.code).not.toContain('eth_chainId');
+  });
+  it('should generate a spec that compiles with several steps of the same kind', async () => {
+    const drag = (id: string, timestamp: number, endRatioX: number) => ({
+      id, type: 'drag' as const, timestamp, selector: '[role="slider"]',
+      drag: { startX: 10, startY: 5, endX: 90, endY: 5, startRatioX: 0.1, endRatioX, trackSelector: '.slider-track' },
+      metadata: { role: 'slider' },
+    });
+    const recording: Recording = {
+      ...sampleRecording,
+      steps: [
+        { id: 'step-1', type: 'input', timestamp: 1000, selector: '#size', value: '10', metadata: { tagName: 'input', placeholder: 'Size' } },
+        { id: 'step-2', type: 'input', timestamp: 2000, selector: '#price', value: '2500', metadata: { tagName: 'input', placeholder: 'Price' } },
+        drag('step-3', 3000, 0.5),
+        drag('step-4', 4000, 0.8),
+        { id: 'step-5', type: 'click', timestamp: 5000, selector: '#quote', metadata: { tagName: 'button', text: 'Quote' } },
+        { id: 'step-6', type: 'click', timestamp: 6000, selector: '#submit', metadata: { tagName: 'button', text: 'Submit' } },
+      ],
+      networkRequests: [
+        { id: 'r1', kind: 'fetch', method: 'GET', url: 'https://api.example.com/quote', status: 200, startTime: 5010, stepId: 'step-5' },
+        { id: 'r2', kind: 'fetch', method: 'POST', url: 'https://api.example.com/orders', status: 201, startTime: 6010, stepId: 'step-6' },
+      ],
+    };
+
+    const result = await createTemplateGenerator().generate(analyzeRecording(recording));
+
+    expect(result.errors).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.code?.match(/const dragBox = /g)).toHaveLength(2);
+    expect(result.code?.match(/await step\d+Response\b/g)).toHaveLength(2);
+    expect(result.code?.match(/\.fill\(String\(params\.\w+\)\)/g)).toHaveLength(2);
+  });
+});
+
+describe('Spec parameters', () => {
+  it('should name recorded inputs, type them and check datasets against them', () => {
+    const recording: Recording = {
+      ...sampleRecording,
+      steps: [
+        { id: 'step-1', type: 'input', timestamp: 1000, selector: '#size', value: '10', metadata: { dataTestId: 'trade-size-input' } },
+        { id: 'step-2', type: 'input', timestamp: 2000, selector: '#pair', value: 'ETH/USDC', parameter: 'pair' },
+        { id: 'step-3', type: 'input', timestamp: 3000, selector: '#size', value: '20', metadata: { dataTestId: 'trade-size-input' } },
+        { id: 'step-4', type: 'input', timestamp: 4000, selector: '#pw', value: '[REDACTED]', redaction: { param: 'PASSWORD', reason: 'password' } },
+      ],
+      datasets: [
+        { name: 'small', values: { tradeSizeInput: 5, pair: 'BTC/USDC' } },
+        { name: 'small', values: { leverage: 50 } },
+      ],
+    };
+
+    const params = extractSpecParameters(recording);
+    expect(params.map((p) => [p.name, p.type, p.defaultValue])).toEqual([
+      ['tradeSizeInput', 'number', '10'],
+      ['pair', 'string', 'ETH/USDC'],
+      ['tradeSizeInput2', 'number', '20'],
+    ]);
+    expect(buildParameterBlock(params)).toContain(`  pair: 'ETH/USDC',`);
+    expect(buildParameterBlock(params)).toContain(`  ...JSON.parse(process.env.TEST_PARAMS || '{}'),`);
+
+    expect(analyzeRecording(recording).warnings).toEqual([
+      'Duplicate dataset "small"',
+      'Dataset "small" sets unknown parameter "leverage" (parameters: tradeSizeInput, pair, tradeSizeInput2)',
+    ]);
+  });
+});
+
+describe('Recording segmentation', () => {
+  const decoded = (action: 'approve' | 'deposit' | 'withdraw') => ({
+    source: 'calldata' as const, protocol: 'Vault', functionName: action, action, args: {},
+    tokens: [{ token: '0xa0b8', amount: '100', direction: 'out' as const }],
+  });
+  const recording: Recording = {
+    name: 'Vault flow',
+    startUrl: 'https://vault.example/app',
+    walletConnected: false,
+    steps: [
+      { id: 's0', type: 'click', timestamp: 0, selector: '#connect', metadata: { text: 'Connect Wallet' } },
+      { id: 's1', type: 'web3', timestamp: 1, web3Method: 'eth_requestAccounts' },
+      { id: 's2', type: 'input', timestamp: 2, selector: '#amount', value: '100', parameter: 'amount' },
+      { id: 's3', type: 'click', timestamp: 3, selector: '#approve', metadata: { text: 'Approve' } },
+      { id: 's4', type: 'web3', timestamp: 4, web3Method: 'eth_sendTransaction', web3Decoded: decoded('approve') },
+      { id: 's5', type: 'click', timestamp: 5, selector: '#deposit', metadata: { text: 'Deposit' } },
+      { id: 's6', type: 'web3', timestamp: 6, web3Method: 'eth_sendTransaction', web3Decoded: decoded('deposit') },
+      { id: 's7', type: 'navigation', timestamp: 7, url: 'https://vault.example/portfolio' },
+      { id: 's8', type: 'click', timestamp: 8, selector: '#withdraw', metadata: { text: 'Withdraw' } },
+      { id: 's9', type: 'web3', timestamp: 9, web3Method: 'eth_sendTransaction', web3Decoded: decoded('withdraw') },
+    ],
+    datasets: [{ name: 'large', values: { amount: 5000 } }],
+  };
+
+  it('should split at wallet actions and page changes and declare preconditions', () => {
+    const segments = segmentRecording(analyzeRecording(recording));
+
+    expect(segments.map((s) => [s.id, s.startIndex, s.endIndex])).toEqual([
+      ['connect', 0, 1],
+      ['approve', 2, 4],
+      ['deposit', 5, 6],
+      ['withdraw', 7, 9],
+    ]);
+    expect(segments[0].preconditions).toEqual([]);
+    expect(segments[2].preconditions).toEqual([
+      { type: 'wallet_connected' },
+      { type: 'segment', segmentId: 'approve', reason: 'uses on-chain state left by "approve"' },
+    ]);
+    expect(segments[3].startUrl).toBe('https://vault.example/portfolio');
+
+    const approve = sliceRecording(recording, 2, 4);
+    expect(approve.steps.map((s) => s.id)).toEqual(['s2', 's3', 's4']);
+    expect(approve.datasets).toEqual([{ name: 'large', values: { amount: 5000 } }]);
+    expect(sliceRecording(recording, 7, 9).datasets).toEqual([{ name: 'large', values: {} }]);
+  });
+
+  it('should generate a standalone spec per segment', async () => {
+    const analysis = analyzeRecording(recording);
+    const [, , , withdraw] = segmentRecording(analysis);
+
+    const result = await generateSegmentCode(analysis, withdraw, { offline: true, validateOutput: false });
+
+    expect(result.success).toBe(true);
+    expect(result.code).toMatch(/^\/\/ Segment "withdraw": recording steps 7-9\n\/\/ Preconditions: wallet connected; after "deposit"/);
+    expect(result.code).toContain(`await page.goto('https://vault.example/portfolio')`);
+    expect(result.code).toContain(`'Vault flow — withdraw'`);
+    expect(result.code).not.toContain('#approve');
+  });
+});
+
+describe('Step snippets', () => {
+  const openPanel = [
+    { id: 'p1', type: 'click' as const, timestamp: 1, selector: '#trade', metadata: { dataTestId: 'trade-button' } },
+    { id: 'p2', type: 'web3' as const, timestamp: 2, web3Method: 'eth_chainId' },
+    { id: 'p3', type: 'click' as const, timestamp: 3, selector: 'div.pair', metadata: { text: 'ETH/USD' } },
+  ];
+  const snippet = {
+    name: 'open trade panel',
+    version: 1,
+    steps: buildSnippetSignature(openPanel),
+    code: "await page.getByTestId('trade-button').click()\nawait page.getByText('ETH/USD').click()",
+  };
+
+  it('should use a matching snippet in place of generated steps and roll out new versions', async () => {
+    const recording: Recording = {
+      ...sampleRecording,
+      steps: [
+        ...sampleRecording.steps,
+        ...openPanel.map((step) => ({ ...step, id: `x-${step.id}`, timestamp: step.timestamp + 10000 })),
+      ],
+    };
+    expect(snippet.steps).toEqual(['click:trade-button', 'click:ETH/USD']);
+    expect(findSnippetMatches(recording, [snippet]).map((m) => [m.startIndex, m.endIndex])).toEqual([[6, 8]]);
+
+    const result = await createTemplateGenerator({ validateOutput: false, snippets: [snippet] }).generate(analyzeRecording(recording));
+    expect(result.code).toContain([
+      `  // @snippet "open trade panel" v1`,
+      `  await page.getByTestId('trade-button').click()`,
+      `  await page.getByText('ETH/USD').click()`,
+      `  // @end-snippet`,
+    ].join('\n'));
+    expect(result.code).not.toContain('div.pair');
+
+    const v2 = { ...snippet, version: 2, code: "await page.getByRole('button', { name: 'Trade' }).click()" };
+    const rolled = applySnippets(result.code!, [v2]);
+    expect(rolled.updated).toEqual(['open trade panel']);
+    expect(extractSnippetBlocks(rolled.code)).toEqual([{ name: 'open trade panel', version: 2, code: v2.code }]);
+    expect(applySnippets(rolled.code, [v2]).updated).toEqual([]);
+  });
+});
+
+describe('Recording linter', () => {
+  it('should score a recording and apply the suggested cleanups', () => {
+    const recording: Recording = {
+      name: 'Messy recording',
+      startUrl: 'https://example.com',
+      steps: [
+        {
+          id: 's1', type: 'click', timestamp: 1000, selector: 'div div div',
+          selectorCandidates: [{ strategy: 'css', selector: '#open-menu', matchCount: 1, score: 0.7 }],
+        },
+        { id: 's2', type: 'click', timestamp: 1300, selector: 'div div div' },
+        { id: 's3', type: 'input', timestamp: 2000, selector: '#amount', value: '1' },
+        { id: 's4', type: 'input', timestamp: 2100, selector: '#amount', value: '10' },
+        { id: 's5', type: 'web3', timestamp: 3000, web3Method: 'eth_sendTransaction', web3Error: { message: 'User rejected', code: 4001 } },
+        { id: 's6', type: 'web3', timestamp: 4000, web3Method: 'eth_sendTransaction', screenshot: 'A'.repeat(500 * 1024) },
+      ],
+      networkRequests: [{ id: 'r1', kind: 'fetch', method: 'POST', url: 'https://rpc.example.com', startTime: 3000, stepId: 's5' }],
+    };
+
+    const report = lintRecording(recording);
+    expect(report.findings.map((f) => f.id)).toEqual([
+      'generic-selector:s1',
+      'generic-selector:s2',
+      'duplicate-click:s2',
+      'input-without-blur:s3',
+      'web3-error:s5',
+      'pending-transaction:s6',
+      'oversized-screenshot:s6',
+      'missing-success-state:recording',
+    ]);
+    expect(report.findings[1].fix).toBeUndefined();
+    expect(report.score).toBe(100 - 20 - 8 * 6 - 2);
+
+    const { recording: fixed, applied } = applyRecordingFixes(recording, report.findings);
+    expect(applied).toHaveLength(5);
+    expect(fixed.steps.map((s) => s.id)).toEqual(['s1', 's4', 's6']);
+    expect(fixed.steps[0]).toMatchObject({ selector: '#open-menu' });
+    expect('screenshot' in fixed.steps[2]).toBe(false);
+    expect(fixed.networkRequests).toEqual([]);
+    expect(lintRecording(fixed).findings.map((f) => f.rule)).toEqual(['pending-transaction', 'missing-success-state']);
+  });
+});
+
+describe('Spec export', () => {
+  const spec = readFileSync(join(__dirname, '..', 'knowledge', 'examples', 'simple-connect', 'spec.ts'), 'utf-8');
+  const projectDir = join(__dirname, '..', '..', '..', 'dappwright-test');
+
+  it('should export a standalone project for dappwright and Synpress', () => {
+    const exported = buildSpecExport(spec.replace('../../fixtures/', '../fixtures/'), { projectDir });
+    expect(exported.name).toBe('connect-wallet-to-dapp');
+    expect(exported.files.map((f) => f.path)).toEqual([
+      'package.json',
+      'playwright.config.ts',
+      'tsconfig.json',
+      'environment.d.ts',
+      'fixtures/wallet.fixture.ts',
+      'test/playwright/connect-wallet-to-dapp.spec.ts',
+      '.env.example',
+      '.gitignore',
+      'README.md',
+    ]);
+    expect(JSON.parse(exported.files[0].content).name).toBe('connect-wallet-to-dapp');
+    expect(exported.files[5].content).toContain("from '../../fixtures/wallet.fixture'");
+
+    const synpress = toSynpress(spec.replace(
+      'await raceApprove(wallet, page.context(), page)',
+      'await raceApprove(wallet, page.context(), page, { skipSiwe: true })\n  await wallet.switchNetwork(\'Base\')\n  await wallet.confirmNetworkSwitch()\n  await wallet.createAccount()'
+    ));
+    expect(synpress.code).toContain('const test = testWithSynpress(metaMaskFixtures(basicSetup))');
+    expect(synpress.code).toContain("async ({ context, page, metamaskPage, extensionId }) => {\n  const metamask = new MetaMask(");
+    expect(synpress.code).toContain('await metamask.connectToDapp()');
+    expect(synpress.code).toContain("await metamask.switchNetwork('Base')\n  await metamask.approveSwitchNetwork()");
+    expect(synpress.code).not.toContain('wallet.fixture');
+    expect(synpress.warnings).toEqual(['wallet.createAccount() has no Synpress equivalent; it was kept as metamask.createAccount()']);
+
+    const synpressExport = buildSpecExport(spec, { format: 'synpress', name: 'My Export', projectDir });
+    expect(synpressExport.files.map((f) => f.path)).toContain('test/wallet-setup/basic.setup.ts');
+    expect(synpressExport.files.map((f) => f.path)).not.toContain('fixtures/wallet.fixture.ts');
+    expect(synpressExport.files.find((f) => f.path === 'README.md')?.content).toContain('## Review Before Running');
+  });
+});
+
+describe('CI gate reports', () => {
+  const suiteRun: GateSuiteRun = {
+    id: 'suite-1',
+    projectId: 'project-1',
+    project: { id: 'project-1', name: 'Swap & Bridge' },
+    status: 'FAILED',
+    totalTests: 3,
+    passedTests: 1,
+    failedTests: 1,
+    durationMs: 42000,
+    error: null,
+    dappUrl: 'https://preview.example.com',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    startedAt: '2026-01-01T00:00:01.000Z',
+    completedAt: '2026-01-01T00:00:43.000Z',
+    testRuns: [
+      {
+        id: 'run-1',
+        testSpecId: 'spec-1',
+        recordingName: 'Connect wallet',
+        status: 'PASSED',
+        durationMs: 12000,
+        error: null,
+        startedAt: '2026-01-01T00:00:01.000Z',
+        completedAt: '2026-01-01T00:00:13.000Z',
+        artifacts: [],
+      },
+      {
+        id: 'run-2',
+        testSpecId: 'spec-2',
+        recordingName: 'Swap <ETH> for "USDC"',
+        status: 'FAILED',
+        durationMs: 30000,
+        error: 'Timeout waiting for selector\n    at \u001b[2mspec.ts:12\u001b[22m\u0007',
+        startedAt: '2026-01-01T00:00:13.000Z',
+        completedAt: '2026-01-01T00:00:43.000Z',
+        artifacts: [{ id: 'a1', type: 'SCREENSHOT', name: 'failure.png', storagePath: 'runs/run-2/failure.png' }],
+      },
+      {
+        id: 'run-3',
+        testSpecId: 'spec-3',
+        recordingName: null,
+        status: 'CANCELLED',
+        durationMs: null,
+        error: null,
+        startedAt: null,
+        completedAt: null,
+        artifacts: [],
+      },
+    ],
+  };
+  const options = { apiUrl: 'http://api.test/', dashboardUrl: 'http://dash.test' };
+
+  it('should write a JUnit report with escaped failures, skips and artifact links', () => {
+    const xml = buildJUnitReport(suiteRun, options);
+    expect(xml).toContain('<testsuite name="Swap &amp; Bridge" tests="3" failures="1" errors="0" skipped="1" time="42.000"');
+    expect(xml).toContain('<testcase name="Swap &lt;ETH&gt; for &quot;USDC&quot;" classname="Swap &amp; Bridge" time="30.000">');
+    expect(xml).toContain('<failure message="Timeout waiting for selector" type="FAILED">');
+    expect(xml).toContain('Timeout waiting for selector\n    at spec.ts:12</failure>');
+    expect(xml).toContain('[[ATTACHMENT|http://api.test/api/artifacts/runs/run-2/failure.png]]');
+    expect(xml).toContain('Run: http://dash.test/runs/run-2');
+    expect(xml).toContain('<testcase name="spec spec-3"');
+    expect(xml).toContain('<skipped message="Cancelled"/>');
+    expect(xml).toContain('<property name="dappUrl" value="https://preview.example.com"/>');
+  });
+
+  it('should write a CTRF report with durations, errors and attachments', () => {
+    const report = buildCtrfReport(suiteRun, options) as any;
+    expect(report.reportFormat).toBe('CTRF');
+    expect(report.results.summary).toMatchObject({ tests: 3, passed: 1, failed: 1, skipped: 1, pending: 0, other: 0 });
+    expect(report.results.environment.url).toBe('https://preview.example.com');
+
+    const failed = report.results.tests[1];
+    expect(failed).toMatchObject({
+      name: 'Swap <ETH> for "USDC"',
+      status: 'failed',
+      duration: 30000,
+      message: 'Timeout waiting for selector',
+      rawStatus: 'FAILED',
+      extra: { runId: 'run-2', specId: 'spec-2', url: 'http://dash.test/runs/run-2' },
+    });
+    expect(failed.attachments).toEqual([
+      { name: 'failure.png', contentType: 'image/png', path: 'http://api.test/api/artifacts/runs/run-2/failure.png' },
+    ]);
+    expect(report.results.tests[2]).not.toHaveProperty('start');
+  });
+});
+
+describe('Learned knowledge', () => {
+  const entries: LearnedKnowledge[] = [
+    { kind: 'selector_fix', domain: 'example.com', summary: 'Step 2: Open trade panel', before: "await page.locator('#trade').click()", after: "await page.getByTestId('trade-button').click()", hits: 1 },
+    { kind: 'obstacle', domain: 'example.com', summary: 'Step 1: Cleared blocker: cookie banner', after: "await page.getByRole('button', { name: 'Accept' }).click()", hits: 3 },
+    { kind: 'connection_flow', domain: 'app.example.com', summary: 'Wallet connection flow', after: "await page.getByText('Connect Wallet').click()" },
+    { kind: 'selector_fix', domain: 'other.xyz', summary: 'Step 4: Swap', after: "await page.getByText('Swap').click()" },
+  ];
+
+  it('should put the entries for the recording\'s dApp into the system prompt', () => {
+    expect(selectLearnedKnowledge(entries, 'https://www.example.com/trade').map((e) => e.kind)).toEqual(['connection_flow', 'obstacle', 'selector_fix']);
+
+    const prompt = createPromptBuilder(analyzeRecording(sampleRecording), { learnedKnowledge: entries }).buildSystemPrompt();
+    expect(prompt).toContain('## Learned From Passing Runs (example.com)');
+    expect(prompt).toContain("Failed:\n```typescript\nawait page.locator('#trade').click()");
+    expect(prompt).toContain('### Step 1: Cleared blocker: cookie banner (verified 3x)');
+    expect(prompt).not.toContain("getByText('Swap')");
+
+    expect(createPromptBuilder(analyzeRecording(sampleRecording)).buildSystemPrompt()).not.toContain('Learned From Passing Runs');
+
+    const flow = entries[2];
+    expect(knowledgeFingerprint({ ...flow, after: 'changed' })).toBe(knowledgeFingerprint(flow));
+    expect(knowledgeFingerprint({ ...entries[0], after: ' ' + entries[0].after })).toBe(knowledgeFingerprint(entries[0]));
+    expect(knowledgeFingerprint({ ...entries[0], after: 'changed' })).not.toBe(knowledgeFingerprint(entries[0]));
+  });
+});
+
+describe('LLM providers', () => {
+  it('should map tool use and images to an OpenAI-compatible API and price from the config', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      choices: [{
+        message: { content: null, tool_calls: [{ id: 'call-2', function: { name: 'browser_click', arguments: '{"ref":"e5"}' } }] },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 120, completion_tokens: 30, prompt_tokens_details: { cached_tokens: 20 } },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const provider = createLLMProvider({ provider: 'openai-compatible', model: 'qwen2.5', baseUrl: 'http://llm.local/v1/' });
+      const messages: LLMMessage[] = [
+        { role: 'user', content: [{ type: 'image', image: { base64: 'AAAA', mediaType: 'image/png' } }, { type: 'text', text: 'Click Login' }] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call-1', name: 'browser_snapshot', input: {} }] },
+        { role: 'user', content: [{ type: 'tool_result', toolUseId: 'call-1', content: 'button "Login" [e5]' }] },
+      ];
+
+      const response = await provider.complete({
+        system: 'You are a test agent',
+        messages,
+        tools: [{ name: 'browser_click', description: 'Click', inputSchema: { type: 'object', properties: {} } }],
+        maxTokens: 1024,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      const body = JSON.parse(init.body as string);
+      expect(url).toBe('http://llm.local/v1/chat/completions');
+      expect(body.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'tool']);
+      expect(body.messages[1].content[0]).toEqual({ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } });
+      expect(body.messages[2].tool_calls[0].function).toEqual({ name: 'browser_snapshot', arguments: '{}' });
+      expect(body.messages[3]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: 'button "Login" [e5]' });
+      expect(body.tools[0]).toEqual({ type: 'function', function: { name: 'browser_click', description: 'Click', parameters: { type: 'object', properties: {} } } });
+
+      expect(response.stopReason).toBe('tool_use');
+      expect(response.content).toEqual([{ type: 'tool_use', id: 'call-2', name: 'browser_click', input: { ref: 'e5' } }]);
+      expect(response.usage).toEqual({ inputTokens: 100, outputTokens: 30, cacheReadTokens: 20, cacheCreationTokens: 0 });
+      expect(provider.pricing).toEqual({ input: 0, output: 0, cacheRead: 0, cacheWrite: 0 });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(getModelPricing({ provider: 'anthropic', model: 'claude-haiku-4-5-20251001' }).input).toBe(0.8);
+    expect(getModelPricing({ provider: 'openai-compatible', model: 'qwen2.5', pricing: { input: 0.2, output: 0.6 } })).toEqual({ input: 0.2, output: 0.6 });
+  });
+
+  it('should send the env API key only to the env base URL', () => {
+    vi.stubEnv('LLM_BASE_URL', 'http://llm.internal/v1');
+    vi.stubEnv('LLM_API_KEY', 'sk-operator');
+    vi.stubEnv('LLM_ALLOWED_BASE_URLS', 'http://ollama.internal:11434/v1/');
+    try {
+      const openai = { provider: 'openai-compatible' as const };
+      expect(resolveProviderConfig(openai).apiKey).toBe('sk-operator');
+      expect(resolveProviderConfig({ ...openai, baseUrl: 'http://llm.internal/v1/' }).apiKey).toBe('sk-operator');
+      expect(resolveProviderConfig({ ...openai, baseUrl: 'https://attacker.example/v1' }).apiKey).toBeUndefined();
+      expect(resolveProviderConfig({ ...openai, baseUrl: 'https://attacker.example/v1', apiKey: 'sk-own' }).apiKey).toBe('sk-own');
+
+      expect(isAllowedBaseUrl('http://llm.internal/v1')).toBe(true);
+      expect(isAllowedBaseUrl('http://ollama.internal:11434/v1')).toBe(true);
+      expect(isAllowedBaseUrl('https://attacker.example/v1')).toBe(false);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('LLM cassettes', () => {
+  it('should record generation calls and replay them in strict mode without the model', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    const spec = `import { test, expect } from '../../fixtures/wallet.fixture'
+
+test('login', async ({ wallet, page }) => {
+  await page.goto('https://example.com')
+})`;
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      choices: [{ message: { content: '```typescript\n' + spec + '\n```' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const options = { provider: 'openai-compatible' as const, model: 'qwen2.5', baseUrl: 'http://llm.local/v1', validateOutput: false };
+      const analysis = analyzeRecording(sampleRecording);
+
+      const recorded = await new CodeGenerator({ ...options, cassette: { mode: 'record', dir } }).generate(analysis);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(readdirSync(dir)).toHaveLength(1);
+
+      const replayed = await new CodeGenerator({ ...options, cassette: { mode: 'strict', dir } }).generate(analysis);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(replayed.code).toBe(recorded.code);
+
+      // A changed prompt misses the cassette
+      const changed = await new CodeGenerator({ ...options, cassette: { mode: 'strict', dir }, dappContext: 'New context' }).generate(analysis);
+      expect(changed.success).toBe(false);
+      expect(changed.errors?.[0]).toContain('strict mode');
+
+      const provider = createLLMProvider({ provider: 'anthropic', model: 'claude-haiku-4-5-20251001', cassette: { mode: 'strict', dir } });
+      await expect(provider.complete({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 10 })).rejects.toBeInstanceOf(CassetteMissError);
+    } finally {
+      vi.unstubAllGlobals();
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    // Keys ignore line endings and trailing whitespace, not content
+    const request = (text: string) => ({ messages: [{ role: 'user' as const, content: text }], maxTokens: 10 });
+    expect(getCassetteKey('m', request('a  \r\nb'))).toBe(getCassetteKey('m', request('a\nb')));
+    expect(getCassetteKey('m', request('a\nb'))).not.toBe(getCassetteKey('m', request('a\nc')));
+  });
+
+  it('should replay a recorded multi-turn agent session whose screenshots changed', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    const turns = [
+      { id: 'call-1', name: 'browser_click', arguments: '{"ref":"e1"}' },
+      { id: 'call-2', name: 'browser_click', arguments: '{"ref":"e7"}' },
+      { id: 'call-3', name: 'step_complete', arguments: '{"summary":"done"}' },
+    ];
+    const fetchMock = vi.fn();
+    for (const call of turns) {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }] }, finish_reason: 'tool_calls' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      })));
+    }
+    vi.stubGlobal('fetch', fetchMock);
+
+    // A stand-in agent loop: every turn sends the page as it looks right now
+    const runSession = async (mode: 'record' | 'strict', screenshot: (turn: number) => string) => {
+      const provider = createLLMProvider({
+        provider: 'openai-compatible', model: 'qwen2.5', baseUrl: 'http://llm.local/v1',
+        cassette: { mode, dir, session: 'agent' },
+      });
+      const messages: LLMMessage[] = [{ role: 'user', content: 'Swap 1 ETH for USDC' }];
+      const calls: string[] = [];
+      for (let turn = 0; turn < turns.length; turn++) {
+        const response = await provider.complete({ messages, maxTokens: 100 });
+        const toolUse = response.content.find((b) => b.type === 'tool_use');
+        if (toolUse?.type !== 'tool_use') throw new Error('expected a tool call');
+        calls.push(toolUse.name);
+        messages.push({ role: 'assistant', content: response.content });
+        messages.push({ role: 'user', content: [
+          { type: 'tool_result', toolUseId: toolUse.id, content: `Clicked at ${Date.now()}` },
+          { type: 'image', image: { base64: screenshot(turn), mediaType: 'image/png' } },
+        ] });
+      }
+      return calls;
+    };
+
+    try {
+      const recorded = await runSession('record', (turn) => `recorded-${turn}`);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(readdirSync(dir).sort()).toEqual(['agent-001.json', 'agent-002.json', 'agent-003.json']);
+
+      const replayed = await runSession('strict', (turn) => `replayed-${turn}`);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(replayed).toEqual(recorded);
+      expect(replayed).toEqual(['browser_click', 'browser_click', 'step_complete']);
+    } finally {
+      vi.unstubAllGlobals();
+      rmSync(dir, { recursive: true, force: true });
+    }
   });
 });
 
@@ -254,6 +1146,47 @@ test('my test', async ({ wallet, page }) => {
       expect(result.warnings.some(w => w.message.includes('Synpress import detected'))).toBe(true);
     });
   });
+
+  describe('lintSpec', () => {
+    it('should locate rule violations and fix the fixable ones', () => {
+      const spec = `import { test, expect, raceSwap } from '../../fixtures/wallet.fixture'
+
+test('swap', async ({ wallet, page, metamask }) => {
+  // ========================================
+  // STEP 1: Open dApp
+  // ========================================
+  await page.goto('https://example.com')
+  // Step 3 - Connect
+  page.getByRole('button', { name: 'Connect' }).click()
+  await page.waitForTimeout(10000)
+  await expect(page.getByText('0x1234567890abcdef1234567890abcdef12345678')).toBeVisible()
+})`;
+
+      const findings = lintSpec(spec);
+      const at = (rule: string) => findings.filter((f) => f.rule === rule).map((f) => [f.line, f.column]);
+      expect(at('unknown-fixture')).toEqual([[1, 24], [3, 37]]);
+      expect(at('step-markers')).toEqual([[8, 3], [8, 3]]);
+      expect(at('unawaited-action')).toEqual([[9, 3]]);
+      expect(at('long-wait')).toEqual([[10, 9]]);
+      expect(at('hardcoded-address')).toEqual([[11, 31]]);
+
+      let code = spec;
+      for (let pass = 0; pass < 3; pass++) {
+        code = applySpecFixes(code, lintSpec(code)).code;
+      }
+      expect(code).toContain("import { test, expect } from '../../fixtures/wallet.fixture'");
+      expect(code).toContain(`  // ========================================
+  // STEP 2: Connect
+  // ========================================
+  await page.getByRole('button', { name: 'Connect' }).click()
+  await page.waitForTimeout(5000)`);
+      expect(lintSpec(code).map((f) => f.rule)).toEqual(['unknown-fixture', 'hardcoded-address']);
+
+      const validation = validateDappwrightStructure(spec);
+      expect(validation.valid).toBe(false);
+      expect(validation.errors.some((e) => e.line === 9 && e.message.includes('not awaited'))).toBe(true);
+    });
+  });
 });
 
 describe('Clarification', () => {
@@ -352,3 +1285,34 @@ describe('Example Loading', () => {
     }
   });
 });
+
+describe('Webhook URLs', () => {
+  it('should refuse URLs that are not http(s) or resolve to private addresses', async () => {
+    for (const url of ['http://127.0.0.1:3001/', 'http://169.254.169.254/latest', 'http://[::1]/', 'http://[::ffff:10.0.0.1]/', 'http://0x7f.1/', 'http://localhost/']) {
+      expect(await checkWebhookUrl(url)).toMatch(/private address/);
+    }
+    expect(await checkWebhookUrl('ftp://example.com/')).toMatch(/http or https/);
+    expect(await checkWebhookUrl('http://93.184.216.34/hook')).toBeNull();
+  });
+
+  it('should check the address it connects to and not follow redirects', async () => {
+    const server = createServer((req, res) => {
+      res.writeHead(302, { location: 'http://169.254.169.254/' }).end('internal details');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const options = { headers: { 'Content-Type': 'application/json' }, body: '{}', timeoutMs: 5000 };
+
+    try {
+      // Resolved while connecting, so a host can't pass a check and then answer privately
+      await expect(postWebhook(`http://localhost:${port}/hook`, options)).rejects.toThrow(/private address/);
+      await expect(postWebhook('http://10.0.0.5/hook', options)).rejects.toThrow(/private address/);
+
+      vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+      expect(await postWebhook(`http://localhost:${port}/hook`, options)).toBe(302);
+    } finally {
+      vi.unstubAllEnvs();
+      server.close();
+    }
+  });
+});